@@ -0,0 +1,126 @@
+/**
+ * Replay the recorded provider responses in scripts/fixtures/geocoding and
+ * check each case in cases.json against its expected coordinates and
+ * confidence (or against no match). Runs offline; exits with status 1 when
+ * a case differs, so provider changes can be checked before a real run.
+ *
+ * --record sends the cases to the live providers instead and saves their
+ * responses over the fixtures; differences are still reported, so the
+ * expected values can be updated from the output. Lantmäteriet needs
+ * LANTMATERIET_CONSUMER_KEY / LANTMATERIET_CONSUMER_SECRET to record.
+ *
+ * Usage:
+ *   npx tsx scripts/check-geocoding-fixtures.ts
+ *   npx tsx scripts/check-geocoding-fixtures.ts --record
+ */
+import "dotenv/config";
+import * as path from "path";
+import { readFileSync } from "fs";
+import {
+  createProvider,
+  loadGeocodingConfig,
+} from "../src/lib/geocoding/config";
+import { fixtureFetch } from "../src/lib/geocoding/fixtures";
+import type {
+  FacilityAddress,
+  QueryVariant,
+} from "../src/lib/geocoding/providers";
+
+const FIXTURES_DIR = path.join("scripts", "fixtures", "geocoding");
+
+// Recorded coordinates are rounded; about 10 cm
+const COORDINATE_TOLERANCE = 0.000001;
+
+interface FixtureCase {
+  name: string;
+  provider: string;
+  variant: QueryVariant;
+  address: FacilityAddress;
+  // Null when the provider should find nothing
+  expected: { latitude: number; longitude: number; confidence: number } | null;
+}
+
+async function checkCase(
+  fixtureCase: FixtureCase,
+  fetchImpl: typeof fetch,
+): Promise<string | null> {
+  const provider = createProvider(
+    fixtureCase.provider,
+    loadGeocodingConfig(),
+    fetchImpl,
+  );
+  if (!provider) return `${fixtureCase.provider} is not configured`;
+
+  const match = await provider.geocode(
+    fixtureCase.address,
+    fixtureCase.variant,
+  );
+  const { expected } = fixtureCase;
+  if (!expected || !match) {
+    if (!expected && !match) return null;
+    return expected
+      ? "expected a match, got none"
+      : `expected no match, got ${match!.latitude.toFixed(6)}, ${match!.longitude.toFixed(6)}`;
+  }
+
+  const problems: string[] = [];
+  if (
+    Math.abs(match.latitude - expected.latitude) > COORDINATE_TOLERANCE ||
+    Math.abs(match.longitude - expected.longitude) > COORDINATE_TOLERANCE
+  ) {
+    problems.push(
+      `at ${match.latitude.toFixed(6)}, ${match.longitude.toFixed(6)} (expected ${expected.latitude}, ${expected.longitude})`,
+    );
+  }
+  if (match.confidence !== expected.confidence) {
+    problems.push(
+      `confidence ${match.confidence} (expected ${expected.confidence})`,
+    );
+  }
+  return problems.length > 0 ? problems.join("; ") : null;
+}
+
+async function main() {
+  const record = process.argv.slice(2).includes("--record");
+  const cases = JSON.parse(
+    readFileSync(path.join(FIXTURES_DIR, "cases.json"), "utf8"),
+  ) as FixtureCase[];
+
+  // Replayed requests don't authenticate; the token response is a fixture
+  if (!record) {
+    process.env.LANTMATERIET_CONSUMER_KEY ||= "fixtures";
+    process.env.LANTMATERIET_CONSUMER_SECRET ||= "fixtures";
+  }
+  const fetchImpl = fixtureFetch(FIXTURES_DIR, record ? "record" : "replay");
+
+  console.log(
+    `🧪 Geocoding fixtures (${record ? "recording" : "replaying"} ${FIXTURES_DIR})`,
+  );
+  console.log("─".repeat(50));
+
+  let failed = 0;
+  for (const fixtureCase of cases) {
+    let problem: string | null;
+    try {
+      problem = await checkCase(fixtureCase, fetchImpl);
+    } catch (error) {
+      problem = error instanceof Error ? error.message : String(error);
+    }
+
+    if (problem) {
+      failed++;
+      console.log(`❌ ${fixtureCase.name}: ${problem}`);
+    } else {
+      console.log(`✅ ${fixtureCase.name}`);
+    }
+  }
+
+  console.log("─".repeat(50));
+  console.log(`${cases.length - failed}/${cases.length} cases passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("❌ Fixture check failed:", error);
+  process.exit(1);
+});
@@ -1,69 +1,160 @@
 /**
  * Batch geocoding script for facilities
  *
- * Uses:
- * - Kartverket API for Norway (free, authoritative)
- * - HERE API for Sweden/Denmark (30K free/month)
+ * Each country has an ordered provider chain in scripts/geocoding.json
+ * (by default the national address register first - Kartverket for Norway,
+ * Lantmäteriet for Sweden, DAWA for Denmark - then HERE, then Nominatim). Providers are tried in order, each with its query
+ * variants, until a result reaches minConfidence; otherwise the most
+ * confident result wins. The winning provider and variant are stored with
+ * the facility. See src/lib/geocoding for the providers and their
+ * confidence scale.
+ *
+ * Environment:
+ *   HERE_API_KEY - HERE is skipped without it
+ *   LANTMATERIET_CONSUMER_KEY, LANTMATERIET_CONSUMER_SECRET - Lantmäteriet
+ *     API credentials; skipped without them
+ *   NOMINATIM_URL - Nominatim-compatible endpoint, e.g. a local instance;
+ *     Nominatim is skipped without it (or a "url" in geocoding.json). OSM's
+ *     public instance forbids bulk use, so it is refused unless
+ *     --allow-public-nominatim is given
+ *
+ * Provider responses are cached in asset_map.geocode_cache, keyed on a hash
+ * of the normalised address, so re-runs don't spend HERE quota on addresses
+ * already looked up. Misses are cached too. Entries older than the TTL
+ * (--cache-ttl=<days>, default GEOCODE_CACHE_TTL_DAYS or 180) are ignored,
+ * and --refresh skips the cache and overwrites it.
+ *
+ * --provider=<name> runs a single provider instead of the chain (bypassing
+ * the cache, which doesn't say which provider answered). --record=<dir>
+ * saves every provider response as a fixture and --fixtures=<dir> replays
+ * them without network access; --address checks one address that way
+ * without touching the database. scripts/check-geocoding-fixtures.ts
+ * replays the committed fixture set against its expected results.
+ *
+ * Normal runs skip facilities that already failed. --retry-failed takes
+ * only those and tries rewritten queries (see src/lib/geocoding/retry.ts):
+ * the postal code in the country's format, the address without apartment
+ * or entrance, and the facility name without housing association prefixes,
+ * then the postal code centroid at low confidence. Every attempt is
+ * printed, and the strategy that worked is stored with the facility.
+ *
+ * --worker runs in the background instead, processing the jobs queued
+ * through POST /api/jobs/geocode one facility at a time. Each facility is
+ * leased to the worker, so a worker that crashes or is stopped leaves its
+ * facility to be picked up again once the lease runs out; start it under
+ * a process supervisor and it resumes where it stopped. Provider request
+ * slots are reserved in the database, so each provider's delayMs holds
+ * across every running worker. Provider errors put the facility back in
+ * the queue with a backoff, up to three attempts. --once exits when the
+ * queue is empty instead of polling.
+ *
+ * Usage:
+ *   npx tsx scripts/geocode.ts --country=Norway --limit=100
+ *   npx tsx scripts/geocode.ts --dry-run                       # Facilities untouched (the cache is still filled)
+ *   npx tsx scripts/geocode.ts --refresh                       # Bypass the cache
+ *   npx tsx scripts/geocode.ts --retry-failed --country=Sweden --dry-run
+ *   npx tsx scripts/geocode.ts --worker                        # Process queued jobs until stopped
+ *   npx tsx scripts/geocode.ts --worker --once                 # Drain the queue, then exit
+ *   npx tsx scripts/geocode.ts --cache-stats                   # Cache size, hits, age
+ *   npx tsx scripts/geocode.ts --purge-cache [--older-than=90] [--provider=here] [--misses-only]
+ *   npx tsx scripts/geocode.ts --country=Denmark --provider=dawa --dry-run
+ *   npx tsx scripts/geocode.ts --address="Drottninggatan 1" --postal-code="111 51" --city=Stockholm --country=Sweden --provider=lantmateriet --record=scripts/fixtures/geocoding
+ *   npx tsx scripts/geocode.ts --address="Drottninggatan 1" --postal-code="111 51" --city=Stockholm --country=Sweden --provider=lantmateriet --fixtures=scripts/fixtures/geocoding
  */
 import "dotenv/config";
+import { createHash } from "crypto";
+import { hostname } from "os";
+import {
+  geocodeWithChain,
+  type GeocodeAttempt,
+  type GeocodeResult,
+  type Throttle,
+} from "../src/lib/geocoding/chain";
+import {
+  chainFor,
+  createProvider,
+  loadGeocodingConfig,
+  usesPublicNominatim,
+} from "../src/lib/geocoding/config";
+import { fixtureFetch } from "../src/lib/geocoding/fixtures";
+import type {
+  FacilityAddress,
+  GeocodeProvider,
+  QueryVariant,
+} from "../src/lib/geocoding/providers";
+import {
+  POSTAL_CENTROID_CONFIDENCE,
+  correctedAddress,
+  retryVariants,
+  type RetryStrategy,
+} from "../src/lib/geocoding/retry";
 
 const SUPABASE_URL =
   process.env.SUPABASE_CLOUD_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_KEY =
   process.env.SUPABASE_CLOUD_SERVICE_KEY ||
   process.env.SUPABASE_SERVICE_ROLE_KEY;
-const HERE_API_KEY = process.env.HERE_API_KEY;
 
-// Rate limiting
-const KARTVERKET_DELAY = 200; // 5 req/s to be polite
-const HERE_DELAY = 250; // 4 req/s (under 5 req/s limit)
+// Cached responses older than this are looked up again
+const DEFAULT_CACHE_TTL_DAYS = parseInt(
+  process.env.GEOCODE_CACHE_TTL_DAYS || "180",
+  10,
+);
+
+// Background worker (--worker)
+const WORKER_POLL_MS = 5000;
+// A facility not finished within this is handed to another worker
+const JOB_LEASE_SECONDS = 300;
+const JOB_MAX_ATTEMPTS = 3;
+// Backoff after provider errors, multiplied by the attempt number
+const JOB_RETRY_AFTER_SECONDS = 60;
 
 interface FacilityToGeocode {
   id: string;
   name: string;
-  address: string;
-  city: string;
-  postal_code: string;
+  // Only failed facilities, in retry runs, can lack an address
+  address: string | null;
+  city: string | null;
+  postal_code: string | null;
   country: string;
 }
 
-interface GeocodeResult {
+interface CachedGeocode {
+  latitude: number | null;
+  longitude: number | null;
+  provider: string | null;
+  query_variant: GeocodeResult["variant"] | null;
+  confidence: number | null;
+  created_at: string;
+}
+
+// Row of asset_map_get_postal_centroids
+interface PostalCentroid {
+  country: string;
+  postal_code: string;
   latitude: number;
   longitude: number;
-  confidence: number;
-  provider: string;
+  facility_count: number;
 }
 
-interface KartverketResult {
-  adresser: Array<{
-    representasjonspunkt: {
-      lat: number;
-      lon: number;
-    };
-    adressetekst: string;
-    postnummer: string;
-    poststed: string;
-  }>;
+// Row of asset_map_claim_geocode_item
+interface ClaimedJobItem extends FacilityToGeocode {
+  job_id: string;
+  retry_failed: boolean;
+  attempts: number;
 }
 
-interface HereResult {
-  items: Array<{
-    position: {
-      lat: number;
-      lng: number;
-    };
-    scoring: {
-      queryScore: number;
-    };
-    address: {
-      label: string;
-    };
-  }>;
+interface GeocodeCacheStats {
+  entries: number;
+  found: number;
+  not_found: number;
+  expired: number;
+  total_hits: number;
+  oldest: string | null;
+  newest: string | null;
+  by_provider: Record<string, number> | null;
 }
 
-// Sleep helper
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
 // RPC helper
 async function rpc<T>(
   fn: string,
@@ -94,126 +185,206 @@ async function rpc<T>(
   return resp.json() as Promise<T>;
 }
 
-// Kartverket geocoder for Norway
-async function geocodeKartverket(
-  facility: FacilityToGeocode,
-): Promise<GeocodeResult | null> {
-  // Build search query: address + postal code
-  const searchQuery = `${facility.address} ${facility.postal_code}`.trim();
-
-  const url = new URL("https://ws.geonorge.no/adresser/v1/sok");
-  url.searchParams.set("sok", searchQuery);
-  url.searchParams.set("treffPerSide", "5");
-  url.searchParams.set("utkoordsys", "4258"); // WGS84
-
-  try {
-    const resp = await fetch(url.toString());
-    if (!resp.ok) {
-      console.error(`   Kartverket error: ${resp.status}`);
-      return null;
-    }
-
-    const data = (await resp.json()) as KartverketResult;
-
-    if (data.adresser && data.adresser.length > 0) {
-      const best = data.adresser[0];
-      // Calculate confidence based on postal code match
-      const postalMatch = best.postnummer === facility.postal_code;
-      const confidence = postalMatch ? 0.95 : 0.75;
-
-      return {
-        latitude: best.representasjonspunkt.lat,
-        longitude: best.representasjonspunkt.lon,
-        confidence,
-        provider: "kartverket",
-      };
-    }
+const config = loadGeocodingConfig();
+const chains = new Map<string, ReturnType<typeof chainForCountry>>();
 
-    // Fallback: try with just city name
-    url.searchParams.set("sok", `${facility.address} ${facility.city}`);
-    const resp2 = await fetch(url.toString());
-    if (resp2.ok) {
-      const data2 = (await resp2.json()) as KartverketResult;
-      if (data2.adresser && data2.adresser.length > 0) {
-        const best = data2.adresser[0];
-        return {
-          latitude: best.representasjonspunkt.lat,
-          longitude: best.representasjonspunkt.lon,
-          confidence: 0.6,
-          provider: "kartverket",
-        };
-      }
-    }
+interface ChainOptions {
+  // Single provider to use instead of the country's chain
+  provider: string | null;
+  // Replaces the network for providers (fixtures)
+  fetch?: typeof fetch;
+  // Replaces the in-process request spacing (worker)
+  throttle?: Throttle;
+}
 
-    return null;
-  } catch (err) {
-    console.error(`   Kartverket exception: ${err}`);
-    return null;
+const chainOptions: ChainOptions = { provider: null };
+
+// Provider chain for a country, built once per country
+function chainForCountry(country: string): {
+  chain: GeocodeProvider[];
+  unavailable: string[];
+} {
+  if (chainOptions.provider) {
+    const provider = createProvider(
+      chainOptions.provider,
+      config,
+      chainOptions.fetch,
+    );
+    return provider
+      ? { chain: [provider], unavailable: [] }
+      : { chain: [], unavailable: [chainOptions.provider] };
   }
+  return chainFor(country, config, chainOptions.fetch);
 }
 
-// HERE geocoder for Sweden/Denmark
-async function geocodeHere(
+function chainForFacility(
   facility: FacilityToGeocode,
-): Promise<GeocodeResult | null> {
-  if (!HERE_API_KEY) {
-    console.error("   HERE_API_KEY not set");
-    return null;
+): ReturnType<typeof chainForCountry> {
+  let chain = chains.get(facility.country);
+  if (!chain) {
+    chain = chainForCountry(facility.country);
+    chains.set(facility.country, chain);
   }
+  return chain;
+}
 
-  // Build full address
-  const addressParts = [
+// Address as sent to the providers, normalised so spacing, case and
+// punctuation differences share a cache entry
+function normalizeAddress(facility: FacilityToGeocode): string {
+  return [
     facility.address,
     facility.postal_code,
     facility.city,
     facility.country,
-  ].filter(Boolean);
+  ]
+    .map((part) =>
+      (part ?? "")
+        .normalize("NFKC")
+        .toLowerCase()
+        .replace(/[.,;:]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim(),
+    )
+    .join("|");
+}
 
-  const url = new URL("https://geocode.search.hereapi.com/v1/geocode");
-  url.searchParams.set("q", addressParts.join(", "));
-  url.searchParams.set("apiKey", HERE_API_KEY);
+function addressHash(normalized: string): string {
+  return createHash("sha256").update(normalized).digest("hex");
+}
 
-  try {
-    const resp = await fetch(url.toString());
-    if (!resp.ok) {
-      console.error(`   HERE error: ${resp.status}`);
-      return null;
-    }
+interface CacheOptions {
+  ttlDays: number;
+  // Skip the lookup and overwrite the entry
+  refresh: boolean;
+  // Neither read nor write the cache
+  bypass: boolean;
+}
 
-    const data = (await resp.json()) as HereResult;
+interface CacheCounts {
+  hits: number;
+  misses: number;
+}
 
-    if (data.items && data.items.length > 0) {
-      const best = data.items[0];
-      return {
-        latitude: best.position.lat,
-        longitude: best.position.lng,
-        confidence: best.scoring?.queryScore || 0.7,
-        provider: "here",
-      };
+/**
+ * Geocode through the cache: a fresh cache entry (found or not) is used
+ * as-is, otherwise the provider chain is tried and its answer stored. A
+ * miss is not stored when a provider was skipped or errored.
+ * `fromCache` tells the caller no provider request was made.
+ */
+async function geocodeWithCache(
+  facility: FacilityToGeocode,
+  options: CacheOptions,
+  counts: CacheCounts,
+  onAttempt?: (attempt: GeocodeAttempt) => void,
+): Promise<{ result: GeocodeResult | null; fromCache: boolean }> {
+  const normalized = normalizeAddress(facility);
+  const hash = addressHash(normalized);
+
+  if (!options.refresh && !options.bypass) {
+    const [cached] = await rpc<CachedGeocode[]>("asset_map_get_geocode_cache", {
+      p_address_hash: hash,
+      p_max_age_days: options.ttlDays,
+    });
+    if (cached) {
+      counts.hits++;
+      const result: GeocodeResult | null =
+        cached.latitude !== null && cached.longitude !== null
+          ? {
+              latitude: Number(cached.latitude),
+              longitude: Number(cached.longitude),
+              confidence: Number(cached.confidence ?? 0),
+              provider: cached.provider ?? "unknown",
+              variant: cached.query_variant ?? "full",
+              label: null,
+              raw_response: null,
+            }
+          : null;
+      return { result, fromCache: true };
     }
+  }
 
-    return null;
-  } catch (err) {
-    console.error(`   HERE exception: ${err}`);
-    return null;
+  counts.misses++;
+  const { chain, unavailable } = chainForFacility(facility);
+  let providerFailed = false;
+  const result = await geocodeWithChain(facility, chain, {
+    minConfidence: config.minConfidence,
+    onAttempt: (attempt) => {
+      if (attempt.error) providerFailed = true;
+      onAttempt?.(attempt);
+    },
+    throttle: chainOptions.throttle,
+  });
+  if (options.bypass) return { result, fromCache: false };
+  // A later run must still ask the provider that was skipped or failed
+  if (!result && (unavailable.length > 0 || providerFailed)) {
+    return { result, fromCache: false };
   }
+
+  await rpc("asset_map_put_geocode_cache", {
+    p_address_hash: hash,
+    p_original_address: normalized,
+    p_latitude: result?.latitude ?? null,
+    p_longitude: result?.longitude ?? null,
+    p_provider: result?.provider ?? null,
+    p_confidence: result?.confidence ?? null,
+    p_raw_response: result?.raw_response ?? null,
+    p_query_variant: result?.variant ?? null,
+  });
+  return { result, fromCache: false };
 }
 
-// Main geocoding function
-async function geocodeFacility(
-  facility: FacilityToGeocode,
-): Promise<GeocodeResult | null> {
-  if (facility.country === "Norway") {
-    return geocodeKartverket(facility);
-  } else {
-    return geocodeHere(facility);
+async function printCacheStats(ttlDays: number) {
+  const stats = await rpc<GeocodeCacheStats>(
+    "asset_map_get_geocode_cache_stats",
+    { p_max_age_days: ttlDays },
+  );
+
+  console.log("🗄️  Geocode Cache");
+  console.log("─".repeat(50));
+  console.log(`   Entries:   ${stats.entries.toLocaleString()}`);
+  console.log(`   Found:     ${stats.found.toLocaleString()}`);
+  console.log(`   Not found: ${stats.not_found.toLocaleString()}`);
+  console.log(
+    `   Expired:   ${stats.expired.toLocaleString()} (older than ${ttlDays} days)`,
+  );
+  console.log(`   Hits:      ${stats.total_hits.toLocaleString()}`);
+  if (stats.oldest && stats.newest) {
+    console.log(`   Oldest:    ${new Date(stats.oldest).toLocaleString()}`);
+    console.log(`   Newest:    ${new Date(stats.newest).toLocaleString()}`);
   }
+  if (stats.by_provider) {
+    console.log("\n   By provider:");
+    for (const [provider, count] of Object.entries(stats.by_provider)) {
+      console.log(`     ${provider}: ${count.toLocaleString()}`);
+    }
+  }
+}
+
+async function purgeCache(options: {
+  olderThanDays: number | null;
+  provider: string | null;
+  missesOnly: boolean;
+}) {
+  const deleted = await rpc<number>("asset_map_purge_geocode_cache", {
+    p_older_than_days: options.olderThanDays,
+    p_provider: options.provider,
+    p_misses_only: options.missesOnly,
+  });
+  console.log(`🗑️  Purged ${deleted.toLocaleString()} geocode cache entries`);
 }
 
-// Update facility with geocode result
+// Update facility with geocode result; `strategy` is the retry rewrite
+// that found it
 async function updateFacilityGeocode(
   facilityId: string,
-  result: GeocodeResult,
+  result: {
+    latitude: number;
+    longitude: number;
+    confidence: number;
+    provider: string | null;
+    variant: QueryVariant | null;
+  },
+  strategy: RetryStrategy | null = null,
 ): Promise<void> {
   await rpc("asset_map_update_facility_geocode", {
     p_facility_id: facilityId,
@@ -221,6 +392,9 @@ async function updateFacilityGeocode(
     p_longitude: result.longitude,
     p_geocode_status: "success",
     p_geocode_confidence: result.confidence,
+    p_geocode_provider: result.provider,
+    p_geocode_query_variant: result.variant,
+    p_geocode_strategy: strategy,
   });
 }
 
@@ -235,6 +409,350 @@ async function markFacilityFailed(facilityId: string): Promise<void> {
   });
 }
 
+// One provider attempt as a log line
+function formatAttempt(attempt: GeocodeAttempt, indent = "   "): string {
+  return `${indent}${`${attempt.provider}/${attempt.variant}`.padEnd(28)} ${
+    attempt.error
+      ? `❌ ${attempt.error}`
+      : attempt.confidence === null
+        ? "no match"
+        : `${(attempt.confidence * 100).toFixed(0)}%`
+  }`;
+}
+
+// Geocode one address and print every provider attempt, without the
+// database (for checking providers and fixtures)
+async function geocodeSingleAddress(address: FacilityAddress) {
+  const { chain, unavailable } = chainForCountry(address.country);
+  if (unavailable.length > 0) {
+    console.warn(`⚠️  Skipping ${unavailable.join(", ")} (not configured)`);
+  }
+
+  console.log(
+    `🔎 ${[address.address, address.postal_code, address.city, address.country].filter(Boolean).join(", ")}`,
+  );
+  console.log("─".repeat(50));
+
+  const result = await geocodeWithChain(address, chain, {
+    minConfidence: config.minConfidence,
+    onAttempt: (attempt) => console.log(formatAttempt(attempt)),
+  });
+
+  console.log("─".repeat(50));
+  if (result) {
+    console.log(
+      `✅ ${result.latitude.toFixed(6)}, ${result.longitude.toFixed(6)} (${result.provider}/${result.variant}, ${(result.confidence * 100).toFixed(0)}%)`,
+    );
+    if (result.label) console.log(`   ${result.label}`);
+  } else {
+    console.log("❌ No result");
+  }
+}
+
+const postalCentroids = new Map<string, Map<string, PostalCentroid>>();
+
+// Centroid of the confidently placed facilities in the address's postal
+// code, loaded once per country
+async function postalCentroid(
+  address: FacilityAddress,
+): Promise<PostalCentroid | null> {
+  const postalCode = correctedAddress(address).postal_code?.replace(/\s/g, "");
+  if (!postalCode) return null;
+
+  let byCode = postalCentroids.get(address.country);
+  if (!byCode) {
+    const rows = await rpc<PostalCentroid[]>("asset_map_get_postal_centroids", {
+      p_countries: [address.country],
+    });
+    byCode = new Map(rows.map((row) => [row.postal_code, row]));
+    postalCentroids.set(address.country, byCode);
+  }
+  return byCode.get(postalCode) ?? null;
+}
+
+interface RetryResult {
+  result: Parameters<typeof updateFacilityGeocode>[1];
+  strategy: RetryStrategy;
+}
+
+// Retry a failed facility with each rewritten query, printing every
+// attempt. The first confident result wins, else the most confident one;
+// the postal code centroid is used only when nothing matched at all.
+// Throws the last provider error when every query errored, so an outage
+// isn't recorded as a miss.
+async function retryFacility(
+  facility: FacilityToGeocode,
+  cacheOptions: CacheOptions,
+  counts: CacheCounts,
+): Promise<RetryResult | null> {
+  let best: { result: GeocodeResult; strategy: RetryStrategy } | null = null;
+  const variants = retryVariants(facility);
+  let lastError: unknown = null;
+  let errors = 0;
+
+  for (const { strategy, address } of variants) {
+    console.log(
+      `   ${strategy}: ${[address.address, address.postal_code, address.city].filter(Boolean).join(", ")}`,
+    );
+
+    let result: GeocodeResult | null;
+    try {
+      let fromCache: boolean;
+      ({ result, fromCache } = await geocodeWithCache(
+        { ...facility, ...address },
+        cacheOptions,
+        counts,
+        (attempt) => console.log(formatAttempt(attempt, "     ")),
+      ));
+      if (fromCache) {
+        console.log(
+          `     ${"cached".padEnd(28)} ${result ? `${(result.confidence * 100).toFixed(0)}% (${result.provider}/${result.variant})` : "no match"}`,
+        );
+      }
+    } catch (err) {
+      console.log(`     ❌ ${err instanceof Error ? err.message : err}`);
+      lastError = err;
+      errors++;
+      continue;
+    }
+
+    if (result && (!best || result.confidence > best.result.confidence)) {
+      best = { result, strategy };
+    }
+    if (best && best.result.confidence >= config.minConfidence) return best;
+  }
+  if (best) return best;
+  if (errors > 0 && errors === variants.length) throw lastError;
+
+  const centroid = await postalCentroid(facility);
+  console.log(
+    `   postal_centroid: ${centroid ? `${centroid.postal_code}, from ${centroid.facility_count} placed facilities` : "no placed facilities in the postal code"}`,
+  );
+  if (!centroid) return null;
+
+  return {
+    strategy: "postal_centroid",
+    result: {
+      latitude: centroid.latitude,
+      longitude: centroid.longitude,
+      confidence: POSTAL_CENTROID_CONFIDENCE,
+      provider: null,
+      variant: null,
+    },
+  };
+}
+
+async function retryFailedFacilities(
+  facilities: FacilityToGeocode[],
+  cacheOptions: CacheOptions,
+  dryRun: boolean,
+) {
+  let placed = 0;
+  const cacheCounts: CacheCounts = { hits: 0, misses: 0 };
+  const strategies = new Map<RetryStrategy, number>();
+
+  for (let i = 0; i < facilities.length; i++) {
+    const facility = facilities[i];
+    console.log(`\n[${i + 1}/${facilities.length}] ${facility.name}`);
+
+    let retry: RetryResult | null;
+    try {
+      retry = await retryFacility(facility, cacheOptions, cacheCounts);
+    } catch (err) {
+      console.log(`   ❌ ${err instanceof Error ? err.message : err}`);
+      continue;
+    }
+    if (!retry) {
+      console.log("   ❌ Still not found");
+      continue;
+    }
+
+    if (!dryRun) {
+      await updateFacilityGeocode(facility.id, retry.result, retry.strategy);
+    }
+    const { result } = retry;
+    console.log(
+      `   ✅ ${result.latitude.toFixed(5)}, ${result.longitude.toFixed(5)} via ${retry.strategy} (${result.provider ? `${result.provider}/${result.variant}, ` : ""}${(result.confidence * 100).toFixed(0)}%)`,
+    );
+    placed++;
+    strategies.set(retry.strategy, (strategies.get(retry.strategy) ?? 0) + 1);
+  }
+
+  console.log("\n" + "─".repeat(50));
+  console.log("📊 Summary");
+  console.log(`   Placed:  ${placed} of ${facilities.length}`);
+  console.log(
+    `   Cache:   ${cacheCounts.hits} hits, ${cacheCounts.misses} misses (provider requests)`,
+  );
+  if (strategies.size > 0) {
+    console.log("   By strategy:");
+    for (const [strategy, count] of [...strategies].sort(
+      (a, b) => b[1] - a[1],
+    )) {
+      console.log(`     ${strategy}: ${count}`);
+    }
+  }
+  console.log("✅ Retry complete!");
+}
+
+// Provider spacing shared by every worker: the next slot is reserved in
+// the database, then waited for here
+async function reserveProviderSlot(provider: GeocodeProvider) {
+  const wait = await rpc<number>("asset_map_reserve_provider_slot", {
+    p_provider: provider.name,
+    p_interval_ms: provider.delayMs,
+  });
+  if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+}
+
+type JobItemOutcome =
+  | { status: "placed" | "not_found" }
+  | { status: "retry" | "error"; error: string };
+
+// Provider errors put the item back in the queue until it has used up its
+// attempts
+function providerErrorOutcome(
+  item: ClaimedJobItem,
+  err: unknown,
+): Extract<JobItemOutcome, { error: string }> {
+  const error = err instanceof Error ? err.message : String(err);
+  return {
+    status: item.attempts >= JOB_MAX_ATTEMPTS ? "error" : "retry",
+    error,
+  };
+}
+
+// Geocode one leased facility and store the result, as a normal or
+// --retry-failed run would
+async function processJobItem(
+  item: ClaimedJobItem,
+  cacheOptions: CacheOptions,
+  counts: CacheCounts,
+): Promise<JobItemOutcome> {
+  if (item.retry_failed) {
+    console.log(`\n[job ${item.job_id.slice(0, 8)}] ${item.name}`);
+    let retry: RetryResult | null;
+    try {
+      retry = await retryFacility(item, cacheOptions, counts);
+    } catch (err) {
+      const outcome = providerErrorOutcome(item, err);
+      console.log(
+        `   ❌ ${outcome.error}${outcome.status === "retry" ? " (will retry)" : ""}`,
+      );
+      return outcome;
+    }
+    if (!retry) {
+      console.log("   ❌ Still not found");
+      return { status: "not_found" };
+    }
+    await updateFacilityGeocode(item.id, retry.result, retry.strategy);
+    console.log(
+      `   ✅ ${retry.result.latitude.toFixed(5)}, ${retry.result.longitude.toFixed(5)} via ${retry.strategy}`,
+    );
+    return { status: "placed" };
+  }
+
+  process.stdout.write(
+    `[job ${item.job_id.slice(0, 8)}] ${item.name.slice(0, 40).padEnd(40)} ... `,
+  );
+  let result: GeocodeResult | null;
+  try {
+    ({ result } = await geocodeWithCache(item, cacheOptions, counts));
+  } catch (err) {
+    const outcome = providerErrorOutcome(item, err);
+    console.log(
+      `❌ ${outcome.error}${outcome.status === "retry" ? " (will retry)" : ""}`,
+    );
+    return outcome;
+  }
+
+  if (!result) {
+    await markFacilityFailed(item.id);
+    console.log("❌ No result");
+    return { status: "not_found" };
+  }
+  await updateFacilityGeocode(item.id, result);
+  console.log(
+    `✅ ${result.latitude.toFixed(5)}, ${result.longitude.toFixed(5)} (${result.provider}/${result.variant}, ${(result.confidence * 100).toFixed(0)}%)`,
+  );
+  return { status: "placed" };
+}
+
+// Process queued job items until stopped (or, with `once`, until the
+// queue is empty). SIGINT/SIGTERM finish the current facility first.
+async function runWorker(cacheOptions: CacheOptions, once: boolean) {
+  const worker = `${hostname()}:${process.pid}`;
+  chainOptions.throttle = reserveProviderSlot;
+
+  let stopping = false;
+  const stop = () => {
+    if (stopping) process.exit(1);
+    stopping = true;
+    console.log("\n⏹️  Stopping after the current facility (again to quit now)");
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log("🛠️  Geocoding Worker");
+  console.log("─".repeat(50));
+  console.log(`   Worker: ${worker}`);
+  console.log(`   Lease: ${JOB_LEASE_SECONDS}s, ${JOB_MAX_ATTEMPTS} attempts`);
+  console.log(`   Mode: ${once ? "drain the queue, then exit" : "poll"}\n`);
+
+  const counts: CacheCounts = { hits: 0, misses: 0 };
+  let processed = 0;
+
+  while (!stopping) {
+    let item: ClaimedJobItem | undefined;
+    try {
+      [item] = await rpc<ClaimedJobItem[]>("asset_map_claim_geocode_item", {
+        p_worker: worker,
+        p_lease_seconds: JOB_LEASE_SECONDS,
+        p_max_attempts: JOB_MAX_ATTEMPTS,
+      });
+    } catch (err) {
+      console.error(`⚠️  ${err instanceof Error ? err.message : err}`);
+    }
+
+    if (!item) {
+      if (once) break;
+      await new Promise((r) => setTimeout(r, WORKER_POLL_MS));
+      continue;
+    }
+
+    let outcome: JobItemOutcome;
+    try {
+      outcome = await processJobItem(item, cacheOptions, counts);
+    } catch (err) {
+      // Storing the result failed; try the facility again later
+      const error = err instanceof Error ? err.message : String(err);
+      console.log(`❌ ${error}`);
+      outcome = { status: "retry", error };
+    }
+
+    try {
+      await rpc("asset_map_finish_geocode_item", {
+        p_job_id: item.job_id,
+        p_facility_id: item.id,
+        p_worker: worker,
+        p_status: outcome.status,
+        p_error: "error" in outcome ? outcome.error : null,
+        p_retry_after_seconds: JOB_RETRY_AFTER_SECONDS * item.attempts,
+      });
+    } catch (err) {
+      // The lease runs out and the facility is picked up again
+      console.error(`⚠️  ${err instanceof Error ? err.message : err}`);
+    }
+    processed++;
+  }
+
+  console.log("\n" + "─".repeat(50));
+  console.log(`📊 Processed ${processed} facilities`);
+  console.log(
+    `   Cache: ${counts.hits} hits, ${counts.misses} misses (provider requests)`,
+  );
+}
+
 // Main execution
 async function main() {
   const args = process.argv.slice(2);
@@ -242,15 +760,103 @@ async function main() {
   const limitArg = args.find((a) => a.startsWith("--limit="));
   const limit = limitArg ? parseInt(limitArg.split("=")[1], 10) : 100;
   const dryRun = args.includes("--dry-run");
+  const retryFailed = args.includes("--retry-failed");
+  const ttlArg = args.find((a) => a.startsWith("--cache-ttl="));
+  const cacheOptions: CacheOptions = {
+    ttlDays: ttlArg
+      ? parseInt(ttlArg.split("=")[1], 10)
+      : DEFAULT_CACHE_TTL_DAYS,
+    refresh: args.includes("--refresh"),
+    bypass: false,
+  };
+
+  if (args.includes("--cache-stats")) {
+    await printCacheStats(cacheOptions.ttlDays);
+    return;
+  }
+  if (args.includes("--purge-cache")) {
+    const olderThanArg = args.find((a) => a.startsWith("--older-than="));
+    await purgeCache({
+      olderThanDays: olderThanArg
+        ? parseInt(olderThanArg.split("=")[1], 10)
+        : null,
+      provider:
+        args.find((a) => a.startsWith("--provider="))?.split("=")[1] ?? null,
+      missesOnly: args.includes("--misses-only"),
+    });
+    return;
+  }
+
+  chainOptions.provider =
+    args.find((a) => a.startsWith("--provider="))?.split("=")[1] ?? null;
+  cacheOptions.bypass = chainOptions.provider !== null;
+  const fixturesDir = args.find((a) => a.startsWith("--fixtures="))?.split("=")[1];
+  const recordDir = args.find((a) => a.startsWith("--record="))?.split("=")[1];
+  if (fixturesDir) chainOptions.fetch = fixtureFetch(fixturesDir, "replay");
+  else if (recordDir) chainOptions.fetch = fixtureFetch(recordDir, "record");
+
+  if (
+    !fixturesDir &&
+    (chainOptions.provider === null || chainOptions.provider === "nominatim") &&
+    usesPublicNominatim(config) &&
+    !args.includes("--allow-public-nominatim")
+  ) {
+    console.error(
+      "❌ Nominatim points at the public OSM instance, which forbids bulk geocoding. Set NOMINATIM_URL to your own instance, or pass --allow-public-nominatim",
+    );
+    process.exit(1);
+  }
+
+  if (args.includes("--worker")) {
+    await runWorker(cacheOptions, args.includes("--once"));
+    return;
+  }
+
+  const addressArg = args.find((a) => a.startsWith("--address="));
+  if (addressArg) {
+    if (!countryFilter) {
+      console.error("❌ --address needs --country=<country>");
+      process.exit(1);
+    }
+    await geocodeSingleAddress({
+      address: addressArg.slice("--address=".length),
+      postal_code:
+        args.find((a) => a.startsWith("--postal-code="))?.split("=")[1] ??
+        null,
+      city: args.find((a) => a.startsWith("--city="))?.split("=")[1] ?? null,
+      country: countryFilter,
+    });
+    return;
+  }
 
   console.log("🌍 Geocoding Pipeline");
   console.log("─".repeat(50));
   console.log(`   Country filter: ${countryFilter || "all"}`);
   console.log(`   Limit: ${limit}`);
   console.log(`   Dry run: ${dryRun}`);
+  if (retryFailed) console.log("   Mode: retry failed facilities");
+  console.log(
+    `   Cache: ${cacheOptions.bypass ? "bypassed" : cacheOptions.refresh ? "refresh" : `${cacheOptions.ttlDays} day TTL`}`,
+  );
+  if (fixturesDir || recordDir) {
+    console.log(
+      `   Fixtures: ${fixturesDir ? `replay from ${fixturesDir}` : `recording to ${recordDir}`}`,
+    );
+  }
 
-  if (!HERE_API_KEY && (!countryFilter || countryFilter !== "Norway")) {
-    console.warn("⚠️  HERE_API_KEY not set - Sweden/Denmark geocoding will fail");
+  const countries = countryFilter
+    ? [countryFilter]
+    : Object.keys(config.chains).filter((c) => c !== "default");
+  for (const country of countries) {
+    const { chain, unavailable } = chainForCountry(country);
+    console.log(
+      `   ${country}: ${chain.map((p) => p.name).join(" → ") || "no providers"}`,
+    );
+    if (unavailable.length > 0) {
+      console.warn(
+        `⚠️  Skipping ${unavailable.join(", ")} for ${country} (not configured, e.g. HERE_API_KEY)`,
+      );
+    }
   }
 
   // Fetch facilities needing geocoding
@@ -259,6 +865,7 @@ async function main() {
     {
       p_country: countryFilter || null,
       p_limit: limit,
+      p_failed_only: retryFailed,
     },
   );
 
@@ -269,8 +876,15 @@ async function main() {
     return;
   }
 
+  if (retryFailed) {
+    await retryFailedFacilities(facilities, cacheOptions, dryRun);
+    return;
+  }
+
   let success = 0;
   let failed = 0;
+  const cacheCounts: CacheCounts = { hits: 0, misses: 0 };
+  const winners = new Map<string, number>();
 
   for (let i = 0; i < facilities.length; i++) {
     const facility = facilities[i];
@@ -280,33 +894,53 @@ async function main() {
       `${progress} ${facility.name.slice(0, 40).padEnd(40)} ... `,
     );
 
-    const result = await geocodeFacility(facility);
+    let result: GeocodeResult | null;
+    let fromCache = false;
+    try {
+      ({ result, fromCache } = await geocodeWithCache(
+        facility,
+        cacheOptions,
+        cacheCounts,
+      ));
+    } catch (err) {
+      // Provider errors aren't cached; the facility is retried next run
+      console.log(`❌ ${err instanceof Error ? err.message : err}`);
+      failed++;
+      continue;
+    }
 
     if (result) {
       if (!dryRun) {
         await updateFacilityGeocode(facility.id, result);
       }
       console.log(
-        `✅ ${result.latitude.toFixed(5)}, ${result.longitude.toFixed(5)} (${result.provider}, ${(result.confidence * 100).toFixed(0)}%)`,
+        `✅ ${result.latitude.toFixed(5)}, ${result.longitude.toFixed(5)} (${result.provider}/${result.variant}, ${(result.confidence * 100).toFixed(0)}%${fromCache ? ", cached" : ""})`,
       );
       success++;
+      const winner = `${result.provider}/${result.variant}`;
+      winners.set(winner, (winners.get(winner) ?? 0) + 1);
     } else {
       if (!dryRun) {
         await markFacilityFailed(facility.id);
       }
-      console.log("❌ No result");
+      console.log(`❌ No result${fromCache ? " (cached)" : ""}`);
       failed++;
     }
-
-    // Rate limiting
-    const delay = facility.country === "Norway" ? KARTVERKET_DELAY : HERE_DELAY;
-    await sleep(delay);
   }
 
   console.log("\n" + "─".repeat(50));
   console.log("📊 Summary");
   console.log(`   Success: ${success} (${((success / facilities.length) * 100).toFixed(1)}%)`);
   console.log(`   Failed:  ${failed}`);
+  console.log(
+    `   Cache:   ${cacheCounts.hits} hits, ${cacheCounts.misses} misses (provider requests)`,
+  );
+  if (winners.size > 0) {
+    console.log("   Found by:");
+    for (const [winner, count] of [...winners].sort((a, b) => b[1] - a[1])) {
+      console.log(`     ${winner}: ${count}`);
+    }
+  }
   console.log("✅ Geocoding complete!");
 }
 
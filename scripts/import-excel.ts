@@ -1,36 +1,94 @@
 /**
  * Import Excel data into Supabase
  *
- * Parses the Asset Register Excel file and imports:
- * 1. Facilities (unique facility names with aggregated charger counts)
- * 2. Chargers (individual charger records)
+ * Parses the Asset Register Excel file and syncs it with the database,
+ * keyed on charger serial number. Safe to re-run with each month's register:
+ * 1. Reads the current chargers and diffs them against the register
+ *    (new, changed field-by-field, moved between facilities, removed)
+ * 2. Applies the whole diff in one transaction (apply_charger_sync)
+ * 3. Prints a summary of what changed
+ *
+ * Chargers are only treated as removed within the countries present in the
+ * register, so a single-country sheet leaves the other countries alone.
+ *
+ * Every run first validates the sheet (dates, enum values, duplicate serials,
+ * "Chargers" counts, missing countries). Errors stop the import; --validate
+ * writes the full report next to the file as <name>.validation.json and an
+ * annotated <name>.validation.xlsx without touching the database.
+ *
+ * Sources with other headers, sheets, CSV delimiters, date formats or value
+ * spellings are read through a mapping profile from scripts/import-profiles
+ * (JSON or YAML), chosen with --profile=<name> or --profile=<path>.
  *
  * Usage:
  *   npx tsx scripts/import-excel.ts /path/to/data.xlsx
+ *   npx tsx scripts/import-excel.ts /path/to/data.csv --profile=sweden
+ *   npx tsx scripts/import-excel.ts /path/to/data.xlsx --validate      # Report only, no database
+ *   npx tsx scripts/import-excel.ts /path/to/data.xlsx --dry-run       # Diff only
+ *   npx tsx scripts/import-excel.ts /path/to/data.xlsx --keep-removed  # Don't delete missing chargers
+ *   npx tsx scripts/import-excel.ts /path/to/data.xlsx --by=name       # Recorded as who ran it (default: OS user)
+ *   npx tsx scripts/import-excel.ts --batches                          # List past imports
+ *   npx tsx scripts/import-excel.ts --rollback=<batch-id>              # Undo an import
+ *
+ * Each import is recorded as a batch (asset_map.import_batches) with the
+ * before-image of every row it changed, so --rollback restores the previous
+ * state. Batches are rolled back newest first.
  *
  * Environment:
  *   SUPABASE_URL - Supabase project URL
  *   SUPABASE_SERVICE_ROLE_KEY - Service role key for admin access
  */
 
+import * as os from "os";
+import * as path from "path";
+import { readFileSync, writeFileSync } from "fs";
 import * as XLSX from "xlsx";
 import { config } from "dotenv";
+import { loadProfile } from "../src/lib/import/profiles";
+import {
+  DEFAULT_PROFILE,
+  readRegister,
+  type ChargerRecord,
+  type ImportProfile,
+} from "../src/lib/import/register";
+import {
+  buildSyncParams,
+  diffChargers,
+  keyRecords,
+  type ChargerDiff,
+  type DiffField,
+  type ImportBatch,
+  type SyncResult,
+} from "../src/lib/import/sync";
+import {
+  buildAnnotatedWorkbook,
+  PROBLEM_RULES,
+  summariseProblems,
+  validateRows,
+  type ProblemCode,
+  type ValidationProblem,
+  type ValidationReport,
+} from "../src/lib/import/validation";
 
 // Load .env file (override shell env vars which may point to wrong Supabase)
 config({ override: true });
 
 // Configuration
-const BATCH_SIZE = 100;
+const PAGE_SIZE = 1000;
+// Changes listed per category in the summary
+const SAMPLE_SIZE = 10;
 const SUPABASE_URL =
   process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-// Validate environment
-if (!SUPABASE_URL || !SUPABASE_KEY) {
-  console.error("Missing environment variables:");
-  console.error("  SUPABASE_URL or NEXT_PUBLIC_SUPABASE_URL");
-  console.error("  SUPABASE_SERVICE_ROLE_KEY");
-  process.exit(1);
+// Validate environment (only needed once we talk to the database)
+function requireSupabaseEnv() {
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    console.error("Missing environment variables:");
+    console.error("  SUPABASE_URL or NEXT_PUBLIC_SUPABASE_URL");
+    console.error("  SUPABASE_SERVICE_ROLE_KEY");
+    process.exit(1);
+  }
 }
 
 // Native fetch helper for RPC calls (bypasses supabase-js schema cache issues)
@@ -73,225 +131,209 @@ async function rpc<T>(
   }
 }
 
-// Types from Excel
-interface ExcelRow {
-  "Serial Number": string;
-  Country: string;
-  "Charger Type": string | null;
-  Vendor: string | null;
-  Model: string | null;
-  "Current Status": string | null;
-  "Facility Name": string;
-  "Current Subscription Type": string | null;
-  Ownership: string | null;
-  "Charger Installed Date": string | number | null;
-  Chargers: number;
+function readSheet(filePath: string, profile: ImportProfile) {
+  const register = readRegister(readFileSync(filePath), filePath, profile);
+  if (register.missingColumns.length > 0) {
+    console.warn(
+      `⚠️  Columns not found in "${register.sheetName}": ${register.missingColumns.join(", ")}`,
+    );
+  }
+  return register;
 }
 
-// Parse Excel date
-function parseDate(value: string | number | null): string | null {
-  if (!value) return null;
-
-  // Excel serial date number
-  if (typeof value === "number") {
-    const date = new Date((value - 25569) * 86400 * 1000);
-    return date.toISOString().split("T")[0];
+function printProblems(problems: ValidationProblem[]) {
+  const { errors, warnings } = summariseProblems(problems);
+  console.log("\n🔎 Validation:");
+  console.log("─".repeat(50));
+  console.log(`  Errors:   ${errors.toLocaleString()}`);
+  console.log(`  Warnings: ${warnings.toLocaleString()}`);
+
+  const byCode = new Map<ProblemCode, number>();
+  for (const p of problems) byCode.set(p.code, (byCode.get(p.code) ?? 0) + 1);
+  for (const [code, count] of [...byCode].sort((a, b) => b[1] - a[1])) {
+    const { severity, label } = PROBLEM_RULES[code];
+    console.log(
+      `    ${severity === "error" ? "❌" : "⚠️ "} ${label}: ${count.toLocaleString()}`,
+    );
   }
-
-  // String date - try to parse
-  const date = new Date(value);
-  if (isNaN(date.getTime())) return null;
-  return date.toISOString().split("T")[0];
 }
 
-// Normalize status to match DB enum
-function normalizeStatus(
-  status: string | null,
-): "Enabled" | "Disabled" | "Out of order" | null {
-  if (!status) return null;
-  const s = status.trim();
-  if (s === "Enabled") return "Enabled";
-  if (s === "Disabled") return "Disabled";
-  if (s === "Out of order" || s === "Out of Order") return "Out of order";
-  console.warn(`Unknown status: ${s}`);
-  return null;
-}
+async function validateExcel(filePath: string, profile: ImportProfile) {
+  console.log(`\n📊 Validating Excel file: ${filePath}`);
+  console.log(`   Profile: ${profile.name}\n`);
 
-// Normalize charger type
-function normalizeChargerType(
-  type: string | null,
-): "Private" | "Shared" | null {
-  if (!type) return null;
-  const t = type.trim();
-  if (t === "Private") return "Private";
-  if (t === "Shared") return "Shared";
-  console.warn(`Unknown charger type: ${t}`);
-  return null;
-}
+  const { sheetName, sheet, rows, headers } = readSheet(filePath, profile);
+  console.log(
+    `Found ${rows.length.toLocaleString()} charger rows in "${sheetName}"`,
+  );
 
-// Normalize ownership
-function normalizeOwnership(
-  ownership: string | null,
-): "Driver" | "Housing Association" | "Volterra" | null {
-  if (!ownership) return null;
-  const o = ownership.trim();
-  if (o === "Driver") return "Driver";
-  if (o === "Housing Association" || o === "Housing association")
-    return "Housing Association";
-  if (o === "Volterra") return "Volterra";
-  console.warn(`Unknown ownership: ${o}`);
-  return null;
+  const problems = validateRows(rows, headers, profile);
+  printProblems(problems);
+
+  const { errors, warnings } = summariseProblems(problems);
+  const report: ValidationReport = {
+    file: path.basename(filePath),
+    profile: profile.name,
+    sheet: sheetName,
+    validated_at: new Date().toISOString(),
+    rows: rows.length,
+    errors,
+    warnings,
+    problems,
+  };
+
+  const base = filePath.replace(/\.[^./\\]+$/, "");
+  const jsonPath = `${base}.validation.json`;
+  const xlsxPath = `${base}.validation.xlsx`;
+  writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+  XLSX.writeFile(
+    buildAnnotatedWorkbook(sheet, sheetName, headers, problems),
+    xlsxPath,
+  );
+
+  console.log(`\n📝 Report: ${jsonPath}`);
+  console.log(`📝 Annotated sheet: ${xlsxPath}\n`);
 }
 
-async function importExcel(filePath: string) {
-  console.log(`\n📊 Reading Excel file: ${filePath}\n`);
-
-  // Read Excel file
-  const workbook = XLSX.readFile(filePath);
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  const rows = XLSX.utils.sheet_to_json<ExcelRow>(sheet);
-
-  console.log(`Found ${rows.length.toLocaleString()} charger rows\n`);
-
-  // Group by facility
-  const facilityMap = new Map<
-    string,
-    { country: string; chargerCount: number; chargers: ExcelRow[] }
-  >();
-
-  for (const row of rows) {
-    const facilityName = row["Facility Name"]?.trim();
-    if (!facilityName) continue;
-
-    const existing = facilityMap.get(facilityName);
-    if (existing) {
-      existing.chargerCount += 1;
-      existing.chargers.push(row);
-    } else {
-      facilityMap.set(facilityName, {
-        country: row.Country,
-        chargerCount: 1,
-        chargers: [row],
-      });
-    }
+async function fetchSnapshot(): Promise<Map<string, ChargerRecord>> {
+  const snapshot = new Map<string, ChargerRecord>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await rpc<ChargerRecord[]>("get_charger_snapshot", {
+      p_limit: PAGE_SIZE,
+      p_offset: offset,
+    });
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    for (const record of data) snapshot.set(record.serial_number, record);
+    if (data.length < PAGE_SIZE) break;
   }
 
-  console.log(`Found ${facilityMap.size.toLocaleString()} unique facilities\n`);
-
-  // Insert facilities using RPC function
-  console.log("📍 Inserting facilities...");
-  const facilityIds = new Map<string, string>();
-  const facilitiesData = Array.from(facilityMap.entries()).map(
-    ([name, data]) => ({
-      name,
-      country: data.country,
-      charger_count: data.chargerCount,
-      geocode_status: "pending",
-    }),
-  );
+  return snapshot;
+}
 
-  // Insert in batches using RPC
-  let insertedFacilities = 0;
-  for (let i = 0; i < facilitiesData.length; i += BATCH_SIZE) {
-    const batch = facilitiesData.slice(i, i + BATCH_SIZE);
+function printDiff(diff: ChargerDiff) {
+  console.log("\n📋 Changes:");
+  console.log("─".repeat(50));
+  console.log(`  New:       ${diff.added.length.toLocaleString()}`);
+  console.log(`  Changed:   ${diff.changed.length.toLocaleString()}`);
+  console.log(`  Moved:     ${diff.moved.length.toLocaleString()}`);
+  console.log(`  Removed:   ${diff.removed.length.toLocaleString()}`);
+  console.log(`  Unchanged: ${diff.unchanged.toLocaleString()}`);
+
+  if (diff.changed.length > 0) {
+    const byField = new Map<DiffField, number>();
+    for (const { changes } of diff.changed) {
+      for (const { field } of changes) {
+        byField.set(field, (byField.get(field) ?? 0) + 1);
+      }
+    }
+    console.log("\n  Changed fields:");
+    for (const [field, count] of [...byField].sort((a, b) => b[1] - a[1])) {
+      console.log(`    ${field}: ${count.toLocaleString()}`);
+    }
 
-    const { data, error } = await rpc<
-      { facility_id: string; facility_name: string }[]
-    >("import_facilities", { p_facilities: batch });
+    console.log("\n  Changed (sample):");
+    for (const { record, changes } of diff.changed.slice(0, SAMPLE_SIZE)) {
+      const fields = changes
+        .map(({ field, from, to }) => `${field} ${from ?? "∅"} → ${to ?? "∅"}`)
+        .join(", ");
+      console.log(`    ${record.serial_number}: ${fields}`);
+    }
+  }
 
-    if (error) {
-      console.error(
-        `Error inserting facilities batch ${i / BATCH_SIZE + 1}:`,
-        error,
+  if (diff.moved.length > 0) {
+    console.log("\n  Moved (sample):");
+    for (const { record, from } of diff.moved.slice(0, SAMPLE_SIZE)) {
+      console.log(
+        `    ${record.serial_number}: ${from ?? "∅"} → ${record.facility_name ?? "∅"}`,
       );
-      continue;
     }
+  }
 
-    // Store IDs for charger foreign keys
-    if (data) {
-      for (const f of data) {
-        facilityIds.set(f.facility_name, f.facility_id);
-      }
-      insertedFacilities += data.length;
+  if (diff.removed.length > 0) {
+    console.log("\n  Removed (sample):");
+    for (const record of diff.removed.slice(0, SAMPLE_SIZE)) {
+      console.log(
+        `    ${record.serial_number} (${record.facility_name ?? "no facility"})`,
+      );
     }
+  }
+}
 
-    process.stdout.write(
-      `\r  Progress: ${insertedFacilities.toLocaleString()} / ${facilitiesData.length.toLocaleString()}`,
+async function importExcel(
+  filePath: string,
+  profile: ImportProfile,
+  options: { dryRun: boolean; keepRemoved: boolean; importedBy: string },
+) {
+  requireSupabaseEnv();
+  console.log(`\n📊 Reading Excel file: ${filePath}`);
+  console.log(`   Profile: ${profile.name}\n`);
+
+  const { rows, headers } = readSheet(filePath, profile);
+  console.log(`Found ${rows.length.toLocaleString()} charger rows`);
+
+  const problems = validateRows(rows, headers, profile);
+  printProblems(problems);
+  if (summariseProblems(problems).errors > 0) {
+    console.error(
+      "\n❌ Fix the errors before importing. Run with --validate for a row-by-row report.\n",
     );
+    process.exit(1);
   }
+
+  const incoming = keyRecords(rows, profile);
+
+  const countries = new Set([...incoming.values()].map((r) => r.country));
   console.log(
-    `\n  ✅ Inserted ${insertedFacilities.toLocaleString()} facilities\n`,
+    `\nFound ${incoming.size.toLocaleString()} chargers in ${[...countries].join(", ")}`,
   );
 
-  // Insert chargers using RPC function
-  console.log("🔌 Inserting chargers...");
-  const chargersData: {
-    serial_number: string;
-    facility_id: string | null;
-    country: string;
-    charger_type: string | null;
-    vendor: string | null;
-    model: string | null;
-    status: string | null;
-    subscription_type: string | null;
-    ownership: string | null;
-    installed_date: string | null;
-  }[] = [];
-
-  for (const row of rows) {
-    const facilityName = row["Facility Name"]?.trim();
-    const facilityId = facilityName ? facilityIds.get(facilityName) : undefined;
-
-    chargersData.push({
-      serial_number: row["Serial Number"],
-      facility_id: facilityId || null,
-      country: row.Country,
-      charger_type: normalizeChargerType(row["Charger Type"]),
-      vendor: row.Vendor?.trim() || null,
-      model: row.Model?.trim() || null,
-      status: normalizeStatus(row["Current Status"]),
-      subscription_type: row["Current Subscription Type"]?.trim() || null,
-      ownership: normalizeOwnership(row.Ownership),
-      installed_date: parseDate(row["Charger Installed Date"]),
-    });
-  }
-
-  // Insert in batches using RPC
-  let insertedChargers = 0;
-  let skippedChargers = 0;
+  console.log("\n🔍 Loading current chargers...");
+  const current = await fetchSnapshot();
+  console.log(`  ${current.size.toLocaleString()} chargers in the database`);
 
-  for (let i = 0; i < chargersData.length; i += BATCH_SIZE) {
-    const batch = chargersData.slice(i, i + BATCH_SIZE);
+  const diff = diffChargers(
+    current,
+    incoming,
+    options.keepRemoved ? new Set() : countries,
+  );
+  printDiff(diff);
 
-    const { data, error } = await rpc<number>("import_chargers", {
-      p_chargers: batch,
-    });
+  if (options.dryRun) {
+    console.log("\n🧪 Dry run - nothing written\n");
+    return;
+  }
 
-    if (error) {
-      console.error(
-        `Error inserting chargers batch ${i / BATCH_SIZE + 1}:`,
-        error,
-      );
-      skippedChargers += batch.length;
-      continue;
-    }
+  const params = buildSyncParams(diff, {
+    file_name: path.basename(filePath),
+    profile: profile.name,
+    imported_by: options.importedBy,
+    row_count: rows.length,
+  });
+  if (!params) {
+    console.log("\n✅ Already up to date\n");
+    return;
+  }
 
-    if (data !== null) {
-      insertedChargers += data;
-    }
+  console.log("\n💾 Applying changes in one transaction...");
+  const { data: result, error } = await rpc<SyncResult>(
+    "apply_charger_sync",
+    params,
+  );
 
-    process.stdout.write(
-      `\r  Progress: ${(insertedChargers + skippedChargers).toLocaleString()} / ${chargersData.length.toLocaleString()}`,
-    );
+  if (error || !result) {
+    console.error("  ❌ Import failed, nothing was changed:", error);
+    process.exit(1);
   }
 
-  console.log(`\n  ✅ Inserted ${insertedChargers.toLocaleString()} chargers`);
-  if (skippedChargers > 0) {
-    console.log(
-      `  ⚠️  Skipped ${skippedChargers.toLocaleString()} (duplicates or errors)`,
-    );
-  }
+  console.log(
+    `  ✅ ${result.chargers_upserted.toLocaleString()} chargers written, ${result.chargers_removed.toLocaleString()} removed`,
+  );
+  console.log(
+    `  ✅ ${result.facilities_created.toLocaleString()} new facilities, ${result.facilities_recounted.toLocaleString()} charger counts updated`,
+  );
 
   // Summary
   console.log("\n📊 Import Summary:");
@@ -318,14 +360,127 @@ async function importExcel(filePath: string) {
     }
   }
 
-  console.log("\n✅ Import complete!\n");
+  console.log(`\n✅ Import complete! Batch ${result.batch_id}`);
+  console.log(
+    `   Undo with: npx tsx scripts/import-excel.ts --rollback=${result.batch_id}\n`,
+  );
+}
+
+async function listBatches(limit: number) {
+  requireSupabaseEnv();
+  const { data: batches, error } = await rpc<ImportBatch[]>(
+    "get_import_batches",
+    { p_limit: limit },
+  );
+  if (error) throw error;
+
+  console.log("\n📦 Import batches (newest first):");
+  console.log("─".repeat(50));
+  if (!batches || batches.length === 0) {
+    console.log("  No imports recorded yet\n");
+    return;
+  }
+
+  for (const b of batches) {
+    const when = new Date(b.created_at).toLocaleString("sv-SE");
+    const status =
+      b.status === "applied"
+        ? "✅ applied"
+        : `↩️  rolled back ${new Date(b.rolled_back_at!).toLocaleString("sv-SE")} by ${b.rolled_back_by ?? "unknown"}`;
+    console.log(`\n  ${b.id}`);
+    console.log(
+      `    ${when} · ${b.file_name} (${b.profile ?? "default"}) · ${b.imported_by ?? "unknown"}`,
+    );
+    console.log(
+      `    ${b.row_count.toLocaleString()} rows: +${b.chargers_added} new, ~${b.chargers_changed} changed, →${b.chargers_moved} moved, -${b.chargers_removed} removed, ${b.facilities_created} new facilities`,
+    );
+    console.log(`    ${status}`);
+  }
+  console.log();
+}
+
+async function rollbackBatch(batchId: string, rolledBackBy: string) {
+  requireSupabaseEnv();
+  console.log(`\n↩️  Rolling back import batch ${batchId}...`);
+
+  const { data: result, error } = await rpc<{
+    chargers_deleted: number;
+    chargers_restored: number;
+    chargers_reinserted: number;
+    facilities_restored: number;
+    facilities_deleted: number;
+  }>("rollback_import_batch", {
+    p_batch_id: batchId,
+    p_rolled_back_by: rolledBackBy,
+  });
+
+  if (error || !result) {
+    console.error("  ❌ Rollback failed, nothing was changed:", error);
+    process.exit(1);
+  }
+
+  console.log(
+    `  ✅ ${result.chargers_deleted.toLocaleString()} added chargers deleted`,
+  );
+  console.log(
+    `  ✅ ${result.chargers_restored.toLocaleString()} changed chargers restored`,
+  );
+  console.log(
+    `  ✅ ${result.chargers_reinserted.toLocaleString()} removed chargers put back`,
+  );
+  console.log(
+    `  ✅ ${result.facilities_restored.toLocaleString()} charger counts restored`,
+  );
+  console.log(
+    `  ✅ ${result.facilities_deleted.toLocaleString()} new facilities deleted\n`,
+  );
 }
 
 // Main
-const filePath = process.argv[2];
-if (!filePath) {
-  console.error("Usage: npx tsx scripts/import-excel.ts /path/to/data.xlsx");
-  process.exit(1);
+const args = process.argv.slice(2);
+const filePath = args.find((arg) => !arg.startsWith("--"));
+const profileArg = args.find((arg) => arg.startsWith("--profile="));
+const rollbackArg = args.find((arg) => arg.startsWith("--rollback="));
+const limitArg = args.find((arg) => arg.startsWith("--limit="));
+const byArg = args.find((arg) => arg.startsWith("--by="));
+const runBy = byArg ? byArg.split("=")[1] : os.userInfo().username;
+
+async function main() {
+  if (rollbackArg) {
+    await rollbackBatch(rollbackArg.split("=")[1], runBy);
+    return;
+  }
+  if (args.includes("--batches")) {
+    await listBatches(limitArg ? parseInt(limitArg.split("=")[1], 10) : 20);
+    return;
+  }
+
+  if (!filePath) {
+    console.error(
+      "Usage: npx tsx scripts/import-excel.ts /path/to/data.xlsx [--profile=name] [--validate] [--dry-run] [--keep-removed] [--by=name]",
+    );
+    console.error(
+      "       npx tsx scripts/import-excel.ts --batches [--limit=20]",
+    );
+    console.error(
+      "       npx tsx scripts/import-excel.ts --rollback=<batch-id>",
+    );
+    process.exit(1);
+  }
+
+  const profile = profileArg
+    ? loadProfile(profileArg.split("=")[1])
+    : DEFAULT_PROFILE;
+
+  if (args.includes("--validate")) {
+    await validateExcel(filePath, profile);
+  } else {
+    await importExcel(filePath, profile, {
+      dryRun: args.includes("--dry-run"),
+      keepRemoved: args.includes("--keep-removed"),
+      importedBy: runBy,
+    });
+  }
 }
 
-importExcel(filePath).catch(console.error);
+main().catch(console.error);
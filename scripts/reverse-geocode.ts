@@ -0,0 +1,253 @@
+/**
+ * Reverse geocoding script for facilities with missing address fields
+ *
+ * Looks up the nearest address to each placed facility that lacks an
+ * address, postal code or city, using its country's provider chain from
+ * scripts/geocoding.json (Kartverket's point search for Norway, DAWA for
+ * Denmark, then HERE and Nominatim; Lantmäteriet has no point search).
+ * Each blank field is taken from the first provider that returns it close
+ * enough to the point, and that provider is recorded as the field's source
+ * in address_sources. Values that differ from what is already stored are
+ * not written: they become address proposals, accepted or rejected at
+ * /review/addresses.
+ *
+ * Only facilities placed by hand or geocoded to an address point are
+ * looked up (see src/lib/geocoding/reverse.ts), and each only once unless
+ * --all is given. --fixtures=<dir> and --record=<dir> replay or record
+ * provider responses, and --allow-public-nominatim permits OSM's public
+ * Nominatim, as in scripts/geocode.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/reverse-geocode.ts --country=Norway --limit=100
+ *   npx tsx scripts/reverse-geocode.ts --dry-run              # Print what would change
+ *   npx tsx scripts/reverse-geocode.ts --all                  # Include facilities looked up before
+ */
+import "dotenv/config";
+import { reverseGeocodeWithChain } from "../src/lib/geocoding/chain";
+import {
+  chainFor,
+  loadGeocodingConfig,
+  usesPublicNominatim,
+} from "../src/lib/geocoding/config";
+import { fixtureFetch } from "../src/lib/geocoding/fixtures";
+import type { GeocodeProvider } from "../src/lib/geocoding/providers";
+import {
+  ADDRESS_FIELD_LABELS,
+  planAddressChanges,
+  type AddressChange,
+  type AddressField,
+} from "../src/lib/geocoding/reverse";
+
+const SUPABASE_URL =
+  process.env.SUPABASE_CLOUD_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_CLOUD_SERVICE_KEY ||
+  process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Recorded as the editor for fields filled by this script
+const SCRIPT_EDITOR = "scripts/reverse-geocode.ts";
+
+interface FacilityToReverse {
+  id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  postal_code: string | null;
+  country: string;
+  latitude: number;
+  longitude: number;
+  geocode_status: string;
+}
+
+// RPC helper
+async function rpc<T>(
+  fn: string,
+  params: Record<string, unknown> = {},
+): Promise<T> {
+  const url = `${SUPABASE_URL}/rest/v1/rpc/${fn}`;
+  const resp = await fetch(url, {
+    method: "POST",
+    headers: {
+      apikey: SUPABASE_KEY as string,
+      Authorization: `Bearer ${SUPABASE_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(params),
+  });
+
+  // 200 = success with data, 204 = success with no content (VOID functions)
+  if (resp.status !== 200 && resp.status !== 204) {
+    const text = await resp.text();
+    throw new Error(`RPC ${fn} failed: ${resp.status} - ${text}`);
+  }
+
+  if (resp.status === 204) {
+    return undefined as T;
+  }
+
+  return resp.json() as Promise<T>;
+}
+
+function formatChange(change: AddressChange): string {
+  const label = ADDRESS_FIELD_LABELS[change.field].padEnd(12);
+  return change.current
+    ? `${label} "${change.current}" → "${change.proposed}" (${change.source})`
+    : `${label} "${change.proposed}" (${change.source})`;
+}
+
+// Main execution
+async function main() {
+  const args = process.argv.slice(2);
+  const countryFilter = args
+    .find((a) => a.startsWith("--country="))
+    ?.split("=")[1];
+  const limitArg = args.find((a) => a.startsWith("--limit="));
+  const limit = limitArg ? parseInt(limitArg.split("=")[1], 10) : 100;
+  const dryRun = args.includes("--dry-run");
+  const all = args.includes("--all");
+  const fixturesDir = args
+    .find((a) => a.startsWith("--fixtures="))
+    ?.split("=")[1];
+  const recordDir = args.find((a) => a.startsWith("--record="))?.split("=")[1];
+  const fetchImpl = fixturesDir
+    ? fixtureFetch(fixturesDir, "replay")
+    : recordDir
+      ? fixtureFetch(recordDir, "record")
+      : undefined;
+
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    console.error("❌ Missing Supabase environment variables");
+    process.exit(1);
+  }
+
+  const config = loadGeocodingConfig();
+  if (
+    !fixturesDir &&
+    usesPublicNominatim(config) &&
+    !args.includes("--allow-public-nominatim")
+  ) {
+    console.error(
+      "❌ Nominatim points at the public OSM instance, which forbids bulk geocoding. Set NOMINATIM_URL to your own instance, or pass --allow-public-nominatim",
+    );
+    process.exit(1);
+  }
+
+  console.log("🏷️  Facility Reverse Geocoding");
+  console.log("─".repeat(50));
+  console.log(`   Country filter: ${countryFilter || "all"}`);
+  console.log(`   Limit: ${limit}`);
+  console.log(`   Include looked up before: ${all}`);
+  console.log(`   Dry run: ${dryRun}`);
+
+  const facilities = await rpc<FacilityToReverse[]>(
+    "asset_map_get_facilities_for_reverse_geocoding",
+    {
+      p_country: countryFilter || null,
+      p_limit: limit,
+      p_all: all,
+    },
+  );
+
+  console.log(
+    `\n📍 ${facilities.length} facilities with missing address fields\n`,
+  );
+
+  const chains = new Map<string, GeocodeProvider[]>();
+  const filledCounts = new Map<AddressField, number>();
+  let proposed = 0;
+  let nothingFound = 0;
+  let failed = 0;
+
+  for (const [i, facility] of facilities.entries()) {
+    let chain = chains.get(facility.country);
+    if (!chain) {
+      const result = chainFor(facility.country, config, fetchImpl);
+      if (result.unavailable.length > 0) {
+        console.warn(
+          `⚠️  ${facility.country}: skipping ${result.unavailable.join(", ")} (not configured)`,
+        );
+      }
+      chain = result.chain;
+      chains.set(facility.country, chain);
+    }
+
+    console.log(
+      `[${i + 1}/${facilities.length}] ${facility.name.slice(0, 40)} (${facility.latitude}, ${facility.longitude})`,
+    );
+
+    try {
+      const { fields, errors } = await reverseGeocodeWithChain(facility, chain);
+      for (const error of errors) console.log(`   ⚠️  ${error}`);
+      // Left for the next run when the providers failed
+      if (Object.keys(fields).length === 0 && errors.length > 0) {
+        failed++;
+        continue;
+      }
+
+      let { fill, proposals } = planAddressChanges(facility, fields);
+
+      // Written even when nothing changes, so later runs move on
+      if (!dryRun) {
+        const toParam = (change: AddressChange) => ({
+          field: change.field,
+          value: change.proposed,
+          source: change.source,
+        });
+        const result = await rpc<{
+          filled: AddressField[];
+          proposed: AddressField[];
+        } | null>("apply_reverse_geocode", {
+          p_facility_id: facility.id,
+          p_fill: fill.map(toParam),
+          p_proposals: proposals.map(toParam),
+          p_set_by: SCRIPT_EDITOR,
+        });
+        fill = fill.filter((c) => result?.filled.includes(c.field));
+        proposals = proposals.filter((c) => result?.proposed.includes(c.field));
+      }
+
+      if (Object.keys(fields).length === 0) {
+        console.log("   ❌ No address near the point");
+        nothingFound++;
+      } else if (fill.length === 0 && proposals.length === 0) {
+        console.log("   ✓ Matches the stored address");
+      }
+      for (const change of fill) {
+        console.log(`   ✅ ${formatChange(change)}`);
+        filledCounts.set(
+          change.field,
+          (filledCounts.get(change.field) ?? 0) + 1,
+        );
+      }
+      for (const change of proposals) {
+        console.log(`   📝 ${formatChange(change)}`);
+      }
+      proposed += proposals.length;
+    } catch (err) {
+      console.log(`   ❌ Error: ${err instanceof Error ? err.message : err}`);
+      failed++;
+    }
+  }
+
+  console.log("\n" + "─".repeat(50));
+  console.log("📊 Summary");
+  for (const [field, label] of Object.entries(ADDRESS_FIELD_LABELS)) {
+    console.log(
+      `   ${`${label} filled:`.padEnd(24)} ${filledCounts.get(field as AddressField) ?? 0}`,
+    );
+  }
+  console.log(`   ${"Proposed for review:".padEnd(24)} ${proposed}`);
+  console.log(`   ${"Nothing found:".padEnd(24)} ${nothingFound}`);
+  console.log(`   ${"Errors:".padEnd(24)} ${failed}`);
+
+  if (dryRun) {
+    console.log("\n💡 Dry run - no changes written");
+  } else if (proposed > 0) {
+    console.log("\n💡 Review the proposed changes at /review/addresses");
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,9 +1,19 @@
 /**
- * HubSpot Address Sync Script
+ * HubSpot Sync Script
  *
  * Syncs addresses from HubSpot Companies to facilities in Supabase.
  * Handles Nordic housing association naming conventions with smart matching.
  *
+ * With --push it goes the other way: each facility matched to a company
+ * writes its charger count, status breakdown, coordinates, geocode status
+ * and a link to the map into the company's custom properties. Which
+ * properties are written is set in scripts/hubspot-sync.json: only those
+ * owned by "map" are pushed, "crm" ones are maintained in HubSpot and
+ * never written. Current values are read first, so unchanged companies
+ * are skipped and --dry-run prints each change. The link needs the map's
+ * base URL (ASSET_MAP_URL or "mapUrl"); the custom properties must exist
+ * on HubSpot companies, and missing ones are skipped.
+ *
  * Usage:
  *   npx tsx scripts/sync-hubspot.ts [options]
  *
@@ -12,11 +22,15 @@
  *   --limit N     Process only first N facilities
  *   --country XX  Filter by country (Norway, Sweden, Denmark)
  *   --verbose     Show detailed matching info
+ *   --push        Write facility data to the matched HubSpot companies
  */
 
 import "dotenv/config";
+import * as path from "path";
+import { existsSync, readFileSync } from "fs";
 import { Client } from "@hubspot/api-client";
 import { FilterOperatorEnum } from "@hubspot/api-client/lib/codegen/crm/companies";
+import { stripHousingAffixes } from "../src/lib/geocoding/housing";
 
 // Types
 type Facility = {
@@ -40,6 +54,53 @@ type HubSpotCompany = {
   };
 };
 
+// Facility matched to a company, as pushed to HubSpot
+type PushFacility = {
+  id: string;
+  name: string;
+  country: string;
+  hubspot_id: string;
+  address: string | null;
+  city: string | null;
+  postal_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_status: string;
+  charger_count: number;
+  chargers_enabled: number;
+  chargers_disabled: number;
+  chargers_out_of_order: number;
+};
+
+// Facility values a company property can be filled from; map_url is the
+// facility's link on the map
+const PUSH_SOURCES = [
+  "charger_count",
+  "chargers_enabled",
+  "chargers_disabled",
+  "chargers_out_of_order",
+  "latitude",
+  "longitude",
+  "geocode_status",
+  "address",
+  "city",
+  "postal_code",
+  "map_url",
+] as const;
+type PushSource = (typeof PUSH_SOURCES)[number];
+
+type PushConfig = {
+  // Companies per batch read/update call (HubSpot allows 100)
+  batchSize: number;
+  // Pause after each HubSpot call
+  delayMs: number;
+  // Base URL of the map for map_url; ASSET_MAP_URL overrides it
+  mapUrl: string | null;
+  // HubSpot company property → the facility value it holds and who owns
+  // it. "crm" properties are never written by the push
+  properties: Record<string, { source: PushSource; owner: "map" | "crm" }>;
+};
+
 type MatchResult = {
   facility: Facility;
   company: HubSpotCompany | null;
@@ -58,51 +119,11 @@ const SUPABASE_SERVICE_KEY =
 const BATCH_SIZE = 50;
 const SEARCH_DELAY_MS = 200; // Rate limiting
 
-// Housing association prefixes/suffixes by country
-const HOUSING_PATTERNS = {
-  Norway: {
-    prefixes: [
-      "Sameiet",
-      "Borettslaget",
-      "Boligsameiet",
-      "AL",
-      "AS",
-      "Andelslaget",
-    ],
-    suffixes: [
-      "Borettslag",
-      "Sameie",
-      "Boligsameie",
-      "Garasjelag",
-      "Garasjesameie",
-      "SA",
-      "AS",
-    ],
-  },
-  Sweden: {
-    prefixes: [
-      "Bostadsrättsföreningen",
-      "BRF",
-      "Brf",
-      "HSB Bostadsrättsförening",
-      "Riksbyggen Bostadsrättsförening",
-      "Riksbyggens Bostadsrättsförening",
-      "Anläggningssamfälligheten",
-    ],
-    suffixes: [
-      "Samfällighetsförening",
-      "Bostadsrättsförening",
-      "Samfällighet",
-      "i Stockholm",
-      "i Göteborg",
-      "i Uppsala",
-    ],
-  },
-  Denmark: {
-    prefixes: ["Andelsboligforening", "A/B", "Ejerforening", "E/F"],
-    suffixes: ["Andelsboligforening", "Ejerforening"],
-  },
-};
+const PUSH_CONFIG_PATH = path.join(
+  process.cwd(),
+  "scripts",
+  "hubspot-sync.json",
+);
 
 // Call Supabase RPC function
 async function rpc<T>(
@@ -144,25 +165,41 @@ async function fetchFacilitiesWithoutAddresses(
   });
 }
 
-// Normalize facility name for matching
-function normalizeName(name: string, country: string): string {
-  let normalized = name.trim();
+// Facilities per request for the push; Supabase caps responses at 1000
+// rows by default
+const PUSH_PAGE_SIZE = 1000;
 
-  const patterns =
-    HOUSING_PATTERNS[country as keyof typeof HOUSING_PATTERNS] ||
-    HOUSING_PATTERNS.Norway;
+// Fetch the facilities to push a page at a time, all of them unless
+// limited
+async function fetchFacilitiesForPush(
+  limit?: number,
+  country?: string,
+): Promise<PushFacility[]> {
+  const facilities: PushFacility[] = [];
+
+  for (;;) {
+    const pageSize = limit
+      ? Math.min(PUSH_PAGE_SIZE, limit - facilities.length)
+      : PUSH_PAGE_SIZE;
+    const page = await rpc<PushFacility[]>(
+      "asset_map_get_facilities_for_hubspot_push",
+      {
+        p_country: country || null,
+        p_limit: pageSize,
+        p_offset: facilities.length,
+      },
+    );
+    facilities.push(...page);
 
-  // Remove prefixes
-  for (const prefix of patterns.prefixes) {
-    const regex = new RegExp(`^${prefix}\\s+`, "i");
-    normalized = normalized.replace(regex, "");
+    if (page.length < pageSize || facilities.length === limit) {
+      return facilities;
+    }
   }
+}
 
-  // Remove suffixes
-  for (const suffix of patterns.suffixes) {
-    const regex = new RegExp(`\\s+${suffix}$`, "i");
-    normalized = normalized.replace(regex, "");
-  }
+// Normalize facility name for matching
+function normalizeName(name: string, country: string): string {
+  let normalized = stripHousingAffixes(name.trim(), country);
 
   // Remove common noise and suffixes
   normalized = normalized
@@ -456,6 +493,220 @@ async function updateFacility(
 // Sleep helper for rate limiting
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+// Read the push configuration (HUBSPOT_SYNC_CONFIG overrides the path).
+// Throws on unknown sources or owners rather than pushing a guess.
+function loadPushConfig(): PushConfig {
+  const filePath = process.env.HUBSPOT_SYNC_CONFIG || PUSH_CONFIG_PATH;
+  if (!existsSync(filePath)) {
+    throw new Error(`Push configuration not found: ${filePath}`);
+  }
+
+  const config = JSON.parse(readFileSync(filePath, "utf8")) as PushConfig;
+  for (const [name, property] of Object.entries(config.properties ?? {})) {
+    if (!PUSH_SOURCES.includes(property.source)) {
+      throw new Error(`${name}: unknown source "${property.source}"`);
+    }
+    if (property.owner !== "map" && property.owner !== "crm") {
+      throw new Error(`${name}: owner must be "map" or "crm"`);
+    }
+  }
+  return {
+    batchSize: Math.min(config.batchSize || 100, 100),
+    delayMs: config.delayMs ?? 500,
+    mapUrl: config.mapUrl ?? null,
+    properties: config.properties ?? {},
+  };
+}
+
+// Property value as HubSpot stores it: strings, "" for empty
+function pushValue(
+  facility: PushFacility,
+  source: PushSource,
+  mapUrl: string | null,
+): string {
+  if (source === "map_url") return `${mapUrl}/?facility=${facility.id}`;
+  const value = facility[source];
+  return value === null || value === undefined ? "" : String(value);
+}
+
+// Push facility data to the matched HubSpot companies
+async function pushFacilityData(options: {
+  dryRun: boolean;
+  limit?: number;
+  country?: string;
+  verbose: boolean;
+}) {
+  console.log("📤 HubSpot Facility Push");
+  console.log("─".repeat(50));
+
+  // Validate environment
+  if (!HUBSPOT_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+    console.error(
+      "❌ Missing environment variables. Required: HUBSPOT_API_KEY, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY",
+    );
+    process.exit(1);
+  }
+
+  const config = loadPushConfig();
+  const mapUrl =
+    (process.env.ASSET_MAP_URL || config.mapUrl)?.replace(/\/+$/, "") || null;
+
+  const crmOwned = Object.entries(config.properties)
+    .filter(([, property]) => property.owner === "crm")
+    .map(([name]) => name);
+  let pushed = Object.entries(config.properties).filter(
+    ([, property]) => property.owner === "map",
+  );
+  if (!mapUrl) {
+    const links = pushed.filter(
+      ([, property]) => property.source === "map_url",
+    );
+    if (links.length > 0) {
+      console.warn(
+        `⚠️  Skipping ${links.map(([name]) => name).join(", ")} (set ASSET_MAP_URL or "mapUrl")`,
+      );
+      pushed = pushed.filter(([, property]) => property.source !== "map_url");
+    }
+  }
+
+  // Retries 429s and server errors after a pause
+  const hubspot = new Client({
+    accessToken: HUBSPOT_API_KEY,
+    numberOfApiCallRetries: 3,
+  });
+
+  // A property missing in HubSpot would fail every batch it is in
+  const existing = await hubspot.crm.properties.coreApi.getAll("companies");
+  const known = new Set(existing.results.map((property) => property.name));
+  const missing = pushed.filter(([name]) => !known.has(name));
+  if (missing.length > 0) {
+    console.warn(
+      `⚠️  Skipping ${missing.map(([name]) => name).join(", ")} (not a HubSpot company property yet)`,
+    );
+    pushed = pushed.filter(([name]) => known.has(name));
+  }
+
+  console.log(`   Pushing: ${pushed.map(([name]) => name).join(", ") || "-"}`);
+  console.log(`   CRM-owned (never written): ${crmOwned.join(", ") || "-"}`);
+  if (pushed.length === 0) {
+    console.error("\n❌ No properties to push");
+    process.exit(1);
+  }
+  const names = pushed.map(([name]) => name);
+
+  console.log("\n📋 Fetching facilities matched to HubSpot companies...");
+  const facilities = await fetchFacilitiesForPush(
+    options.limit,
+    options.country,
+  );
+  console.log(`   Found ${facilities.length} facilities to push\n`);
+
+  const stats = {
+    changed: 0,
+    unchanged: 0,
+    updated: 0,
+    // Companies deleted or merged away in HubSpot
+    notFound: 0,
+    failed: 0,
+  };
+
+  for (let i = 0; i < facilities.length; i += config.batchSize) {
+    const batch = facilities.slice(i, i + config.batchSize);
+    const batchNum = Math.floor(i / config.batchSize) + 1;
+    const totalBatches = Math.ceil(facilities.length / config.batchSize);
+
+    console.log(`📦 Batch ${batchNum}/${totalBatches} (${batch.length} items)`);
+
+    try {
+      const current = await hubspot.crm.companies.batchApi.read({
+        inputs: batch.map((facility) => ({ id: facility.hubspot_id })),
+        properties: names,
+        propertiesWithHistory: [],
+      });
+      await sleep(config.delayMs);
+      const companies = new Map(
+        current.results.map((company) => [company.id, company.properties]),
+      );
+
+      const inputs: { id: string; properties: Record<string, string> }[] = [];
+      for (const facility of batch) {
+        const properties = companies.get(facility.hubspot_id);
+        if (!properties) {
+          stats.notFound++;
+          if (options.verbose) {
+            console.log(
+              `   ✗ ${facility.name} - company ${facility.hubspot_id} not found`,
+            );
+          }
+          continue;
+        }
+
+        const changes = pushed
+          .map(([name, property]) => ({
+            name,
+            from: properties[name] ?? "",
+            to: pushValue(facility, property.source, mapUrl),
+          }))
+          .filter((change) => change.from !== change.to);
+        if (changes.length === 0) {
+          stats.unchanged++;
+          continue;
+        }
+
+        stats.changed++;
+        if (options.verbose || options.dryRun) {
+          console.log(`   ✎ ${facility.name} → company ${facility.hubspot_id}`);
+          for (const change of changes) {
+            console.log(
+              `     ${change.name}: "${change.from}" → "${change.to}"`,
+            );
+          }
+        }
+        inputs.push({
+          id: facility.hubspot_id,
+          properties: Object.fromEntries(
+            changes.map((change) => [change.name, change.to]),
+          ),
+        });
+      }
+
+      if (!options.dryRun && inputs.length > 0) {
+        const result = await hubspot.crm.companies.batchApi.update({ inputs });
+        await sleep(config.delayMs);
+        stats.updated += result.results.length;
+        if ("errors" in result && result.errors) {
+          stats.failed += inputs.length - result.results.length;
+          for (const error of result.errors) {
+            console.error(`   ❌ ${error.message}`);
+          }
+        }
+      }
+    } catch (error) {
+      stats.failed += batch.length;
+      console.error(
+        `   ❌ Batch ${batchNum} failed: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  // Final summary
+  console.log("\n" + "─".repeat(50));
+  console.log("📊 Summary");
+  console.log("─".repeat(50));
+  console.log(`   Facilities: ${facilities.length}`);
+  console.log(`   Changed:    ${stats.changed}`);
+  console.log(`   Unchanged:  ${stats.unchanged}`);
+  console.log(`   Updated:    ${stats.updated}`);
+  console.log(`   Not found:  ${stats.notFound}`);
+  console.log(`   Failed:     ${stats.failed}`);
+
+  if (options.dryRun) {
+    console.log("\n⚠️  Dry run - no changes made in HubSpot");
+  }
+
+  console.log("\n✅ Push complete!");
+}
+
 // Main sync function
 async function syncHubSpotAddresses(options: {
   dryRun: boolean;
@@ -601,6 +852,7 @@ function parseArgs(): {
   limit?: number;
   country?: string;
   verbose: boolean;
+  push: boolean;
 } {
   const args = process.argv.slice(2);
   const options = {
@@ -608,6 +860,7 @@ function parseArgs(): {
     limit: undefined as number | undefined,
     country: undefined as string | undefined,
     verbose: false,
+    push: false,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -625,12 +878,17 @@ function parseArgs(): {
       case "-v":
         options.verbose = true;
         break;
+      case "--push":
+        options.push = true;
+        break;
       case "--help":
       case "-h":
         console.log(`
-HubSpot Address Sync Script
+HubSpot Sync Script
 
-Syncs addresses from HubSpot Companies to facilities in Supabase.
+Syncs addresses from HubSpot Companies to facilities in Supabase, or with
+--push writes facility data to the matched companies' properties (see
+scripts/hubspot-sync.json for which properties the map owns).
 
 Usage:
   npx tsx scripts/sync-hubspot.ts [options]
@@ -640,6 +898,7 @@ Options:
   --limit N     Process only first N facilities
   --country XX  Filter by country (Norway, Sweden, Denmark)
   --verbose     Show detailed matching info
+  --push        Write facility data to the matched HubSpot companies
   --help        Show this help message
         `);
         process.exit(0);
@@ -651,4 +910,7 @@ Options:
 
 // Run
 const options = parseArgs();
-syncHubSpotAddresses(options).catch(console.error);
+(options.push
+  ? pushFacilityData(options)
+  : syncHubSpotAddresses(options)
+).catch(console.error);
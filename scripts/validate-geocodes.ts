@@ -0,0 +1,244 @@
+/**
+ * Geocode sanity checks
+ *
+ * Runs asset_map_check_geocodes over automatically geocoded facilities and
+ * lists the ones that fail: outside their country (or inside it only with
+ * latitude and longitude swapped), far from the other facilities in their
+ * postal code, or stacked on one coordinate with many other addresses
+ * (typically a city or postal centroid). With --apply, failing facilities
+ * get geocode_status "flagged" - the map can filter them out and they join
+ * the /review queue - and flagged facilities that now pass go back to
+ * "success". Hand-placed and reviewed points are trusted and not checked.
+ *
+ * Country outlines are read from scripts/boundaries/<country>.geojson (see
+ * the README there; generalised Natural Earth outlines are bundled) and
+ * loaded before every check, so edits to the files take effect on the next
+ * run. --skip-boundaries checks against the outlines already loaded; a
+ * country without one falls back to a coarse bounding box.
+ *
+ * Usage:
+ *   npx tsx scripts/validate-geocodes.ts                         # Report only
+ *   npx tsx scripts/validate-geocodes.ts --country=Sweden --apply
+ *   npx tsx scripts/validate-geocodes.ts --skip-boundaries       # Keep the loaded outlines
+ *   npx tsx scripts/validate-geocodes.ts --postal-max-km=15 --duplicate-min=10
+ */
+import "dotenv/config";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { Geometry, MultiPolygon, Position } from "geojson";
+import {
+  DEFAULT_DUPLICATE_MIN_ADDRESSES,
+  DEFAULT_POSTAL_MAX_KM,
+  DEFAULT_POSTAL_MIN_PEERS,
+  GEOCODE_FLAG_LABELS,
+  describeFlags,
+  type GeocodeFlag,
+} from "../src/lib/geocoding/checks";
+
+const SUPABASE_URL =
+  process.env.SUPABASE_CLOUD_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_CLOUD_SERVICE_KEY ||
+  process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const BOUNDARIES_DIR = path.join(process.cwd(), "scripts", "boundaries");
+const COUNTRIES = ["Norway", "Sweden", "Denmark"];
+
+interface FlaggedFacility {
+  id: string;
+  name: string;
+  address: string | null;
+  postal_code: string | null;
+  city: string | null;
+  country: string;
+  latitude: number;
+  longitude: number;
+  geocode_provider: string | null;
+  previous_status: string;
+  flags: GeocodeFlag[];
+}
+
+// RPC helper
+async function rpc<T>(
+  fn: string,
+  params: Record<string, unknown> = {},
+): Promise<T> {
+  const url = `${SUPABASE_URL}/rest/v1/rpc/${fn}`;
+  const resp = await fetch(url, {
+    method: "POST",
+    headers: {
+      apikey: SUPABASE_KEY as string,
+      Authorization: `Bearer ${SUPABASE_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(params),
+  });
+
+  // 200 = success with data, 204 = success with no content (VOID functions)
+  if (resp.status !== 200 && resp.status !== 204) {
+    const text = await resp.text();
+    throw new Error(`RPC ${fn} failed: ${resp.status} - ${text}`);
+  }
+
+  if (resp.status === 204) {
+    return undefined as T;
+  }
+
+  return resp.json() as Promise<T>;
+}
+
+// Polygons of a GeoJSON file (FeatureCollection, Feature or bare geometry)
+// merged into one MultiPolygon
+function toMultiPolygon(geojson: unknown): MultiPolygon | null {
+  const polygons: Position[][][] = [];
+
+  const collect = (geometry: Geometry | null) => {
+    if (!geometry) return;
+    if (geometry.type === "Polygon") polygons.push(geometry.coordinates);
+    else if (geometry.type === "MultiPolygon") {
+      polygons.push(...geometry.coordinates);
+    } else if (geometry.type === "GeometryCollection") {
+      geometry.geometries.forEach(collect);
+    }
+  };
+
+  const value = geojson as {
+    type?: string;
+    features?: { geometry: Geometry | null }[];
+    geometry?: Geometry | null;
+  };
+  if (value.type === "FeatureCollection") {
+    value.features?.forEach((feature) => collect(feature.geometry));
+  } else if (value.type === "Feature") {
+    collect(value.geometry ?? null);
+  } else {
+    collect(geojson as Geometry);
+  }
+
+  return polygons.length > 0
+    ? { type: "MultiPolygon", coordinates: polygons }
+    : null;
+}
+
+async function loadBoundaries(countries: string[]) {
+  console.log("🗺️  Loading country boundaries");
+
+  for (const country of countries) {
+    const file = path.join(BOUNDARIES_DIR, `${country.toLowerCase()}.geojson`);
+    if (!existsSync(file)) {
+      console.warn(
+        `⚠️  ${country}: no ${path.relative(process.cwd(), file)}; keeping the bounding box`,
+      );
+      continue;
+    }
+
+    const geometry = toMultiPolygon(JSON.parse(readFileSync(file, "utf-8")));
+    if (!geometry) {
+      console.warn(`⚠️  ${country}: no polygons in ${path.basename(file)}`);
+      continue;
+    }
+
+    await rpc("asset_map_put_country_boundary", {
+      p_country: country,
+      p_geometry: geometry,
+      p_source: path.basename(file),
+    });
+    console.log(
+      `   ${country}: ${geometry.coordinates.length} polygons from ${path.basename(file)}`,
+    );
+  }
+  console.log();
+}
+
+function numberArg(args: string[], name: string, fallback: number): number {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  return arg ? Number(arg.split("=")[1]) : fallback;
+}
+
+// Main execution
+async function main() {
+  const args = process.argv.slice(2);
+  const countryFilter = args
+    .find((a) => a.startsWith("--country="))
+    ?.split("=")[1];
+  const apply = args.includes("--apply");
+  const postalMaxKm = numberArg(args, "postal-max-km", DEFAULT_POSTAL_MAX_KM);
+  const postalMinPeers = numberArg(
+    args,
+    "postal-min-peers",
+    DEFAULT_POSTAL_MIN_PEERS,
+  );
+  const duplicateMin = numberArg(
+    args,
+    "duplicate-min",
+    DEFAULT_DUPLICATE_MIN_ADDRESSES,
+  );
+
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    console.error("❌ Missing Supabase environment variables");
+    process.exit(1);
+  }
+
+  if (!args.includes("--skip-boundaries")) {
+    await loadBoundaries(countryFilter ? [countryFilter] : COUNTRIES);
+  }
+
+  console.log("🔎 Geocode Sanity Checks");
+  console.log("─".repeat(50));
+  console.log(`   Country filter: ${countryFilter || "all"}`);
+  console.log(
+    `   Postal area: > ${postalMaxKm} km from ≥ ${postalMinPeers} peers`,
+  );
+  console.log(`   Duplicate point: ≥ ${duplicateMin} addresses`);
+  console.log(`   Apply: ${apply}`);
+
+  const flagged = await rpc<FlaggedFacility[]>("asset_map_check_geocodes", {
+    p_countries: countryFilter ? [countryFilter] : null,
+    p_apply: apply,
+    p_postal_max_km: postalMaxKm,
+    p_postal_min_peers: postalMinPeers,
+    p_duplicate_min_addresses: duplicateMin,
+  });
+
+  console.log(`\n🚩 ${flagged.length} facilities fail a check\n`);
+
+  for (const facility of flagged) {
+    const address = [facility.address, facility.postal_code, facility.city]
+      .filter(Boolean)
+      .join(", ");
+    console.log(
+      `${facility.name.slice(0, 40).padEnd(40)} ${facility.latitude}, ${facility.longitude} (${facility.geocode_provider ?? "unknown"})`,
+    );
+    console.log(
+      `   ${address || "No address"}, ${facility.country} → ${describeFlags(facility.flags)}`,
+    );
+  }
+
+  const counts = new Map<GeocodeFlag, number>();
+  for (const facility of flagged) {
+    for (const flag of facility.flags) {
+      counts.set(flag, (counts.get(flag) ?? 0) + 1);
+    }
+  }
+
+  console.log("\n" + "─".repeat(50));
+  console.log("📊 Summary");
+  for (const [flag, label] of Object.entries(GEOCODE_FLAG_LABELS)) {
+    console.log(
+      `   ${label.padEnd(44)} ${counts.get(flag as GeocodeFlag) ?? 0}`,
+    );
+  }
+  const newlyFlagged = flagged.filter(
+    (f) => f.previous_status !== "flagged",
+  ).length;
+  console.log(`   New since the last run: ${newlyFlagged}`);
+
+  if (!apply && flagged.length > 0) {
+    console.log("\n💡 Run with --apply to flag these facilities");
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
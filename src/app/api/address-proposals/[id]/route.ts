@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { decideAddressProposal } from "@/lib/supabase/addresses";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /api/address-proposals/[id]
+ *
+ * Accepts or rejects a pending address proposal. Body: `{ accept }`.
+ * Accepting writes the proposed value and records its source; returns the
+ * facility either way.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: "Invalid proposal id" }, { status: 400 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    accept?: unknown;
+  } | null;
+  if (typeof body?.accept !== "boolean") {
+    return NextResponse.json(
+      { error: "Expected { accept: boolean }" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const facility = await decideAddressProposal(
+      id,
+      body.accept,
+      user.email ?? user.id,
+    );
+    if (!facility) {
+      return NextResponse.json(
+        { error: "Proposal not found or already decided" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json(facility);
+  } catch (error) {
+    console.error("Error deciding address proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to record the decision" },
+      { status: 500 },
+    );
+  }
+}
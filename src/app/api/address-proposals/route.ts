@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { queryAddressProposals } from "@/lib/supabase/addresses";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/address-proposals
+ *
+ * Reverse-geocoded address values waiting to replace a stored one, oldest
+ * first. Optional `countries` (comma-separated), `limit` and `offset`.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const countries = params.get("countries")?.split(",").filter(Boolean);
+  const limit = Math.min(
+    parseInt(params.get("limit") || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT,
+    MAX_LIMIT,
+  );
+  const offset = parseInt(params.get("offset") || "0", 10) || 0;
+
+  try {
+    const page = await queryAddressProposals({
+      countries: countries?.length ? countries : null,
+      limit,
+      offset,
+    });
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error("Error fetching address proposals:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch address proposals" },
+      { status: 500 },
+    );
+  }
+}
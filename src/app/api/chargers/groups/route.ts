@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rpc } from "@/lib/supabase/rpc";
+import type { ChargerGroup } from "@/lib/supabase/types";
+
+type ChargerGroupsParams = {
+  p_countries?: string[] | null;
+  p_limit?: number;
+  p_offset?: number;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const countries = searchParams.get("countries")?.split(",").filter(Boolean);
+    const limit = parseInt(searchParams.get("limit") || "1000", 10);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    const params: ChargerGroupsParams = {
+      p_countries: countries?.length ? countries : null,
+      p_limit: Math.min(limit, 5000), // Cap at 5000
+      p_offset: offset,
+    };
+
+    const groups = await rpc<ChargerGroup[]>(
+      "get_facility_charger_groups",
+      params,
+    );
+
+    return NextResponse.json({
+      groups,
+      count: groups.length,
+      hasMore: groups.length === params.p_limit,
+    });
+  } catch (error) {
+    console.error("Error fetching charger groups:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch charger groups" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { setFacilityLocation } from "@/lib/supabase/facilities";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    Math.abs(value) <= limit
+  );
+}
+
+/**
+ * PUT /api/facilities/[id]/location
+ *
+ * Places a facility by hand. Body: `{ latitude, longitude }`. Stores the
+ * coordinates with geocode_status "manual" and the signed-in editor, and
+ * returns the updated facility.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: "Invalid facility id" }, { status: 400 });
+  }
+
+  let body: { latitude?: unknown; longitude?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Expected a JSON body" },
+      { status: 400 },
+    );
+  }
+
+  const { latitude, longitude } = body;
+  if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) {
+    return NextResponse.json(
+      { error: "latitude and longitude must be valid WGS84 degrees" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const facility = await setFacilityLocation(
+      id,
+      { latitude, longitude },
+      user.email ?? user.id,
+    );
+
+    if (!facility) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(facility);
+  } catch (error) {
+    console.error("Error saving facility location:", error);
+    return NextResponse.json(
+      { error: "Failed to save facility location" },
+      { status: 500 },
+    );
+  }
+}
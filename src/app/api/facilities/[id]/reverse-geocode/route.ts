@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { rpc } from "@/lib/supabase/rpc";
+import { applyReverseGeocode } from "@/lib/supabase/addresses";
+import type { FacilityDetail } from "@/lib/supabase/types";
+import { reverseGeocodeWithChain } from "@/lib/geocoding/chain";
+import { chainFor, loadGeocodingConfig } from "@/lib/geocoding/config";
+import {
+  hasTrustedPoint,
+  planAddressChanges,
+  type ReverseGeocodeOutcome,
+} from "@/lib/geocoding/reverse";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /api/facilities/[id]/reverse-geocode
+ *
+ * Looks up the address at a placed facility's point with its country's
+ * provider chain. Blank address, postal code and city fields are filled
+ * and their source recorded; values that differ from stored ones become
+ * address proposals for review. Returns a ReverseGeocodeOutcome. Runs the
+ * providers live, so each call spends provider quota.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: "Invalid facility id" }, { status: 400 });
+  }
+
+  try {
+    const { facility } = await rpc<{
+      facility: FacilityDetail["facility"] | null;
+    }>("get_facility_with_chargers", { p_facility_id: id }, { fresh: true });
+    if (!facility) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 },
+      );
+    }
+    if (facility.latitude === null || facility.longitude === null) {
+      return NextResponse.json(
+        { error: "Facility has no point to look up" },
+        { status: 409 },
+      );
+    }
+    if (!hasTrustedPoint(facility)) {
+      return NextResponse.json(
+        {
+          error:
+            "Only facilities placed by hand or geocoded to an address point can be reverse geocoded",
+        },
+        { status: 409 },
+      );
+    }
+
+    const { chain, unavailable } = chainFor(
+      facility.country,
+      loadGeocodingConfig(),
+    );
+    const { fields, errors } = await reverseGeocodeWithChain(
+      {
+        latitude: facility.latitude,
+        longitude: facility.longitude,
+        country: facility.country,
+      },
+      chain,
+    );
+
+    const applied = await applyReverseGeocode(
+      id,
+      planAddressChanges(facility, fields),
+      user.email ?? user.id,
+    );
+    if (!applied) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 },
+      );
+    }
+
+    const response: ReverseGeocodeOutcome = {
+      ...applied,
+      errors: [
+        ...errors,
+        ...unavailable.map((name) => `${name}: not configured`),
+      ],
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error reverse geocoding facility:", error);
+    return NextResponse.json(
+      { error: "Failed to reverse geocode facility" },
+      { status: 500 },
+    );
+  }
+}
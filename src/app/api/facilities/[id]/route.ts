@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rpc } from "@/lib/supabase/rpc";
+import type { FacilityDetail } from "@/lib/supabase/types";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type FacilityWithChargersResult = {
+  facility: FacilityDetail["facility"] | null;
+  chargers: FacilityDetail["chargers"];
+};
+
+/**
+ * GET /api/facilities/[id]
+ *
+ * Returns a facility with its full charger inventory.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: "Invalid facility id" }, { status: 400 });
+  }
+
+  try {
+    // Fresh, so the drawer shows a move, review or address fill at once
+    const result = await rpc<FacilityWithChargersResult>(
+      "get_facility_with_chargers",
+      { p_facility_id: id },
+      { fresh: true },
+    );
+
+    if (!result.facility) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 },
+      );
+    }
+
+    const detail: FacilityDetail = {
+      facility: result.facility,
+      chargers: result.chargers,
+    };
+
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error("Error fetching facility:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch facility" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  queryChargersForFacilities,
+  queryMatchingFacilities,
+} from "@/lib/supabase/facilities";
+import type { ExportFormat } from "@/lib/supabase/types";
+import { parseFacilityQuery } from "@/lib/utils/facility-query";
+import { buildExport } from "@/lib/utils/export";
+
+const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx", "geojson"];
+
+/**
+ * GET /api/facilities/export?format=csv|xlsx|geojson
+ *
+ * Accepts the same filter parameters as /api/facilities (limit/offset are
+ * ignored; everything matching is exported), plus a map selection as
+ * `polygon` or `radius` (see lib/utils/selection) and `geocode_statuses`
+ * (e.g. `success,manual` to leave out flagged points). `chargers=true`
+ * adds the (filter-matching) chargers: one row per charger in CSV, a
+ * second sheet in XLSX and a `chargers` array property in GeoJSON.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const format = searchParams.get("format") as ExportFormat | null;
+    if (!format || !EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const { query, error } = parseFacilityQuery(searchParams);
+    if (error !== null) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const includeChargers = searchParams.get("chargers") === "true";
+
+    // Filtered like the map sidebar, so the export matches what is listed
+    const facilities = await queryMatchingFacilities(query);
+
+    const chargers = includeChargers
+      ? await queryChargersForFacilities(
+          facilities.map((f) => f.id),
+          query,
+        )
+      : null;
+
+    const file = buildExport(format, facilities, chargers);
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting facilities:", error);
+    return NextResponse.json(
+      { error: "Failed to export facilities" },
+      { status: 500 },
+    );
+  }
+}
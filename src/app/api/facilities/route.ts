@@ -1,80 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { Facility } from "@/lib/supabase/types";
-
-function getSupabaseConfig() {
-  // Use SUPABASE_CLOUD_* vars to match volterra convention (vs self-hosted)
-  const url =
-    process.env.SUPABASE_CLOUD_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_CLOUD_SERVICE_KEY;
-
-  if (!url || !key) {
-    throw new Error("Missing Supabase configuration");
-  }
-
-  return { url, key };
-}
-
-type FacilitiesParams = {
-  p_countries?: string[] | null;
-  p_search?: string | null;
-  p_geocoded_only?: boolean;
-  p_limit?: number;
-  p_offset?: number;
-};
-
-async function rpc<T>(
-  functionName: string,
-  params: Record<string, unknown>,
-): Promise<T> {
-  const { url, key } = getSupabaseConfig();
-
-  const response = await fetch(`${url}/rest/v1/rpc/${functionName}`, {
-    method: "POST",
-    headers: {
-      apikey: key,
-      Authorization: `Bearer ${key}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(params),
-    // Revalidate every 60 seconds for caching
-    next: { revalidate: 60 },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `RPC ${functionName} failed: ${response.status} ${errorText}`,
-    );
-  }
-
-  return response.json();
-}
-
+import { queryFacilities } from "@/lib/supabase/facilities";
+import { parseFacilityQuery } from "@/lib/utils/facility-query";
+
+/**
+ * GET /api/facilities
+ *
+ * Query parameters:
+ *   countries, search, geocoded_only, limit, offset
+ *   statuses, vendors, models, charger_types, ownerships, subscription_types
+ *   installed_from, installed_to (YYYY-MM-DD)
+ *   bbox (minLng,minLat,maxLng,maxLat)
+ *   geocode_statuses, polygon / radius (see lib/utils/selection)
+ *
+ * When any charger parameter is set, only facilities with at least one
+ * matching charger are returned, each with `matching_charger_count`.
+ * With `bbox` or a selection, only geocoded facilities inside it are
+ * returned. With `geocode_statuses` or a selection, `search` also matches
+ * city, address and postal code, as in the map sidebar.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
 
     // Parse query parameters
-    const countries = searchParams.get("countries")?.split(",").filter(Boolean);
-    const search = searchParams.get("search") || null;
-    const geocodedOnly = searchParams.get("geocoded_only") === "true";
+    const { query, error } = parseFacilityQuery(searchParams);
+    if (error !== null) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
     const limit = parseInt(searchParams.get("limit") || "2500", 10);
     const offset = parseInt(searchParams.get("offset") || "0", 10);
+    const pageLimit = Math.min(limit, 5000); // Cap at 5000
 
-    const params: FacilitiesParams = {
-      p_countries: countries?.length ? countries : null,
-      p_search: search,
-      p_geocoded_only: geocodedOnly,
-      p_limit: Math.min(limit, 5000), // Cap at 5000
-      p_offset: offset,
-    };
-
-    const facilities = await rpc<Facility[]>("get_facilities", params);
+    const facilities = await queryFacilities(query, pageLimit, offset);
 
     return NextResponse.json({
       facilities,
       count: facilities.length,
-      hasMore: facilities.length === params.p_limit,
+      hasMore: facilities.length === pageLimit,
     });
   } catch (error) {
     console.error("Error fetching facilities:", error);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  queryChargerVendors,
+  queryFacilityStats,
+  queryMatchingPage,
+} from "@/lib/supabase/facilities";
+import type { FacilitySummary } from "@/lib/supabase/types";
+import { parseFacilityQuery } from "@/lib/utils/facility-query";
+
+// Facilities listed in the sidebar; the stats cover every match
+const LISTED_FACILITIES = 500;
+
+/**
+ * GET /api/facilities/summary
+ *
+ * The sidebar's statistics, facility list and vendor options for the
+ * same filter parameters as /api/facilities/export (including the map
+ * selection and `geocode_statuses`). Used in vector-tile mode, where the
+ * browser never loads every facility. The stats are aggregated in the
+ * database; the list holds the facilities with the most chargers, at most
+ * LISTED_FACILITIES of them (`truncated` when more matched). Under charger
+ * filters, counts are matching chargers.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const { query, error } = parseFacilityQuery(searchParams);
+    if (error !== null) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const [stats, listed, vendors] = await Promise.all([
+      queryFacilityStats(query),
+      queryMatchingPage(query, LISTED_FACILITIES, 0),
+      queryChargerVendors(),
+    ]);
+
+    const response: FacilitySummary = {
+      stats,
+      facilities: listed.map((f) => ({
+        ...f,
+        charger_count: f.matching_charger_count,
+      })),
+      truncated: stats.facilityCount > LISTED_FACILITIES,
+      vendors,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error summarising facilities:", error);
+    return NextResponse.json(
+      { error: "Failed to summarise facilities" },
+      { status: 500 },
+    );
+  }
+}
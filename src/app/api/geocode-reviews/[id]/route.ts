@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { rpc } from "@/lib/supabase/rpc";
+import { recordReviewDecision } from "@/lib/supabase/reviews";
+import type { FacilityDetail } from "@/lib/supabase/types";
+import {
+  geocodeCandidates,
+  geocodeVariant,
+  type GeocodeResult,
+} from "@/lib/geocoding/chain";
+import { chainFor, loadGeocodingConfig } from "@/lib/geocoding/config";
+import {
+  QUERY_VARIANT_FIELDS,
+  type QueryVariant,
+} from "@/lib/geocoding/providers";
+import type {
+  ResolvedReviewDecision,
+  ReviewCandidate,
+  ReviewCandidates,
+  ReviewDecision,
+} from "@/lib/geocoding/review";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function getUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user;
+}
+
+// Raw provider responses stay on the server
+function toCandidate(result: GeocodeResult): ReviewCandidate {
+  return {
+    latitude: result.latitude,
+    longitude: result.longitude,
+    confidence: result.confidence,
+    label: result.label,
+    provider: result.provider,
+    variant: result.variant,
+  };
+}
+
+async function getFacility(id: string) {
+  const { facility } = await rpc<{
+    facility: FacilityDetail["facility"] | null;
+  }>("get_facility_with_chargers", { p_facility_id: id }, { fresh: true });
+  return facility;
+}
+
+// The picked candidate as its provider returns it now, or null if the
+// provider isn't in the facility's chain or no longer matches
+async function lookUpCandidate(
+  facility: FacilityDetail["facility"],
+  provider: string,
+  variant: QueryVariant,
+): Promise<ReviewCandidate | null> {
+  const { chain } = chainFor(facility.country, loadGeocodingConfig());
+  const chainProvider = chain.find((p) => p.name === provider);
+  if (!chainProvider?.variants.includes(variant)) return null;
+
+  const match = await geocodeVariant(facility, chainProvider, variant);
+  return match && toCandidate(match);
+}
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+function isPosition(latitude: unknown, longitude: unknown) {
+  return (
+    isNumber(latitude) &&
+    isNumber(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+// Narrow an untrusted request body to a decision, or null if it isn't one
+function parseDecision(body: unknown): ReviewDecision | null {
+  if (!body || typeof body !== "object") return null;
+  const value = body as Record<string, unknown>;
+
+  switch (value.decision) {
+    case "accepted":
+      return { decision: "accepted" };
+    case "manual":
+      return isPosition(value.latitude, value.longitude)
+        ? {
+            decision: "manual",
+            latitude: value.latitude as number,
+            longitude: value.longitude as number,
+          }
+        : null;
+    case "candidate":
+      return typeof value.provider === "string" &&
+        typeof value.variant === "string" &&
+        value.variant in QUERY_VARIANT_FIELDS
+        ? {
+            decision: "candidate",
+            provider: value.provider,
+            variant: value.variant as QueryVariant,
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * GET /api/geocode-reviews/[id]
+ *
+ * Candidate positions for a facility: every match from every provider and
+ * query variant in its country's chain, most confident first. Runs the
+ * providers live, so each call spends provider quota.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  if (!(await getUser())) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: "Invalid facility id" }, { status: 400 });
+  }
+
+  try {
+    const facility = await getFacility(id);
+    if (!facility) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 },
+      );
+    }
+
+    const { chain, unavailable } = chainFor(
+      facility.country,
+      loadGeocodingConfig(),
+    );
+    const { candidates, errors } = await geocodeCandidates(facility, chain);
+
+    const response: ReviewCandidates = {
+      candidates: candidates.map(toCandidate),
+      errors: [
+        ...errors,
+        ...unavailable.map((name) => `${name}: not configured`),
+      ],
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error geocoding review candidates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch candidates" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/geocode-reviews/[id]
+ *
+ * Records a review decision (a ReviewDecision body) for the signed-in
+ * reviewer and applies it; returns the updated facility. A picked
+ * candidate is geocoded again with its provider and query variant, and
+ * that match is applied.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: "Invalid facility id" }, { status: 400 });
+  }
+
+  const decision = parseDecision(await request.json().catch(() => null));
+  if (!decision) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { decision: accepted | candidate (with provider, variant) | manual (with latitude, longitude) }",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    let resolved: ResolvedReviewDecision;
+    if (decision.decision === "candidate") {
+      const current = await getFacility(id);
+      if (!current) {
+        return NextResponse.json(
+          { error: "Facility not found" },
+          { status: 404 },
+        );
+      }
+      const candidate = await lookUpCandidate(
+        current,
+        decision.provider,
+        decision.variant,
+      );
+      if (!candidate) {
+        return NextResponse.json(
+          { error: "The candidate is no longer available; reload candidates" },
+          { status: 409 },
+        );
+      }
+      resolved = { decision: "candidate", candidate };
+    } else {
+      resolved = decision;
+    }
+
+    const facility = await recordReviewDecision(
+      id,
+      resolved,
+      user.email ?? user.id,
+    );
+    if (!facility) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json(facility);
+  } catch (error) {
+    console.error("Error recording review decision:", error);
+    return NextResponse.json(
+      { error: "Failed to record review decision" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { queryReviewQueue } from "@/lib/supabase/reviews";
+import {
+  DEFAULT_REVIEW_THRESHOLD,
+  type ReviewQueue,
+} from "@/lib/geocoding/review";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/geocode-reviews
+ *
+ * Facilities waiting for geocode review: geocoded below `threshold`
+ * (default 0.75) or failed, and not reviewed yet. Optional `countries`
+ * (comma-separated), `limit` and `offset`.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const threshold = Number(params.get("threshold") ?? DEFAULT_REVIEW_THRESHOLD);
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+    return NextResponse.json(
+      { error: "threshold must be between 0 and 1" },
+      { status: 400 },
+    );
+  }
+  const countries = params.get("countries")?.split(",").filter(Boolean);
+  const limit = Math.min(
+    parseInt(params.get("limit") || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT,
+    MAX_LIMIT,
+  );
+  const offset = parseInt(params.get("offset") || "0", 10) || 0;
+
+  try {
+    const queue = await queryReviewQueue({
+      threshold,
+      countries: countries?.length ? countries : null,
+      limit,
+      offset,
+    });
+    const response: ReviewQueue = { ...queue, threshold };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching review queue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch review queue" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,309 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import {
+  applyChargerSync,
+  queryChargerSnapshot,
+  queryImportBatches,
+} from "@/lib/supabase/imports";
+import { listProfiles, loadProfile } from "@/lib/import/profiles";
+import {
+  DEFAULT_PROFILE,
+  readRegister,
+  type ImportProfile,
+  type SheetRow,
+} from "@/lib/import/register";
+import {
+  buildSyncParams,
+  diffChargers,
+  keyRecords,
+  type ImportOverview,
+  type ImportPreview,
+  type ImportProgress,
+} from "@/lib/import/sync";
+import {
+  PROBLEM_RULES,
+  summariseProblems,
+  validateRows,
+  type ProblemCode,
+} from "@/lib/import/validation";
+
+const IMPORT_COUNTRIES = ["Norway", "Sweden", "Denmark"];
+// Registers are a few MB; anything bigger is the wrong file
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const MAX_PREVIEW_PROBLEMS = 200;
+const SAMPLE_SIZE = 10;
+const BATCH_LIMIT = 20;
+
+/**
+ * Countries the user may import. Users with app_metadata.import_admin may
+ * import any country; country ops leads have app_metadata.import_countries
+ * set and only refresh their own. Everyone else gets no countries.
+ */
+function importCountries(user: User): {
+  countries: string[];
+  restricted: boolean;
+} {
+  if (user.app_metadata?.import_admin === true) {
+    return { countries: IMPORT_COUNTRIES, restricted: false };
+  }
+  const countries = user.app_metadata?.import_countries;
+  return {
+    countries: Array.isArray(countries) ? countries.map(String) : [],
+    restricted: true,
+  };
+}
+
+async function getUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user;
+}
+
+/**
+ * Serial-number diff of the register against the database. Removals are
+ * limited to the selected country, or else to the countries in the file.
+ * Chargers held by countries outside `writable` are skipped.
+ */
+async function diffRegister(
+  rows: SheetRow[],
+  profile: ImportProfile,
+  country: string | null,
+  writable: Set<string> | undefined,
+  onPage?: (loaded: number) => void,
+) {
+  const incoming = keyRecords(rows, profile);
+  const current = await queryChargerSnapshot(onPage);
+  const removalCountries = country
+    ? new Set([country])
+    : new Set([...incoming.values()].map((r) => r.country));
+  return {
+    diff: diffChargers(current, incoming, removalCountries, writable),
+    databaseChargers: current.size,
+  };
+}
+
+/**
+ * GET /api/imports
+ *
+ * Profiles and countries the signed-in user can import with, and the most
+ * recent import batches.
+ */
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const overview: ImportOverview = {
+      profiles: listProfiles(),
+      ...importCountries(user),
+      batches: await queryImportBatches(BATCH_LIMIT),
+    };
+    return NextResponse.json(overview);
+  } catch (error) {
+    console.error("Error fetching imports:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch imports" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/imports
+ *
+ * Multipart form with `file` (xlsx or csv), `profile` (see
+ * scripts/import-profiles), `country` and `mode`:
+ * - `preview` returns an ImportPreview: validation problems and the diff
+ *   against the database, without writing anything.
+ * - `commit` re-reads the file, refuses it (422) if validation finds errors,
+ *   and otherwise applies it as an import batch, streaming ImportProgress
+ *   events as newline-delimited JSON.
+ *
+ * The file is parsed with the same profiles and normalisation as
+ * scripts/import-excel.ts, so both paths write identical data.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { countries, restricted } = importCountries(user);
+  if (countries.length === 0) {
+    return NextResponse.json(
+      { error: "You don't have permission to import registers" },
+      { status: 403 },
+    );
+  }
+  const writable = restricted ? new Set(countries) : undefined;
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { error: "Expected a multipart form" },
+      { status: 400 },
+    );
+  }
+
+  const file = form.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json({ error: "file is required" }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json(
+      { error: `file must be under ${MAX_FILE_BYTES / 1024 / 1024} MB` },
+      { status: 413 },
+    );
+  }
+
+  const mode = form.get("mode") ?? "preview";
+  if (mode !== "preview" && mode !== "commit") {
+    return NextResponse.json(
+      { error: "mode must be preview or commit" },
+      { status: 400 },
+    );
+  }
+
+  const profileName = String(form.get("profile") || DEFAULT_PROFILE.name);
+  if (!listProfiles().includes(profileName)) {
+    return NextResponse.json(
+      { error: `Unknown profile: ${profileName}` },
+      { status: 400 },
+    );
+  }
+
+  const country = form.get("country") ? String(form.get("country")) : null;
+  if (country ? !countries.includes(country) : restricted) {
+    return NextResponse.json(
+      { error: `You can import ${countries.join(", ")}` },
+      { status: 403 },
+    );
+  }
+
+  try {
+    const profile =
+      profileName === DEFAULT_PROFILE.name
+        ? DEFAULT_PROFILE
+        : loadProfile(profileName);
+    const { sheetName, rows, headers, missingColumns } = readRegister(
+      Buffer.from(await file.arrayBuffer()),
+      file.name,
+      profile,
+    );
+    const problems = validateRows(rows, headers, profile, {
+      country: country ?? undefined,
+    });
+    const { errors, warnings } = summariseProblems(problems);
+
+    if (mode === "preview") {
+      const byCode = new Map<ProblemCode, number>();
+      for (const p of problems)
+        byCode.set(p.code, (byCode.get(p.code) ?? 0) + 1);
+
+      const { diff, databaseChargers } =
+        errors === 0
+          ? await diffRegister(rows, profile, country, writable)
+          : { diff: null, databaseChargers: null };
+
+      const preview: ImportPreview = {
+        file: file.name,
+        profile: profile.name,
+        country,
+        sheet: sheetName,
+        rows: rows.length,
+        errors,
+        warnings,
+        missingColumns,
+        databaseChargers,
+        problems: problems.slice(0, MAX_PREVIEW_PROBLEMS),
+        problemSummary: [...byCode]
+          .sort((a, b) => b[1] - a[1])
+          .map(([code, count]) => ({ code, ...PROBLEM_RULES[code], count })),
+        diff: diff && {
+          added: diff.added.length,
+          changed: diff.changed.length,
+          moved: diff.moved.length,
+          removed: diff.removed.length,
+          unchanged: diff.unchanged,
+          skipped: diff.skipped.length,
+        },
+        samples: diff && {
+          added: diff.added.slice(0, SAMPLE_SIZE),
+          changed: diff.changed.slice(0, SAMPLE_SIZE),
+          moved: diff.moved.slice(0, SAMPLE_SIZE),
+          removed: diff.removed.slice(0, SAMPLE_SIZE),
+          skipped: diff.skipped.slice(0, SAMPLE_SIZE),
+        },
+      };
+      return NextResponse.json(preview);
+    }
+
+    if (errors > 0) {
+      return NextResponse.json(
+        { error: `The file has ${errors} errors; fix them and preview again` },
+        { status: 422 },
+      );
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ImportProgress) =>
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+        try {
+          const { diff } = await diffRegister(
+            rows,
+            profile,
+            country,
+            writable,
+            (loaded) => send({ stage: "snapshot", loaded }),
+          );
+          const params = buildSyncParams(diff, {
+            file_name: file.name,
+            profile: profile.name,
+            imported_by: user.email ?? user.id,
+            row_count: rows.length,
+          });
+
+          if (!params) {
+            // Already up to date
+            send({ stage: "done", result: null });
+            return;
+          }
+
+          send({
+            stage: "applying",
+            changes: params.p_chargers.length + params.p_removed.length,
+          });
+          send({ stage: "done", result: await applyChargerSync(params) });
+        } catch (error) {
+          console.error("Error importing register:", error);
+          send({ stage: "error", error: "Failed to import register" });
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading register:", error);
+    return NextResponse.json(
+      { error: "Failed to read register" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createGeocodeJob, queryGeocodeJobs } from "@/lib/supabase/jobs";
+import type { GeocodeJobRequest } from "@/lib/geocoding/jobs";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Finished jobs listed next to the running ones
+const RECENT_JOBS = 5;
+// Keeps the facility id array in one request body small
+const MAX_FACILITY_IDS = 5000;
+
+async function getUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user;
+}
+
+// Narrow an untrusted request body to a job request, or null if it isn't one
+function parseJobRequest(body: unknown): GeocodeJobRequest | null {
+  if (!body || typeof body !== "object") return null;
+  const value = body as Record<string, unknown>;
+
+  if (value.country !== undefined && typeof value.country !== "string") {
+    return null;
+  }
+  if (
+    value.retryFailed !== undefined &&
+    typeof value.retryFailed !== "boolean"
+  ) {
+    return null;
+  }
+  if (value.facilityIds !== undefined) {
+    const ids = value.facilityIds;
+    if (
+      !Array.isArray(ids) ||
+      ids.length === 0 ||
+      ids.length > MAX_FACILITY_IDS ||
+      !ids.every((id) => typeof id === "string" && UUID_PATTERN.test(id))
+    ) {
+      return null;
+    }
+    // A job is queued for a country or for facilities, not both
+    if (value.country !== undefined) return null;
+  }
+
+  return {
+    country: value.country as string | undefined,
+    facilityIds: value.facilityIds as string[] | undefined,
+    retryFailed: value.retryFailed as boolean | undefined,
+  };
+}
+
+/**
+ * GET /api/jobs/geocode
+ *
+ * Queued and running geocoding jobs plus the last few finished ones, with
+ * their progress counts, newest first.
+ */
+export async function GET() {
+  if (!(await getUser())) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await queryGeocodeJobs(RECENT_JOBS));
+  } catch (error) {
+    console.error("Error fetching geocode jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch geocode jobs" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/jobs/geocode
+ *
+ * Queues a background geocoding job. Body: `{ country?, facilityIds?,
+ * retryFailed? }` - the facilities in a country that need geocoding (every
+ * country when omitted), or the listed facilities. With `retryFailed`,
+ * facilities that failed before are retried with rewritten queries.
+ * Returns the job (201), or 409 when nothing needs geocoding. The worker
+ * (scripts/geocode.ts --worker) picks it up.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const jobRequest = parseJobRequest(await request.json().catch(() => null));
+  if (!jobRequest) {
+    return NextResponse.json(
+      {
+        error:
+          "Expected { country?: string, facilityIds?: uuid[], retryFailed?: boolean }, not both country and facilityIds",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const job = await createGeocodeJob(jobRequest, user.email ?? user.id);
+    if (!job) {
+      return NextResponse.json(
+        { error: "No facilities need geocoding, or they are already queued" },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json(job, { status: 201 });
+  } catch (error) {
+    console.error("Error creating geocode job:", error);
+    return NextResponse.json(
+      { error: "Failed to create geocode job" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rpc } from "@/lib/supabase/rpc";
+import {
+  parseFacilityQuery,
+  toChargerRpcParams,
+} from "@/lib/utils/facility-query";
+
+// Deepest zoom we serve; MapLibre overzooms beyond this
+const MAX_ZOOM = 16;
+
+type TileParams = { z: string; x: string; y: string };
+
+function parseTileCoordinates({ z, x, y }: TileParams) {
+  const zoom = Number(z);
+  const col = Number(x);
+  // Allow an optional extension, e.g. /api/tiles/5/17/9.pbf
+  const row = Number(y.replace(/\.(pbf|mvt)$/, ""));
+
+  if (![zoom, col, row].every(Number.isInteger)) return null;
+  if (zoom < 0 || zoom > MAX_ZOOM) return null;
+
+  const size = 2 ** zoom;
+  if (col < 0 || col >= size || row < 0 || row >= size) return null;
+
+  return { z: zoom, x: col, y: row };
+}
+
+/**
+ * GET /api/tiles/{z}/{x}/{y}
+ *
+ * Mapbox Vector Tile with a single `facilities` layer. Accepts the same
+ * filter parameters as /api/facilities (geocoded_only is implied), plus
+ * `geocode_statuses` (e.g. `success,manual` to leave out flagged points).
+ * Low zooms contain server-side clusters with `point_count`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<TileParams> },
+) {
+  const tile = parseTileCoordinates(await params);
+  if (!tile) {
+    return NextResponse.json(
+      { error: "Invalid tile coordinates" },
+      { status: 400 },
+    );
+  }
+
+  const { query, error } = parseFacilityQuery(request.nextUrl.searchParams);
+  if (error !== null) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    const encoded = await rpc<string>("get_facility_tile", {
+      p_z: tile.z,
+      p_x: tile.x,
+      p_y: tile.y,
+      p_countries: query.countries,
+      p_search: query.search,
+      ...toChargerRpcParams(query),
+      p_geocode_statuses: query.geocodeStatuses,
+    });
+
+    return new NextResponse(Buffer.from(encoded, "base64"), {
+      headers: {
+        "Content-Type": "application/vnd.mapbox-vector-tile",
+        "Cache-Control": "public, max-age=60",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching tile:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tile" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import { ImportUploader } from "@/components/imports/ImportUploader";
+
+export default function ImportsPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <ImportUploader />
+    </div>
+  );
+}
@@ -1,34 +1,178 @@
 "use client";
 
-import { useState, useCallback, useMemo } from "react";
+import { Suspense, useState, useCallback, useEffect, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
 import { AssetMap } from "@/components/asset-map/AssetMap";
 import { MapSidebar } from "@/components/asset-map/MapSidebar";
+import { FacilityDetailSheet } from "@/components/asset-map/FacilityDetailSheet";
 import { useFacilities } from "@/lib/hooks/useFacilities";
-import type { MapFilters, Facility } from "@/lib/supabase/types";
+import { useChargerGroups } from "@/lib/hooks/useChargerGroups";
+import { useFacilityDetail } from "@/lib/hooks/useFacilityDetail";
+import { useFacilitySummary } from "@/lib/hooks/useFacilitySummary";
+import {
+  countMatchingChargers,
+  countStatuses,
+  countsTowardCoverage,
+  filtersToSearchParams,
+  groupByFacility,
+  hasChargerFilters,
+  matchesGeocodeStatus,
+  matchesSearch,
+} from "@/lib/utils/filters";
+import { parseUrlState, urlStateToSearchParams } from "@/lib/utils/url-state";
+import { facilityInSelection, setSelectionParam } from "@/lib/utils/selection";
+import { gridGaps, polygonGaps } from "@/lib/utils/gaps";
+import { facilityStats } from "@/lib/utils/stats";
+import type {
+  MapFilters,
+  Facility,
+  FilteredFacility,
+  MapColorMode,
+  MapDisplayMode,
+  GapAnalysisSettings,
+  FacilityLoadMode,
+  MapSourceMode,
+  MapViewport,
+  MapSelection,
+  SelectionTool,
+  StatusCounts,
+} from "@/lib/supabase/types";
 import { Loader2 } from "lucide-react";
 
+// "tiles" renders server-clustered vector tiles instead of client GeoJSON
+const MAP_SOURCE: MapSourceMode =
+  process.env.NEXT_PUBLIC_MAP_SOURCE === "tiles" ? "tiles" : "geojson";
+
+// "viewport" loads only the facilities in view as the map moves. Always so
+// with vector tiles, where facilities are loaded only for the heatmap and
+// gap views and the sidebar comes from /api/facilities/summary
+const LOAD_MODE: FacilityLoadMode =
+  MAP_SOURCE === "tiles" ||
+  process.env.NEXT_PUBLIC_FACILITY_LOADING === "viewport"
+    ? "viewport"
+    : "all";
+
+const EMPTY_STATS = facilityStats([]);
+
+const DEFAULT_RADIUS_KM = 5;
+
+const defaultGapSettings: GapAnalysisSettings = {
+  areas: "grid",
+  cellSizeKm: 10,
+  threshold: 5,
+  polygons: null,
+  polygonsName: null,
+};
+
 const defaultFilters: MapFilters = {
   countries: [],
   statuses: [],
   vendors: [],
   chargerTypes: [],
   ownerships: [],
+  geocodeStatuses: [],
   searchQuery: "",
 };
 
-export default function AssetMapPage() {
-  const [filters, setFilters] = useState<MapFilters>(defaultFilters);
+function AssetMapView() {
+  // Initial state comes from the query string so shared links reopen the view
+  const searchParams = useSearchParams();
+  const [urlState] = useState(() => parseUrlState(searchParams));
+
+  const [filters, setFilters] = useState<MapFilters>(urlState.filters);
   const [selectedFacility, setSelectedFacility] = useState<Facility | null>(
     null,
   );
-  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [detailFacility, setDetailFacility] = useState<Facility | null>(null);
+  // Facility being placed by hand on the map
+  const [editingFacility, setEditingFacility] = useState<Facility | null>(
+    null,
+  );
+  const [isSidebarOpen, setIsSidebarOpen] = useState(urlState.sidebarOpen);
+  const [colorMode, setColorMode] = useState<MapColorMode>("country");
+  const [displayMode, setDisplayMode] = useState<MapDisplayMode>("clusters");
+  const [gapSettings, setGapSettings] =
+    useState<GapAnalysisSettings>(defaultGapSettings);
 
-  // Fetch all facilities from Supabase (paginated automatically)
-  const { facilities, loading, error } = useFacilities();
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+
+  // Drawn area narrowing the sidebar list, stats and exports
+  const [selection, setSelection] = useState<MapSelection | null>(
+    urlState.selection,
+  );
+  const [selectionTool, setSelectionTool] = useState<SelectionTool | null>(
+    null,
+  );
+  const [radiusKm, setRadiusKm] = useState(
+    urlState.selection?.type === "radius"
+      ? urlState.selection.radiusKm
+      : DEFAULT_RADIUS_KM,
+  );
+
+  // Facility selected in a shared link, selected until the user picks another
+  const [linkedFacilityId, setLinkedFacilityId] = useState(urlState.facilityId);
+  const { detail: linkedDetail } = useFacilityDetail(linkedFacilityId);
+  const activeFacility = selectedFacility ?? linkedDetail?.facility ?? null;
+
+  // Vector tiles need facilities in the browser only for the coverage views
+  const loadFacilities = MAP_SOURCE !== "tiles" || displayMode !== "clusters";
+
+  // With vector tiles, charger filters are applied by the server to the
+  // facilities loaded in view; search and geocode status stay client-side
+  const facilityQuery = useMemo(
+    () =>
+      MAP_SOURCE === "tiles"
+        ? filtersToSearchParams({ ...filters, searchQuery: "" }).toString()
+        : undefined,
+    [filters],
+  );
+
+  // Fetch facilities from Supabase (all, paginated, or per viewport tile)
+  const { facilities, loading, error, updateFacility } = useFacilities({
+    mode: LOAD_MODE,
+    viewport,
+    query: facilityQuery,
+    enabled: loadFacilities,
+  });
+  // Charger attribute breakdown per facility, for charger-level filters
+  const { groups: chargerGroups } = useChargerGroups(MAP_SOURCE !== "tiles");
+
+  // With vector tiles the sidebar list, stats and vendor options are
+  // computed on the server for the filters and selection
+  const summaryQuery = useMemo(() => {
+    if (MAP_SOURCE !== "tiles") return null;
+    const params = filtersToSearchParams(filters);
+    if (selection) setSelectionParam(params, selection);
+    return params.toString();
+  }, [filters, selection]);
+  const { summary, error: summaryError } = useFacilitySummary(summaryQuery);
+
+  const chargerGroupsByFacility = useMemo(
+    () => groupByFacility(chargerGroups),
+    [chargerGroups],
+  );
+
+  // Status breakdown per facility for health colouring (respects charger filters)
+  const statusCounts = useMemo(() => {
+    const counts = new Map<string, StatusCounts>();
+    for (const [facilityId, groups] of chargerGroupsByFacility) {
+      counts.set(facilityId, countStatuses(groups, filters));
+    }
+    return counts;
+  }, [chargerGroupsByFacility, filters]);
+
+  const vendorOptions = useMemo(() => {
+    if (summary) return summary.vendors;
+    const vendors = new Set<string>();
+    for (const group of chargerGroups) {
+      if (group.vendor) vendors.add(group.vendor);
+    }
+    return Array.from(vendors).sort((a, b) => a.localeCompare(b));
+  }, [chargerGroups, summary]);
 
   // Filter facilities based on current filters
   const filteredFacilities = useMemo(() => {
-    return facilities.filter((facility) => {
+    const facilityMatches = facilities.filter((facility) => {
       // Country filter
       if (
         filters.countries.length > 0 &&
@@ -38,20 +182,114 @@ export default function AssetMapPage() {
       }
 
       // Search query - includes name, city, address, and postal code
-      if (filters.searchQuery) {
-        const query = filters.searchQuery.toLowerCase();
-        const matchesName = facility.name.toLowerCase().includes(query);
-        const matchesCity = facility.city?.toLowerCase().includes(query);
-        const matchesAddress = facility.address?.toLowerCase().includes(query);
-        const matchesPostalCode = facility.postal_code?.toLowerCase().includes(query);
-        if (!matchesName && !matchesCity && !matchesAddress && !matchesPostalCode) {
-          return false;
-        }
+      if (!matchesSearch(facility, filters.searchQuery)) {
+        return false;
+      }
+
+      // Geocode status, e.g. hiding points flagged by the sanity checks
+      if (!matchesGeocodeStatus(facility, filters.geocodeStatuses)) {
+        return false;
       }
 
       return true;
     });
-  }, [facilities, filters]);
+
+    if (!hasChargerFilters(filters)) return facilityMatches;
+
+    // Vector tiles: the server already kept the facilities with matching
+    // chargers and counted them
+    if (MAP_SOURCE === "tiles") {
+      return facilityMatches.map((facility) => ({
+        ...facility,
+        charger_count:
+          (facility as FilteredFacility).matching_charger_count ??
+          facility.charger_count,
+      }));
+    }
+
+    // Charger filters: keep facilities with at least one matching charger
+    // and show only the matching chargers in the count
+    return facilityMatches.flatMap((facility) => {
+      const matching = countMatchingChargers(
+        chargerGroupsByFacility.get(facility.id),
+        filters,
+      );
+      return matching > 0 ? [{ ...facility, charger_count: matching }] : [];
+    });
+  }, [facilities, filters, chargerGroupsByFacility]);
+
+  // Sidebar list and stats: the filtered set, narrowed to the selection
+  // (with vector tiles, the server's list of the largest facilities)
+  const sidebarFacilities = useMemo(() => {
+    if (MAP_SOURCE === "tiles") return summary?.facilities ?? [];
+    return selection
+      ? filteredFacilities.filter((f) => facilityInSelection(f, selection))
+      : filteredFacilities;
+  }, [filteredFacilities, selection, summary]);
+
+  // Heatmap and gap analysis leave out pins flagged by the geocode sanity
+  // checks unless the geocode status filter selects them
+  const coverageFacilities = useMemo(
+    () =>
+      filteredFacilities.filter((f) =>
+        countsTowardCoverage(f, filters.geocodeStatuses),
+      ),
+    [filteredFacilities, filters.geocodeStatuses],
+  );
+  const settledFacilities = useMemo(
+    () =>
+      facilities.filter((f) =>
+        countsTowardCoverage(f, filters.geocodeStatuses),
+      ),
+    [facilities, filters.geocodeStatuses],
+  );
+
+  // Coverage gaps for the filtered chargers: grid cells in view, or the
+  // uploaded polygons (only those fully in view when facilities are loaded
+  // per viewport, as the rest would miss chargers outside it)
+  const gapResult = useMemo(() => {
+    if (displayMode !== "gaps") return null;
+    if (gapSettings.areas === "polygons") {
+      if (!gapSettings.polygons) return null;
+      if (LOAD_MODE === "viewport") {
+        return viewport
+          ? polygonGaps(
+              coverageFacilities,
+              gapSettings.polygons,
+              gapSettings.threshold,
+              viewport.bounds,
+            )
+          : null;
+      }
+      return polygonGaps(
+        coverageFacilities,
+        gapSettings.polygons,
+        gapSettings.threshold,
+      );
+    }
+    // Every loaded facility but flagged pins marks a settled area, whatever
+    // the other filters
+    return viewport
+      ? gridGaps(
+          coverageFacilities,
+          viewport.bounds,
+          gapSettings,
+          settledFacilities,
+        )
+      : null;
+  }, [
+    displayMode,
+    gapSettings,
+    coverageFacilities,
+    settledFacilities,
+    viewport,
+  ]);
+
+  // Same filters, applied server-side when the map renders vector tiles
+  const tileQuery = useMemo(
+    () => filtersToSearchParams(filters).toString(),
+    [filters],
+  );
 
   const handleFilterChange = useCallback((newFilters: Partial<MapFilters>) => {
     setFilters((prev) => ({ ...prev, ...newFilters }));
@@ -59,48 +297,99 @@ export default function AssetMapPage() {
 
   const handleFacilitySelect = useCallback((facility: Facility | null) => {
     setSelectedFacility(facility);
+    setLinkedFacilityId(null);
   }, []);
 
+  const handleFacilityDetails = useCallback((facility: Facility) => {
+    setDetailFacility(facility);
+  }, []);
+
+  const handleEditLocation = useCallback((facility: Facility) => {
+    setDetailFacility(null);
+    setSelectionTool(null);
+    setEditingFacility(facility);
+  }, []);
+
+  const handleLocationSaved = useCallback(
+    (facility: Facility) => {
+      updateFacility(facility);
+      setEditingFacility(null);
+      setSelectedFacility(facility);
+      setLinkedFacilityId(null);
+    },
+    [updateFacility],
+  );
+
+  const handleEditCancel = useCallback(() => setEditingFacility(null), []);
+
+  // Address fields filled from the facility's point
+  const handleFacilityUpdated = useCallback(
+    (facility: Facility) => {
+      updateFacility(facility);
+      setDetailFacility(facility);
+    },
+    [updateFacility],
+  );
+
   const handleClearFilters = useCallback(() => {
     setFilters(defaultFilters);
   }, []);
 
-  // Stats for sidebar
-  const stats = useMemo(() => {
-    const total = filteredFacilities.reduce(
-      (sum, f) => sum + f.charger_count,
-      0,
-    );
-    const byCountry = filteredFacilities.reduce(
-      (acc, f) => {
-        acc[f.country] = (acc[f.country] || 0) + f.charger_count;
-        return acc;
-      },
-      {} as Record<string, number>,
+  const handleGapSettingsChange = useCallback(
+    (settings: Partial<GapAnalysisSettings>) => {
+      setGapSettings((prev) => ({ ...prev, ...settings }));
+    },
+    [],
+  );
+
+  const handleSelectionChange = useCallback(
+    (newSelection: MapSelection | null) => {
+      setSelection(newSelection);
+      setSelectionTool(null);
+    },
+    [],
+  );
+
+  // Resizes an existing radius selection too
+  const handleRadiusChange = useCallback((km: number) => {
+    setRadiusKm(km);
+    setSelection((prev) =>
+      prev?.type === "radius" ? { ...prev, radiusKm: km } : prev,
     );
-    // Facilities by country (count of facilities, not chargers)
-    const facilitiesByCountry = filteredFacilities.reduce(
-      (acc, f) => {
-        acc[f.country] = (acc[f.country] || 0) + 1;
-        return acc;
-      },
-      {} as Record<string, number>,
+  }, []);
+
+  // Mirror state into the query string (without navigating) so the address
+  // bar is always a shareable link
+  useEffect(() => {
+    // Wait for the map so a linked view isn't dropped before it is restored
+    if (!viewport) return;
+
+    const query = urlStateToSearchParams({
+      filters,
+      facilityId: activeFacility?.id ?? linkedFacilityId,
+      viewport,
+      sidebarOpen: isSidebarOpen,
+      selection,
+    }).toString();
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}`,
     );
-    // Geocoding stats
-    const geocodedCount = filteredFacilities.filter(
-      (f) => f.latitude !== null && f.longitude !== null,
-    ).length;
-    const pendingCount = filteredFacilities.length - geocodedCount;
-
-    return {
-      total,
-      byCountry,
-      facilitiesByCountry,
-      facilityCount: filteredFacilities.length,
-      geocodedCount,
-      pendingCount,
-    };
-  }, [filteredFacilities]);
+  }, [
+    filters,
+    activeFacility,
+    linkedFacilityId,
+    viewport,
+    isSidebarOpen,
+    selection,
+  ]);
+
+  // Stats for sidebar
+  const stats = useMemo(() => {
+    if (MAP_SOURCE === "tiles") return summary?.stats ?? EMPTY_STATS;
+    return facilityStats(sidebarFacilities);
+  }, [sidebarFacilities, summary]);
 
   return (
     <div className="h-screen w-screen relative overflow-hidden">
@@ -108,12 +397,34 @@ export default function AssetMapPage() {
       <div className="absolute inset-0">
         <AssetMap
           facilities={filteredFacilities}
-          selectedFacility={selectedFacility}
+          coverageFacilities={coverageFacilities}
+          statusCounts={statusCounts}
+          colorMode={colorMode}
+          displayMode={displayMode}
+          gapAreas={gapResult?.areas ?? null}
+          gapThreshold={gapSettings.threshold}
+          sourceMode={MAP_SOURCE}
+          tileQuery={tileQuery}
+          selectedFacility={activeFacility}
           onFacilitySelect={handleFacilitySelect}
+          onFacilityDetails={handleFacilityDetails}
+          initialView={urlState.view}
+          fitOnLoad={LOAD_MODE === "all" && !urlState.view}
+          restoredSelectionId={urlState.view ? urlState.facilityId : null}
+          onViewportChange={setViewport}
+          selection={selection}
+          onSelectionChange={handleSelectionChange}
+          selectionTool={selectionTool}
+          onSelectionToolChange={setSelectionTool}
+          radiusKm={radiusKm}
+          onRadiusChange={handleRadiusChange}
+          editingFacility={editingFacility}
+          onLocationSaved={handleLocationSaved}
+          onEditCancel={handleEditCancel}
         />
 
         {/* Loading overlay */}
-        {loading && (
+        {loading && LOAD_MODE === "all" && (
           <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center z-50">
             <div className="flex flex-col items-center gap-3">
               <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -124,11 +435,21 @@ export default function AssetMapPage() {
           </div>
         )}
 
+        {/* Viewport loading indicator - keeps the map usable while panning */}
+        {loading && LOAD_MODE === "viewport" && loadFacilities && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-background/90 px-3 py-1.5 rounded-full shadow-lg z-50 flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin text-primary" />
+            <p className="text-xs text-muted-foreground">
+              Loading facilities in view...
+            </p>
+          </div>
+        )}
+
         {/* Error message */}
-        {error && (
-          <div className="absolute top-4 right-4 bg-destructive/90 text-destructive-foreground px-4 py-2 rounded-lg shadow-lg z-50">
+        {(error || summaryError) && (
+          <div className="absolute top-16 right-4 bg-destructive/90 text-destructive-foreground px-4 py-2 rounded-lg shadow-lg z-50">
             <p className="text-sm font-medium">Failed to load facilities</p>
-            <p className="text-xs opacity-80">{error}</p>
+            <p className="text-xs opacity-80">{error ?? summaryError}</p>
           </div>
         )}
       </div>
@@ -140,11 +461,40 @@ export default function AssetMapPage() {
         filters={filters}
         onFilterChange={handleFilterChange}
         onClearFilters={handleClearFilters}
-        facilities={filteredFacilities}
-        selectedFacility={selectedFacility}
+        facilities={sidebarFacilities}
+        facilitiesTruncated={summary?.truncated ?? false}
+        selectedFacility={activeFacility}
         onFacilitySelect={handleFacilitySelect}
+        onPlaceFacility={handleEditLocation}
         stats={stats}
+        vendorOptions={vendorOptions}
+        colorMode={colorMode}
+        onColorModeChange={setColorMode}
+        displayMode={displayMode}
+        onDisplayModeChange={setDisplayMode}
+        gapSettings={gapSettings}
+        onGapSettingsChange={handleGapSettingsChange}
+        gapResult={gapResult}
+        selection={selection}
+        onClearSelection={() => handleSelectionChange(null)}
+      />
+
+      {/* Facility detail drawer */}
+      <FacilityDetailSheet
+        facility={detailFacility}
+        onClose={() => setDetailFacility(null)}
+        onEditLocation={handleEditLocation}
+        onFacilityUpdated={handleFacilityUpdated}
       />
     </div>
   );
 }
+
+// useSearchParams needs a Suspense boundary for static rendering
+export default function AssetMapPage() {
+  return (
+    <Suspense>
+      <AssetMapView />
+    </Suspense>
+  );
+}
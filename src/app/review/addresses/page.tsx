@@ -0,0 +1,9 @@
+import { AddressProposals } from "@/components/review/AddressProposals";
+
+export default function AddressReviewPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <AddressProposals />
+    </div>
+  );
+}
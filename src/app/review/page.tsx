@@ -0,0 +1,9 @@
+import { GeocodeReview } from "@/components/review/GeocodeReview";
+
+export default function ReviewPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <GeocodeReview />
+    </div>
+  );
+}
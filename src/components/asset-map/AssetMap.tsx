@@ -1,50 +1,270 @@
 "use client";
 
-import { useMemo } from "react";
-import { Map, MapControls } from "@/components/ui/map";
+import { useCallback, useEffect } from "react";
+import { Map, MapControls, useMap } from "@/components/ui/map";
 import { FacilityClusterLayer } from "./FacilityClusterLayer";
-import type { Facility } from "@/lib/supabase/types";
+import { GapLayer } from "./GapLayer";
+import { HeatmapLayer } from "./HeatmapLayer";
+import { LocationEditor } from "./LocationEditor";
+import { SelectionLayer } from "./SelectionLayer";
+import { SelectionToolbar } from "./SelectionToolbar";
+import type {
+  Facility,
+  MapColorMode,
+  MapDisplayMode,
+  MapSelection,
+  MapSourceMode,
+  MapViewport,
+  SelectionTool,
+  StatusCounts,
+} from "@/lib/supabase/types";
+import { GAP_COLORS, type GapAreas } from "@/lib/utils/gaps";
+import { HEALTH_COLORS, HEALTH_THRESHOLDS } from "@/lib/utils/geojson";
 
 // Nordic center - good default view showing Norway and Sweden
 const NORDIC_CENTER: [number, number] = [12.0, 62.0];
 const DEFAULT_ZOOM = 5;
+// Wait for panning/zooming to settle before reporting the viewport
+const VIEWPORT_DEBOUNCE_MS = 300;
 
 type AssetMapProps = {
   facilities: Facility[];
+  // Facilities counted in the heatmap (flagged pins are usually left out)
+  coverageFacilities: Facility[];
+  statusCounts: Map<string, StatusCounts>;
+  colorMode: MapColorMode;
+  displayMode: MapDisplayMode;
+  // Areas from the gap analysis, shown in "gaps" mode
+  gapAreas: GapAreas | null;
+  gapThreshold: number;
+  sourceMode: MapSourceMode;
+  tileQuery: string;
   selectedFacility: Facility | null;
   onFacilitySelect: (facility: Facility | null) => void;
+  onFacilityDetails: (facility: Facility) => void;
+  // View restored from a shared link; the Nordic overview otherwise
+  initialView?: { center: [number, number]; zoom: number } | null;
+  // Zoom to the loaded facilities once
+  fitOnLoad?: boolean;
+  // Selection restored together with initialView; shown without flying to it
+  restoredSelectionId?: string | null;
+  // Reported on load and (debounced) after each moveend
+  onViewportChange?: (viewport: MapViewport) => void;
+  // Area selection drawn with the toolbar tools
+  selection: MapSelection | null;
+  onSelectionChange: (selection: MapSelection | null) => void;
+  selectionTool: SelectionTool | null;
+  onSelectionToolChange: (tool: SelectionTool | null) => void;
+  radiusKm: number;
+  onRadiusChange: (radiusKm: number) => void;
+  // Facility being placed by hand; other map interaction is paused
+  editingFacility?: Facility | null;
+  onLocationSaved?: (facility: Facility) => void;
+  onEditCancel?: () => void;
 };
 
+const HEALTH_LEGEND = [
+  {
+    color: HEALTH_COLORS.healthy,
+    label: `< ${HEALTH_THRESHOLDS.warning * 100}% problems`,
+  },
+  {
+    color: HEALTH_COLORS.warning,
+    label: `${HEALTH_THRESHOLDS.warning * 100}–${HEALTH_THRESHOLDS.critical * 100}% problems`,
+  },
+  {
+    color: HEALTH_COLORS.critical,
+    label: `≥ ${HEALTH_THRESHOLDS.critical * 100}% problems`,
+  },
+  { color: HEALTH_COLORS.unknown, label: "No status data" },
+];
+
+function HealthLegend() {
+  return (
+    <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-10 flex flex-wrap items-center gap-3 rounded-lg border bg-background/90 px-3 py-2 text-xs shadow-sm backdrop-blur-sm">
+      <span className="font-medium text-muted-foreground">
+        Disabled or out of order
+      </span>
+      {HEALTH_LEGEND.map(({ color, label }) => (
+        <span key={label} className="flex items-center gap-1.5">
+          <span
+            className="size-2.5 rounded-full"
+            style={{ backgroundColor: color }}
+          />
+          {label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function GapLegend({ threshold }: { threshold: number }) {
+  const items = [
+    { color: GAP_COLORS.none, label: "No chargers" },
+    { color: GAP_COLORS.low, label: `Fewer than ${threshold} chargers` },
+  ];
+
+  return (
+    <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-10 flex flex-wrap items-center gap-3 rounded-lg border bg-background/90 px-3 py-2 text-xs shadow-sm backdrop-blur-sm">
+      <span className="font-medium text-muted-foreground">Coverage gaps</span>
+      {items.map(({ color, label }) => (
+        <span key={label} className="flex items-center gap-1.5">
+          <span
+            className="size-2.5 rounded-sm"
+            style={{ backgroundColor: color }}
+          />
+          {label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function ViewportTracker({
+  onViewportChange,
+}: {
+  onViewportChange: (viewport: MapViewport) => void;
+}) {
+  const { map, isLoaded } = useMap();
+
+  useEffect(() => {
+    if (!isLoaded || !map) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const report = () => {
+      const bounds = map.getBounds();
+      onViewportChange({
+        bounds: [
+          bounds.getWest(),
+          bounds.getSouth(),
+          bounds.getEast(),
+          bounds.getNorth(),
+        ],
+        center: map.getCenter().toArray() as [number, number],
+        zoom: map.getZoom(),
+      });
+    };
+
+    const handleMoveEnd = () => {
+      clearTimeout(timer);
+      timer = setTimeout(report, VIEWPORT_DEBOUNCE_MS);
+    };
+
+    report();
+    map.on("moveend", handleMoveEnd);
+
+    return () => {
+      clearTimeout(timer);
+      map.off("moveend", handleMoveEnd);
+    };
+  }, [isLoaded, map, onViewportChange]);
+
+  return null;
+}
+
 export function AssetMap({
   facilities,
+  coverageFacilities,
+  statusCounts,
+  colorMode,
+  displayMode,
+  gapAreas,
+  gapThreshold,
+  sourceMode,
+  tileQuery,
   selectedFacility,
   onFacilitySelect,
+  onFacilityDetails,
+  initialView = null,
+  fitOnLoad = true,
+  restoredSelectionId = null,
+  onViewportChange,
+  selection,
+  onSelectionChange,
+  selectionTool,
+  onSelectionToolChange,
+  radiusKm,
+  onRadiusChange,
+  editingFacility = null,
+  onLocationSaved,
+  onEditCancel,
 }: AssetMapProps) {
-  // Calculate center from facilities or use default
-  const center = useMemo(() => {
-    const validFacilities = facilities.filter((f) => f.latitude && f.longitude);
-    if (validFacilities.length === 0) return NORDIC_CENTER;
+  // Only read when the map is created; later moves are driven by the user
+  const center = initialView?.center ?? NORDIC_CENTER;
+  const zoom = initialView?.zoom ?? DEFAULT_ZOOM;
 
-    const avgLng =
-      validFacilities.reduce((sum, f) => sum + f.longitude!, 0) /
-      validFacilities.length;
-    const avgLat =
-      validFacilities.reduce((sum, f) => sum + f.latitude!, 0) /
-      validFacilities.length;
+  const handleCancelDrawing = useCallback(
+    () => onSelectionToolChange(null),
+    [onSelectionToolChange],
+  );
 
-    return [avgLng, avgLat] as [number, number];
-  }, [facilities]);
+  const handleEditCancel = useCallback(() => onEditCancel?.(), [onEditCancel]);
+  const interactive = !selectionTool && !editingFacility;
 
   return (
-    <div className="w-full h-full">
-      <Map center={center} zoom={DEFAULT_ZOOM}>
-        <MapControls position="bottom-right" showZoom showFullscreen showLocate />
+    <div className="w-full h-full relative">
+      <Map center={center} zoom={zoom}>
+        <MapControls
+          position="bottom-right"
+          showZoom
+          showFullscreen
+          showLocate
+        />
+        {displayMode === "heatmap" && (
+          <HeatmapLayer facilities={coverageFacilities} />
+        )}
+        {displayMode === "gaps" && gapAreas && (
+          <GapLayer areas={gapAreas} interactive={interactive} />
+        )}
         <FacilityClusterLayer
           facilities={facilities}
+          statusCounts={statusCounts}
+          colorMode={colorMode}
+          sourceMode={sourceMode}
+          tileQuery={tileQuery}
           selectedFacility={selectedFacility}
           onFacilitySelect={onFacilitySelect}
+          onFacilityDetails={onFacilityDetails}
+          fitOnLoad={fitOnLoad}
+          restoredSelectionId={restoredSelectionId}
+          interactive={interactive}
+          visible={displayMode !== "heatmap"}
+        />
+        <SelectionLayer
+          tool={selectionTool}
+          radiusKm={radiusKm}
+          selection={selection}
+          onSelect={onSelectionChange}
+          onCancel={handleCancelDrawing}
         />
+        {editingFacility && (
+          <LocationEditor
+            key={editingFacility.id}
+            facility={editingFacility}
+            onSaved={(facility) => onLocationSaved?.(facility)}
+            onCancel={handleEditCancel}
+          />
+        )}
+        {onViewportChange && (
+          <ViewportTracker onViewportChange={onViewportChange} />
+        )}
       </Map>
+      {!editingFacility && (
+        <SelectionToolbar
+          tool={selectionTool}
+          onToolChange={onSelectionToolChange}
+          radiusKm={radiusKm}
+          onRadiusChange={onRadiusChange}
+          selection={selection}
+          onClear={() => onSelectionChange(null)}
+        />
+      )}
+      {displayMode === "gaps" ? (
+        <GapLegend threshold={gapThreshold} />
+      ) : (
+        colorMode === "health" && <HealthLegend />
+      )}
     </div>
   );
 }
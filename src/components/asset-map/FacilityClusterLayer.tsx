@@ -3,28 +3,140 @@
 import { useEffect, useRef, useCallback, useState } from "react";
 import { createPortal } from "react-dom";
 import type MapLibreGL from "maplibre-gl";
-import { Building2, Zap, X } from "lucide-react";
+import { Building2, Zap, X, List } from "lucide-react";
 import { useMap, MapPopup } from "@/components/ui/map";
-import type { Facility } from "@/lib/supabase/types";
+import { Button } from "@/components/ui/button";
+import type {
+  Facility,
+  FacilityDetail,
+  MapColorMode,
+  MapSourceMode,
+  StatusCounts,
+} from "@/lib/supabase/types";
 import {
   facilitiesToGeoJSON,
   getCountryColor,
+  HEALTH_COLORS,
+  HEALTH_THRESHOLDS,
   type FacilityProperties,
 } from "@/lib/utils/geojson";
 import { cn } from "@/lib/utils";
 
 const SOURCE_ID = "facilities-source";
-const CLUSTER_LAYER_ID = "facility-clusters";
+// Exported so overlay layers can sit underneath and skip facility clicks
+export const CLUSTER_LAYER_ID = "facility-clusters";
 const CLUSTER_COUNT_LAYER_ID = "facility-cluster-count";
-const UNCLUSTERED_LAYER_ID = "facility-unclustered";
+export const UNCLUSTERED_LAYER_ID = "facility-unclustered";
+// Layer name inside /api/tiles vector tiles
+const TILE_SOURCE_LAYER = "facilities";
+
+function tileUrl(tileQuery: string): string {
+  const query = tileQuery ? `?${tileQuery}` : "";
+  // Tiles are fetched from a worker, so the URL must be absolute
+  return `${window.location.origin}/api/tiles/{z}/{x}/{y}${query}`;
+}
+
+// Color based on dominant country or mixed
+const COUNTRY_CLUSTER_COLOR: MapLibreGL.ExpressionSpecification = [
+  "case",
+  // If mostly Norway
+  [
+    ">",
+    ["get", "norway_count"],
+    ["+", ["get", "sweden_count"], ["get", "denmark_count"]],
+  ],
+  "#3B82F6", // blue
+  // If mostly Sweden
+  [
+    ">",
+    ["get", "sweden_count"],
+    ["+", ["get", "norway_count"], ["get", "denmark_count"]],
+  ],
+  "#EAB308", // yellow
+  // Mixed or Denmark
+  "#6366F1", // indigo
+];
+
+// Color by country
+const COUNTRY_POINT_COLOR: MapLibreGL.ExpressionSpecification = [
+  "match",
+  ["get", "country"],
+  "Norway",
+  "#3B82F6",
+  "Sweden",
+  "#EAB308",
+  "Denmark",
+  "#EF4444",
+  "#6366F1", // default
+];
+
+// Color by share of Disabled + Out of order chargers (gray when no status data)
+function healthColor(
+  enabled: MapLibreGL.ExpressionSpecification,
+  disabled: MapLibreGL.ExpressionSpecification,
+  outOfOrder: MapLibreGL.ExpressionSpecification,
+): MapLibreGL.ExpressionSpecification {
+  const total: MapLibreGL.ExpressionSpecification = [
+    "+",
+    enabled,
+    disabled,
+    outOfOrder,
+  ];
+  return [
+    "case",
+    ["==", total, 0],
+    HEALTH_COLORS.unknown,
+    [
+      "step",
+      ["/", ["+", disabled, outOfOrder], total],
+      HEALTH_COLORS.healthy,
+      HEALTH_THRESHOLDS.warning,
+      HEALTH_COLORS.warning,
+      HEALTH_THRESHOLDS.critical,
+      HEALTH_COLORS.critical,
+    ],
+  ];
+}
+
+const HEALTH_CLUSTER_COLOR = healthColor(
+  ["get", "enabled_total"],
+  ["get", "disabled_total"],
+  ["get", "out_of_order_total"],
+);
+
+const HEALTH_POINT_COLOR = healthColor(
+  ["get", "enabled_count"],
+  ["get", "disabled_count"],
+  ["get", "out_of_order_count"],
+);
 
 type FacilityClusterLayerProps = {
   facilities: Facility[];
+  statusCounts: Map<string, StatusCounts>;
+  colorMode: MapColorMode;
+  sourceMode: MapSourceMode;
+  // Filter query string appended to tile URLs in "tiles" mode
+  tileQuery: string;
   selectedFacility: Facility | null;
   onFacilitySelect: (facility: Facility | null) => void;
+  onFacilityDetails: (facility: Facility) => void;
+  // Zoom to the loaded facilities once; off when loading follows the viewport
+  fitOnLoad?: boolean;
+  // First selection of this facility keeps the current view (shared links)
+  restoredSelectionId?: string | null;
+  // Off while a selection tool is drawing, so clicks don't open popups
+  interactive?: boolean;
+  // Hidden while another display mode (heatmap) replaces the clusters
+  visible?: boolean;
 };
 
-function FacilityPopupContent({ facility }: { facility: Facility }) {
+function FacilityPopupContent({
+  facility,
+  onShowDetails,
+}: {
+  facility: Facility;
+  onShowDetails: () => void;
+}) {
   return (
     <div className="min-w-[200px] max-w-[280px] bg-card text-card-foreground rounded-xl p-4 shadow-lg">
       <div className="flex items-start gap-3 mb-3">
@@ -54,69 +166,96 @@ function FacilityPopupContent({ facility }: { facility: Facility }) {
           {facility.charger_count} chargers
         </span>
       </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full mt-3"
+        onClick={onShowDetails}
+      >
+        <List className="w-4 h-4 mr-2" />
+        View chargers
+      </Button>
     </div>
   );
 }
 
 export function FacilityClusterLayer({
   facilities,
+  statusCounts,
+  colorMode,
+  sourceMode,
+  tileQuery,
   selectedFacility,
   onFacilitySelect,
+  onFacilityDetails,
+  fitOnLoad = true,
+  restoredSelectionId = null,
+  interactive = true,
+  visible = true,
 }: FacilityClusterLayerProps) {
   const { map, isLoaded } = useMap();
   const [popupFacility, setPopupFacility] = useState<Facility | null>(null);
   const sourceAdded = useRef(false);
   const hasFitBounds = useRef(false);
+  const skipFlyToId = useRef(restoredSelectionId);
 
   // Add source and layers on mount
   useEffect(() => {
     if (!isLoaded || !map || sourceAdded.current) return;
 
-    // Add GeoJSON source with clustering
-    map.addSource(SOURCE_ID, {
-      type: "geojson",
-      data: facilitiesToGeoJSON(facilities),
-      cluster: true,
-      clusterMaxZoom: 14, // Max zoom to cluster points
-      clusterRadius: 60, // Radius of each cluster (px)
-      clusterProperties: {
-        // Aggregate charger counts for clusters
-        total_chargers: ["+", ["get", "charger_count"]],
-        // Track country distribution
-        norway_count: [
-          "+",
-          ["case", ["==", ["get", "country"], "Norway"], 1, 0],
-        ],
-        sweden_count: [
-          "+",
-          ["case", ["==", ["get", "country"], "Sweden"], 1, 0],
-        ],
-        denmark_count: [
-          "+",
-          ["case", ["==", ["get", "country"], "Denmark"], 1, 0],
-        ],
-      },
-    });
+    if (sourceMode === "tiles") {
+      // Vector tiles, clustered on the server at low zooms
+      map.addSource(SOURCE_ID, {
+        type: "vector",
+        tiles: [tileUrl(tileQuery)],
+        maxzoom: 16,
+      });
+    } else {
+      // Add GeoJSON source with clustering
+      map.addSource(SOURCE_ID, {
+        type: "geojson",
+        data: facilitiesToGeoJSON(facilities, statusCounts),
+        cluster: true,
+        clusterMaxZoom: 14, // Max zoom to cluster points
+        clusterRadius: 60, // Radius of each cluster (px)
+        clusterProperties: {
+          // Aggregate charger counts for clusters
+          total_chargers: ["+", ["get", "charger_count"]],
+          // Track country distribution
+          norway_count: [
+            "+",
+            ["case", ["==", ["get", "country"], "Norway"], 1, 0],
+          ],
+          sweden_count: [
+            "+",
+            ["case", ["==", ["get", "country"], "Sweden"], 1, 0],
+          ],
+          denmark_count: [
+            "+",
+            ["case", ["==", ["get", "country"], "Denmark"], 1, 0],
+          ],
+          // Aggregate charger status counts for health colouring
+          enabled_total: ["+", ["get", "enabled_count"]],
+          disabled_total: ["+", ["get", "disabled_count"]],
+          out_of_order_total: ["+", ["get", "out_of_order_count"]],
+        },
+      });
+    }
+
+    // Vector sources need the layer name inside the tile
+    const sourceLayer =
+      sourceMode === "tiles" ? { "source-layer": TILE_SOURCE_LAYER } : {};
 
     // Cluster circle layer
     map.addLayer({
       id: CLUSTER_LAYER_ID,
+      ...sourceLayer,
       type: "circle",
       source: SOURCE_ID,
       filter: ["has", "point_count"],
       paint: {
-        // Color based on dominant country or mixed
-        "circle-color": [
-          "case",
-          // If mostly Norway
-          [">", ["get", "norway_count"], ["+", ["get", "sweden_count"], ["get", "denmark_count"]]],
-          "#3B82F6", // blue
-          // If mostly Sweden
-          [">", ["get", "sweden_count"], ["+", ["get", "norway_count"], ["get", "denmark_count"]]],
-          "#EAB308", // yellow
-          // Mixed or Denmark
-          "#6366F1", // indigo
-        ],
+        "circle-color": COUNTRY_CLUSTER_COLOR,
         // Size based on point count
         "circle-radius": [
           "step",
@@ -140,6 +279,7 @@ export function FacilityClusterLayer({
     // Cluster count label
     map.addLayer({
       id: CLUSTER_COUNT_LAYER_ID,
+      ...sourceLayer,
       type: "symbol",
       source: SOURCE_ID,
       filter: ["has", "point_count"],
@@ -156,22 +296,12 @@ export function FacilityClusterLayer({
     // Unclustered point layer
     map.addLayer({
       id: UNCLUSTERED_LAYER_ID,
+      ...sourceLayer,
       type: "circle",
       source: SOURCE_ID,
       filter: ["!", ["has", "point_count"]],
       paint: {
-        // Color by country
-        "circle-color": [
-          "match",
-          ["get", "country"],
-          "Norway",
-          "#3B82F6",
-          "Sweden",
-          "#EAB308",
-          "Denmark",
-          "#EF4444",
-          "#6366F1", // default
-        ],
+        "circle-color": COUNTRY_POINT_COLOR,
         // Size by charger count
         "circle-radius": [
           "interpolate",
@@ -207,26 +337,55 @@ export function FacilityClusterLayer({
         // ignore cleanup errors
       }
     };
-  }, [isLoaded, map]);
+  }, [isLoaded, map, sourceMode]);
 
   // Update source data when facilities change
   useEffect(() => {
     if (!isLoaded || !map || !sourceAdded.current) return;
+    if (sourceMode !== "geojson") return;
 
     const source = map.getSource(SOURCE_ID) as MapLibreGL.GeoJSONSource;
     if (source) {
-      source.setData(facilitiesToGeoJSON(facilities));
+      source.setData(facilitiesToGeoJSON(facilities, statusCounts));
+    }
+  }, [facilities, statusCounts, sourceMode, isLoaded, map]);
+
+  // Reload tiles when filters change
+  useEffect(() => {
+    if (!isLoaded || !map || !sourceAdded.current) return;
+    if (sourceMode !== "tiles") return;
+
+    const source = map.getSource(SOURCE_ID) as MapLibreGL.VectorTileSource;
+    if (source) {
+      source.setTiles([tileUrl(tileQuery)]);
     }
-  }, [facilities, isLoaded, map]);
+  }, [tileQuery, sourceMode, isLoaded, map]);
+
+  // Switch marker and cluster colours between country and health
+  useEffect(() => {
+    if (!isLoaded || !map || !sourceAdded.current) return;
+
+    const health = colorMode === "health";
+    map.setPaintProperty(
+      CLUSTER_LAYER_ID,
+      "circle-color",
+      health ? HEALTH_CLUSTER_COLOR : COUNTRY_CLUSTER_COLOR,
+    );
+    map.setPaintProperty(
+      UNCLUSTERED_LAYER_ID,
+      "circle-color",
+      health ? HEALTH_POINT_COLOR : COUNTRY_POINT_COLOR,
+    );
+  }, [colorMode, sourceMode, isLoaded, map]);
 
   // Handle cluster click - zoom in
   useEffect(() => {
-    if (!isLoaded || !map) return;
+    if (!isLoaded || !map || !interactive) return;
 
     const handleClusterClick = (
       e: MapLibreGL.MapMouseEvent & {
         features?: MapLibreGL.MapGeoJSONFeature[];
-      }
+      },
     ) => {
       const features = map.queryRenderedFeatures(e.point, {
         layers: [CLUSTER_LAYER_ID],
@@ -234,22 +393,38 @@ export function FacilityClusterLayer({
 
       if (!features.length) return;
 
-      const clusterId = features[0].properties?.cluster_id;
-      const source = map.getSource(SOURCE_ID) as MapLibreGL.GeoJSONSource;
-
-      // Use Promise-based API (MapLibre GL 3.x+)
-      source.getClusterExpansionZoom(clusterId).then((zoom: number) => {
+      // Server-side clusters have no expansion zoom; step in instead
+      if (sourceMode === "tiles") {
         const geometry = features[0].geometry;
         if (geometry.type === "Point") {
           map.easeTo({
             center: geometry.coordinates as [number, number],
-            zoom: zoom ?? 14,
+            zoom: map.getZoom() + 2,
             duration: 500,
           });
         }
-      }).catch(() => {
-        // Ignore errors
-      });
+        return;
+      }
+
+      const clusterId = features[0].properties?.cluster_id;
+      const source = map.getSource(SOURCE_ID) as MapLibreGL.GeoJSONSource;
+
+      // Use Promise-based API (MapLibre GL 3.x+)
+      source
+        .getClusterExpansionZoom(clusterId)
+        .then((zoom: number) => {
+          const geometry = features[0].geometry;
+          if (geometry.type === "Point") {
+            map.easeTo({
+              center: geometry.coordinates as [number, number],
+              zoom: zoom ?? 14,
+              duration: 500,
+            });
+          }
+        })
+        .catch(() => {
+          // Ignore errors
+        });
     };
 
     map.on("click", CLUSTER_LAYER_ID, handleClusterClick);
@@ -257,16 +432,16 @@ export function FacilityClusterLayer({
     return () => {
       map.off("click", CLUSTER_LAYER_ID, handleClusterClick);
     };
-  }, [isLoaded, map]);
+  }, [isLoaded, map, sourceMode, interactive]);
 
   // Handle unclustered point click - show popup
   useEffect(() => {
-    if (!isLoaded || !map) return;
+    if (!isLoaded || !map || !interactive) return;
 
     const handlePointClick = (
       e: MapLibreGL.MapMouseEvent & {
         features?: MapLibreGL.MapGeoJSONFeature[];
-      }
+      },
     ) => {
       const features = map.queryRenderedFeatures(e.point, {
         layers: [UNCLUSTERED_LAYER_ID],
@@ -283,6 +458,23 @@ export function FacilityClusterLayer({
         if (facility) {
           setPopupFacility(facility);
           onFacilitySelect(facility);
+        } else if (sourceMode === "tiles") {
+          // Tile features may not be loaded client-side; fetch the row,
+          // keeping the tile's (possibly filtered) charger count
+          fetch(`/api/facilities/${props.id}`)
+            .then((resp) => (resp.ok ? resp.json() : null))
+            .then((detail: FacilityDetail | null) => {
+              if (!detail) return;
+              const fetched = {
+                ...detail.facility,
+                charger_count: props.charger_count,
+              };
+              setPopupFacility(fetched);
+              onFacilitySelect(fetched);
+            })
+            .catch(() => {
+              // Ignore errors
+            });
         }
       }
     };
@@ -292,11 +484,11 @@ export function FacilityClusterLayer({
     return () => {
       map.off("click", UNCLUSTERED_LAYER_ID, handlePointClick);
     };
-  }, [isLoaded, map, facilities, onFacilitySelect]);
+  }, [isLoaded, map, facilities, sourceMode, interactive, onFacilitySelect]);
 
   // Handle cursor styles
   useEffect(() => {
-    if (!isLoaded || !map) return;
+    if (!isLoaded || !map || !interactive) return;
 
     const handleMouseEnterCluster = () => {
       map.getCanvas().style.cursor = "pointer";
@@ -325,17 +517,34 @@ export function FacilityClusterLayer({
       map.off("mouseenter", UNCLUSTERED_LAYER_ID, handleMouseEnterPoint);
       map.off("mouseleave", UNCLUSTERED_LAYER_ID, handleMouseLeavePoint);
     };
-  }, [isLoaded, map]);
+  }, [isLoaded, map, interactive]);
+
+  // Show or hide all facility layers
+  useEffect(() => {
+    if (!isLoaded || !map || !sourceAdded.current) return;
+
+    for (const id of [
+      CLUSTER_LAYER_ID,
+      CLUSTER_COUNT_LAYER_ID,
+      UNCLUSTERED_LAYER_ID,
+    ]) {
+      map.setLayoutProperty(id, "visibility", visible ? "visible" : "none");
+    }
+  }, [visible, sourceMode, isLoaded, map]);
 
   // Fly to selected facility
   useEffect(() => {
     if (!isLoaded || !map || !selectedFacility) return;
     if (selectedFacility.latitude && selectedFacility.longitude) {
-      map.flyTo({
-        center: [selectedFacility.longitude, selectedFacility.latitude],
-        zoom: 14,
-        duration: 1500,
-      });
+      if (skipFlyToId.current === selectedFacility.id) {
+        skipFlyToId.current = null;
+      } else {
+        map.flyTo({
+          center: [selectedFacility.longitude, selectedFacility.latitude],
+          zoom: 14,
+          duration: 1500,
+        });
+      }
       setPopupFacility(selectedFacility);
     }
   }, [selectedFacility, map, isLoaded]);
@@ -343,7 +552,7 @@ export function FacilityClusterLayer({
   // Fit bounds to show all facilities on initial load only
   useEffect(() => {
     if (!isLoaded || !map || facilities.length === 0) return;
-    if (hasFitBounds.current) return; // Only fit once
+    if (!fitOnLoad || hasFitBounds.current) return; // Only fit once
 
     const validFacilities = facilities.filter((f) => f.latitude && f.longitude);
     if (validFacilities.length === 0) return;
@@ -369,7 +578,7 @@ export function FacilityClusterLayer({
       });
       hasFitBounds.current = true;
     }
-  }, [facilities, map, isLoaded]);
+  }, [facilities, fitOnLoad, map, isLoaded]);
 
   return (
     <>
@@ -383,7 +592,10 @@ export function FacilityClusterLayer({
           }}
           closeButton
         >
-          <FacilityPopupContent facility={popupFacility} />
+          <FacilityPopupContent
+            facility={popupFacility}
+            onShowDetails={() => onFacilityDetails(popupFacility)}
+          />
         </MapPopup>
       )}
     </>
@@ -0,0 +1,355 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Building2,
+  Loader2,
+  MapPin,
+  MapPinPen,
+  Zap,
+  AlertCircle,
+  TextSearch,
+} from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Label } from "@/components/ui/label";
+import { useFacilityDetail } from "@/lib/hooks/useFacilityDetail";
+import type { Charger, Facility } from "@/lib/supabase/types";
+import {
+  ADDRESS_FIELD_LABELS,
+  ADDRESS_FIELDS,
+  canReverseGeocode,
+  type AddressChange,
+  type AddressSources,
+  type ReverseGeocodeOutcome,
+} from "@/lib/geocoding/reverse";
+import { cn } from "@/lib/utils";
+
+type FacilityDetailSheetProps = {
+  facility: Facility | null;
+  onClose: () => void;
+  // Place or move the facility's pin on the map
+  onEditLocation?: (facility: Facility) => void;
+  // Called with the facility after its address fields were filled
+  onFacilityUpdated?: (facility: Facility) => void;
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Enabled: "bg-green-500/10 text-green-700 dark:text-green-400",
+  Disabled: "bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  "Out of order": "bg-red-500/10 text-red-700 dark:text-red-400",
+};
+
+// Problem chargers first so field staff see them without scrolling
+const STATUS_ORDER: Record<string, number> = {
+  "Out of order": 0,
+  Disabled: 1,
+  Enabled: 2,
+};
+
+function countBy(chargers: Charger[], key: "status" | "charger_type") {
+  return chargers.reduce(
+    (acc, c) => {
+      const value = c[key] ?? "Unknown";
+      acc[value] = (acc[value] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+}
+
+function Breakdown({
+  label,
+  counts,
+}: {
+  label: string;
+  counts: Record<string, number>;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        {label}
+      </Label>
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(counts)
+          .sort(([, a], [, b]) => b - a)
+          .map(([value, count]) => (
+            <span
+              key={value}
+              className={cn(
+                "px-2.5 py-1 rounded-full text-xs font-medium",
+                STATUS_STYLES[value] || "bg-muted text-foreground",
+              )}
+            >
+              {value}: {count}
+            </span>
+          ))}
+      </div>
+    </div>
+  );
+}
+
+const fieldList = (changes: AddressChange[]) =>
+  changes.map((c) => ADDRESS_FIELD_LABELS[c.field].toLowerCase()).join(", ");
+
+function describeOutcome(outcome: ReverseGeocodeOutcome): string {
+  const parts = [];
+  if (outcome.filled.length > 0) {
+    parts.push(`Filled ${fieldList(outcome.filled)}`);
+  }
+  if (outcome.proposals.length > 0) {
+    parts.push(`Sent for review: ${fieldList(outcome.proposals)}`);
+  }
+  if (parts.length > 0) return parts.join("; ");
+  return outcome.errors.length > 0
+    ? `Lookup failed (${outcome.errors.join("; ")})`
+    : "No address found near the pin";
+}
+
+// "City and postal code from kartverket" for reverse-geocoded fields
+function describeSources(sources: AddressSources | null | undefined) {
+  if (!sources) return null;
+  const bySource = new Map<string, string[]>();
+  for (const field of ADDRESS_FIELDS) {
+    const source = sources[field]?.source;
+    if (source) {
+      bySource.set(source, [
+        ...(bySource.get(source) ?? []),
+        ADDRESS_FIELD_LABELS[field].toLowerCase(),
+      ]);
+    }
+  }
+  if (bySource.size === 0) return null;
+  const text = [...bySource]
+    .map(([source, fields]) => `${fields.join(" and ")} from ${source}`)
+    .join(", ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function ChargerRow({ charger }: { charger: Charger }) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 space-y-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-sm font-medium truncate">
+          {charger.serial_number}
+        </span>
+        <span
+          className={cn(
+            "px-2 py-0.5 rounded-full text-xs font-medium shrink-0",
+            STATUS_STYLES[charger.status ?? ""] || "bg-muted text-foreground",
+          )}
+        >
+          {charger.status ?? "Unknown"}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs text-muted-foreground">
+        <span>
+          {[charger.vendor, charger.model].filter(Boolean).join(" ") ||
+            "Unknown model"}
+        </span>
+        <span>{charger.charger_type ?? "Unknown type"}</span>
+        <span>{charger.ownership ?? "Unknown owner"}</span>
+        <span>{charger.subscription_type ?? "No subscription"}</span>
+        <span className="col-span-2">
+          Installed {charger.installed_date ?? "date unknown"}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export function FacilityDetailSheet({
+  facility,
+  onClose,
+  onEditLocation,
+  onFacilityUpdated,
+}: FacilityDetailSheetProps) {
+  const { detail, loading, error } = useFacilityDetail(facility?.id ?? null);
+  const [filling, setFilling] = useState(false);
+  // Result of the last address lookup, for the facility it was run on
+  const [fillResult, setFillResult] = useState<{
+    facilityId: string;
+    message: string;
+  } | null>(null);
+
+  const fillAddress = async (target: Facility) => {
+    setFilling(true);
+    try {
+      const response = await fetch(
+        `/api/facilities/${target.id}/reverse-geocode`,
+        { method: "POST" },
+      );
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.error ?? `HTTP ${response.status}`);
+      }
+
+      const outcome = body as ReverseGeocodeOutcome;
+      setFillResult({
+        facilityId: target.id,
+        message: describeOutcome(outcome),
+      });
+      if (outcome.filled.length > 0) onFacilityUpdated?.(outcome.facility);
+    } catch (err) {
+      setFillResult({
+        facilityId: target.id,
+        message: err instanceof Error ? err.message : "Lookup failed",
+      });
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  const sources = describeSources(
+    (facility as (Facility & { address_sources?: AddressSources }) | null)
+      ?.address_sources,
+  );
+
+  const chargers = useMemo(() => {
+    if (!detail) return [];
+    return [...detail.chargers].sort(
+      (a, b) =>
+        (STATUS_ORDER[a.status ?? ""] ?? 3) -
+          (STATUS_ORDER[b.status ?? ""] ?? 3) ||
+        a.serial_number.localeCompare(b.serial_number),
+    );
+  }, [detail]);
+
+  const statusCounts = useMemo(() => countBy(chargers, "status"), [chargers]);
+  const typeCounts = useMemo(
+    () => countBy(chargers, "charger_type"),
+    [chargers],
+  );
+
+  return (
+    <Sheet open={facility !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md gap-0">
+        <SheetHeader className="border-b">
+          <div className="flex items-start gap-3 pr-6">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+              <Building2 className="w-5 h-5 text-primary" />
+            </div>
+            <div className="min-w-0">
+              <SheetTitle className="leading-tight">
+                {facility?.name}
+              </SheetTitle>
+              <SheetDescription className="flex items-center gap-1 mt-1">
+                <MapPin className="w-3 h-3 shrink-0" />
+                <span className="truncate">
+                  {[facility?.address, facility?.postal_code, facility?.city]
+                    .filter(Boolean)
+                    .join(", ") || "No address"}
+                  , {facility?.country}
+                </span>
+              </SheetDescription>
+              {facility && onEditLocation && (
+                <div className="flex items-center gap-2 mt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => onEditLocation(facility)}
+                  >
+                    <MapPinPen className="w-3 h-3" />
+                    {facility.latitude === null ? "Place on map" : "Move pin"}
+                  </Button>
+                  {facility.geocode_status === "manual" && (
+                    <span className="text-xs text-muted-foreground">
+                      Placed by hand
+                    </span>
+                  )}
+                  {facility.geocode_status === "flagged" && (
+                    <span className="text-xs text-amber-600">
+                      Flagged by geocode checks
+                    </span>
+                  )}
+                  {canReverseGeocode(facility) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={filling}
+                      onClick={() => fillAddress(facility)}
+                    >
+                      {filling ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <TextSearch className="w-3 h-3" />
+                      )}
+                      Fill address
+                    </Button>
+                  )}
+                </div>
+              )}
+              {fillResult && fillResult.facilityId === facility?.id && (
+                <p className="text-xs text-muted-foreground mt-1.5">
+                  {fillResult.message}
+                </p>
+              )}
+              {sources && (
+                <p className="text-xs text-muted-foreground mt-1.5">
+                  {sources}
+                </p>
+              )}
+            </div>
+          </div>
+        </SheetHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-6">
+          {loading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span>Failed to load chargers ({error})</span>
+            </div>
+          )}
+
+          {detail && (
+            <>
+              <div className="flex items-center gap-2 p-3 bg-muted/50 rounded-lg">
+                <Zap className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium">
+                  {chargers.length} chargers
+                </span>
+              </div>
+
+              <Breakdown label="By Status" counts={statusCounts} />
+              <Breakdown label="By Type" counts={typeCounts} />
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                  Chargers
+                </Label>
+                {chargers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No chargers registered for this facility
+                  </p>
+                ) : (
+                  <div className="space-y-1">
+                    {chargers.map((charger) => (
+                      <ChargerRow key={charger.id} charger={charger} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type MapLibreGL from "maplibre-gl";
+import { useMap, MapPopup } from "@/components/ui/map";
+import {
+  GAP_COLORS,
+  type GapAreas,
+  type GapProperties,
+} from "@/lib/utils/gaps";
+import { CLUSTER_LAYER_ID, UNCLUSTERED_LAYER_ID } from "./FacilityClusterLayer";
+
+const GAP_SOURCE_ID = "gap-source";
+const GAP_FILL_LAYER_ID = "gap-fill";
+const GAP_LINE_LAYER_ID = "gap-line";
+
+const EMPTY: GapAreas = { type: "FeatureCollection", features: [] };
+
+type GapLayerProps = {
+  areas: GapAreas;
+  // Off while a selection tool is drawing
+  interactive?: boolean;
+};
+
+type GapPopup = GapProperties & { longitude: number; latitude: number };
+
+/**
+ * Shades areas below the gap-analysis threshold, under the facility layers
+ */
+export function GapLayer({ areas, interactive = true }: GapLayerProps) {
+  const { map, isLoaded } = useMap();
+  const sourceAdded = useRef(false);
+  const [popup, setPopup] = useState<GapPopup | null>(null);
+
+  // Add source and layers on mount
+  useEffect(() => {
+    if (!isLoaded || !map || sourceAdded.current) return;
+
+    map.addSource(GAP_SOURCE_ID, { type: "geojson", data: EMPTY });
+
+    const beforeId = map.getLayer(CLUSTER_LAYER_ID)
+      ? CLUSTER_LAYER_ID
+      : undefined;
+
+    map.addLayer(
+      {
+        id: GAP_FILL_LAYER_ID,
+        type: "fill",
+        source: GAP_SOURCE_ID,
+        paint: {
+          "fill-color": [
+            "match",
+            ["get", "level"],
+            "none",
+            GAP_COLORS.none,
+            "low",
+            GAP_COLORS.low,
+            GAP_COLORS.covered,
+          ],
+          "fill-opacity": [
+            "match",
+            ["get", "level"],
+            "none",
+            0.4,
+            "low",
+            0.3,
+            0.1,
+          ],
+        },
+      },
+      beforeId,
+    );
+    map.addLayer(
+      {
+        id: GAP_LINE_LAYER_ID,
+        type: "line",
+        source: GAP_SOURCE_ID,
+        paint: {
+          "line-color": "#64748B", // slate-500
+          "line-width": 0.5,
+          "line-opacity": 0.5,
+        },
+      },
+      beforeId,
+    );
+
+    sourceAdded.current = true;
+
+    return () => {
+      try {
+        if (map.getLayer(GAP_LINE_LAYER_ID)) map.removeLayer(GAP_LINE_LAYER_ID);
+        if (map.getLayer(GAP_FILL_LAYER_ID)) map.removeLayer(GAP_FILL_LAYER_ID);
+        if (map.getSource(GAP_SOURCE_ID)) map.removeSource(GAP_SOURCE_ID);
+        sourceAdded.current = false;
+      } catch {
+        // ignore cleanup errors
+      }
+    };
+  }, [isLoaded, map]);
+
+  // Update source data when the analysis changes
+  useEffect(() => {
+    if (!isLoaded || !map || !sourceAdded.current) return;
+
+    const source = map.getSource(GAP_SOURCE_ID) as MapLibreGL.GeoJSONSource;
+    source?.setData(areas);
+  }, [areas, isLoaded, map]);
+
+  // Click an area for its name and charger count
+  useEffect(() => {
+    if (!isLoaded || !map || !interactive) return;
+
+    const handleClick = (
+      e: MapLibreGL.MapMouseEvent & {
+        features?: MapLibreGL.MapGeoJSONFeature[];
+      },
+    ) => {
+      // Facility clicks take precedence
+      const facilityLayers = [CLUSTER_LAYER_ID, UNCLUSTERED_LAYER_ID].filter(
+        (id) => map.getLayer(id),
+      );
+      if (
+        facilityLayers.length &&
+        map.queryRenderedFeatures(e.point, { layers: facilityLayers }).length
+      ) {
+        return;
+      }
+
+      const props = e.features?.[0]?.properties;
+      if (!props) return;
+      setPopup({
+        name: props.name ?? null,
+        charger_count: Number(props.charger_count),
+        level: props.level,
+        longitude: e.lngLat.lng,
+        latitude: e.lngLat.lat,
+      });
+    };
+
+    map.on("click", GAP_FILL_LAYER_ID, handleClick);
+
+    return () => {
+      map.off("click", GAP_FILL_LAYER_ID, handleClick);
+    };
+  }, [isLoaded, map, interactive]);
+
+  return (
+    popup && (
+      <MapPopup
+        longitude={popup.longitude}
+        latitude={popup.latitude}
+        onClose={() => setPopup(null)}
+        closeButton
+      >
+        <div className="space-y-1 text-xs">
+          {popup.name && <p className="font-medium text-sm">{popup.name}</p>}
+          <p>
+            {popup.charger_count.toLocaleString()} chargers
+            {popup.level === "none" && " — no coverage"}
+            {popup.level === "low" && " — below threshold"}
+          </p>
+        </div>
+      </MapPopup>
+    )
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type MapLibreGL from "maplibre-gl";
+import { useMap } from "@/components/ui/map";
+import type { Facility } from "@/lib/supabase/types";
+import { facilitiesToGeoJSON } from "@/lib/utils/geojson";
+import { CLUSTER_LAYER_ID } from "./FacilityClusterLayer";
+
+const HEAT_SOURCE_ID = "facility-heat-source";
+const HEAT_LAYER_ID = "facility-heat";
+
+// Facilities with this many chargers or more get full weight
+const FULL_WEIGHT_CHARGERS = 50;
+
+type HeatmapLayerProps = {
+  facilities: Facility[];
+};
+
+/**
+ * Charger-density heatmap, weighted by each facility's charger_count.
+ * Uses its own unclustered source; clustered features would hide density.
+ */
+export function HeatmapLayer({ facilities }: HeatmapLayerProps) {
+  const { map, isLoaded } = useMap();
+  const sourceAdded = useRef(false);
+
+  // Add source and layer on mount
+  useEffect(() => {
+    if (!isLoaded || !map || sourceAdded.current) return;
+
+    // Filled by the data effect below, which runs right after this one
+    map.addSource(HEAT_SOURCE_ID, {
+      type: "geojson",
+      data: facilitiesToGeoJSON([]),
+    });
+
+    map.addLayer(
+      {
+        id: HEAT_LAYER_ID,
+        type: "heatmap",
+        source: HEAT_SOURCE_ID,
+        paint: {
+          "heatmap-weight": [
+            "interpolate",
+            ["linear"],
+            ["get", "charger_count"],
+            0,
+            0,
+            FULL_WEIGHT_CHARGERS,
+            1,
+          ],
+          // Points get sparser as you zoom in; compensate
+          "heatmap-intensity": [
+            "interpolate",
+            ["linear"],
+            ["zoom"],
+            3,
+            1,
+            12,
+            3,
+          ],
+          "heatmap-radius": ["interpolate", ["linear"], ["zoom"], 3, 8, 12, 30],
+          "heatmap-color": [
+            "interpolate",
+            ["linear"],
+            ["heatmap-density"],
+            0,
+            "rgba(59, 130, 246, 0)",
+            0.2,
+            "#3B82F6", // blue-500
+            0.4,
+            "#22C55E", // green-500
+            0.6,
+            "#EAB308", // yellow-500
+            0.8,
+            "#F97316", // orange-500
+            1,
+            "#EF4444", // red-500
+          ],
+          "heatmap-opacity": 0.8,
+        },
+      },
+      // Under the facility layers when they are shown
+      map.getLayer(CLUSTER_LAYER_ID) ? CLUSTER_LAYER_ID : undefined,
+    );
+
+    sourceAdded.current = true;
+
+    return () => {
+      try {
+        if (map.getLayer(HEAT_LAYER_ID)) map.removeLayer(HEAT_LAYER_ID);
+        if (map.getSource(HEAT_SOURCE_ID)) map.removeSource(HEAT_SOURCE_ID);
+        sourceAdded.current = false;
+      } catch {
+        // ignore cleanup errors
+      }
+    };
+  }, [isLoaded, map]);
+
+  // Update source data when facilities change
+  useEffect(() => {
+    if (!isLoaded || !map || !sourceAdded.current) return;
+
+    const source = map.getSource(HEAT_SOURCE_ID) as MapLibreGL.GeoJSONSource;
+    source?.setData(facilitiesToGeoJSON(facilities));
+  }, [facilities, isLoaded, map]);
+
+  return null;
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type MapLibreGL from "maplibre-gl";
+import { Loader2, MapPin, Save, X } from "lucide-react";
+import { MapMarker, MarkerContent, useMap } from "@/components/ui/map";
+import { Button } from "@/components/ui/button";
+import type { Facility } from "@/lib/supabase/types";
+
+// Close enough to place a pin on the right building
+const EDIT_ZOOM = 17;
+
+type LngLat = { lng: number; lat: number };
+
+type LocationEditorProps = {
+  facility: Facility;
+  onSaved: (facility: Facility) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Place a facility by hand: drag the pin or click the map to drop it, then
+ * save through /api/facilities/[id]/location (stored as "manual"). Starts
+ * at the facility's current position, or the map centre if it has none.
+ */
+export function LocationEditor({
+  facility,
+  onSaved,
+  onCancel,
+}: LocationEditorProps) {
+  const { map, isLoaded } = useMap();
+  const [position, setPosition] = useState<LngLat | null>(
+    facility.latitude !== null && facility.longitude !== null
+      ? { lng: facility.longitude, lat: facility.latitude }
+      : null,
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Zoom in on the facility, or drop the pin where the user is looking
+  useEffect(() => {
+    if (!isLoaded || !map) return;
+
+    if (facility.latitude !== null && facility.longitude !== null) {
+      map.flyTo({
+        center: [facility.longitude, facility.latitude],
+        zoom: Math.max(map.getZoom(), EDIT_ZOOM),
+      });
+    } else {
+      const { lng, lat } = map.getCenter();
+      setPosition({ lng, lat });
+    }
+  }, [isLoaded, map, facility]);
+
+  useEffect(() => {
+    if (!isLoaded || !map) return;
+
+    const handleClick = (e: MapLibreGL.MapMouseEvent) => {
+      setPosition({ lng: e.lngLat.lng, lat: e.lngLat.lat });
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+
+    map.getCanvas().style.cursor = "crosshair";
+    map.on("click", handleClick);
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      map.off("click", handleClick);
+      window.removeEventListener("keydown", handleKeyDown);
+      map.getCanvas().style.cursor = "";
+    };
+  }, [isLoaded, map, onCancel]);
+
+  const handleSave = async () => {
+    if (!position) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/facilities/${facility.id}/location`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude: position.lat,
+          longitude: position.lng,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? `HTTP ${response.status}`);
+      }
+      onSaved(data as Facility);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {position && (
+        <MapMarker
+          longitude={position.lng}
+          latitude={position.lat}
+          anchor="bottom"
+          draggable={!saving}
+          onDragEnd={setPosition}
+        >
+          <MarkerContent className="cursor-move">
+            <MapPin className="size-8 fill-primary text-background drop-shadow-md" />
+          </MarkerContent>
+        </MapMarker>
+      )}
+
+      <div className="absolute top-16 left-1/2 -translate-x-1/2 z-10 w-80 rounded-lg border bg-background/95 p-3 shadow-lg backdrop-blur-sm space-y-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{facility.name}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {[facility.address, facility.postal_code, facility.city]
+              .filter(Boolean)
+              .join(", ") || "No address"}
+          </p>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Drag the pin or click the map to place the facility.
+        </p>
+        {position && (
+          <p className="font-mono text-xs">
+            {position.lat.toFixed(6)}, {position.lng.toFixed(6)}
+          </p>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onCancel}
+            disabled={saving}
+          >
+            <X className="w-4 h-4" />
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!position || saving}>
+            {saving ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4" />
+            )}
+            Save location
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
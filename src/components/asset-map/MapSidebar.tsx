@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useMemo } from "react";
+import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Search,
@@ -14,14 +15,24 @@ import {
   BarChart3,
   ArrowUpDown,
   MapPinOff,
+  MapPinPlus,
   CheckCircle2,
   AlertCircle,
+  Palette,
+  Download,
+  Layers,
+  Upload,
+  FileUp,
+  MapPinCheck,
+  Loader2,
+  Play,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -29,7 +40,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { MapFilters, Facility } from "@/lib/supabase/types";
+import type {
+  MapFilters,
+  MapColorMode,
+  MapDisplayMode,
+  GapAnalysisSettings,
+  Facility,
+  FacilityStats,
+  ChargerStatus,
+  ChargerType,
+  ChargerOwnership,
+  GeocodeStatus,
+  ExportFormat,
+  MapSelection,
+} from "@/lib/supabase/types";
+import { filtersToSearchParams, hasChargerFilters } from "@/lib/utils/filters";
+import { describeSelection, setSelectionParam } from "@/lib/utils/selection";
+import {
+  parsePolygonSet,
+  SETTLED_RADIUS_KM,
+  type GapResult,
+} from "@/lib/utils/gaps";
+import { describeJob, isActiveJob } from "@/lib/geocoding/jobs";
+import { useGeocodeJobs } from "@/lib/hooks/useGeocodeJobs";
 import { cn } from "@/lib/utils";
 
 type SortOption = "name" | "chargers-desc" | "chargers-asc" | "city";
@@ -42,16 +75,23 @@ type MapSidebarProps = {
   onFilterChange: (filters: Partial<MapFilters>) => void;
   onClearFilters: () => void;
   facilities: Facility[];
+  // Only the largest of more matching facilities are listed (vector tiles)
+  facilitiesTruncated: boolean;
   selectedFacility: Facility | null;
   onFacilitySelect: (facility: Facility | null) => void;
-  stats: {
-    total: number;
-    byCountry: Record<string, number>;
-    facilitiesByCountry: Record<string, number>;
-    facilityCount: number;
-    geocodedCount: number;
-    pendingCount: number;
-  };
+  // Start placing a facility by hand on the map
+  onPlaceFacility: (facility: Facility) => void;
+  stats: FacilityStats;
+  vendorOptions: string[];
+  colorMode: MapColorMode;
+  onColorModeChange: (mode: MapColorMode) => void;
+  displayMode: MapDisplayMode;
+  onDisplayModeChange: (mode: MapDisplayMode) => void;
+  gapSettings: GapAnalysisSettings;
+  onGapSettingsChange: (settings: Partial<GapAnalysisSettings>) => void;
+  gapResult: GapResult | null;
+  selection: MapSelection | null;
+  onClearSelection: () => void;
 };
 
 const COUNTRIES = ["Norway", "Sweden", "Denmark"];
@@ -62,40 +102,58 @@ const COUNTRY_FLAGS: Record<string, string> = {
   Denmark: "🇩🇰",
 };
 
-function CountryFilter({
+// Values match the CHECK constraints on asset_map.chargers
+const CHARGER_STATUSES: ChargerStatus[] = ["Enabled", "Disabled", "Out of order"];
+const CHARGER_TYPES: ChargerType[] = ["Private", "Shared"];
+const OWNERSHIPS: ChargerOwnership[] = ["Driver", "Housing Association", "Volterra"];
+
+// Statuses of facilities with a pin; "flagged" failed the geocode sanity checks
+const GEOCODE_STATUS_LABELS: Partial<Record<GeocodeStatus, string>> = {
+  success: "Geocoded",
+  manual: "Placed by hand",
+  flagged: "Flagged",
+};
+
+function ChipFilter({
+  label,
+  options,
   selected,
   onChange,
+  formatOption = (option) => option,
 }: {
+  label: string;
+  options: string[];
   selected: string[];
-  onChange: (countries: string[]) => void;
+  onChange: (selected: string[]) => void;
+  formatOption?: (option: string) => string;
 }) {
-  const toggleCountry = (country: string) => {
-    if (selected.includes(country)) {
-      onChange(selected.filter((c) => c !== country));
+  const toggleOption = (option: string) => {
+    if (selected.includes(option)) {
+      onChange(selected.filter((o) => o !== option));
     } else {
-      onChange([...selected, country]);
+      onChange([...selected, option]);
     }
   };
 
   return (
     <div className="space-y-2">
       <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-        Countries
+        {label}
       </Label>
       <div className="flex flex-wrap gap-2">
-        {COUNTRIES.map((country) => (
+        {options.map((option) => (
           <button
-            key={country}
-            onClick={() => toggleCountry(country)}
+            key={option}
+            onClick={() => toggleOption(option)}
             className={cn(
               "px-3 py-1.5 rounded-full text-sm font-medium transition-colors",
               "border",
-              selected.includes(country)
+              selected.includes(option)
                 ? "bg-primary text-primary-foreground border-primary"
                 : "bg-background text-foreground border-border hover:bg-muted",
             )}
           >
-            {COUNTRY_FLAGS[country]} {country}
+            {formatOption(option)}
           </button>
         ))}
       </div>
@@ -103,10 +161,339 @@ function CountryFilter({
   );
 }
 
+function CountryFilter({
+  selected,
+  onChange,
+}: {
+  selected: string[];
+  onChange: (countries: string[]) => void;
+}) {
+  return (
+    <ChipFilter
+      label="Countries"
+      options={COUNTRIES}
+      selected={selected}
+      onChange={onChange}
+      formatOption={(country) => `${COUNTRY_FLAGS[country]} ${country}`}
+    />
+  );
+}
+
+function ChargerFilters({
+  filters,
+  onFilterChange,
+  vendorOptions,
+}: {
+  filters: MapFilters;
+  onFilterChange: (filters: Partial<MapFilters>) => void;
+  vendorOptions: string[];
+}) {
+  return (
+    <div className="space-y-4">
+      <ChipFilter
+        label="Charger Status"
+        options={CHARGER_STATUSES}
+        selected={filters.statuses}
+        onChange={(statuses) => onFilterChange({ statuses })}
+      />
+      <ChipFilter
+        label="Charger Type"
+        options={CHARGER_TYPES}
+        selected={filters.chargerTypes}
+        onChange={(chargerTypes) => onFilterChange({ chargerTypes })}
+      />
+      <ChipFilter
+        label="Ownership"
+        options={OWNERSHIPS}
+        selected={filters.ownerships}
+        onChange={(ownerships) => onFilterChange({ ownerships })}
+      />
+      {vendorOptions.length > 0 && (
+        <ChipFilter
+          label="Vendor"
+          options={vendorOptions}
+          selected={filters.vendors}
+          onChange={(vendors) => onFilterChange({ vendors })}
+        />
+      )}
+      {hasChargerFilters(filters) && (
+        <p className="text-xs text-muted-foreground">
+          Charger counts include only matching chargers
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ColorModeSelect({
+  value,
+  onChange,
+}: {
+  value: MapColorMode;
+  onChange: (mode: MapColorMode) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        Colour Markers By
+      </Label>
+      <Select value={value} onValueChange={(v) => onChange(v as MapColorMode)}>
+        <SelectTrigger className="h-8 text-xs w-full">
+          <Palette className="w-3 h-3 mr-1 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="country">Country</SelectItem>
+          <SelectItem value="health">Health (disabled / out of order)</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function DisplayModePanel({
+  value,
+  onChange,
+  gapSettings,
+  onGapSettingsChange,
+  gapResult,
+}: {
+  value: MapDisplayMode;
+  onChange: (mode: MapDisplayMode) => void;
+  gapSettings: GapAnalysisSettings;
+  onGapSettingsChange: (settings: Partial<GapAnalysisSettings>) => void;
+  gapResult: GapResult | null;
+}) {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    const polygons = parsePolygonSet(await file.text());
+    if (!polygons) {
+      setUploadError("No polygons found in that file");
+      return;
+    }
+    setUploadError(null);
+    onGapSettingsChange({ polygons, polygonsName: file.name });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        Map Display
+      </Label>
+      <Select
+        value={value}
+        onValueChange={(v) => onChange(v as MapDisplayMode)}
+      >
+        <SelectTrigger className="h-8 text-xs w-full">
+          <Layers className="w-3 h-3 mr-1 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="clusters">Clusters</SelectItem>
+          <SelectItem value="heatmap">Charger density heatmap</SelectItem>
+          <SelectItem value="gaps">Coverage gaps</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value === "gaps" && (
+        <div className="space-y-2 rounded-lg bg-muted/50 p-3">
+          <Select
+            value={gapSettings.areas}
+            onValueChange={(v) =>
+              onGapSettingsChange({ areas: v as GapAnalysisSettings["areas"] })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs w-full bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="grid">Grid cells in view</SelectItem>
+              <SelectItem value="polygons">Uploaded areas (GeoJSON)</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <div className="grid grid-cols-2 gap-2">
+            {gapSettings.areas === "grid" && (
+              <label className="space-y-1 text-xs text-muted-foreground">
+                Cell size (km)
+                <Input
+                  type="number"
+                  min={1}
+                  value={gapSettings.cellSizeKm}
+                  onChange={(e) => {
+                    const cellSizeKm = Number(e.target.value);
+                    if (cellSizeKm > 0) onGapSettingsChange({ cellSizeKm });
+                  }}
+                  className="h-8 text-xs bg-background"
+                />
+              </label>
+            )}
+            <label className="space-y-1 text-xs text-muted-foreground">
+              Min. chargers
+              <Input
+                type="number"
+                min={1}
+                value={gapSettings.threshold}
+                onChange={(e) => {
+                  const threshold = Number(e.target.value);
+                  if (threshold > 0) onGapSettingsChange({ threshold });
+                }}
+                className="h-8 text-xs bg-background"
+              />
+            </label>
+          </div>
+
+          {gapSettings.areas === "polygons" && (
+            <div className="space-y-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full text-xs"
+                asChild
+              >
+                <label className="cursor-pointer">
+                  <Upload className="w-3 h-3 mr-1" />
+                  {gapSettings.polygonsName ??
+                    "Upload municipalities / postal areas"}
+                  <input
+                    type="file"
+                    accept=".geojson,.json,application/geo+json"
+                    className="hidden"
+                    onChange={(e) => handleUpload(e.target.files?.[0])}
+                  />
+                </label>
+              </Button>
+              {uploadError && (
+                <p className="text-xs text-destructive">{uploadError}</p>
+              )}
+            </div>
+          )}
+
+          {gapResult &&
+            (gapResult.tooManyCells ? (
+              <p className="text-xs text-muted-foreground">
+                Too many cells for this view. Zoom in or use larger cells.
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">
+                  {gapResult.noneCount.toLocaleString()}
+                </span>{" "}
+                areas without chargers,{" "}
+                <span className="font-medium text-foreground">
+                  {gapResult.lowCount.toLocaleString()}
+                </span>{" "}
+                below {gapSettings.threshold}
+                {gapSettings.areas === "grid" &&
+                  `. Cells over ${SETTLED_RADIUS_KM} km from any facility are left out.`}
+                {gapResult.inViewOnly &&
+                  `. Only areas fully in view are counted (${gapResult.outOfViewCount.toLocaleString()} outside it left out).`}
+              </p>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel" },
+  { value: "geojson", label: "GeoJSON" },
+];
+
+function ExportPanel({
+  filters,
+  selection,
+}: {
+  filters: MapFilters;
+  selection: MapSelection | null;
+}) {
+  const [includeChargers, setIncludeChargers] = useState(false);
+
+  const exportUrl = (format: ExportFormat) => {
+    const params = filtersToSearchParams(filters);
+    if (selection) setSelectionParam(params, selection);
+    params.set("format", format);
+    if (includeChargers) params.set("chargers", "true");
+    return `/api/facilities/export?${params.toString()}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        Export
+      </Label>
+      <p className="text-xs text-muted-foreground">
+        All facilities matching the current filters
+        {selection && " inside the selected area"}
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        {EXPORT_FORMATS.map(({ value, label }) => (
+          <Button
+            key={value}
+            variant="outline"
+            size="sm"
+            className="text-xs"
+            asChild
+          >
+            <a href={exportUrl(value)} download>
+              <Download className="w-3 h-3 mr-1" />
+              {label}
+            </a>
+          </Button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-xs cursor-pointer">
+        <Checkbox
+          checked={includeChargers}
+          onCheckedChange={(checked) => setIncludeChargers(checked === true)}
+        />
+        Include individual chargers
+      </label>
+    </div>
+  );
+}
+
 function StatsPanel({ stats }: { stats: MapSidebarProps["stats"] }) {
+  const { jobs, reload: reloadJobs } = useGeocodeJobs();
+  const [queueing, setQueueing] = useState(false);
+  const [jobError, setJobError] = useState<string | null>(null);
+
   const geocodePercent = stats.facilityCount > 0
     ? Math.round((stats.geocodedCount / stats.facilityCount) * 100)
     : 0;
+  // Jobs come newest first; the worker takes the oldest first
+  const activeJob = jobs.findLast(isActiveJob);
+  const lastJob = jobs[0];
+  const jobDone = activeJob ? activeJob.total - activeJob.remaining : 0;
+  const jobPercent = activeJob && activeJob.total > 0
+    ? Math.round((jobDone / activeJob.total) * 100)
+    : 0;
+
+  // Queue every facility still waiting for a geocode, in every country
+  const queuePending = async () => {
+    setQueueing(true);
+    setJobError(null);
+    try {
+      const response = await fetch("/api/jobs/geocode", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `HTTP ${response.status}`);
+      }
+      await reloadJobs();
+    } catch (err) {
+      setJobError(err instanceof Error ? err.message : "Failed to queue");
+    } finally {
+      setQueueing(false);
+    }
+  };
 
   return (
     <div className="space-y-3">
@@ -155,6 +542,58 @@ function StatsPanel({ stats }: { stats: MapSidebarProps["stats"] }) {
             <span>{stats.pendingCount} pending</span>
           </div>
         </div>
+
+        {activeJob ? (
+          <div className="space-y-1 pt-1">
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="flex items-center gap-1 text-muted-foreground truncate">
+                <Loader2 className="w-3 h-3 shrink-0 animate-spin" />
+                {activeJob.status === "queued" ? "Queued" : "Geocoding"}:{" "}
+                {describeJob(activeJob)}
+              </span>
+              <span className="font-medium tabular-nums shrink-0">
+                {jobDone} / {activeJob.total}
+              </span>
+            </div>
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all duration-300"
+                style={{ width: `${jobPercent}%` }}
+              />
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {activeJob.placed} placed · {activeJob.not_found} not found
+              {activeJob.errors > 0 && ` · ${activeJob.errors} errors`}
+            </div>
+          </div>
+        ) : (
+          <>
+            {lastJob && (
+              <div className="text-xs text-muted-foreground">
+                Last job ({describeJob(lastJob)}): {lastJob.placed} placed,{" "}
+                {lastJob.not_found} not found
+                {lastJob.errors > 0 && `, ${lastJob.errors} errors`}
+              </div>
+            )}
+            {stats.pendingCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={queueing}
+                onClick={queuePending}
+              >
+                {queueing ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="w-4 h-4 mr-2" />
+                )}
+                Geocode pending
+              </Button>
+            )}
+          </>
+        )}
+        {jobError && <p className="text-xs text-red-600">{jobError}</p>}
       </div>
 
       {/* Country Breakdown with Visual Bars */}
@@ -210,12 +649,18 @@ function StatsPanel({ stats }: { stats: MapSidebarProps["stats"] }) {
 
 function FacilityList({
   facilities,
+  truncated,
+  totalCount,
   selectedFacility,
   onFacilitySelect,
+  onPlaceFacility,
 }: {
   facilities: Facility[];
+  truncated: boolean;
+  totalCount: number;
   selectedFacility: Facility | null;
   onFacilitySelect: (facility: Facility | null) => void;
+  onPlaceFacility: (facility: Facility) => void;
 }) {
   const [sortBy, setSortBy] = useState<SortOption>("chargers-desc");
   const [geoFilter, setGeoFilter] = useState<GeoFilter>("all");
@@ -243,7 +688,13 @@ function FacilityList({
         sorted.sort((a, b) => a.charger_count - b.charger_count);
         break;
       case "city":
-        sorted.sort((a, b) => (a.city || "").localeCompare(b.city || ""));
+        // Facilities without a city go last, not first; name breaks ties
+        sorted.sort(
+          (a, b) =>
+            Number(!a.city?.trim()) - Number(!b.city?.trim()) ||
+            (a.city ?? "").trim().localeCompare((b.city ?? "").trim()) ||
+            a.name.localeCompare(b.name),
+        );
         break;
     }
     return sorted;
@@ -292,6 +743,14 @@ function FacilityList({
         </Select>
       </div>
 
+      {truncated && (
+        <p className="text-xs text-muted-foreground">
+          Listing the {facilities.length.toLocaleString()} facilities with the
+          most chargers of {totalCount.toLocaleString()}. Narrow the filters to
+          see the rest.
+        </p>
+      )}
+
       {filteredFacilities.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-8 text-center">
           <Building2 className="w-12 h-12 text-muted-foreground/50 mb-3" />
@@ -305,48 +764,60 @@ function FacilityList({
           {sortedFacilities.slice(0, 50).map((facility) => {
             const hasLocation = facility.latitude !== null && facility.longitude !== null;
             return (
-              <button
-                key={facility.id}
-                onClick={() => onFacilitySelect(facility)}
-                className={cn(
-                  "w-full p-3 rounded-lg text-left transition-colors",
-                  "hover:bg-muted/80",
-                  selectedFacility?.id === facility.id
-                    ? "bg-primary/10 border border-primary/20"
-                    : "bg-muted/30",
-                  !hasLocation && "opacity-60",
-                )}
-              >
-                <div className="flex items-start justify-between gap-2">
-                  <div className="min-w-0 flex-1">
-                    <div className="flex items-center gap-1.5">
-                      <span className="font-medium text-sm truncate">
-                        {facility.name}
-                      </span>
-                      {!hasLocation && (
-                        <span title="No location data">
-                          <MapPinOff className="w-3 h-3 text-amber-500 shrink-0" />
+              <div key={facility.id} className="relative">
+                <button
+                  onClick={() => onFacilitySelect(facility)}
+                  className={cn(
+                    "w-full p-3 rounded-lg text-left transition-colors",
+                    "hover:bg-muted/80",
+                    selectedFacility?.id === facility.id
+                      ? "bg-primary/10 border border-primary/20"
+                      : "bg-muted/30",
+                    !hasLocation && "opacity-60",
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-1.5">
+                        <span className="font-medium text-sm truncate">
+                          {facility.name}
+                        </span>
+                        {!hasLocation && (
+                          <span title="No location data">
+                            <MapPinOff className="w-3 h-3 text-amber-500 shrink-0" />
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                        <MapPin className="w-3 h-3" />
+                        <span className="truncate">
+                          {facility.city || "Unknown city"}, {facility.country}
                         </span>
+                      </div>
+                      {facility.postal_code && (
+                        <div className="text-xs text-muted-foreground/70 mt-0.5">
+                          {facility.postal_code}
+                        </div>
                       )}
                     </div>
-                    <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
-                      <MapPin className="w-3 h-3" />
-                      <span className="truncate">
-                        {facility.city || "Unknown city"}, {facility.country}
-                      </span>
-                    </div>
-                    {facility.postal_code && (
-                      <div className="text-xs text-muted-foreground/70 mt-0.5">
-                        {facility.postal_code}
-                      </div>
-                    )}
+                    <Badge variant="secondary" className="shrink-0">
+                      <Zap className="w-3 h-3 mr-1" />
+                      {facility.charger_count}
+                    </Badge>
                   </div>
-                  <Badge variant="secondary" className="shrink-0">
-                    <Zap className="w-3 h-3 mr-1" />
-                    {facility.charger_count}
-                  </Badge>
-                </div>
-              </button>
+                </button>
+                {!hasLocation && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onPlaceFacility(facility)}
+                    className="absolute bottom-2 right-2 h-6 px-2 text-xs text-amber-600"
+                  >
+                    <MapPinPlus className="w-3 h-3" />
+                    Place
+                  </Button>
+                )}
+              </div>
             );
           })}
 
@@ -368,16 +839,28 @@ export function MapSidebar({
   onFilterChange,
   onClearFilters,
   facilities,
+  facilitiesTruncated,
   selectedFacility,
   onFacilitySelect,
+  onPlaceFacility,
   stats,
+  vendorOptions,
+  colorMode,
+  onColorModeChange,
+  displayMode,
+  onDisplayModeChange,
+  gapSettings,
+  onGapSettingsChange,
+  gapResult,
+  selection,
+  onClearSelection,
 }: MapSidebarProps) {
   const [activeTab, setActiveTab] = useState<"filters" | "list">("filters");
 
   const hasActiveFilters =
     filters.countries.length > 0 ||
-    filters.statuses.length > 0 ||
-    filters.vendors.length > 0 ||
+    hasChargerFilters(filters) ||
+    filters.geocodeStatuses.length > 0 ||
     filters.searchQuery;
 
   return (
@@ -421,9 +904,21 @@ export function MapSidebar({
                     </p>
                   </div>
                 </div>
-                <Button variant="ghost" size="icon" onClick={onToggle}>
-                  <ChevronLeft className="w-5 h-5" />
-                </Button>
+                <div className="flex items-center">
+                  <Button variant="ghost" size="icon" asChild>
+                    <Link href="/imports" title="Import register">
+                      <FileUp className="w-4 h-4" />
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="icon" asChild>
+                    <Link href="/review" title="Review geocodes">
+                      <MapPinCheck className="w-4 h-4" />
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={onToggle}>
+                    <ChevronLeft className="w-5 h-5" />
+                  </Button>
+                </div>
               </div>
 
               {/* Search */}
@@ -448,6 +943,23 @@ export function MapSidebar({
               </div>
             </div>
 
+            {/* Active map selection */}
+            {selection && (
+              <div className="flex items-center justify-between gap-2 px-4 py-2 border-b bg-sky-500/10 text-xs shrink-0">
+                <span className="font-medium">
+                  {describeSelection(selection)} ·{" "}
+                  {stats.facilityCount.toLocaleString()} facilities
+                </span>
+                <button
+                  onClick={onClearSelection}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Clear selection"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
             {/* Tabs */}
             <div className="flex border-b shrink-0">
               <button
@@ -477,7 +989,7 @@ export function MapSidebar({
                 <Building2 className="w-4 h-4 inline mr-2" />
                 Facilities
                 <Badge variant="secondary" className="ml-2">
-                  {facilities.length}
+                  {stats.facilityCount}
                 </Badge>
               </button>
             </div>
@@ -492,10 +1004,47 @@ export function MapSidebar({
                       onChange={(countries) => onFilterChange({ countries })}
                     />
 
+                    <ChargerFilters
+                      filters={filters}
+                      onFilterChange={onFilterChange}
+                      vendorOptions={vendorOptions}
+                    />
+
+                    <ChipFilter
+                      label="Geocode Status"
+                      options={Object.keys(GEOCODE_STATUS_LABELS)}
+                      selected={filters.geocodeStatuses}
+                      onChange={(geocodeStatuses) =>
+                        onFilterChange({ geocodeStatuses })
+                      }
+                      formatOption={(status) =>
+                        GEOCODE_STATUS_LABELS[status as GeocodeStatus] ?? status
+                      }
+                    />
+
+                    <Separator />
+
+                    <ColorModeSelect
+                      value={colorMode}
+                      onChange={onColorModeChange}
+                    />
+
+                    <DisplayModePanel
+                      value={displayMode}
+                      onChange={onDisplayModeChange}
+                      gapSettings={gapSettings}
+                      onGapSettingsChange={onGapSettingsChange}
+                      gapResult={gapResult}
+                    />
+
                     <Separator />
 
                     <StatsPanel stats={stats} />
 
+                    <Separator />
+
+                    <ExportPanel filters={filters} selection={selection} />
+
                     {hasActiveFilters && (
                       <>
                         <Separator />
@@ -514,8 +1063,11 @@ export function MapSidebar({
                 ) : (
                   <FacilityList
                     facilities={facilities}
+                    truncated={facilitiesTruncated}
+                    totalCount={stats.facilityCount}
                     selectedFacility={selectedFacility}
                     onFacilitySelect={onFacilitySelect}
+                    onPlaceFacility={onPlaceFacility}
                   />
                 )}
               </div>
@@ -0,0 +1,264 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type MapLibreGL from "maplibre-gl";
+import type { FeatureCollection } from "geojson";
+import { useMap } from "@/components/ui/map";
+import type { MapSelection, SelectionTool } from "@/lib/supabase/types";
+import { circlePolygon, selectionRing } from "@/lib/utils/selection";
+
+const SELECTION_SOURCE_ID = "selection-source";
+const SELECTION_FILL_LAYER_ID = "selection-fill";
+const SELECTION_LINE_LAYER_ID = "selection-line";
+const DRAFT_SOURCE_ID = "selection-draft-source";
+const DRAFT_LINE_LAYER_ID = "selection-draft-line";
+const DRAFT_POINT_LAYER_ID = "selection-draft-points";
+
+const SELECTION_COLOR = "#0EA5E9"; // sky
+// Minimum pointer travel between recorded lasso vertices
+const LASSO_MIN_PIXELS = 8;
+
+type Ring = [number, number][];
+
+type SelectionLayerProps = {
+  tool: SelectionTool | null;
+  radiusKm: number;
+  selection: MapSelection | null;
+  onSelect: (selection: MapSelection) => void;
+  onCancel: () => void;
+};
+
+const EMPTY: FeatureCollection = { type: "FeatureCollection", features: [] };
+
+function areaGeoJSON(ring: Ring): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [[...ring, ring[0]]] },
+        properties: {},
+      },
+    ],
+  };
+}
+
+// In-progress outline plus its vertices
+function draftGeoJSON(ring: Ring, closed: boolean): FeatureCollection {
+  const line = closed && ring.length > 2 ? [...ring, ring[0]] : ring;
+  return {
+    type: "FeatureCollection",
+    features: [
+      ...(line.length > 1
+        ? [
+            {
+              type: "Feature" as const,
+              geometry: { type: "LineString" as const, coordinates: line },
+              properties: {},
+            },
+          ]
+        : []),
+      ...ring.map((coordinates) => ({
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates },
+        properties: {},
+      })),
+    ],
+  };
+}
+
+// Double-clicks also fire two clicks; drop the repeated vertices
+function dedupe(ring: Ring): Ring {
+  return ring.filter(
+    ([lng, lat], i) =>
+      i === 0 || lng !== ring[i - 1][0] || lat !== ring[i - 1][1],
+  );
+}
+
+export function SelectionLayer({
+  tool,
+  radiusKm,
+  selection,
+  onSelect,
+  onCancel,
+}: SelectionLayerProps) {
+  const { map, isLoaded } = useMap();
+  const sourcesAdded = useRef(false);
+
+  // Add sources and layers on mount
+  useEffect(() => {
+    if (!isLoaded || !map || sourcesAdded.current) return;
+
+    map.addSource(SELECTION_SOURCE_ID, { type: "geojson", data: EMPTY });
+    map.addSource(DRAFT_SOURCE_ID, { type: "geojson", data: EMPTY });
+
+    map.addLayer({
+      id: SELECTION_FILL_LAYER_ID,
+      type: "fill",
+      source: SELECTION_SOURCE_ID,
+      paint: { "fill-color": SELECTION_COLOR, "fill-opacity": 0.08 },
+    });
+    map.addLayer({
+      id: SELECTION_LINE_LAYER_ID,
+      type: "line",
+      source: SELECTION_SOURCE_ID,
+      paint: { "line-color": SELECTION_COLOR, "line-width": 2 },
+    });
+    map.addLayer({
+      id: DRAFT_LINE_LAYER_ID,
+      type: "line",
+      source: DRAFT_SOURCE_ID,
+      filter: ["==", ["geometry-type"], "LineString"],
+      paint: {
+        "line-color": SELECTION_COLOR,
+        "line-width": 2,
+        "line-dasharray": [2, 2],
+      },
+    });
+    map.addLayer({
+      id: DRAFT_POINT_LAYER_ID,
+      type: "circle",
+      source: DRAFT_SOURCE_ID,
+      filter: ["==", ["geometry-type"], "Point"],
+      paint: {
+        "circle-radius": 4,
+        "circle-color": "#fff",
+        "circle-stroke-color": SELECTION_COLOR,
+        "circle-stroke-width": 2,
+      },
+    });
+
+    sourcesAdded.current = true;
+
+    return () => {
+      try {
+        for (const id of [
+          DRAFT_POINT_LAYER_ID,
+          DRAFT_LINE_LAYER_ID,
+          SELECTION_LINE_LAYER_ID,
+          SELECTION_FILL_LAYER_ID,
+        ]) {
+          if (map.getLayer(id)) map.removeLayer(id);
+        }
+        if (map.getSource(DRAFT_SOURCE_ID)) map.removeSource(DRAFT_SOURCE_ID);
+        if (map.getSource(SELECTION_SOURCE_ID)) {
+          map.removeSource(SELECTION_SOURCE_ID);
+        }
+        sourcesAdded.current = false;
+      } catch {
+        // ignore cleanup errors
+      }
+    };
+  }, [isLoaded, map]);
+
+  // Show the committed selection
+  useEffect(() => {
+    if (!isLoaded || !map || !sourcesAdded.current) return;
+
+    const source = map.getSource(
+      SELECTION_SOURCE_ID,
+    ) as MapLibreGL.GeoJSONSource;
+    source?.setData(selection ? areaGeoJSON(selectionRing(selection)) : EMPTY);
+  }, [selection, isLoaded, map]);
+
+  // Drawing interaction for the active tool
+  useEffect(() => {
+    if (!isLoaded || !map || !sourcesAdded.current || !tool) return;
+
+    const draftSource = map.getSource(
+      DRAFT_SOURCE_ID,
+    ) as MapLibreGL.GeoJSONSource;
+    const showDraft = (data: FeatureCollection) => draftSource?.setData(data);
+
+    let ring: Ring = [];
+    let lassoActive = false;
+    let lastPoint: MapLibreGL.Point | null = null;
+
+    const finishPolygon = () => {
+      const polygon = dedupe(ring);
+      ring = [];
+      showDraft(EMPTY);
+      if (polygon.length >= 3) onSelect({ type: "polygon", polygon });
+    };
+
+    const handleClick = (e: MapLibreGL.MapMouseEvent) => {
+      const point = e.lngLat.toArray() as [number, number];
+      if (tool === "radius") {
+        showDraft(EMPTY);
+        onSelect({ type: "radius", center: point, radiusKm });
+      } else if (tool === "polygon") {
+        ring = [...ring, point];
+        showDraft(draftGeoJSON(ring, false));
+      }
+    };
+
+    const handleDoubleClick = (e: MapLibreGL.MapMouseEvent) => {
+      if (tool !== "polygon") return;
+      e.preventDefault();
+      finishPolygon();
+    };
+
+    const handleMouseDown = (e: MapLibreGL.MapMouseEvent) => {
+      if (tool !== "lasso") return;
+      lassoActive = true;
+      lastPoint = e.point;
+      ring = [e.lngLat.toArray() as [number, number]];
+    };
+
+    const handleMouseMove = (e: MapLibreGL.MapMouseEvent) => {
+      const point = e.lngLat.toArray() as [number, number];
+
+      if (tool === "radius") {
+        showDraft(draftGeoJSON(circlePolygon(point, radiusKm), true));
+      } else if (tool === "polygon" && ring.length > 0) {
+        showDraft(draftGeoJSON([...ring, point], false));
+      } else if (tool === "lasso" && lassoActive && lastPoint) {
+        if (e.point.dist(lastPoint) < LASSO_MIN_PIXELS) return;
+        lastPoint = e.point;
+        ring = [...ring, point];
+        showDraft(draftGeoJSON(ring, true));
+      }
+    };
+
+    const handleMouseUp = () => {
+      if (tool !== "lasso" || !lassoActive) return;
+      lassoActive = false;
+      finishPolygon();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      ring = [];
+      showDraft(EMPTY);
+      onCancel();
+    };
+
+    // Map gestures would fight the drawing
+    map.doubleClickZoom.disable();
+    if (tool === "lasso") map.dragPan.disable();
+    map.getCanvas().style.cursor = "crosshair";
+
+    map.on("click", handleClick);
+    map.on("dblclick", handleDoubleClick);
+    map.on("mousedown", handleMouseDown);
+    map.on("mousemove", handleMouseMove);
+    map.on("mouseup", handleMouseUp);
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      map.off("click", handleClick);
+      map.off("dblclick", handleDoubleClick);
+      map.off("mousedown", handleMouseDown);
+      map.off("mousemove", handleMouseMove);
+      map.off("mouseup", handleMouseUp);
+      window.removeEventListener("keydown", handleKeyDown);
+
+      map.doubleClickZoom.enable();
+      map.dragPan.enable();
+      map.getCanvas().style.cursor = "";
+      showDraft(EMPTY);
+    };
+  }, [tool, radiusKm, onSelect, onCancel, isLoaded, map]);
+
+  return null;
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { Lasso, Pentagon, Radius, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { MapSelection, SelectionTool } from "@/lib/supabase/types";
+import { cn } from "@/lib/utils";
+
+type SelectionToolbarProps = {
+  tool: SelectionTool | null;
+  onToolChange: (tool: SelectionTool | null) => void;
+  radiusKm: number;
+  onRadiusChange: (radiusKm: number) => void;
+  selection: MapSelection | null;
+  onClear: () => void;
+};
+
+const TOOLS: {
+  value: SelectionTool;
+  label: string;
+  icon: typeof Lasso;
+  hint: string;
+}[] = [
+  {
+    value: "lasso",
+    label: "Lasso",
+    icon: Lasso,
+    hint: "Drag to draw around facilities",
+  },
+  {
+    value: "polygon",
+    label: "Polygon",
+    icon: Pentagon,
+    hint: "Click to add corners, double-click to finish",
+  },
+  {
+    value: "radius",
+    label: "Radius",
+    icon: Radius,
+    hint: "Click the centre point",
+  },
+];
+
+export function SelectionToolbar({
+  tool,
+  onToolChange,
+  radiusKm,
+  onRadiusChange,
+  selection,
+  onClear,
+}: SelectionToolbarProps) {
+  const activeTool = TOOLS.find((t) => t.value === tool);
+
+  return (
+    <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-2">
+      <div className="flex items-center gap-1 rounded-lg border bg-background/90 p-1 shadow-sm backdrop-blur-sm">
+        {TOOLS.map(({ value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            variant="ghost"
+            size="sm"
+            title={label}
+            onClick={() => onToolChange(tool === value ? null : value)}
+            className={cn(
+              "h-8 px-2 text-xs",
+              tool === value && "bg-primary/10 text-primary",
+            )}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </Button>
+        ))}
+        <div className="flex items-center gap-1 pl-1 text-xs text-muted-foreground">
+          <Input
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={radiusKm}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0) onRadiusChange(value);
+            }}
+            className="h-8 w-16 px-2 text-xs"
+            aria-label="Radius in km"
+          />
+          km
+        </div>
+        {selection && (
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Clear selection"
+            onClick={onClear}
+            className="h-8 px-2"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {activeTool && (
+        <p className="rounded-md bg-background/90 px-2 py-1 text-xs text-muted-foreground shadow-sm">
+          {activeTool.hint} · Esc to cancel
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import type { ImportBatch } from "@/lib/import/sync";
+
+type ImportBatchListProps = {
+  batches: ImportBatch[];
+};
+
+/**
+ * Recent imports, newest first
+ */
+export function ImportBatchList({ batches }: ImportBatchListProps) {
+  if (batches.length === 0) {
+    return <p className="text-sm text-muted-foreground">No imports yet</p>;
+  }
+
+  return (
+    <ul className="divide-y text-sm">
+      {batches.map((batch) => (
+        <li key={batch.id} className="py-2 space-y-0.5">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium truncate">{batch.file_name}</span>
+            {batch.status === "rolled_back" && (
+              <Badge variant="secondary">Rolled back</Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {new Date(batch.created_at).toLocaleString()} ·{" "}
+            {batch.imported_by ?? "unknown"}
+            {batch.profile && ` · ${batch.profile}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            +{batch.chargers_added} ~{batch.chargers_changed} →
+            {batch.chargers_moved} −{batch.chargers_removed} chargers ·{" "}
+            {batch.facilities_created} new facilities
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { ImportPreview } from "@/lib/import/sync";
+import { cn } from "@/lib/utils";
+
+type ImportPreviewCardProps = {
+  preview: ImportPreview;
+};
+
+const DIFF_LABELS = {
+  added: { label: "New", className: "text-emerald-600" },
+  changed: { label: "Changed", className: "text-amber-600" },
+  moved: { label: "Moved", className: "text-sky-600" },
+  removed: { label: "Removed", className: "text-red-600" },
+  unchanged: { label: "Unchanged", className: "text-muted-foreground" },
+} as const;
+
+/**
+ * Validation problems and the diff an upload would apply
+ */
+export function ImportPreviewCard({ preview }: ImportPreviewCardProps) {
+  const { diff, samples } = preview;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          {preview.errors > 0 ? (
+            <AlertCircle className="w-4 h-4 text-red-500" />
+          ) : (
+            <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+          )}
+          {preview.file}
+        </CardTitle>
+        <CardDescription>
+          {preview.rows.toLocaleString()} rows in &quot;{preview.sheet}&quot; ·
+          profile {preview.profile}
+          {preview.country && ` · ${preview.country} only`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {preview.missingColumns.length > 0 && (
+          <p className="flex items-start gap-2 text-amber-600">
+            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+            Columns not found: {preview.missingColumns.join(", ")}
+          </p>
+        )}
+
+        {/* Validation */}
+        {preview.problemSummary.length > 0 ? (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Badge variant={preview.errors > 0 ? "destructive" : "secondary"}>
+                {preview.errors.toLocaleString()} errors
+              </Badge>
+              <Badge variant="secondary">
+                {preview.warnings.toLocaleString()} warnings
+              </Badge>
+            </div>
+            <ul className="space-y-1 text-xs">
+              {preview.problemSummary.map((p) => (
+                <li key={p.code} className="flex justify-between gap-4">
+                  <span
+                    className={cn(
+                      p.severity === "error"
+                        ? "text-red-600"
+                        : "text-muted-foreground",
+                    )}
+                  >
+                    {p.label}
+                  </span>
+                  <span className="tabular-nums">
+                    {p.count.toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <details className="text-xs">
+              <summary className="cursor-pointer text-muted-foreground">
+                Rows with problems
+              </summary>
+              <ul className="mt-2 max-h-64 overflow-y-auto space-y-1">
+                {preview.problems.map((p, i) => (
+                  <li key={i}>
+                    <span className="font-mono text-muted-foreground">
+                      {p.cell ?? `Row ${p.row}`}
+                    </span>{" "}
+                    {p.column}: {p.message}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">No validation problems</p>
+        )}
+
+        {/* Diff against the database */}
+        {diff && samples && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-5 gap-2 text-center">
+              {(Object.keys(DIFF_LABELS) as (keyof typeof DIFF_LABELS)[]).map(
+                (key) => (
+                  <div key={key} className="rounded-md border p-2">
+                    <p
+                      className={cn(
+                        "text-lg font-semibold tabular-nums",
+                        DIFF_LABELS[key].className,
+                      )}
+                    >
+                      {diff[key].toLocaleString()}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {DIFF_LABELS[key].label}
+                    </p>
+                  </div>
+                ),
+              )}
+            </div>
+            {diff.skipped > 0 && (
+              <p className="flex items-start gap-2 text-amber-600">
+                <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                {diff.skipped.toLocaleString()} chargers belong to countries you
+                can&apos;t import and will be left unchanged
+              </p>
+            )}
+            <ul className="space-y-1 text-xs">
+              {samples.added.map((r) => (
+                <li key={`added-${r.serial_number}`}>
+                  <span className={DIFF_LABELS.added.className}>+</span>{" "}
+                  {r.serial_number} at {r.facility_name ?? "no facility"}
+                </li>
+              ))}
+              {samples.changed.map(({ record, changes }) => (
+                <li key={`changed-${record.serial_number}`}>
+                  <span className={DIFF_LABELS.changed.className}>~</span>{" "}
+                  {record.serial_number}:{" "}
+                  {changes
+                    .map((c) => `${c.field} ${c.from ?? "—"} → ${c.to ?? "—"}`)
+                    .join(", ")}
+                </li>
+              ))}
+              {samples.moved.map(({ record, from }) => (
+                <li key={`moved-${record.serial_number}`}>
+                  <span className={DIFF_LABELS.moved.className}>→</span>{" "}
+                  {record.serial_number}: {from ?? "no facility"} →{" "}
+                  {record.facility_name ?? "no facility"}
+                </li>
+              ))}
+              {samples.removed.map((r) => (
+                <li key={`removed-${r.serial_number}`}>
+                  <span className={DIFF_LABELS.removed.className}>−</span>{" "}
+                  {r.serial_number} at {r.facility_name ?? "no facility"}
+                </li>
+              ))}
+              {samples.skipped.map(({ record, country }) => (
+                <li key={`skipped-${record.serial_number}`}>
+                  <span className="text-amber-600">!</span>{" "}
+                  {record.serial_number}: held by {country}, skipped
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
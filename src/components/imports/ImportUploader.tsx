@@ -0,0 +1,345 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  FileUp,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useImportOverview } from "@/lib/hooks/useImportOverview";
+import type {
+  ImportPreview,
+  ImportProgress,
+  SyncResult,
+} from "@/lib/import/sync";
+import { ImportPreviewCard } from "./ImportPreviewCard";
+import { ImportBatchList } from "./ImportBatchList";
+
+// Select value for "every country in the file"
+const ALL_COUNTRIES = "all";
+
+type CommitState =
+  | { stage: "idle" }
+  | { stage: "snapshot"; loaded: number }
+  | { stage: "applying"; changes: number }
+  | { stage: "done"; result: SyncResult | null };
+
+async function errorMessage(response: Response) {
+  const body = await response.json().catch(() => null);
+  return body?.error ?? `HTTP ${response.status}`;
+}
+
+/**
+ * Upload a register, preview its validation and diff, then apply it
+ */
+export function ImportUploader() {
+  const { overview, loading, error: loadError, reload } = useImportOverview();
+  const [file, setFile] = useState<File | null>(null);
+  const [profile, setProfile] = useState("default");
+  const [country, setCountry] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [commit, setCommit] = useState<CommitState>({ stage: "idle" });
+  const [error, setError] = useState<string | null>(null);
+
+  // Restricted users start on their first country
+  const selectedCountry =
+    country ??
+    (overview?.restricted ? (overview.countries[0] ?? null) : ALL_COUNTRIES);
+  const committing = commit.stage === "snapshot" || commit.stage === "applying";
+
+  const formData = (mode: "preview" | "commit") => {
+    const form = new FormData();
+    form.set("file", file!);
+    form.set("profile", profile);
+    if (selectedCountry && selectedCountry !== ALL_COUNTRIES) {
+      form.set("country", selectedCountry);
+    }
+    form.set("mode", mode);
+    return form;
+  };
+
+  // Any change to the inputs invalidates the preview
+  const resetPreview = () => {
+    setPreview(null);
+    setCommit({ stage: "idle" });
+    setError(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    resetPreview();
+    setPreviewing(true);
+
+    try {
+      const response = await fetch("/api/imports", {
+        method: "POST",
+        body: formData("preview"),
+      });
+      if (!response.ok) throw new Error(await errorMessage(response));
+      setPreview((await response.json()) as ImportPreview);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Preview failed");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!file) return;
+    setError(null);
+    setCommit({ stage: "snapshot", loaded: 0 });
+
+    try {
+      const response = await fetch("/api/imports", {
+        method: "POST",
+        body: formData("commit"),
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(await errorMessage(response));
+      }
+
+      // Newline-delimited JSON progress events
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line) as ImportProgress;
+          if (event.stage === "error") throw new Error(event.error);
+          setCommit(event);
+        }
+      }
+
+      reload();
+    } catch (err) {
+      setCommit({ stage: "idle" });
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+  };
+
+  const changes = preview?.diff
+    ? preview.diff.added +
+      preview.diff.changed +
+      preview.diff.moved +
+      preview.diff.removed
+    : 0;
+
+  // Paging the snapshot is most of the work; the transaction is the rest
+  const progress =
+    commit.stage === "snapshot"
+      ? Math.min(commit.loaded / (preview?.databaseChargers || 1), 1) * 80
+      : commit.stage === "applying"
+        ? 90
+        : commit.stage === "done"
+          ? 100
+          : 0;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" title="Back to map">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Import register</h1>
+          <p className="text-sm text-muted-foreground">
+            Upload the Asset Register (xlsx or csv), check the changes, then
+            apply them
+          </p>
+        </div>
+      </div>
+
+      {loadError && (
+        <p className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          Failed to load import settings: {loadError}
+        </p>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-[1fr_280px]">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">File</CardTitle>
+              <CardDescription>
+                Sources with their own headers, delimiter or date format need
+                their profile
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="register-file">Register</Label>
+                <Input
+                  id="register-file"
+                  type="file"
+                  accept=".xlsx,.xls,.csv,.txt"
+                  disabled={committing}
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] ?? null);
+                    resetPreview();
+                  }}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1.5">
+                  <Label>Profile</Label>
+                  <Select
+                    value={profile}
+                    disabled={loading || committing}
+                    onValueChange={(value) => {
+                      setProfile(value);
+                      resetPreview();
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(overview?.profiles ?? ["default"]).map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Country</Label>
+                  <Select
+                    value={selectedCountry ?? undefined}
+                    disabled={loading || committing}
+                    onValueChange={(value) => {
+                      setCountry(value);
+                      resetPreview();
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="No countries permitted" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!overview?.restricted && (
+                        <SelectItem value={ALL_COUNTRIES}>
+                          Countries in the file
+                        </SelectItem>
+                      )}
+                      {overview?.countries.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Button
+                onClick={handlePreview}
+                disabled={!file || !selectedCountry || previewing || committing}
+              >
+                {previewing ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <FileUp className="w-4 h-4 mr-2" />
+                )}
+                Preview
+              </Button>
+            </CardContent>
+          </Card>
+
+          {error && (
+            <p className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+
+          {preview && <ImportPreviewCard preview={preview} />}
+
+          {preview?.diff && (
+            <div className="space-y-3">
+              {commit.stage === "done" ? (
+                <p className="flex items-center gap-2 text-sm text-emerald-600">
+                  <CheckCircle2 className="w-4 h-4" />
+                  {commit.result
+                    ? `Imported as batch ${commit.result.batch_id}`
+                    : "Already up to date"}
+                </p>
+              ) : (
+                <Button
+                  onClick={handleCommit}
+                  disabled={changes === 0 || committing}
+                >
+                  {committing && (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  )}
+                  {changes === 0
+                    ? "Already up to date"
+                    : `Import ${changes.toLocaleString()} changes`}
+                </Button>
+              )}
+              {commit.stage !== "idle" && (
+                <div className="space-y-1">
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {commit.stage === "snapshot" &&
+                      `Loading current chargers (${commit.loaded.toLocaleString()})`}
+                    {commit.stage === "applying" &&
+                      `Applying ${commit.changes.toLocaleString()} charger changes in one transaction`}
+                    {commit.stage === "done" && "Done"}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <Card className="self-start">
+          <CardHeader>
+            <CardTitle className="text-base">Recent imports</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {overview ? (
+              <ImportBatchList batches={overview.batches} />
+            ) : (
+              loading && (
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              )
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  AlertCircle,
+  Check,
+  CheckCircle2,
+  Loader2,
+  MapPin,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAddressProposals } from "@/lib/hooks/useAddressProposals";
+import {
+  ADDRESS_FIELD_LABELS,
+  type AddressProposal,
+} from "@/lib/geocoding/reverse";
+
+const COUNTRIES = ["Norway", "Sweden", "Denmark"];
+// Select value for "every country"
+const ALL_COUNTRIES = "all";
+
+async function errorMessage(response: Response) {
+  const body = await response.json().catch(() => null);
+  return body?.error ?? `HTTP ${response.status}`;
+}
+
+/**
+ * Reverse-geocoded address values that would overwrite a stored one:
+ * accept to write the new value, reject to keep the old one
+ */
+export function AddressProposals() {
+  const [country, setCountry] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [decided, setDecided] = useState(0);
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+  const { page, loading, error, reload } = useAddressProposals(country);
+
+  const decide = async (proposal: AddressProposal, accept: boolean) => {
+    setSavingId(proposal.id);
+    setDecisionError(null);
+
+    try {
+      const response = await fetch(`/api/address-proposals/${proposal.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accept }),
+      });
+      if (!response.ok) throw new Error(await errorMessage(response));
+      setDecided((n) => n + 1);
+      await reload();
+    } catch (err) {
+      setDecisionError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/review" title="Back to geocode review">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Address review</h1>
+          <p className="text-sm text-muted-foreground">
+            Addresses found at a facility&apos;s pin that differ from the ones
+            on record. Accept to overwrite the stored value.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1.5">
+          <Label>Country</Label>
+          <Select
+            value={country ?? ALL_COUNTRIES}
+            onValueChange={(value) =>
+              setCountry(value === ALL_COUNTRIES ? null : value)
+            }
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_COUNTRIES}>All countries</SelectItem>
+              {COUNTRIES.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {page && (
+          <p className="text-sm text-muted-foreground pb-2">
+            {page.total.toLocaleString()} waiting
+            {decided > 0 && ` · ${decided} decided this session`}
+          </p>
+        )}
+        {loading && (
+          <Loader2 className="w-4 h-4 mb-2.5 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {(error || decisionError) && (
+        <p className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          {error
+            ? `Failed to load the proposals: ${error}`
+            : `Failed to save: ${decisionError}`}
+        </p>
+      )}
+
+      {page && page.proposals.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-emerald-600">
+          <CheckCircle2 className="w-4 h-4" />
+          Nothing to review
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {page?.proposals.map((proposal) => (
+            <div
+              key={proposal.id}
+              className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-muted/30"
+            >
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <Link
+                    href={`/?facility=${proposal.facility_id}`}
+                    className="font-medium text-sm truncate hover:underline"
+                  >
+                    {proposal.facility_name}
+                  </Link>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {proposal.country}
+                  </span>
+                </div>
+                <p className="text-sm">
+                  <span className="text-muted-foreground">
+                    {ADDRESS_FIELD_LABELS[proposal.field]}:
+                  </span>{" "}
+                  <span className="line-through text-muted-foreground">
+                    {proposal.current_value ?? "–"}
+                  </span>{" "}
+                  →{" "}
+                  <span className="font-medium">{proposal.proposed_value}</span>
+                </p>
+              </div>
+              <Badge variant="secondary" className="gap-1">
+                <MapPin className="w-3 h-3" />
+                {proposal.source}
+              </Badge>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={savingId !== null}
+                  onClick={() => decide(proposal, false)}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Keep
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={savingId !== null}
+                  onClick={() => decide(proposal, true)}
+                >
+                  {savingId === proposal.id ? (
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  ) : (
+                    <Check className="w-4 h-4 mr-1" />
+                  )}
+                  Accept
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useReviewQueue } from "@/lib/hooks/useReviewQueue";
+import { DEFAULT_REVIEW_THRESHOLD } from "@/lib/geocoding/review";
+import { cn } from "@/lib/utils";
+import { ReviewPanel, confidenceLabel } from "./ReviewPanel";
+
+const COUNTRIES = ["Norway", "Sweden", "Denmark"];
+const THRESHOLDS = [0.5, 0.6, 0.75, 0.9];
+// Select value for "every country"
+const ALL_COUNTRIES = "all";
+
+/**
+ * Review queue for doubtful geocodes: pick a facility, compare its point
+ * with the provider candidates, then accept, pick one or place by hand
+ */
+export function GeocodeReview() {
+  const [threshold, setThreshold] = useState(DEFAULT_REVIEW_THRESHOLD);
+  const [country, setCountry] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reviewed, setReviewed] = useState(0);
+  const { queue, loading, error, reload } = useReviewQueue(threshold, country);
+
+  // The first facility is opened until the reviewer picks another
+  const selected =
+    queue?.facilities.find((f) => f.id === selectedId) ??
+    queue?.facilities[0] ??
+    null;
+
+  const handleDecided = () => {
+    setReviewed((n) => n + 1);
+    setSelectedId(null);
+    reload();
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" title="Back to map">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Geocode review</h1>
+          <p className="text-sm text-muted-foreground">
+            Facilities placed from a street, postal code or town match, flagged
+            by the sanity checks, or not placed at all. Check each against the
+            provider candidates.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" className="ml-auto" asChild>
+          <Link href="/review/addresses">Address review</Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1.5">
+          <Label>Confidence below</Label>
+          <Select
+            value={threshold.toString()}
+            onValueChange={(value) => {
+              setThreshold(Number(value));
+              setSelectedId(null);
+            }}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {THRESHOLDS.map((value) => (
+                <SelectItem key={value} value={value.toString()}>
+                  {Math.round(value * 100)}%
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Country</Label>
+          <Select
+            value={country ?? ALL_COUNTRIES}
+            onValueChange={(value) => {
+              setCountry(value === ALL_COUNTRIES ? null : value);
+              setSelectedId(null);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_COUNTRIES}>All countries</SelectItem>
+              {COUNTRIES.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {queue && (
+          <p className="text-sm text-muted-foreground pb-2">
+            {queue.total.toLocaleString()} waiting
+            {reviewed > 0 && ` · ${reviewed} reviewed this session`}
+          </p>
+        )}
+        {loading && (
+          <Loader2 className="w-4 h-4 mb-2.5 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          Failed to load the review queue: {error}
+        </p>
+      )}
+
+      {queue && queue.facilities.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-emerald-600">
+          <CheckCircle2 className="w-4 h-4" />
+          Nothing to review
+        </p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-[320px_1fr]">
+          <div className="space-y-1 self-start">
+            {queue?.facilities.map((facility) => (
+              <button
+                key={facility.id}
+                onClick={() => setSelectedId(facility.id)}
+                className={cn(
+                  "w-full p-3 rounded-lg text-left transition-colors hover:bg-muted/80",
+                  selected?.id === facility.id
+                    ? "bg-primary/10 border border-primary/20"
+                    : "bg-muted/30",
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">
+                      {facility.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {facility.city || "Unknown city"}, {facility.country}
+                    </p>
+                  </div>
+                  {facility.geocode_status === "failed" ? (
+                    <Badge variant="destructive">Failed</Badge>
+                  ) : facility.geocode_status === "flagged" ? (
+                    <Badge variant="outline">Flagged</Badge>
+                  ) : (
+                    <Badge variant="secondary">
+                      {confidenceLabel(facility.geocode_confidence)}
+                    </Badge>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <ReviewPanel
+              key={selected.id}
+              facility={selected}
+              onDecided={handleDecided}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import type MapLibreGL from "maplibre-gl";
+import { MapPin } from "lucide-react";
+import {
+  Map,
+  MapControls,
+  MapMarker,
+  MarkerContent,
+  MarkerTooltip,
+  useMap,
+} from "@/components/ui/map";
+import type { ReviewCandidate } from "@/lib/geocoding/review";
+import { cn } from "@/lib/utils";
+
+const NORDIC_CENTER: [number, number] = [12.0, 62.0];
+// Keeps a single point from zooming in past street level
+const MAX_FIT_ZOOM = 16;
+
+type Point = { lng: number; lat: number };
+type Bounds = [[number, number], [number, number]];
+
+type ReviewMapProps = {
+  current: Point | null;
+  candidates: ReviewCandidate[];
+  selectedCandidate: number | null;
+  onCandidateSelect: (index: number) => void;
+  // Hand-placed pin; clicking the map drops it while placing
+  manual: Point | null;
+  placing: boolean;
+  onManualChange: (point: Point) => void;
+};
+
+// Zoom to show every point whenever they change
+function FitBounds({ bounds }: { bounds: Bounds | null }) {
+  const { map, isLoaded } = useMap();
+
+  useEffect(() => {
+    if (!isLoaded || !map || !bounds) return;
+    map.fitBounds(bounds, {
+      padding: 60,
+      maxZoom: MAX_FIT_ZOOM,
+      duration: 0,
+    });
+  }, [isLoaded, map, bounds]);
+
+  return null;
+}
+
+function PlacementClicks({ onPlace }: { onPlace: (point: Point) => void }) {
+  const { map, isLoaded } = useMap();
+
+  useEffect(() => {
+    if (!isLoaded || !map) return;
+
+    const handleClick = (e: MapLibreGL.MapMouseEvent) =>
+      onPlace({ lng: e.lngLat.lng, lat: e.lngLat.lat });
+
+    map.getCanvas().style.cursor = "crosshair";
+    map.on("click", handleClick);
+    return () => {
+      map.off("click", handleClick);
+      map.getCanvas().style.cursor = "";
+    };
+  }, [isLoaded, map, onPlace]);
+
+  return null;
+}
+
+/**
+ * The current geocode, the provider candidates (numbered as in the list)
+ * and the hand-placed pin on a small map
+ */
+export function ReviewMap({
+  current,
+  candidates,
+  selectedCandidate,
+  onCandidateSelect,
+  manual,
+  placing,
+  onManualChange,
+}: ReviewMapProps) {
+  const currentLng = current?.lng;
+  const currentLat = current?.lat;
+
+  const bounds = useMemo((): Bounds | null => {
+    const lngs = candidates.map((c) => c.longitude);
+    const lats = candidates.map((c) => c.latitude);
+    if (currentLng !== undefined && currentLat !== undefined) {
+      lngs.push(currentLng);
+      lats.push(currentLat);
+    }
+    if (lngs.length === 0) return null;
+    return [
+      [Math.min(...lngs), Math.min(...lats)],
+      [Math.max(...lngs), Math.max(...lats)],
+    ];
+  }, [candidates, currentLng, currentLat]);
+
+  return (
+    <div className="h-80 w-full overflow-hidden rounded-lg border">
+      <Map center={NORDIC_CENTER} zoom={4}>
+        <MapControls position="bottom-right" showZoom />
+        <FitBounds bounds={bounds} />
+        {placing && <PlacementClicks onPlace={onManualChange} />}
+
+        {current && (
+          <MapMarker longitude={current.lng} latitude={current.lat}>
+            <MarkerContent>
+              <div className="size-4 rounded-full border-2 border-white bg-amber-500 shadow-lg" />
+            </MarkerContent>
+            <MarkerTooltip>Current geocode</MarkerTooltip>
+          </MapMarker>
+        )}
+
+        {candidates.map((candidate, index) => (
+          <MapMarker
+            key={`${candidate.provider}-${candidate.variant}-${index}`}
+            longitude={candidate.longitude}
+            latitude={candidate.latitude}
+            onClick={() => onCandidateSelect(index)}
+          >
+            <MarkerContent>
+              <div
+                className={cn(
+                  "flex size-6 items-center justify-center rounded-full border-2 border-white text-xs font-semibold text-white shadow-lg",
+                  selectedCandidate === index ? "bg-primary" : "bg-sky-500",
+                )}
+              >
+                {index + 1}
+              </div>
+            </MarkerContent>
+            <MarkerTooltip>
+              {candidate.provider}/{candidate.variant} ·{" "}
+              {Math.round(candidate.confidence * 100)}%
+            </MarkerTooltip>
+          </MapMarker>
+        ))}
+
+        {manual && (
+          <MapMarker
+            longitude={manual.lng}
+            latitude={manual.lat}
+            anchor="bottom"
+            draggable
+            onDragEnd={onManualChange}
+          >
+            <MarkerContent className="cursor-move">
+              <MapPin className="size-8 fill-primary text-background drop-shadow-md" />
+            </MarkerContent>
+          </MapMarker>
+        )}
+      </Map>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  AlertCircle,
+  Check,
+  Loader2,
+  MapPinPen,
+  MousePointerClick,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { describeFlags } from "@/lib/geocoding/checks";
+import type {
+  ReviewCandidates,
+  ReviewDecision,
+  ReviewFacility,
+} from "@/lib/geocoding/review";
+import { cn } from "@/lib/utils";
+import { ReviewMap } from "./ReviewMap";
+
+type Point = { lng: number; lat: number };
+
+type ReviewPanelProps = {
+  facility: ReviewFacility;
+  // Called once the decision is stored
+  onDecided: () => void;
+};
+
+async function errorMessage(response: Response) {
+  const body = await response.json().catch(() => null);
+  return body?.error ?? `HTTP ${response.status}`;
+}
+
+export function confidenceLabel(confidence: number | null) {
+  return confidence === null ? "–" : `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * One facility under review: its current point and the provider
+ * candidates on a mini-map, with accept / pick / place-by-hand decisions
+ */
+export function ReviewPanel({ facility, onDecided }: ReviewPanelProps) {
+  const [candidates, setCandidates] = useState<ReviewCandidates | null>(null);
+  const [candidatesError, setCandidatesError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [placing, setPlacing] = useState(false);
+  const [manual, setManual] = useState<Point | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current =
+    facility.latitude !== null && facility.longitude !== null
+      ? { lng: facility.longitude, lat: facility.latitude }
+      : null;
+
+  // Candidates are geocoded live when the facility is opened
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCandidates = async () => {
+      try {
+        const response = await fetch(`/api/geocode-reviews/${facility.id}`);
+        if (!response.ok) throw new Error(await errorMessage(response));
+        const data = (await response.json()) as ReviewCandidates;
+        if (!cancelled) setCandidates(data);
+      } catch (err) {
+        if (!cancelled) {
+          setCandidatesError(
+            err instanceof Error ? err.message : "Unknown error",
+          );
+        }
+      }
+    };
+
+    fetchCandidates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [facility.id]);
+
+  const decide = async (decision: ReviewDecision) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/geocode-reviews/${facility.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(decision),
+      });
+      if (!response.ok) throw new Error(await errorMessage(response));
+      onDecided();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+      setSaving(false);
+    }
+  };
+
+  const startPlacing = () => {
+    setPlacing(true);
+    setSelected(null);
+    setManual(
+      manual ??
+        current ??
+        (candidates?.candidates[0]
+          ? {
+              lng: candidates.candidates[0].longitude,
+              lat: candidates.candidates[0].latitude,
+            }
+          : null),
+    );
+  };
+
+  const selectedCandidate =
+    selected !== null ? (candidates?.candidates[selected] ?? null) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{facility.name}</CardTitle>
+        <CardDescription>
+          {[facility.address, facility.postal_code, facility.city]
+            .filter(Boolean)
+            .join(", ") || "No address"}
+          , {facility.country} · {facility.charger_count} chargers
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ReviewMap
+          current={current}
+          candidates={candidates?.candidates ?? []}
+          selectedCandidate={selected}
+          onCandidateSelect={setSelected}
+          manual={placing ? manual : null}
+          placing={placing}
+          onManualChange={setManual}
+        />
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="size-3 rounded-full bg-amber-500 shrink-0" />
+          {current ? (
+            <span>
+              Current: {facility.geocode_provider ?? "unknown"}
+              {facility.geocode_query_variant &&
+                `/${facility.geocode_query_variant}`}{" "}
+              · {confidenceLabel(facility.geocode_confidence)}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">
+              Geocoding failed; no current point
+            </span>
+          )}
+        </div>
+        {facility.geocode_flags && facility.geocode_flags.length > 0 && (
+          <p className="flex items-center gap-2 text-sm text-amber-600">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            Flagged: {describeFlags(facility.geocode_flags)}
+          </p>
+        )}
+
+        <div className="space-y-1">
+          {!candidates && !candidatesError && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Asking the geocoders…
+            </p>
+          )}
+          {candidatesError && (
+            <p className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              Failed to load candidates: {candidatesError}
+            </p>
+          )}
+          {candidates?.candidates.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No provider found this address
+            </p>
+          )}
+          {candidates?.candidates.map((candidate, index) => (
+            <button
+              key={`${candidate.provider}-${candidate.variant}-${index}`}
+              onClick={() => {
+                setSelected(index);
+                setPlacing(false);
+              }}
+              className={cn(
+                "w-full flex items-center gap-3 rounded-lg p-2 text-left text-sm transition-colors hover:bg-muted/80",
+                selected === index
+                  ? "bg-primary/10 border border-primary/20"
+                  : "bg-muted/30",
+              )}
+            >
+              <span
+                className={cn(
+                  "flex size-6 shrink-0 items-center justify-center rounded-full text-xs font-semibold text-white",
+                  selected === index ? "bg-primary" : "bg-sky-500",
+                )}
+              >
+                {index + 1}
+              </span>
+              <span className="min-w-0 flex-1">
+                <span className="block truncate">
+                  {candidate.label ?? "Unlabelled match"}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {candidate.provider}/{candidate.variant}
+                </span>
+              </span>
+              <Badge variant="secondary">
+                {confidenceLabel(candidate.confidence)}
+              </Badge>
+            </button>
+          ))}
+          {candidates && candidates.errors.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Skipped: {candidates.errors.join("; ")}
+            </p>
+          )}
+        </div>
+
+        {placing && (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <MousePointerClick className="w-4 h-4" />
+            Click the map or drag the pin to place the facility
+          </p>
+        )}
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            disabled={!current || saving}
+            onClick={() => decide({ decision: "accepted" })}
+          >
+            <Check className="w-4 h-4 mr-2" />
+            Accept current
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!selectedCandidate || saving}
+            onClick={() => {
+              if (!selectedCandidate) return;
+              decide({
+                decision: "candidate",
+                provider: selectedCandidate.provider,
+                variant: selectedCandidate.variant,
+              });
+            }}
+          >
+            Use candidate {selected !== null ? selected + 1 : ""}
+          </Button>
+          {placing ? (
+            <Button
+              disabled={!manual || saving}
+              onClick={() => {
+                if (!manual) return;
+                decide({
+                  decision: "manual",
+                  latitude: manual.lat,
+                  longitude: manual.lng,
+                });
+              }}
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <MapPinPen className="w-4 h-4 mr-2" />
+              )}
+              Save placed pin
+            </Button>
+          ) : (
+            <Button variant="outline" disabled={saving} onClick={startPlacing}>
+              <MapPinPen className="w-4 h-4 mr-2" />
+              Place manually
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
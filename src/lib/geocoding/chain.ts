@@ -0,0 +1,218 @@
+/**
+ * Per-country provider chains: each facility is tried against its
+ * country's providers in order, each with its query variants, until one
+ * result is confident enough
+ */
+
+import type {
+  FacilityAddress,
+  GeocodeProvider,
+  ProviderMatch,
+  QueryVariant,
+  ReverseMatch,
+} from "./providers";
+import {
+  ADDRESS_FIELDS,
+  DEFAULT_MAX_ADDRESS_METRES,
+  DEFAULT_MAX_AREA_METRES,
+  type ReverseFields,
+} from "./reverse";
+import { normalizePostalCode } from "./retry";
+import { distanceKm } from "../utils/selection";
+
+export interface GeocodeResult extends ProviderMatch {
+  provider: string;
+  variant: QueryVariant;
+}
+
+export interface GeocodeAttempt {
+  provider: string;
+  variant: QueryVariant;
+  confidence: number | null;
+  error: string | null;
+}
+
+// Resolves once the provider may be sent another request
+export type Throttle = (provider: GeocodeProvider) => Promise<void>;
+
+// Requests are spaced per provider, across facilities
+const lastRequestAt = new Map<string, number>();
+
+async function waitTurn(provider: GeocodeProvider) {
+  const wait =
+    (lastRequestAt.get(provider.name) ?? 0) + provider.delayMs - Date.now();
+  if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+  lastRequestAt.set(provider.name, Date.now());
+}
+
+/**
+ * First result at or above `minConfidence`, or else the most confident one
+ * any provider returned. Throws when nothing matched and a provider
+ * failed, since a later run might still find the address.
+ */
+export async function geocodeWithChain(
+  address: FacilityAddress,
+  chain: GeocodeProvider[],
+  options: {
+    minConfidence: number;
+    onAttempt?: (attempt: GeocodeAttempt) => void;
+    // Spacing between requests; defaults to each provider's delayMs in
+    // this process
+    throttle?: Throttle;
+  },
+): Promise<GeocodeResult | null> {
+  let best: GeocodeResult | null = null;
+  const errors: string[] = [];
+  const throttle = options.throttle ?? waitTurn;
+
+  for (const provider of chain) {
+    for (const variant of provider.variants) {
+      let match: ProviderMatch | null = null;
+      try {
+        await throttle(provider);
+        match = await provider.geocode(address, variant);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        errors.push(message);
+        options.onAttempt?.({
+          provider: provider.name,
+          variant,
+          confidence: null,
+          error: message,
+        });
+        // The provider is down or refusing; move on to the next one
+        break;
+      }
+
+      options.onAttempt?.({
+        provider: provider.name,
+        variant,
+        confidence: match?.confidence ?? null,
+        error: null,
+      });
+
+      if (match && (!best || match.confidence > best.confidence)) {
+        best = { ...match, provider: provider.name, variant };
+      }
+      if (best && best.confidence >= options.minConfidence) return best;
+    }
+  }
+
+  if (!best && errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+  return best;
+}
+
+/**
+ * One provider's match for one query variant, e.g. to look up again a
+ * candidate a reviewer picked from geocodeCandidates
+ */
+export async function geocodeVariant(
+  address: FacilityAddress,
+  provider: GeocodeProvider,
+  variant: QueryVariant,
+): Promise<GeocodeResult | null> {
+  await waitTurn(provider);
+  const match = await provider.geocode(address, variant);
+  return match && { ...match, provider: provider.name, variant };
+}
+
+/**
+ * Every match from every provider and variant in the chain, most confident
+ * first, for a person to choose between. Matches within `mergeMetres` of a
+ * more confident one are dropped. Provider errors are reported, not thrown.
+ */
+export async function geocodeCandidates(
+  address: FacilityAddress,
+  chain: GeocodeProvider[],
+  options: { mergeMetres?: number } = {},
+): Promise<{ candidates: GeocodeResult[]; errors: string[] }> {
+  const mergeMetres = options.mergeMetres ?? 25;
+  const matches: GeocodeResult[] = [];
+  const errors: string[] = [];
+
+  for (const provider of chain) {
+    for (const variant of provider.variants) {
+      try {
+        await waitTurn(provider);
+        const match = await provider.geocode(address, variant);
+        if (match) matches.push({ ...match, provider: provider.name, variant });
+      } catch (err) {
+        errors.push(
+          `${provider.name}: ${err instanceof Error ? err.message : err}`,
+        );
+        break;
+      }
+    }
+  }
+
+  const candidates: GeocodeResult[] = [];
+  for (const match of matches.sort((a, b) => b.confidence - a.confidence)) {
+    const point: [number, number] = [match.longitude, match.latitude];
+    const duplicate = candidates.some(
+      (c) => distanceKm([c.longitude, c.latitude], point) * 1000 < mergeMetres,
+    );
+    if (!duplicate) candidates.push(match);
+  }
+  return { candidates, errors };
+}
+
+/**
+ * Address fields for a point, each from the first provider in the chain
+ * that returns it close enough to the point. Providers without a point
+ * search are skipped; errors are reported, not thrown.
+ */
+export async function reverseGeocodeWithChain(
+  point: { latitude: number; longitude: number; country: string },
+  chain: GeocodeProvider[],
+  options: { maxAddressMetres?: number; maxAreaMetres?: number } = {},
+): Promise<{ fields: ReverseFields; errors: string[] }> {
+  const maxAddressMetres =
+    options.maxAddressMetres ?? DEFAULT_MAX_ADDRESS_METRES;
+  const maxAreaMetres = options.maxAreaMetres ?? DEFAULT_MAX_AREA_METRES;
+  const fields: ReverseFields = {};
+  const errors: string[] = [];
+
+  for (const provider of chain) {
+    if (!provider.reverse) continue;
+    if (ADDRESS_FIELDS.every((field) => fields[field])) break;
+
+    let match: ReverseMatch | null = null;
+    try {
+      await waitTurn(provider);
+      match = await provider.reverse(point.latitude, point.longitude);
+    } catch (err) {
+      errors.push(
+        `${provider.name}: ${err instanceof Error ? err.message : err}`,
+      );
+      continue;
+    }
+    if (!match) continue;
+
+    const distanceMetres = Math.round(
+      distanceKm(
+        [point.longitude, point.latitude],
+        [match.longitude, match.latitude],
+      ) * 1000,
+    );
+    const values = {
+      address: distanceMetres <= maxAddressMetres ? match.address : null,
+      postal_code:
+        distanceMetres <= maxAreaMetres
+          ? (normalizePostalCode(match.postal_code, point.country) ??
+            match.postal_code)
+          : null,
+      city: distanceMetres <= maxAreaMetres ? match.city : null,
+    };
+
+    for (const field of ADDRESS_FIELDS) {
+      const value = values[field]?.trim();
+      if (value && !fields[field]) {
+        fields[field] = { value, source: provider.name, distanceMetres };
+      }
+    }
+  }
+
+  return { fields, errors };
+}
@@ -0,0 +1,36 @@
+/**
+ * Geocode sanity checks (scripts/validate-geocodes.ts, which runs the
+ * asset_map_check_geocodes RPC). A facility failing any of them gets
+ * geocode_status "flagged" and the failed checks in geocode_flags, and
+ * joins the review queue.
+ */
+
+export type GeocodeFlag =
+  | "outside_country"
+  | "swapped_coordinates"
+  | "far_from_postal_area"
+  | "duplicate_point";
+
+export const GEOCODE_FLAG_LABELS: Record<GeocodeFlag, string> = {
+  outside_country: "Outside its country",
+  swapped_coordinates: "Latitude and longitude swapped",
+  far_from_postal_area: "Far from its postal code area",
+  duplicate_point: "Shares its point with many other addresses",
+};
+
+// Thresholds, matching the RPC's defaults
+export const DEFAULT_POSTAL_MAX_KM = 25;
+// Fewer confident neighbours than this and the postal check is skipped
+export const DEFAULT_POSTAL_MIN_PEERS = 3;
+// Distinct addresses on one point before it counts as a centroid stack
+export const DEFAULT_DUPLICATE_MIN_ADDRESSES = 5;
+
+/**
+ * Human-readable list of a facility's failed checks
+ */
+export function describeFlags(flags: string[] | null): string {
+  if (!flags?.length) return "";
+  return flags
+    .map((flag) => GEOCODE_FLAG_LABELS[flag as GeocodeFlag] ?? flag)
+    .join(", ");
+}
@@ -0,0 +1,134 @@
+/**
+ * Provider chain configuration (scripts/geocoding.json, or the file named
+ * by GEOCODING_CONFIG). Server and scripts only (reads the filesystem and
+ * API keys from the environment).
+ */
+
+import * as path from "path";
+import { existsSync, readFileSync } from "fs";
+import { dawaProvider, lantmaterietProvider } from "./national";
+import {
+  hereProvider,
+  kartverketProvider,
+  nominatimProvider,
+  type GeocodeProvider,
+  type ProviderSettings,
+} from "./providers";
+
+export interface GeocodingConfig {
+  // Stop at the first result this confident
+  minConfidence: number;
+  // Provider names in the order they are tried, per country; "default"
+  // covers countries without their own chain
+  chains: Record<string, string[]>;
+  providers: Record<string, ProviderSettings>;
+}
+
+// Scripts and the app both run from the repository root
+const CONFIG_PATH = path.join(process.cwd(), "scripts", "geocoding.json");
+
+// OSM's usage policy forbids bulk geocoding against its public instance
+const PUBLIC_NOMINATIM_HOST = "nominatim.openstreetmap.org";
+
+export const DEFAULT_GEOCODING_CONFIG: GeocodingConfig = {
+  minConfidence: 0.75,
+  chains: {
+    Norway: ["kartverket", "here", "nominatim"],
+    Sweden: ["lantmateriet", "here", "nominatim"],
+    Denmark: ["dawa", "here", "nominatim"],
+    default: ["here", "nominatim"],
+  },
+  providers: {},
+};
+
+export function loadGeocodingConfig(): GeocodingConfig {
+  const filePath = process.env.GEOCODING_CONFIG || CONFIG_PATH;
+  if (!existsSync(filePath)) return DEFAULT_GEOCODING_CONFIG;
+
+  const config = JSON.parse(
+    readFileSync(filePath, "utf8"),
+  ) as Partial<GeocodingConfig>;
+  return { ...DEFAULT_GEOCODING_CONFIG, ...config };
+}
+
+// NOMINATIM_URL, or else the configured url; no default
+function nominatimUrl(config: GeocodingConfig): string | null {
+  return process.env.NOMINATIM_URL || config.providers.nominatim?.url || null;
+}
+
+/**
+ * Whether Nominatim requests would go to OSM's public instance, which the
+ * batch scripts refuse unless told otherwise
+ */
+export function usesPublicNominatim(config: GeocodingConfig): boolean {
+  const url = nominatimUrl(config);
+  if (!url) return false;
+  try {
+    return new URL(url).hostname === PUBLIC_NOMINATIM_HOST;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Instantiate a provider by name. Null when it can't run here (e.g. no
+ * API key), so chains skip it rather than failing every facility.
+ * `fetchImpl` replaces the network, e.g. with recorded fixtures.
+ */
+export function createProvider(
+  name: string,
+  config: GeocodingConfig,
+  fetchImpl?: typeof fetch,
+): GeocodeProvider | null {
+  const settings = { ...config.providers[name], fetch: fetchImpl };
+
+  switch (name) {
+    case "kartverket":
+      return kartverketProvider(settings);
+    case "here":
+      return process.env.HERE_API_KEY
+        ? hereProvider(process.env.HERE_API_KEY, settings)
+        : null;
+    case "dawa":
+      return dawaProvider(settings);
+    case "lantmateriet":
+      return process.env.LANTMATERIET_CONSUMER_KEY &&
+        process.env.LANTMATERIET_CONSUMER_SECRET
+        ? lantmaterietProvider(
+            {
+              consumerKey: process.env.LANTMATERIET_CONSUMER_KEY,
+              consumerSecret: process.env.LANTMATERIET_CONSUMER_SECRET,
+            },
+            settings,
+          )
+        : null;
+    case "nominatim": {
+      const url = nominatimUrl(config);
+      return url ? nominatimProvider(url, settings) : null;
+    }
+    default:
+      throw new Error(`Unknown geocoding provider: ${name}`);
+  }
+}
+
+/**
+ * The provider chain for a country, plus the configured providers that
+ * were left out because they can't run
+ */
+export function chainFor(
+  country: string,
+  config: GeocodingConfig,
+  fetchImpl?: typeof fetch,
+): { chain: GeocodeProvider[]; unavailable: string[] } {
+  const names = config.chains[country] ?? config.chains.default ?? [];
+  const chain: GeocodeProvider[] = [];
+  const unavailable: string[] = [];
+
+  for (const name of names) {
+    const provider = createProvider(name, config, fetchImpl);
+    if (provider) chain.push(provider);
+    else unavailable.push(name);
+  }
+
+  return { chain, unavailable };
+}
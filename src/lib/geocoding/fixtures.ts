@@ -0,0 +1,82 @@
+/**
+ * Record and replay provider responses, so providers can be exercised
+ * offline against real answers. A fixture is one JSON file per request,
+ * named after the host and a hash of the method, URL and body. API keys
+ * are left out of the hash and access tokens are redacted before writing.
+ * Scripts only (reads and writes the filesystem).
+ */
+
+import * as path from "path";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+
+export type FixtureMode = "record" | "replay";
+
+interface Fixture {
+  method: string;
+  url: string;
+  status: number;
+  body: unknown;
+}
+
+// Query parameters that carry credentials
+const SECRET_PARAMS = ["apiKey", "apikey", "key", "token"];
+
+function fixturePath(dir: string, method: string, url: URL, body: string) {
+  const keyed = new URL(url);
+  for (const param of SECRET_PARAMS) keyed.searchParams.delete(param);
+
+  const hash = createHash("sha256")
+    .update(`${method} ${keyed.toString()}\n${body}`)
+    .digest("hex")
+    .slice(0, 16);
+  return {
+    file: path.join(dir, `${url.hostname}-${hash}.json`),
+    url: keyed.toString(),
+  };
+}
+
+/**
+ * A fetch that answers from `dir` ("replay") or passes through to the
+ * network and saves each response there ("record"). Replay throws for
+ * requests without a fixture rather than going online.
+ */
+export function fixtureFetch(dir: string, mode: FixtureMode): typeof fetch {
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = init?.method ?? "GET";
+    const body = typeof init?.body === "string" ? init.body : "";
+    const fixture = fixturePath(dir, method, url, body);
+
+    if (mode === "replay") {
+      if (!existsSync(fixture.file)) {
+        throw new Error(`No fixture for ${method} ${fixture.url}`);
+      }
+      const saved = JSON.parse(readFileSync(fixture.file, "utf8")) as Fixture;
+      return Response.json(saved.body, { status: saved.status });
+    }
+
+    const resp = await fetch(input, init);
+    const text = await resp.text();
+    let saved: unknown;
+    try {
+      saved = JSON.parse(text);
+    } catch {
+      saved = text;
+    }
+    if (saved && typeof saved === "object" && "access_token" in saved) {
+      saved = { ...saved, access_token: "redacted" };
+    }
+
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      fixture.file,
+      JSON.stringify(
+        { method, url: fixture.url, status: resp.status, body: saved },
+        null,
+        2,
+      ) + "\n",
+    );
+    return new Response(text, { status: resp.status, headers: resp.headers });
+  };
+}
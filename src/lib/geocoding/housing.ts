@@ -0,0 +1,78 @@
+/**
+ * Nordic housing association naming conventions, shared by
+ * scripts/sync-hubspot.ts (matching facilities to HubSpot companies) and
+ * the geocoding retry variants (names that are really street addresses,
+ * e.g. "Borettslaget Storgata 12").
+ */
+
+// Housing association prefixes/suffixes by country
+export const HOUSING_PATTERNS = {
+  Norway: {
+    prefixes: [
+      "Sameiet",
+      "Borettslaget",
+      "Boligsameiet",
+      "AL",
+      "AS",
+      "Andelslaget",
+    ],
+    suffixes: [
+      "Borettslag",
+      "Sameie",
+      "Boligsameie",
+      "Garasjelag",
+      "Garasjesameie",
+      "SA",
+      "AS",
+    ],
+  },
+  Sweden: {
+    prefixes: [
+      "Bostadsrättsföreningen",
+      "BRF",
+      "Brf",
+      "HSB Bostadsrättsförening",
+      "Riksbyggen Bostadsrättsförening",
+      "Riksbyggens Bostadsrättsförening",
+      "Anläggningssamfälligheten",
+    ],
+    suffixes: [
+      "Samfällighetsförening",
+      "Bostadsrättsförening",
+      "Samfällighet",
+      "i Stockholm",
+      "i Göteborg",
+      "i Uppsala",
+    ],
+  },
+  Denmark: {
+    prefixes: ["Andelsboligforening", "A/B", "Ejerforening", "E/F"],
+    suffixes: ["Andelsboligforening", "Ejerforening"],
+  },
+};
+
+/**
+ * A name without its country's housing association prefixes and suffixes
+ * (Norwegian patterns for other countries)
+ */
+export function stripHousingAffixes(name: string, country: string): string {
+  let normalized = name;
+
+  const patterns =
+    HOUSING_PATTERNS[country as keyof typeof HOUSING_PATTERNS] ||
+    HOUSING_PATTERNS.Norway;
+
+  // Remove prefixes
+  for (const prefix of patterns.prefixes) {
+    const regex = new RegExp(`^${prefix}\\s+`, "i");
+    normalized = normalized.replace(regex, "");
+  }
+
+  // Remove suffixes
+  for (const suffix of patterns.suffixes) {
+    const regex = new RegExp(`\\s+${suffix}$`, "i");
+    normalized = normalized.replace(regex, "");
+  }
+
+  return normalized;
+}
@@ -0,0 +1,53 @@
+/**
+ * Background geocoding jobs (/api/jobs/geocode, run by
+ * scripts/geocode.ts --worker). A job covers a country, every country or
+ * a list of facilities; the worker geocodes them one at a time and the
+ * counts below move as it goes.
+ */
+
+export type GeocodeJobStatus = "queued" | "running" | "completed";
+
+export interface GeocodeJob {
+  id: string;
+  country: string | null;
+  // What the job was queued for
+  scope: "facilities" | "country" | "all";
+  retry_failed: boolean;
+  status: GeocodeJobStatus;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  total: number;
+  // Not yet processed
+  remaining: number;
+  placed: number;
+  // No provider matched; the facility is marked failed
+  not_found: number;
+  // Providers kept failing; the facility is left for a later job
+  errors: number;
+}
+
+export interface GeocodeJobRequest {
+  // Every country when neither is given
+  country?: string;
+  facilityIds?: string[];
+  retryFailed?: boolean;
+}
+
+export function isActiveJob(job: GeocodeJob): boolean {
+  return job.status !== "completed";
+}
+
+/**
+ * Short label for what a job covers, e.g. "Norway, retrying failed"
+ */
+export function describeJob(job: GeocodeJob): string {
+  const scope =
+    job.scope === "facilities"
+      ? `${job.total} selected ${job.total === 1 ? "facility" : "facilities"}`
+      : job.scope === "country"
+        ? (job.country ?? "Unknown country")
+        : "All countries";
+  return job.retry_failed ? `${scope}, retrying failed` : scope;
+}
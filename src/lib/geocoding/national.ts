@@ -0,0 +1,291 @@
+/**
+ * Authoritative national address registers for Denmark (DAWA, run by
+ * Dataforsyningen) and Sweden (Lantmäteriet Belägenhetsadress Direkt),
+ * mapped onto the shared confidence scale in ./providers
+ */
+
+import { ETRS89_UTM32, SWEREF99_TM, toWgs84 } from "./projection";
+import {
+  round,
+  samePostalCode,
+  variantParts,
+  type FacilityAddress,
+  type GeocodeProvider,
+  type ProviderSettings,
+} from "./providers";
+
+// Danish postal codes are four digits; exports often carry "DK-2100"
+export function danishPostalCode(code: string | null): string | null {
+  const digits = code?.replace(/^DK-?/i, "").replace(/\s/g, "");
+  return digits && /^\d{4}$/.test(digits) ? digits : null;
+}
+
+// Swedish postal codes are five digits written "123 45"
+export function swedishPostalCode(code: string | null): string | null {
+  const digits = code?.replace(/^SE-?/i, "").replace(/\s/g, "");
+  return digits && /^\d{5}$/.test(digits)
+    ? `${digits.slice(0, 3)} ${digits.slice(3)}`
+    : null;
+}
+
+// Address with the postal code in the register's own format
+function withPostalCode(
+  address: FacilityAddress,
+  format: (code: string | null) => string | null,
+): FacilityAddress {
+  return { ...address, postal_code: format(address.postal_code) };
+}
+
+interface DawaWashResult {
+  // A: exact match, B: small differences (spelling, missing floor),
+  // C: uncertain
+  kategori: "A" | "B" | "C";
+  resultater: Array<{
+    adresse: {
+      id: string;
+      vejnavn: string;
+      husnr: string;
+      postnr: string;
+      postnrnavn: string;
+    };
+  }>;
+}
+
+interface DawaAccessAddress {
+  id: string;
+  // Grid coordinates in the requested srid
+  x: number;
+  y: number;
+}
+
+// Nearest access address, with WGS84 coordinates (the default srid)
+interface DawaReverseResult {
+  vejnavn: string;
+  husnr: string;
+  postnr: string;
+  postnrnavn: string;
+  x: number;
+  y: number;
+}
+
+const DAWA_CATEGORY_CONFIDENCE = { A: 0.95, B: 0.8, C: 0.5 };
+
+/**
+ * DAWA address washing (Denmark, free). The wash endpoint grades the
+ * match; the coordinates come from the access address it points to,
+ * requested in ETRS89 / UTM 32N, the register's native grid.
+ */
+export function dawaProvider(settings: ProviderSettings = {}): GeocodeProvider {
+  const baseUrl = (settings.url ?? "https://api.dataforsyningen.dk").replace(
+    /\/$/,
+    "",
+  );
+  const request = settings.fetch ?? fetch;
+
+  return {
+    name: "dawa",
+    delayMs: settings.delayMs ?? 100,
+    variants: settings.variants ?? ["full"],
+    async geocode(address, variant) {
+      const query = withPostalCode(address, danishPostalCode);
+
+      const washUrl = new URL(`${baseUrl}/datavask/adgangsadresser`);
+      washUrl.searchParams.set(
+        "betegnelse",
+        variantParts(query, variant).join(", "),
+      );
+      const washResp = await request(washUrl.toString());
+      if (!washResp.ok) {
+        throw new Error(`DAWA error: ${washResp.status}`);
+      }
+
+      const wash = (await washResp.json()) as DawaWashResult;
+      const best = wash.resultater?.[0]?.adresse;
+      if (!best) return null;
+
+      const pointUrl = new URL(`${baseUrl}/adgangsadresser/${best.id}`);
+      pointUrl.searchParams.set("struktur", "mini");
+      pointUrl.searchParams.set("srid", "25832");
+      const pointResp = await request(pointUrl.toString());
+      if (!pointResp.ok) {
+        throw new Error(`DAWA error: ${pointResp.status}`);
+      }
+
+      const point = (await pointResp.json()) as DawaAccessAddress;
+      const { latitude, longitude } = toWgs84(point.x, point.y, ETRS89_UTM32);
+      const postalFactor =
+        query.postal_code && !samePostalCode(best.postnr, query.postal_code)
+          ? 0.8
+          : 1;
+
+      return {
+        latitude,
+        longitude,
+        confidence: round(
+          DAWA_CATEGORY_CONFIDENCE[wash.kategori] * postalFactor,
+        ),
+        label: `${best.vejnavn} ${best.husnr}, ${best.postnr} ${best.postnrnavn}`,
+        raw_response: { wash, point },
+      };
+    },
+    async reverse(latitude, longitude) {
+      const url = new URL(`${baseUrl}/adgangsadresser/reverse`);
+      url.searchParams.set("x", longitude.toString());
+      url.searchParams.set("y", latitude.toString());
+      url.searchParams.set("struktur", "mini");
+      const resp = await request(url.toString());
+      // Points outside Denmark have no nearest address
+      if (resp.status === 404) return null;
+      if (!resp.ok) {
+        throw new Error(`DAWA error: ${resp.status}`);
+      }
+
+      const best = (await resp.json()) as DawaReverseResult;
+      return {
+        address: `${best.vejnavn} ${best.husnr}`,
+        postal_code: best.postnr,
+        city: best.postnrnavn,
+        latitude: best.y,
+        longitude: best.x,
+        label: `${best.vejnavn} ${best.husnr}, ${best.postnr} ${best.postnrnavn}`,
+        raw_response: best,
+      };
+    },
+  };
+}
+
+interface LantmaterietReference {
+  objektidentitet: string;
+  beteckning: string;
+}
+
+interface LantmaterietAddress {
+  features: Array<{
+    properties: {
+      adressplatsattribut?: {
+        adressplatspunkt?: {
+          // SWEREF 99 TM easting, northing
+          coordinates: [number, number];
+        };
+        postnummer?: number | string;
+        postort?: string;
+      };
+    };
+  }>;
+}
+
+/**
+ * Lantmäteriet Belägenhetsadress Direkt (Sweden, needs an API subscription).
+ * Free-text search returns reference candidates without a score, so the
+ * confidence comes from how many there are and whether the postal code and
+ * house number agree. Coordinates are SWEREF 99 TM.
+ */
+export function lantmaterietProvider(
+  credentials: { consumerKey: string; consumerSecret: string },
+  settings: ProviderSettings = {},
+): GeocodeProvider {
+  const baseUrl = (
+    settings.url ??
+    "https://api.lantmateriet.se/distribution/produkter/belagenhetsadress/v4.2"
+  ).replace(/\/$/, "");
+  const request = settings.fetch ?? fetch;
+  let token: { value: string; expiresAt: number } | null = null;
+
+  // OAuth2 client credentials, reused until shortly before expiry
+  const accessToken = async () => {
+    if (token && token.expiresAt > Date.now() + 60_000) return token.value;
+
+    const resp = await request(
+      "https://apimanager.lantmateriet.se/oauth2/token",
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(
+            `${credentials.consumerKey}:${credentials.consumerSecret}`,
+          ).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: "grant_type=client_credentials",
+      },
+    );
+    if (!resp.ok) {
+      throw new Error(`Lantmäteriet token error: ${resp.status}`);
+    }
+
+    const data = (await resp.json()) as {
+      access_token: string;
+      expires_in: number;
+    };
+    token = {
+      value: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    };
+    return token.value;
+  };
+
+  return {
+    name: "lantmateriet",
+    delayMs: settings.delayMs ?? 100,
+    variants: settings.variants ?? ["full", "address_city"],
+    async geocode(address, variant) {
+      const query = withPostalCode(address, swedishPostalCode);
+      const headers = { Authorization: `Bearer ${await accessToken()}` };
+
+      const searchUrl = new URL(`${baseUrl}/referens/fritext`);
+      searchUrl.searchParams.set(
+        "adress",
+        variantParts(query, variant).join(" "),
+      );
+      searchUrl.searchParams.set("maxHits", "5");
+      const searchResp = await request(searchUrl.toString(), { headers });
+      if (!searchResp.ok) {
+        throw new Error(`Lantmäteriet error: ${searchResp.status}`);
+      }
+
+      const candidates = (await searchResp.json()) as LantmaterietReference[];
+      const best = candidates[0];
+      if (!best) return null;
+
+      const addressUrl = new URL(`${baseUrl}/${best.objektidentitet}`);
+      addressUrl.searchParams.set("includeData", "total");
+      addressUrl.searchParams.set("srid", "3006");
+      const addressResp = await request(addressUrl.toString(), { headers });
+      if (!addressResp.ok) {
+        throw new Error(`Lantmäteriet error: ${addressResp.status}`);
+      }
+
+      const detail = (await addressResp.json()) as LantmaterietAddress;
+      const attributes = detail.features?.[0]?.properties?.adressplatsattribut;
+      const point = attributes?.adressplatspunkt?.coordinates;
+      if (!point) return null;
+
+      const { latitude, longitude } = toWgs84(point[0], point[1], SWEREF99_TM);
+      const postalMatch = samePostalCode(
+        attributes.postnummer === undefined
+          ? null
+          : String(attributes.postnummer),
+        query.postal_code,
+      );
+      // The house number from the query should survive into the match
+      const houseNumber = query.address?.match(/\d+\s*[A-Za-z]?\b/)?.[0];
+      const numberMatch =
+        !houseNumber ||
+        best.beteckning
+          .replace(/\s/g, "")
+          .includes(houseNumber.replace(/\s/g, ""));
+
+      const confidence =
+        (postalMatch ? 0.95 : 0.75) *
+        (numberMatch ? 1 : 0.8) *
+        (candidates.length > 1 ? 0.95 : 1);
+
+      return {
+        latitude,
+        longitude,
+        confidence: round(confidence),
+        label: best.beteckning,
+        raw_response: { candidates, detail },
+      };
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Transverse Mercator grid coordinates (GRS80 ellipsoid) to WGS84
+ * latitude/longitude, for national services that answer in their own grid.
+ * GRS80 and WGS84 differ by well under a metre, so no datum shift is
+ * applied.
+ */
+
+export interface TransverseMercator {
+  // Central meridian in degrees
+  centralMeridian: number;
+  scale: number;
+  falseEasting: number;
+  falseNorthing: number;
+}
+
+// Sweden (EPSG:3006), Lantmäteriet's default
+export const SWEREF99_TM: TransverseMercator = {
+  centralMeridian: 15,
+  scale: 0.9996,
+  falseEasting: 500000,
+  falseNorthing: 0,
+};
+
+// Denmark (EPSG:25832)
+export const ETRS89_UTM32: TransverseMercator = {
+  centralMeridian: 9,
+  scale: 0.9996,
+  falseEasting: 500000,
+  falseNorthing: 0,
+};
+
+const GRS80_A = 6378137;
+const GRS80_F = 1 / 298.257222101;
+
+/**
+ * Gauss-Krüger inverse projection (the formulas Lantmäteriet publishes for
+ * SWEREF 99), accurate to well under a millimetre inside the zone
+ */
+export function toWgs84(
+  easting: number,
+  northing: number,
+  projection: TransverseMercator,
+): { latitude: number; longitude: number } {
+  const e2 = GRS80_F * (2 - GRS80_F);
+  const n = GRS80_F / (2 - GRS80_F);
+  const aRoof = (GRS80_A / (1 + n)) * (1 + n ** 2 / 4 + n ** 4 / 64);
+
+  const delta1 = n / 2 - (2 * n ** 2) / 3 + (37 * n ** 3) / 96 - n ** 4 / 360;
+  const delta2 = n ** 2 / 48 + n ** 3 / 15 - (437 * n ** 4) / 1440;
+  const delta3 = (17 * n ** 3) / 480 - (37 * n ** 4) / 840;
+  const delta4 = (4397 * n ** 4) / 161280;
+
+  const aStar = e2 + e2 ** 2 + e2 ** 3 + e2 ** 4;
+  const bStar = -(7 * e2 ** 2 + 17 * e2 ** 3 + 30 * e2 ** 4) / 6;
+  const cStar = (224 * e2 ** 3 + 889 * e2 ** 4) / 120;
+  const dStar = -(4279 * e2 ** 4) / 1260;
+
+  const xi = (northing - projection.falseNorthing) / (projection.scale * aRoof);
+  const eta = (easting - projection.falseEasting) / (projection.scale * aRoof);
+
+  const xiPrim =
+    xi -
+    delta1 * Math.sin(2 * xi) * Math.cosh(2 * eta) -
+    delta2 * Math.sin(4 * xi) * Math.cosh(4 * eta) -
+    delta3 * Math.sin(6 * xi) * Math.cosh(6 * eta) -
+    delta4 * Math.sin(8 * xi) * Math.cosh(8 * eta);
+  const etaPrim =
+    eta -
+    delta1 * Math.cos(2 * xi) * Math.sinh(2 * eta) -
+    delta2 * Math.cos(4 * xi) * Math.sinh(4 * eta) -
+    delta3 * Math.cos(6 * xi) * Math.sinh(6 * eta) -
+    delta4 * Math.cos(8 * xi) * Math.sinh(8 * eta);
+
+  const phiStar = Math.asin(Math.sin(xiPrim) / Math.cosh(etaPrim));
+  const deltaLambda = Math.atan(Math.sinh(etaPrim) / Math.cos(xiPrim));
+
+  const sinPhi = Math.sin(phiStar);
+  const latitude =
+    phiStar +
+    sinPhi *
+      Math.cos(phiStar) *
+      (aStar + bStar * sinPhi ** 2 + cStar * sinPhi ** 4 + dStar * sinPhi ** 6);
+
+  return {
+    latitude: (latitude * 180) / Math.PI,
+    longitude: projection.centralMeridian + (deltaLambda * 180) / Math.PI,
+  };
+}
@@ -0,0 +1,436 @@
+/**
+ * Geocoding providers behind one interface, shared by scripts/geocode.ts
+ * and the API routes. Server only (uses provider API keys).
+ *
+ * Every provider maps its own match quality onto one confidence scale so
+ * results from different providers can be compared and stored in
+ * geocode_confidence:
+ *   0.9+  address point, postal code agrees
+ *   ~0.75 address point, postal code differs or is missing
+ *   ~0.6  street, or an address found without the postal code
+ *   ~0.4  postal code area or locality centroid
+ */
+
+export interface FacilityAddress {
+  address: string | null;
+  postal_code: string | null;
+  city: string | null;
+  country: string;
+}
+
+// Which address parts are sent; providers try their variants in order
+export type QueryVariant = "full" | "address_postal" | "address_city";
+
+export const QUERY_VARIANT_FIELDS: Record<
+  QueryVariant,
+  (keyof FacilityAddress)[]
+> = {
+  full: ["address", "postal_code", "city"],
+  address_postal: ["address", "postal_code"],
+  address_city: ["address", "city"],
+};
+
+export interface ProviderMatch {
+  latitude: number;
+  longitude: number;
+  confidence: number;
+  // Matched address as the provider formats it
+  label: string | null;
+  raw_response: unknown;
+}
+
+// Nearest address to a point, for filling in missing address fields
+export interface ReverseMatch {
+  // Street and house number, null when the provider only knows the area
+  address: string | null;
+  postal_code: string | null;
+  city: string | null;
+  // Where the matched address is, to judge how far it is from the point
+  latitude: number;
+  longitude: number;
+  label: string | null;
+  raw_response: unknown;
+}
+
+export interface GeocodeProvider {
+  name: string;
+  // Minimum time between requests to this provider
+  delayMs: number;
+  variants: QueryVariant[];
+  // Null when nothing matched; throws on request errors so they aren't
+  // mistaken for misses
+  geocode(
+    address: FacilityAddress,
+    variant: QueryVariant,
+  ): Promise<ProviderMatch | null>;
+  // Providers without a point search leave this out
+  reverse?(latitude: number, longitude: number): Promise<ReverseMatch | null>;
+}
+
+export interface ProviderSettings {
+  delayMs?: number;
+  variants?: QueryVariant[];
+  // Base URL, for providers that can point at a self-hosted instance
+  url?: string;
+  // Replaces the global fetch, e.g. to replay recorded responses
+  fetch?: typeof fetch;
+}
+
+// Address parts for a variant, dropping blanks
+export function variantParts(
+  address: FacilityAddress,
+  variant: QueryVariant,
+): string[] {
+  return QUERY_VARIANT_FIELDS[variant]
+    .map((field) => address[field]?.trim())
+    .filter((part): part is string => Boolean(part));
+}
+
+// Postal codes compared without spaces ("123 45" vs "12345")
+export function samePostalCode(a: string | null | undefined, b: string | null) {
+  if (!a || !b) return false;
+  return a.replace(/\s/g, "") === b.replace(/\s/g, "");
+}
+
+export const round = (value: number) => Math.round(value * 100) / 100;
+
+interface KartverketResult {
+  adresser: Array<{
+    representasjonspunkt: {
+      lat: number;
+      lon: number;
+    };
+    adressetekst: string;
+    postnummer: string;
+    poststed: string;
+  }>;
+}
+
+// Nearest address points within this radius of a reverse lookup
+const KARTVERKET_REVERSE_RADIUS_METRES = 250;
+
+// Kartverket writes post towns in capitals ("MO I RANA")
+const titleCase = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(
+      /(^|[\s-])(\p{L})/gu,
+      (_, sep, letter) => `${sep}${letter.toUpperCase()}`,
+    );
+
+/**
+ * Kartverket address search (Norway, free, authoritative). Only returns
+ * address points, so quality depends on the postal code and the variant.
+ */
+export function kartverketProvider(
+  settings: ProviderSettings = {},
+): GeocodeProvider {
+  return {
+    name: "kartverket",
+    delayMs: settings.delayMs ?? 200, // 5 req/s to be polite
+    variants: settings.variants ?? ["address_postal", "address_city"],
+    async geocode(address, variant) {
+      const url = new URL(
+        settings.url ?? "https://ws.geonorge.no/adresser/v1/sok",
+      );
+      url.searchParams.set("sok", variantParts(address, variant).join(" "));
+      url.searchParams.set("treffPerSide", "5");
+      url.searchParams.set("utkoordsys", "4258"); // WGS84
+
+      const resp = await (settings.fetch ?? fetch)(url.toString());
+      if (!resp.ok) {
+        throw new Error(`Kartverket error: ${resp.status}`);
+      }
+
+      const data = (await resp.json()) as KartverketResult;
+      const best = data.adresser?.[0];
+      if (!best) return null;
+
+      const confidence =
+        variant === "address_city"
+          ? 0.6
+          : samePostalCode(best.postnummer, address.postal_code)
+            ? 0.95
+            : 0.75;
+
+      return {
+        latitude: best.representasjonspunkt.lat,
+        longitude: best.representasjonspunkt.lon,
+        confidence,
+        label: `${best.adressetekst}, ${best.postnummer} ${best.poststed}`,
+        raw_response: data,
+      };
+    },
+    async reverse(latitude, longitude) {
+      const url = new URL(
+        "punktsok",
+        settings.url ?? "https://ws.geonorge.no/adresser/v1/sok",
+      );
+      url.searchParams.set("lat", latitude.toString());
+      url.searchParams.set("lon", longitude.toString());
+      url.searchParams.set(
+        "radius",
+        KARTVERKET_REVERSE_RADIUS_METRES.toString(),
+      );
+      url.searchParams.set("koordsys", "4258");
+      url.searchParams.set("utkoordsys", "4258");
+      url.searchParams.set("treffPerSide", "1");
+
+      const resp = await (settings.fetch ?? fetch)(url.toString());
+      if (!resp.ok) {
+        throw new Error(`Kartverket error: ${resp.status}`);
+      }
+
+      // Nearest first
+      const data = (await resp.json()) as KartverketResult;
+      const best = data.adresser?.[0];
+      if (!best) return null;
+
+      return {
+        address: best.adressetekst,
+        postal_code: best.postnummer,
+        city: titleCase(best.poststed),
+        latitude: best.representasjonspunkt.lat,
+        longitude: best.representasjonspunkt.lon,
+        label: `${best.adressetekst}, ${best.postnummer} ${best.poststed}`,
+        raw_response: data,
+      };
+    },
+  };
+}
+
+interface HereResult {
+  items: Array<{
+    position: {
+      lat: number;
+      lng: number;
+    };
+    resultType?: string;
+    scoring: {
+      queryScore: number;
+    };
+    address: {
+      label: string;
+      street?: string;
+      houseNumber?: string;
+      postalCode?: string;
+      city?: string;
+    };
+  }>;
+}
+
+// HERE resultType -> how precise the point is
+const HERE_PRECISION: Record<string, number> = {
+  houseNumber: 0.95,
+  street: 0.65,
+  intersection: 0.65,
+  postalCodePoint: 0.45,
+  locality: 0.4,
+  place: 0.6,
+};
+
+/**
+ * HERE geocoding (30K free/month). queryScore only says how much of the
+ * query matched, so it is scaled by the precision of the result type.
+ */
+export function hereProvider(
+  apiKey: string,
+  settings: ProviderSettings = {},
+): GeocodeProvider {
+  return {
+    name: "here",
+    delayMs: settings.delayMs ?? 250, // 4 req/s (under 5 req/s limit)
+    variants: settings.variants ?? ["full"],
+    async geocode(address, variant) {
+      const url = new URL(
+        settings.url ?? "https://geocode.search.hereapi.com/v1/geocode",
+      );
+      url.searchParams.set(
+        "q",
+        [...variantParts(address, variant), address.country].join(", "),
+      );
+      url.searchParams.set("apiKey", apiKey);
+
+      const resp = await (settings.fetch ?? fetch)(url.toString());
+      if (!resp.ok) {
+        throw new Error(`HERE error: ${resp.status}`);
+      }
+
+      const data = (await resp.json()) as HereResult;
+      const best = data.items?.[0];
+      if (!best) return null;
+
+      const precision = HERE_PRECISION[best.resultType ?? ""] ?? 0.3;
+      const postalFactor =
+        address.postal_code &&
+        best.address.postalCode &&
+        !samePostalCode(best.address.postalCode, address.postal_code)
+          ? 0.8
+          : 1;
+
+      return {
+        latitude: best.position.lat,
+        longitude: best.position.lng,
+        confidence: round(
+          precision * (best.scoring?.queryScore ?? 0.7) * postalFactor,
+        ),
+        label: best.address.label,
+        raw_response: data,
+      };
+    },
+    async reverse(latitude, longitude) {
+      const url = new URL(
+        "https://revgeocode.search.hereapi.com/v1/revgeocode",
+      );
+      url.searchParams.set("at", `${latitude},${longitude}`);
+      url.searchParams.set("apiKey", apiKey);
+
+      const resp = await (settings.fetch ?? fetch)(url.toString());
+      if (!resp.ok) {
+        throw new Error(`HERE error: ${resp.status}`);
+      }
+
+      const data = (await resp.json()) as HereResult;
+      const best = data.items?.[0];
+      if (!best) return null;
+
+      const { street, houseNumber, postalCode, city } = best.address;
+      return {
+        // A street without a house number isn't an address
+        address: street && houseNumber ? `${street} ${houseNumber}` : null,
+        postal_code: postalCode ?? null,
+        city: city ?? null,
+        latitude: best.position.lat,
+        longitude: best.position.lng,
+        label: best.address.label,
+        raw_response: data,
+      };
+    },
+  };
+}
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  addresstype?: string;
+  address?: {
+    road?: string;
+    house_number?: string;
+    postcode?: string;
+    city?: string;
+    town?: string;
+    village?: string;
+    municipality?: string;
+  };
+}
+
+// Nominatim addresstype -> how precise the point is
+const NOMINATIM_PRECISION: Record<string, number> = {
+  house: 0.9,
+  building: 0.9,
+  road: 0.6,
+  postcode: 0.45,
+  suburb: 0.4,
+  neighbourhood: 0.4,
+  quarter: 0.4,
+  village: 0.4,
+  town: 0.4,
+  city: 0.35,
+  municipality: 0.3,
+};
+
+const NOMINATIM_COUNTRY_CODES: Record<string, string> = {
+  Norway: "no",
+  Sweden: "se",
+  Denmark: "dk",
+};
+
+/**
+ * Nominatim-compatible search (OpenStreetMap) at `baseUrl`, normally a
+ * local instance: OSM's public one allows 1 request/s and no bulk use.
+ */
+export function nominatimProvider(
+  baseUrl: string,
+  settings: ProviderSettings = {},
+): GeocodeProvider {
+  return {
+    name: "nominatim",
+    delayMs: settings.delayMs ?? 1000,
+    variants: settings.variants ?? ["full", "address_city"],
+    async geocode(address, variant) {
+      const url = new URL("search", `${baseUrl.replace(/\/$/, "")}/`);
+      url.searchParams.set("q", variantParts(address, variant).join(", "));
+      url.searchParams.set("format", "jsonv2");
+      url.searchParams.set("addressdetails", "1");
+      url.searchParams.set("limit", "1");
+      const countryCode = NOMINATIM_COUNTRY_CODES[address.country];
+      if (countryCode) url.searchParams.set("countrycodes", countryCode);
+
+      const resp = await (settings.fetch ?? fetch)(url.toString(), {
+        // Required by the public instance's usage policy
+        headers: { "User-Agent": "asset-register-map geocoder" },
+      });
+      if (!resp.ok) {
+        throw new Error(`Nominatim error: ${resp.status}`);
+      }
+
+      const data = (await resp.json()) as NominatimResult[];
+      const best = data[0];
+      if (!best) return null;
+
+      const precision = NOMINATIM_PRECISION[best.addresstype ?? ""] ?? 0.3;
+      const postalFactor =
+        address.postal_code &&
+        best.address?.postcode &&
+        !samePostalCode(best.address.postcode, address.postal_code)
+          ? 0.8
+          : 1;
+
+      return {
+        latitude: Number(best.lat),
+        longitude: Number(best.lon),
+        confidence: round(precision * postalFactor),
+        label: best.display_name,
+        raw_response: data,
+      };
+    },
+    async reverse(latitude, longitude) {
+      const url = new URL("reverse", `${baseUrl.replace(/\/$/, "")}/`);
+      url.searchParams.set("lat", latitude.toString());
+      url.searchParams.set("lon", longitude.toString());
+      url.searchParams.set("format", "jsonv2");
+      url.searchParams.set("addressdetails", "1");
+
+      const resp = await (settings.fetch ?? fetch)(url.toString(), {
+        headers: { "User-Agent": "asset-register-map geocoder" },
+      });
+      if (!resp.ok) {
+        throw new Error(`Nominatim error: ${resp.status}`);
+      }
+
+      // Misses come back as 200 with { error: "Unable to geocode" }
+      const data = (await resp.json()) as NominatimResult & { error?: string };
+      if (data.error || !data.address) return null;
+
+      const {
+        road,
+        house_number,
+        postcode,
+        city,
+        town,
+        village,
+        municipality,
+      } = data.address;
+      return {
+        address: road && house_number ? `${road} ${house_number}` : null,
+        postal_code: postcode ?? null,
+        city: city ?? town ?? village ?? municipality ?? null,
+        latitude: Number(data.lat),
+        longitude: Number(data.lon),
+        label: data.display_name,
+        raw_response: data,
+      };
+    },
+  };
+}
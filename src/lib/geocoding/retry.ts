@@ -0,0 +1,146 @@
+/**
+ * Rewritten queries for facilities that failed to geocode
+ * (scripts/geocode.ts --retry-failed). Each strategy fixes one common
+ * problem with register addresses; the provider chain is run on each in
+ * turn, and the postal code centroid is the last resort.
+ */
+
+import type { FacilityAddress } from "./providers";
+import { stripHousingAffixes } from "./housing";
+import { danishPostalCode, swedishPostalCode } from "./national";
+
+export type RetryStrategy =
+  // Postal code in the country's format, e.g. "12345" -> "123 45"
+  | "postal_format"
+  // Apartment, entrance and floor removed from the street address
+  | "strip_unit"
+  // The facility name, minus housing association prefixes, as the address
+  | "facility_name"
+  // Mean position of the confidently placed facilities in the postal code
+  | "postal_centroid";
+
+export interface RetryVariant {
+  strategy: Exclude<RetryStrategy, "postal_centroid">;
+  address: FacilityAddress;
+}
+
+// Below a provider's locality match, so centroid placements always stay
+// in the review queue
+export const POSTAL_CENTROID_CONFIDENCE = 0.3;
+
+// Apartment, entrance and floor designations after the street address,
+// e.g. "Storgata 12 H0101", "Storgatan 3 lgh 1102", "Nørregade 5, 2. th."
+const UNIT_PATTERNS = [
+  // Norwegian bolignummer
+  /[,\s]+H\d{4}$/i,
+  // Apartment numbers
+  /[,\s]+(?:leil(?:ighet)?|lgh|lägenhet|lejl(?:ighed)?|apt)\.?\s*[\w-]+$/i,
+  // Entrances
+  /[,\s]+(?:oppgang|inngang|uppgång|ingång|opgang|indgang|port)\.?\s*[\w-]+$/i,
+  // Floors, e.g. "3. etg", "2 tr", "1. sal"
+  /[,\s]+\d{1,2}\.?\s*(?:etg|etasje|etage|tr|trappor|sal)\.?$/i,
+  // Danish floor and door, e.g. "st. tv.", "2. th", ", 3"
+  /,?\s+(?:st|kl)\.(?:\s*(?:th|tv|mf)\.?)?$/i,
+  /,?\s+\d{1,2}\.\s*(?:th|tv|mf)\.?$/i,
+  /,\s*\d{1,2}\.?$/,
+];
+
+/**
+ * A street address without trailing apartment, entrance and floor parts
+ */
+export function stripUnit(address: string): string {
+  let stripped = address.trim();
+  for (;;) {
+    const next = UNIT_PATTERNS.reduce(
+      (value, pattern) => value.replace(pattern, ""),
+      stripped,
+    ).trim();
+    if (next === stripped) return stripped;
+    stripped = next;
+  }
+}
+
+/**
+ * A postal code in its country's format, or null if it doesn't look like
+ * one. Norwegian codes get back the leading zero spreadsheets drop.
+ */
+export function normalizePostalCode(
+  code: string | null,
+  country: string,
+): string | null {
+  if (!code?.trim()) return null;
+  switch (country) {
+    case "Sweden":
+      return swedishPostalCode(code);
+    case "Denmark":
+      return danishPostalCode(code);
+    case "Norway": {
+      const digits = code.replace(/^NO-?/i, "").replace(/\s/g, "");
+      return /^\d{3,4}$/.test(digits) ? digits.padStart(4, "0") : null;
+    }
+    default:
+      return code.trim();
+  }
+}
+
+// "0150 Oslo" in the city column with no postal code
+const POSTAL_IN_CITY = /^((?:[A-Z]{2}-?)?\d{3}\s?\d{1,2})\s+(.+)$/i;
+
+/**
+ * The address with its postal code in the country's format, taken from
+ * the city column ("0150 Oslo") when it is missing
+ */
+export function correctedAddress(address: FacilityAddress): FacilityAddress {
+  let { postal_code, city } = address;
+  const split = !postal_code && city?.trim().match(POSTAL_IN_CITY);
+  if (split) [, postal_code, city] = split;
+
+  return {
+    address: address.address,
+    postal_code:
+      normalizePostalCode(postal_code, address.country) ?? postal_code,
+    city,
+    country: address.country,
+  };
+}
+
+/**
+ * The rewritten addresses worth trying for a facility, in order. Each is
+ * different from the registered address and from the ones before it.
+ */
+export function retryVariants(
+  facility: FacilityAddress & { name: string },
+): RetryVariant[] {
+  // Later strategies keep the corrected postal code
+  const fixed = correctedAddress(facility);
+  const variants: RetryVariant[] = [];
+  const seen = new Set([key(facility)]);
+
+  const add = (
+    strategy: RetryVariant["strategy"],
+    address: FacilityAddress,
+  ) => {
+    if (!address.address?.trim() || seen.has(key(address))) return;
+    seen.add(key(address));
+    variants.push({ strategy, address });
+  };
+
+  add("postal_format", fixed);
+  if (facility.address) {
+    add("strip_unit", { ...fixed, address: stripUnit(facility.address) });
+  }
+  // Only names that carry a house number, e.g. "Borettslaget Storgata 12";
+  // other names match unrelated streets
+  const fromName = stripHousingAffixes(facility.name.trim(), facility.country);
+  if (/\d/.test(fromName)) {
+    add("facility_name", { ...fixed, address: stripUnit(fromName) });
+  }
+
+  return variants;
+}
+
+function key(address: FacilityAddress): string {
+  return [address.address, address.postal_code, address.city]
+    .map((part) => part?.trim().toLowerCase() ?? "")
+    .join("|");
+}
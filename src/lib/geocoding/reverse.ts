@@ -0,0 +1,160 @@
+/**
+ * Reverse geocoding of placed facilities with missing address fields
+ * (scripts/reverse-geocode.ts and /api/facilities/[id]/reverse-geocode).
+ * Each blank field is filled from the first provider in the country's
+ * chain that knows it, and the provider is recorded as its source.
+ * Values that differ from one already stored become address proposals,
+ * applied only once a person accepts them at /review/addresses.
+ */
+
+import type { Facility } from "../supabase/types";
+import { samePostalCode } from "./providers";
+
+export type AddressField = "address" | "postal_code" | "city";
+
+export const ADDRESS_FIELDS: AddressField[] = [
+  "address",
+  "postal_code",
+  "city",
+];
+
+export const ADDRESS_FIELD_LABELS: Record<AddressField, string> = {
+  address: "Address",
+  postal_code: "Postal code",
+  city: "City",
+};
+
+// Geocoded points below this sit on a street or area centroid rather
+// than the building, so their nearest address says little
+export const MIN_REVERSE_CONFIDENCE = 0.9;
+
+// Street addresses further than this from the point belong to a
+// neighbouring building
+export const DEFAULT_MAX_ADDRESS_METRES = 75;
+// Postal code and city are area-wide, so a nearby address is good enough
+export const DEFAULT_MAX_AREA_METRES = 1000;
+
+/**
+ * Whether the facility's point is on the building: placed by hand, or
+ * geocoded from an address point
+ */
+export function hasTrustedPoint(
+  facility: Pick<
+    Facility,
+    "latitude" | "longitude" | "geocode_status" | "geocode_confidence"
+  >,
+): boolean {
+  if (facility.latitude === null || facility.longitude === null) return false;
+  return (
+    facility.geocode_status === "manual" ||
+    (facility.geocode_status === "success" &&
+      (facility.geocode_confidence ?? 0) >= MIN_REVERSE_CONFIDENCE)
+  );
+}
+
+/**
+ * Whether reverse geocoding the facility's point could fill a blank field
+ */
+export function canReverseGeocode(
+  facility: Pick<
+    Facility,
+    | AddressField
+    | "latitude"
+    | "longitude"
+    | "geocode_status"
+    | "geocode_confidence"
+  >,
+): boolean {
+  return (
+    hasTrustedPoint(facility) &&
+    ADDRESS_FIELDS.some((field) => !facility[field]?.trim())
+  );
+}
+
+export interface ReverseValue {
+  value: string;
+  // Provider that returned it
+  source: string;
+  distanceMetres: number;
+}
+
+export type ReverseFields = Partial<Record<AddressField, ReverseValue>>;
+
+export interface AddressChange {
+  field: AddressField;
+  current: string | null;
+  proposed: string;
+  source: string;
+}
+
+/**
+ * Split reverse-geocoded values into fills for blank fields and
+ * proposals for fields that already hold something else. Values equal to
+ * the stored one, ignoring case and spacing, are dropped.
+ */
+export function planAddressChanges(
+  facility: Pick<Facility, AddressField>,
+  found: ReverseFields,
+): { fill: AddressChange[]; proposals: AddressChange[] } {
+  const fill: AddressChange[] = [];
+  const proposals: AddressChange[] = [];
+
+  for (const field of ADDRESS_FIELDS) {
+    const value = found[field];
+    if (!value) continue;
+
+    const current = facility[field]?.trim() || null;
+    const change = {
+      field,
+      current,
+      proposed: value.value,
+      source: value.source,
+    };
+    if (!current) fill.push(change);
+    else if (!sameValue(field, current, value.value)) proposals.push(change);
+  }
+
+  return { fill, proposals };
+}
+
+function sameValue(field: AddressField, a: string, b: string): boolean {
+  if (field === "postal_code") return samePostalCode(a, b);
+  const normalize = (value: string) =>
+    value.trim().replace(/\s+/g, " ").toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+// Where each address field came from, stored in facilities.address_sources
+export type AddressSources = Partial<
+  Record<AddressField, { source: string; set_at: string; set_by: string }>
+>;
+
+export interface ReverseGeocodeOutcome {
+  // The updated facility, or the unchanged one when nothing was filled
+  facility: Facility;
+  filled: AddressChange[];
+  proposals: AddressChange[];
+  // Providers that failed, or are configured but can't run here
+  errors: string[];
+}
+
+// A pending overwrite of a stored address field (/api/address-proposals)
+export interface AddressProposal {
+  id: string;
+  facility_id: string;
+  facility_name: string;
+  country: string;
+  latitude: number | null;
+  longitude: number | null;
+  field: AddressField;
+  current_value: string | null;
+  proposed_value: string;
+  source: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface AddressProposalPage {
+  total: number;
+  proposals: AddressProposal[];
+}
@@ -0,0 +1,57 @@
+/**
+ * Types for the geocode review queue (/review and /api/geocode-reviews).
+ * Facilities land in the queue when their geocode is below the review
+ * threshold, failed or was flagged by the sanity checks (./checks), and
+ * leave it once a reviewer has decided.
+ */
+
+import type { GeocodeResult } from "./chain";
+import type { QueryVariant } from "./providers";
+
+// Same bar the provider chain aims for: below it is a street, postal code
+// or locality match rather than an address point
+export const DEFAULT_REVIEW_THRESHOLD = 0.75;
+
+export interface ReviewFacility {
+  id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  postal_code: string | null;
+  country: string;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_status: "success" | "failed" | "flagged";
+  geocode_confidence: number | null;
+  geocode_provider: string | null;
+  geocode_query_variant: QueryVariant | null;
+  geocode_flags: string[] | null;
+  charger_count: number;
+}
+
+export interface ReviewQueue {
+  total: number;
+  threshold: number;
+  facilities: ReviewFacility[];
+}
+
+// A provider result offered to the reviewer (without the raw response)
+export type ReviewCandidate = Omit<GeocodeResult, "raw_response">;
+
+export interface ReviewCandidates {
+  candidates: ReviewCandidate[];
+  // Providers that failed, or are configured but can't run here
+  errors: string[];
+}
+
+// A candidate is named by its provider and query variant (one match each),
+// and looked up again on the server rather than trusted from the request
+export type ReviewDecision =
+  | { decision: "accepted" }
+  | { decision: "candidate"; provider: string; variant: QueryVariant }
+  | { decision: "manual"; latitude: number; longitude: number };
+
+// A decision with the picked candidate's match filled in, as recorded
+export type ResolvedReviewDecision =
+  | Exclude<ReviewDecision, { decision: "candidate" }>
+  | { decision: "candidate"; candidate: ReviewCandidate };
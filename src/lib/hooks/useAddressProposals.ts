@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from "react";
+import type { AddressProposalPage } from "@/lib/geocoding/reverse";
+
+type FetchState = {
+  page: AddressProposalPage | null;
+  loading: boolean;
+  error: string | null;
+};
+
+/**
+ * Pending address proposals, optionally in one country. `reload`
+ * refetches after a decision.
+ */
+export function useAddressProposals(country: string | null) {
+  const [state, setState] = useState<FetchState>({
+    page: null,
+    loading: true,
+    error: null,
+  });
+
+  const reload = useCallback(async () => {
+    try {
+      setState((prev) => ({ ...prev, loading: true, error: null }));
+
+      const params = new URLSearchParams();
+      if (country) params.set("countries", country);
+
+      const response = await fetch(`/api/address-proposals?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const data = (await response.json()) as AddressProposalPage;
+      setState({ page: data, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      }));
+    }
+  }, [country]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { ...state, reload };
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect } from "react";
+import type { ChargerGroup } from "@/lib/supabase/types";
+
+type FetchState = {
+  groups: ChargerGroup[];
+  loading: boolean;
+  error: string | null;
+};
+
+// PostgREST limits to 1000 rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Fetch per-facility charger counts grouped by status, vendor, type and ownership.
+ * Used to evaluate charger-level filters in the browser; `enabled: false`
+ * skips the download when the server applies them (vector-tile mode).
+ */
+export function useChargerGroups(enabled = true) {
+  const [state, setState] = useState<FetchState>({
+    groups: [],
+    loading: enabled,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const fetchGroups = async () => {
+      try {
+        const allGroups: ChargerGroup[] = [];
+        let offset = 0;
+        let hasMore = true;
+
+        while (hasMore) {
+          const params = new URLSearchParams();
+          params.set("limit", PAGE_SIZE.toString());
+          params.set("offset", offset.toString());
+
+          const response = await fetch(
+            `/api/chargers/groups?${params.toString()}`,
+          );
+
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+
+          const data = await response.json();
+          allGroups.push(...data.groups);
+
+          // Stop if we got less than a full page
+          if (data.groups.length < PAGE_SIZE) {
+            hasMore = false;
+          } else {
+            offset += PAGE_SIZE;
+          }
+        }
+
+        setState({ groups: allGroups, loading: false, error: null });
+      } catch (err) {
+        setState({
+          groups: [],
+          loading: false,
+          error: err instanceof Error ? err.message : "Unknown error",
+        });
+      }
+    };
+
+    fetchGroups();
+  }, [enabled]);
+
+  return state;
+}
@@ -1,5 +1,17 @@
-import { useState, useEffect } from "react";
-import type { Facility } from "@/lib/supabase/types";
+import { useState, useEffect, useRef, useCallback } from "react";
+import type {
+  Facility,
+  FacilityLoadMode,
+  MapViewport,
+} from "@/lib/supabase/types";
+import {
+  boundsContain,
+  parentTile,
+  tileKey,
+  tileToBounds,
+  tilesInBounds,
+  type TileCoord,
+} from "@/lib/utils/tiles";
 
 type FetchState = {
   facilities: Facility[];
@@ -11,20 +23,97 @@ type FetchOptions = {
   countries?: string[];
   search?: string;
   geocodedOnly?: boolean;
-  limit?: number;
+  // "viewport" loads only the tiles covering `viewport`
+  mode?: FacilityLoadMode;
+  viewport?: MapViewport | null;
+  // Extra /api/facilities filter parameters for viewport tiles, e.g.
+  // charger filters applied on the server
+  query?: string;
+  // false loads nothing, e.g. while the map renders vector tiles
+  enabled?: boolean;
 };
 
 // PostgREST limits to 1000 rows per request
 const PAGE_SIZE = 1000;
 
+// Data tiles are fetched one zoom level above the map's, within these bounds
+const MIN_DATA_ZOOM = 3;
+const MAX_DATA_ZOOM = 10;
+
+function dataZoom(mapZoom: number): number {
+  return Math.min(
+    Math.max(Math.floor(mapZoom) - 1, MIN_DATA_ZOOM),
+    MAX_DATA_ZOOM,
+  );
+}
+
+async function fetchTile(
+  tile: TileCoord,
+  query: string | undefined,
+): Promise<Facility[]> {
+  const facilities: Facility[] = [];
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const params = new URLSearchParams(query);
+    params.set("bbox", tileToBounds(tile).join(","));
+    params.set("limit", PAGE_SIZE.toString());
+    params.set("offset", offset.toString());
+
+    const response = await fetch(`/api/facilities?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    facilities.push(...data.facilities);
+
+    if (data.facilities.length < PAGE_SIZE) {
+      hasMore = false;
+    } else {
+      offset += PAGE_SIZE;
+    }
+  }
+
+  return facilities;
+}
+
+// A loaded ancestor tile already holds everything inside this one
+function fromCachedAncestor(
+  cache: Map<string, Facility[]>,
+  tile: TileCoord,
+): Facility[] | null {
+  const bounds = tileToBounds(tile);
+  let ancestor = parentTile(tile);
+  while (ancestor) {
+    const cached = cache.get(tileKey(ancestor));
+    if (cached) {
+      return cached.filter((f) =>
+        boundsContain(bounds, f.longitude!, f.latitude!),
+      );
+    }
+    ancestor = parentTile(ancestor);
+  }
+  return null;
+}
+
 export function useFacilities(options: FetchOptions = {}) {
+  const enabled = options.enabled ?? true;
   const [state, setState] = useState<FetchState>({
     facilities: [],
-    loading: true,
+    loading: enabled,
     error: null,
   });
 
+  // Tiles fetched in viewport mode, kept until the query changes
+  const tileCache = useRef(new Map<string, Facility[]>());
+  const tileCacheQuery = useRef(options.query);
+  const viewportMode = options.mode === "viewport";
+
   useEffect(() => {
+    if (viewportMode || !enabled) return;
+
     const fetchFacilities = async () => {
       try {
         setState((prev) => ({ ...prev, loading: true, error: null }));
@@ -32,12 +121,11 @@ export function useFacilities(options: FetchOptions = {}) {
         const allFacilities: Facility[] = [];
         let offset = 0;
         let hasMore = true;
-        const maxLimit = options.limit || 5000; // Default max to fetch
 
-        while (hasMore && allFacilities.length < maxLimit) {
+        while (hasMore) {
           const params = new URLSearchParams();
-          if (options.countries?.length) {
-            params.set("countries", options.countries.join(","));
+          for (const country of options.countries ?? []) {
+            params.append("countries", country);
           }
           if (options.search) {
             params.set("search", options.search);
@@ -65,11 +153,7 @@ export function useFacilities(options: FetchOptions = {}) {
           }
         }
 
-        setState({
-          facilities: allFacilities.slice(0, maxLimit),
-          loading: false,
-          error: null,
-        });
+        setState({ facilities: allFacilities, loading: false, error: null });
       } catch (err) {
         setState({
           facilities: [],
@@ -81,11 +165,95 @@ export function useFacilities(options: FetchOptions = {}) {
 
     fetchFacilities();
   }, [
+    viewportMode,
+    enabled,
     options.countries?.join(","),
     options.search,
     options.geocodedOnly,
-    options.limit,
   ]);
 
-  return state;
+  // Viewport mode: load only the tiles in view, reusing cached ones
+  const { viewport, query } = options;
+
+  useEffect(() => {
+    if (!viewportMode || !enabled || !viewport) return;
+
+    let cancelled = false;
+    const cache = tileCache.current;
+    // Cached tiles hold the previous query's facilities
+    if (tileCacheQuery.current !== query) {
+      cache.clear();
+      tileCacheQuery.current = query;
+    }
+    const tiles = tilesInBounds(viewport.bounds, dataZoom(viewport.zoom));
+
+    const collect = () => {
+      // Tiles share edges, so de-duplicate by id
+      const byId = new Map<string, Facility>();
+      for (const tile of tiles) {
+        for (const facility of cache.get(tileKey(tile)) ?? []) {
+          byId.set(facility.id, facility);
+        }
+      }
+      return [...byId.values()];
+    };
+
+    const loadTiles = async () => {
+      const missing = tiles.filter((tile) => {
+        if (cache.has(tileKey(tile))) return false;
+        const fromAncestor = fromCachedAncestor(cache, tile);
+        if (fromAncestor) cache.set(tileKey(tile), fromAncestor);
+        return !fromAncestor;
+      });
+
+      if (missing.length === 0) {
+        setState({ facilities: collect(), loading: false, error: null });
+        return;
+      }
+
+      try {
+        setState((prev) => ({ ...prev, loading: true, error: null }));
+
+        // Sequential to stay within PostgREST rate limits
+        for (const tile of missing) {
+          const facilities = await fetchTile(tile, query);
+          // Once the filters change the cache holds the new query's tiles,
+          // so a tile from an earlier request must not be written into it
+          if (tileCacheQuery.current === query) {
+            cache.set(tileKey(tile), facilities);
+          }
+          if (cancelled) return;
+        }
+
+        setState({ facilities: collect(), loading: false, error: null });
+      } catch (err) {
+        if (cancelled) return;
+        setState({
+          facilities: collect(),
+          loading: false,
+          error: err instanceof Error ? err.message : "Unknown error",
+        });
+      }
+    };
+
+    loadTiles();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewportMode, enabled, viewport, query]);
+
+  // Swap in a facility changed in place (e.g. moved by hand) without a
+  // reload; cached tiles keep it until they are fetched again
+  const updateFacility = useCallback((facility: Facility) => {
+    const replace = (list: Facility[]) =>
+      list.map((f) => (f.id === facility.id ? { ...f, ...facility } : f));
+
+    for (const [key, facilities] of tileCache.current) {
+      tileCache.current.set(key, replace(facilities));
+    }
+    setState((prev) => ({ ...prev, facilities: replace(prev.facilities) }));
+  }, []);
+
+  return { ...state, updateFacility };
 }
@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import type { FacilityDetail } from "@/lib/supabase/types";
+
+type FetchState = {
+  detail: FacilityDetail | null;
+  loading: boolean;
+  error: string | null;
+};
+
+/**
+ * Fetch a single facility with its chargers. Pass null to clear.
+ */
+export function useFacilityDetail(facilityId: string | null) {
+  const [state, setState] = useState<FetchState>({
+    detail: null,
+    loading: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    // Ignore responses for a facility that is no longer requested
+    let cancelled = false;
+
+    const fetchDetail = async () => {
+      if (!facilityId) {
+        setState({ detail: null, loading: false, error: null });
+        return;
+      }
+
+      try {
+        setState({ detail: null, loading: true, error: null });
+
+        const response = await fetch(`/api/facilities/${facilityId}`);
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data = (await response.json()) as FacilityDetail;
+        if (!cancelled) {
+          setState({ detail: data, loading: false, error: null });
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setState({
+            detail: null,
+            loading: false,
+            error: err instanceof Error ? err.message : "Unknown error",
+          });
+        }
+      }
+    };
+
+    fetchDetail();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [facilityId]);
+
+  return state;
+}
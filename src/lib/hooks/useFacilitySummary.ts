@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef } from "react";
+import type { FacilitySummary } from "@/lib/supabase/types";
+
+type FetchState = {
+  summary: FacilitySummary | null;
+  loading: boolean;
+  error: string | null;
+};
+
+// Wait for a pause in typing before summarising a new search
+const SEARCH_DEBOUNCE_MS = 300;
+
+const searchOf = (query: string | null) =>
+  query === null ? null : new URLSearchParams(query).get("search");
+
+/**
+ * Sidebar statistics and facility list computed on the server for a
+ * filter query string (see /api/facilities/summary). Pass null to skip
+ * fetching, e.g. when the browser loads the facilities itself.
+ */
+export function useFacilitySummary(query: string | null) {
+  const [state, setState] = useState<FetchState>({
+    summary: null,
+    loading: query !== null,
+    error: null,
+  });
+  // Search text of the last query, to debounce only search changes
+  const lastSearch = useRef(searchOf(query));
+
+  useEffect(() => {
+    if (query === null) return;
+
+    // A later query replaces this one and aborts its request
+    const controller = new AbortController();
+    const search = searchOf(query);
+    const delay = search !== lastSearch.current ? SEARCH_DEBOUNCE_MS : 0;
+    lastSearch.current = search;
+
+    const fetchSummary = async () => {
+      try {
+        setState((prev) => ({ ...prev, loading: true, error: null }));
+
+        const response = await fetch(`/api/facilities/summary?${query}`, {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data = (await response.json()) as FacilitySummary;
+        setState({ summary: data, loading: false, error: null });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: err instanceof Error ? err.message : "Unknown error",
+        }));
+      }
+    };
+
+    const timer = setTimeout(fetchSummary, delay);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  return state;
+}
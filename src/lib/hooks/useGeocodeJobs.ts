@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from "react";
+import { isActiveJob, type GeocodeJob } from "@/lib/geocoding/jobs";
+
+// How often progress is refetched while a job is queued or running
+const POLL_INTERVAL_MS = 3000;
+
+type FetchState = {
+  jobs: GeocodeJob[];
+  loading: boolean;
+  error: string | null;
+};
+
+/**
+ * Background geocoding jobs, newest first. Polls while any job is queued
+ * or running so its progress moves; `reload` refetches after queueing one.
+ */
+export function useGeocodeJobs() {
+  const [state, setState] = useState<FetchState>({
+    jobs: [],
+    loading: true,
+    error: null,
+  });
+
+  const reload = useCallback(async () => {
+    try {
+      setState((prev) => ({ ...prev, loading: true, error: null }));
+
+      const response = await fetch("/api/jobs/geocode");
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const data = (await response.json()) as GeocodeJob[];
+      setState({ jobs: data, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const active = state.jobs.some(isActiveJob);
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(reload, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, reload]);
+
+  return { ...state, reload };
+}
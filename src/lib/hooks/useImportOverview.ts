@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from "react";
+import type { ImportOverview } from "@/lib/import/sync";
+
+type FetchState = {
+  overview: ImportOverview | null;
+  loading: boolean;
+  error: string | null;
+};
+
+/**
+ * Profiles, permitted countries and recent batches for the import page.
+ * `reload` refetches after an import.
+ */
+export function useImportOverview() {
+  const [state, setState] = useState<FetchState>({
+    overview: null,
+    loading: true,
+    error: null,
+  });
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch("/api/imports");
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const data = (await response.json()) as ImportOverview;
+      setState({ overview: data, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    // Fetch once on mount; later refreshes go through reload()
+    reload();
+  }, [reload]);
+
+  return { ...state, reload };
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from "react";
+import type { ReviewQueue } from "@/lib/geocoding/review";
+
+type FetchState = {
+  queue: ReviewQueue | null;
+  loading: boolean;
+  error: string | null;
+};
+
+/**
+ * Facilities waiting for geocode review below `threshold`, optionally in
+ * one country. `reload` refetches after a decision.
+ */
+export function useReviewQueue(threshold: number, country: string | null) {
+  const [state, setState] = useState<FetchState>({
+    queue: null,
+    loading: true,
+    error: null,
+  });
+
+  const reload = useCallback(async () => {
+    try {
+      setState((prev) => ({ ...prev, loading: true, error: null }));
+
+      const params = new URLSearchParams();
+      params.set("threshold", threshold.toString());
+      if (country) params.set("countries", country);
+
+      const response = await fetch(`/api/geocode-reviews?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const data = (await response.json()) as ReviewQueue;
+      setState({ queue: data, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      }));
+    }
+  }, [threshold, country]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { ...state, reload };
+}
@@ -0,0 +1,48 @@
+/**
+ * Import profile files (scripts/import-profiles/*.json|yaml). Server and
+ * scripts only (reads the filesystem).
+ */
+
+import * as path from "path";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { load as loadYaml } from "js-yaml";
+import { checkProfile, DEFAULT_PROFILE, type ImportProfile } from "./register";
+
+// Scripts and the app both run from the repository root
+const PROFILE_DIR = path.join(process.cwd(), "scripts", "import-profiles");
+const PROFILE_FILE = /\.(json|ya?ml)$/i;
+
+/**
+ * Load a profile by name (scripts/import-profiles/<name>.json|yaml|yml) or
+ * by path
+ */
+export function loadProfile(nameOrPath: string): ImportProfile {
+  const filePath = /[\\/]|\.(json|ya?ml)$/i.test(nameOrPath)
+    ? nameOrPath
+    : ["json", "yaml", "yml"]
+        .map((ext) => path.join(PROFILE_DIR, `${nameOrPath}.${ext}`))
+        .find((candidate) => existsSync(candidate));
+  if (!filePath || !existsSync(filePath)) {
+    throw new Error(`Import profile not found: ${nameOrPath}`);
+  }
+
+  const text = readFileSync(filePath, "utf8");
+  const profile = (
+    /\.json$/i.test(filePath) ? JSON.parse(text) : loadYaml(text)
+  ) as ImportProfile;
+
+  checkProfile(profile, filePath);
+  return { ...profile, name: profile.name ?? path.parse(filePath).name };
+}
+
+/**
+ * Names accepted by loadProfile, "default" first
+ */
+export function listProfiles(): string[] {
+  const names = existsSync(PROFILE_DIR)
+    ? readdirSync(PROFILE_DIR)
+        .filter((file) => PROFILE_FILE.test(file))
+        .map((file) => path.parse(file).name)
+    : [];
+  return [DEFAULT_PROFILE.name, ...new Set(names)];
+}
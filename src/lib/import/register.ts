@@ -0,0 +1,325 @@
+/**
+ * Asset Register parsing shared by scripts/import-excel.ts and
+ * /api/imports: mapping profiles, value normalisation and the register row
+ * -> charger record conversion. Server only (uses xlsx).
+ */
+
+import * as XLSX from "xlsx";
+
+// Types from Excel
+export interface ExcelRow {
+  "Serial Number": string;
+  Country: string;
+  "Charger Type": string | null;
+  Vendor: string | null;
+  Model: string | null;
+  "Current Status": string | null;
+  "Facility Name": string;
+  "Current Subscription Type": string | null;
+  Ownership: string | null;
+  "Charger Installed Date": string | number | null;
+  Chargers: number;
+}
+
+export const REGISTER_COLUMNS: (keyof ExcelRow)[] = [
+  "Serial Number",
+  "Country",
+  "Charger Type",
+  "Vendor",
+  "Model",
+  "Current Status",
+  "Facility Name",
+  "Current Subscription Type",
+  "Ownership",
+  "Charger Installed Date",
+  "Chargers",
+];
+
+// Register rows, keyed by the register columns above whatever the source
+// headers were. sheet_to_json keeps each row's 0-based sheet index in
+// __rowNum__.
+export type SheetRow = ExcelRow & { __rowNum__: number };
+
+// Source value (matched case-insensitively) -> register value
+export type ValueSynonyms = Record<string, string>;
+
+// Mapping profile for one register source (scripts/import-profiles/*.json|yaml)
+export interface ImportProfile {
+  name: string;
+  // Sheet to read; the first sheet when omitted (ignored for CSV)
+  sheet?: string;
+  // CSV field separator; Nordic Excel exports use ";"
+  delimiter?: string;
+  // Register column -> header in this source
+  columns?: Partial<Record<keyof ExcelRow, string>>;
+  // Values for columns the source doesn't have, such as Country
+  defaults?: Partial<Record<keyof ExcelRow, string>>;
+  // Tried in order before ISO dates, e.g. "DD.MM.YYYY"
+  dateFormats?: string[];
+  synonyms?: {
+    status?: ValueSynonyms;
+    chargerType?: ValueSynonyms;
+    ownership?: ValueSynonyms;
+  };
+}
+
+// The Asset Register export: English headers, first sheet
+export const DEFAULT_PROFILE: ImportProfile = { name: "default" };
+
+export const STATUSES = ["Enabled", "Disabled", "Out of order"];
+export const CHARGER_TYPES = ["Private", "Shared"];
+export const OWNERSHIPS = ["Driver", "Housing Association", "Volterra"];
+
+/**
+ * Check a parsed profile, catching typos before they silently drop a column
+ * or value. `source` names the profile file in error messages.
+ */
+export function checkProfile(
+  profile: ImportProfile,
+  source: string,
+): ImportProfile {
+  const unknownColumns = [
+    ...Object.keys(profile.columns ?? {}),
+    ...Object.keys(profile.defaults ?? {}),
+  ].filter((column) => !REGISTER_COLUMNS.includes(column as keyof ExcelRow));
+  if (unknownColumns.length > 0) {
+    throw new Error(
+      `Profile ${source} maps unknown register columns: ${unknownColumns.join(", ")}`,
+    );
+  }
+  const synonymTargets: [ValueSynonyms | undefined, string[]][] = [
+    [profile.synonyms?.status, STATUSES],
+    [profile.synonyms?.chargerType, CHARGER_TYPES],
+    [profile.synonyms?.ownership, OWNERSHIPS],
+  ];
+  for (const [synonyms, allowed] of synonymTargets) {
+    for (const [from, to] of Object.entries(synonyms ?? {})) {
+      if (!allowed.includes(to)) {
+        throw new Error(
+          `Profile ${source}: synonym "${from}" maps to "${to}", expected one of ${allowed.join(", ")}`,
+        );
+      }
+    }
+  }
+  return profile;
+}
+
+// Header for a register column in this source
+export function headerFor(profile: ImportProfile, column: keyof ExcelRow) {
+  return profile.columns?.[column] ?? column;
+}
+
+export function applySynonym(value: string, synonyms: ValueSynonyms = {}) {
+  const key = value.toLowerCase();
+  const match = Object.keys(synonyms).find((s) => s.toLowerCase() === key);
+  return match ? synonyms[match] : value;
+}
+
+// "DD.MM.YYYY", "D/M/YY", "YYYY-MM-DD"... -> ISO date, or null
+export function parseDateFormat(value: string, format: string): string | null {
+  const parts: string[] = [];
+  const pattern = format.replace(
+    /YYYY|YY|MM|M|DD|D|[.*+?^${}()|[\]\\]/g,
+    (token) => {
+      if (!/^[YMD]+$/.test(token)) return `\\${token}`;
+      parts.push(token);
+      return token === "YYYY" ? "(\\d{4})" : "(\\d{1,2})";
+    },
+  );
+  const match = new RegExp(`^${pattern}$`).exec(value);
+  if (!match) return null;
+
+  let year = 0;
+  let month = 0;
+  let day = 0;
+  parts.forEach((part, i) => {
+    const n = Number(match[i + 1]);
+    if (part === "YYYY") year = n;
+    else if (part === "YY") year = 2000 + n;
+    else if (part[0] === "M") month = n;
+    else day = n;
+  });
+
+  // Reject 31.02 and friends
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+// Parse Excel date. With explicit formats only those and ISO dates are
+// accepted, since new Date() reads "05.01.2024" as 1 May.
+export function parseDate(
+  value: string | number | null,
+  formats: string[] = [],
+): string | null {
+  if (!value) return null;
+
+  // Excel serial date number
+  if (typeof value === "number") {
+    const date = new Date((value - 25569) * 86400 * 1000);
+    return date.toISOString().split("T")[0];
+  }
+
+  if (formats.length > 0) {
+    for (const format of [...formats, "YYYY-MM-DD"]) {
+      const parsed = parseDateFormat(value.trim(), format);
+      if (parsed) return parsed;
+    }
+    return null;
+  }
+
+  // String date - try to parse
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return date.toISOString().split("T")[0];
+}
+
+// Normalize status to match DB enum (unknown values are reported by
+// validateRows). Mapped columns can hold numeric codes, matched as text.
+export function normalizeStatus(
+  status: string | number | null,
+  synonyms?: ValueSynonyms,
+): "Enabled" | "Disabled" | "Out of order" | null {
+  const text = cellText(status);
+  if (!text) return null;
+  const s = applySynonym(text, synonyms);
+  if (s === "Enabled") return "Enabled";
+  if (s === "Disabled") return "Disabled";
+  if (s === "Out of order" || s === "Out of Order") return "Out of order";
+  return null;
+}
+
+// Normalize charger type
+export function normalizeChargerType(
+  type: string | number | null,
+  synonyms?: ValueSynonyms,
+): "Private" | "Shared" | null {
+  const text = cellText(type);
+  if (!text) return null;
+  const t = applySynonym(text, synonyms);
+  if (t === "Private") return "Private";
+  if (t === "Shared") return "Shared";
+  return null;
+}
+
+// Normalize ownership
+export function normalizeOwnership(
+  ownership: string | number | null,
+  synonyms?: ValueSynonyms,
+): "Driver" | "Housing Association" | "Volterra" | null {
+  const text = cellText(ownership);
+  if (!text) return null;
+  const o = applySynonym(text, synonyms);
+  if (o === "Driver") return "Driver";
+  if (o === "Housing Association" || o === "Housing association")
+    return "Housing Association";
+  if (o === "Volterra") return "Volterra";
+  return null;
+}
+
+/**
+ * Read a register workbook or CSV into rows keyed by register column.
+ * `missingColumns` lists the source headers the profile expects but the
+ * sheet doesn't have.
+ */
+export function readRegister(
+  data: Buffer,
+  fileName: string,
+  profile: ImportProfile,
+) {
+  const isCsv = /\.(csv|txt)$/i.test(fileName);
+  // CSV is read as text so serial numbers and dates stay as written
+  const workbook = isCsv
+    ? XLSX.read(data.toString("utf8").replace(/^\uFEFF/, ""), {
+        type: "string",
+        FS: profile.delimiter ?? ",",
+        raw: true,
+      })
+    : XLSX.read(data, { type: "buffer" });
+
+  const sheetName = (!isCsv && profile.sheet) || workbook.SheetNames[0];
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(
+      `Sheet "${sheetName}" not found (sheets: ${workbook.SheetNames.join(", ")})`,
+    );
+  }
+
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+  });
+  const headers = headerRow.map((h) => String(h ?? "").trim());
+
+  const missingColumns = REGISTER_COLUMNS.filter(
+    (column) =>
+      !headers.includes(headerFor(profile, column)) &&
+      profile.defaults?.[column] === undefined,
+  ).map((column) => headerFor(profile, column));
+
+  const rows = XLSX.utils
+    .sheet_to_json<Record<string, unknown>>(sheet)
+    .map((raw) => {
+      const row: Record<string, unknown> = { __rowNum__: raw.__rowNum__ };
+      for (const column of REGISTER_COLUMNS) {
+        const value = raw[headerFor(profile, column)];
+        row[column] = isBlank(value)
+          ? (profile.defaults?.[column] ?? value)
+          : value;
+      }
+      return row as unknown as SheetRow;
+    });
+
+  return { sheetName, sheet, rows, headers, missingColumns };
+}
+
+export function isBlank(value: unknown) {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+// Trimmed cell text, or null when blank. xlsx returns numeric cells as
+// numbers (a model "3000", a facility named "17"), so never call .trim()
+// on a cell directly.
+export function cellText(value: unknown): string | null {
+  return isBlank(value) ? null : String(value).trim();
+}
+
+// A charger as stored, with its facility referenced by name
+export interface ChargerRecord {
+  serial_number: string;
+  facility_name: string | null;
+  country: string;
+  charger_type: string | null;
+  vendor: string | null;
+  model: string | null;
+  status: string | null;
+  subscription_type: string | null;
+  ownership: string | null;
+  installed_date: string | null;
+}
+
+export function toChargerRecord(
+  row: ExcelRow,
+  profile: ImportProfile,
+): ChargerRecord {
+  const { synonyms } = profile;
+  return {
+    serial_number: String(row["Serial Number"]).trim(),
+    facility_name: cellText(row["Facility Name"]),
+    country: row.Country,
+    charger_type: normalizeChargerType(
+      row["Charger Type"],
+      synonyms?.chargerType,
+    ),
+    vendor: cellText(row.Vendor),
+    model: cellText(row.Model),
+    status: normalizeStatus(row["Current Status"], synonyms?.status),
+    subscription_type: cellText(row["Current Subscription Type"]),
+    ownership: normalizeOwnership(row.Ownership, synonyms?.ownership),
+    installed_date: parseDate(
+      row["Charger Installed Date"],
+      profile.dateFormats,
+    ),
+  };
+}
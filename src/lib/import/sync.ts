@@ -0,0 +1,237 @@
+/**
+ * Serial-number diff between the register and the database, and the
+ * apply_charger_sync payload built from it
+ */
+
+import {
+  toChargerRecord,
+  type ChargerRecord,
+  type ExcelRow,
+  type ImportProfile,
+} from "./register";
+import type { ProblemCode, ValidationProblem } from "./validation";
+
+// Compared field-by-field; facility_name changes are reported as moves
+export const DIFF_FIELDS = [
+  "country",
+  "charger_type",
+  "vendor",
+  "model",
+  "status",
+  "subscription_type",
+  "ownership",
+  "installed_date",
+] as const;
+
+export type DiffField = (typeof DIFF_FIELDS)[number];
+
+export interface FieldChange {
+  field: DiffField;
+  from: string | null;
+  to: string | null;
+}
+
+export interface ChargerDiff {
+  added: ChargerRecord[];
+  changed: { record: ChargerRecord; changes: FieldChange[] }[];
+  moved: { record: ChargerRecord; from: string | null }[];
+  removed: ChargerRecord[];
+  unchanged: number;
+  // Serials already held by a country the importer may not write to; left
+  // as they are rather than moved into the file's country
+  skipped: { record: ChargerRecord; country: string }[];
+}
+
+/**
+ * Register rows keyed on serial number. Validation guarantees they are
+ * present and unique.
+ */
+export function keyRecords(
+  rows: ExcelRow[],
+  profile: ImportProfile,
+): Map<string, ChargerRecord> {
+  const incoming = new Map<string, ChargerRecord>();
+  for (const row of rows) {
+    const record = toChargerRecord(row, profile);
+    incoming.set(record.serial_number, record);
+  }
+  return incoming;
+}
+
+/**
+ * With `writableCountries`, chargers currently in any other country are
+ * skipped instead of changed, so an upload can't take over another
+ * country's charger by reusing its serial.
+ */
+export function diffChargers(
+  current: Map<string, ChargerRecord>,
+  incoming: Map<string, ChargerRecord>,
+  removalCountries: Set<string>,
+  writableCountries?: Set<string>,
+): ChargerDiff {
+  const diff: ChargerDiff = {
+    added: [],
+    changed: [],
+    moved: [],
+    removed: [],
+    unchanged: 0,
+    skipped: [],
+  };
+
+  for (const [serial, record] of incoming) {
+    const existing = current.get(serial);
+    if (!existing) {
+      diff.added.push(record);
+      continue;
+    }
+    if (writableCountries && !writableCountries.has(existing.country)) {
+      diff.skipped.push({ record, country: existing.country });
+      continue;
+    }
+
+    const changes = DIFF_FIELDS.filter(
+      (field) => existing[field] !== record[field],
+    ).map((field) => ({ field, from: existing[field], to: record[field] }));
+    const moved = existing.facility_name !== record.facility_name;
+
+    if (changes.length > 0) diff.changed.push({ record, changes });
+    if (moved) diff.moved.push({ record, from: existing.facility_name });
+    if (changes.length === 0 && !moved) diff.unchanged++;
+  }
+
+  for (const [serial, record] of current) {
+    if (!incoming.has(serial) && removalCountries.has(record.country)) {
+      diff.removed.push(record);
+    }
+  }
+
+  return diff;
+}
+
+export interface ImportBatch {
+  id: string;
+  file_name: string;
+  profile: string | null;
+  imported_by: string | null;
+  row_count: number;
+  chargers_added: number;
+  chargers_changed: number;
+  chargers_moved: number;
+  chargers_removed: number;
+  facilities_created: number;
+  status: "applied" | "rolled_back";
+  created_at: string;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+}
+
+// Who and what an import batch came from, recorded with its changes
+export interface BatchSource {
+  file_name: string;
+  profile: string;
+  imported_by: string;
+  row_count: number;
+}
+
+export interface SyncResult {
+  batch_id: string;
+  facilities_created: number;
+  chargers_upserted: number;
+  chargers_removed: number;
+  facilities_recounted: number;
+}
+
+/**
+ * apply_charger_sync parameters for a diff, or null when there is nothing
+ * to write. New facilities take the country of their first charger.
+ */
+export function buildSyncParams(diff: ChargerDiff, source: BatchSource) {
+  const upserts = new Map<string, ChargerRecord>();
+  for (const record of diff.added) upserts.set(record.serial_number, record);
+  for (const { record } of diff.changed) {
+    upserts.set(record.serial_number, record);
+  }
+  for (const { record } of diff.moved) {
+    upserts.set(record.serial_number, record);
+  }
+
+  if (upserts.size === 0 && diff.removed.length === 0) return null;
+
+  const facilities = new Map<string, string>();
+  for (const record of upserts.values()) {
+    if (record.facility_name && !facilities.has(record.facility_name)) {
+      facilities.set(record.facility_name, record.country);
+    }
+  }
+
+  return {
+    p_facilities: Array.from(facilities, ([name, country]) => ({
+      name,
+      country,
+    })),
+    p_chargers: Array.from(upserts.values()),
+    p_removed: diff.removed.map((r) => r.serial_number),
+    p_batch: {
+      ...source,
+      chargers_added: diff.added.length,
+      chargers_changed: diff.changed.length,
+      chargers_moved: diff.moved.length,
+      chargers_removed: diff.removed.length,
+    },
+  };
+}
+
+export type SyncParams = NonNullable<ReturnType<typeof buildSyncParams>>;
+
+// What GET /api/imports returns for the signed-in user
+export interface ImportOverview {
+  profiles: string[];
+  // Empty for users without import access
+  countries: string[];
+  // Restricted users must pick one of their countries
+  restricted: boolean;
+  batches: ImportBatch[];
+}
+
+// What POST /api/imports returns for a preview, before anything is written
+export interface ImportPreview {
+  file: string;
+  profile: string;
+  // Chargers outside this country are errors and are never removed
+  country: string | null;
+  sheet: string;
+  rows: number;
+  errors: number;
+  warnings: number;
+  missingColumns: string[];
+  // Chargers the commit's snapshot will page through, for its progress bar
+  databaseChargers: number | null;
+  // The first MAX_PREVIEW_PROBLEMS; problemSummary counts all of them
+  problems: ValidationProblem[];
+  problemSummary: {
+    code: ProblemCode;
+    label: string;
+    severity: "error" | "warning";
+    count: number;
+  }[];
+  // Null while there are errors, which stop the import
+  diff: {
+    added: number;
+    changed: number;
+    moved: number;
+    removed: number;
+    unchanged: number;
+    skipped: number;
+  } | null;
+  samples: Pick<
+    ChargerDiff,
+    "added" | "changed" | "moved" | "removed" | "skipped"
+  > | null;
+}
+
+// One line of the newline-delimited JSON stream a commit responds with
+export type ImportProgress =
+  | { stage: "snapshot"; loaded: number }
+  | { stage: "applying"; changes: number }
+  | { stage: "done"; result: SyncResult | null }
+  | { stage: "error"; error: string };
@@ -0,0 +1,267 @@
+/**
+ * Register validation: every problem in a sheet, tied to its row and
+ * column, for the import preview and the --validate reports
+ */
+
+import * as XLSX from "xlsx";
+import {
+  cellText,
+  headerFor,
+  isBlank,
+  normalizeChargerType,
+  normalizeOwnership,
+  normalizeStatus,
+  parseDate,
+  type ExcelRow,
+  type ImportProfile,
+  type SheetRow,
+} from "./register";
+
+// Errors would break or corrupt the import; warnings are values it drops
+export const PROBLEM_RULES = {
+  missing_serial: { severity: "error", label: "Missing serial number" },
+  duplicate_serial: { severity: "error", label: "Duplicate serial number" },
+  missing_country: { severity: "error", label: "Missing country" },
+  // Only checked when the upload is restricted to one country
+  wrong_country: { severity: "error", label: "Outside the selected country" },
+  missing_facility: { severity: "warning", label: "Missing facility name" },
+  charger_count_mismatch: {
+    severity: "warning",
+    label: '"Chargers" disagrees with the facility\'s row count',
+  },
+  unknown_status: { severity: "warning", label: "Unknown status" },
+  unknown_charger_type: { severity: "warning", label: "Unknown charger type" },
+  unknown_ownership: { severity: "warning", label: "Unknown ownership" },
+  invalid_date: { severity: "warning", label: "Unparseable installed date" },
+} as const;
+
+export type ProblemCode = keyof typeof PROBLEM_RULES;
+
+export interface ValidationProblem {
+  // 1-based sheet row, as shown in Excel
+  row: number;
+  code: ProblemCode;
+  // Header as it appears in the source sheet
+  column: string;
+  // Cell reference such as "F12", when the problem is tied to one cell
+  cell: string | null;
+  value: unknown;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ValidationReport {
+  file: string;
+  profile: string;
+  sheet: string;
+  validated_at: string;
+  rows: number;
+  errors: number;
+  warnings: number;
+  problems: ValidationProblem[];
+}
+
+const VALIDATION_COLUMN = "Validation";
+
+/**
+ * Collect every problem in the sheet, each tied to its row and column.
+ * With `options.country`, rows for any other country are errors.
+ */
+export function validateRows(
+  rows: SheetRow[],
+  headers: string[],
+  profile: ImportProfile,
+  options: { country?: string } = {},
+): ValidationProblem[] {
+  const problems: ValidationProblem[] = [];
+
+  const problem = (
+    row: SheetRow,
+    column: keyof ExcelRow,
+    code: ProblemCode,
+    message: string = PROBLEM_RULES[code].label,
+  ) => {
+    const rowNumber = row.__rowNum__ + 1;
+    const header = headerFor(profile, column);
+    const index = headers.indexOf(header);
+    problems.push({
+      row: rowNumber,
+      code,
+      column: header,
+      cell: index >= 0 ? `${XLSX.utils.encode_col(index)}${rowNumber}` : null,
+      value: row[column] ?? null,
+      severity: PROBLEM_RULES[code].severity,
+      message,
+    });
+  };
+
+  // Sheet rows per facility, for the "Chargers" column check
+  const facilityRows = new Map<string, number>();
+  for (const row of rows) {
+    const name = cellText(row["Facility Name"]);
+    if (name) facilityRows.set(name, (facilityRows.get(name) ?? 0) + 1);
+  }
+
+  const serialRows = new Map<string, number>();
+
+  for (const row of rows) {
+    const serial = isBlank(row["Serial Number"])
+      ? null
+      : String(row["Serial Number"]).trim();
+    if (!serial) {
+      problem(row, "Serial Number", "missing_serial");
+    } else if (serialRows.has(serial)) {
+      problem(
+        row,
+        "Serial Number",
+        "duplicate_serial",
+        `Duplicate serial number (first seen on row ${serialRows.get(serial)})`,
+      );
+    } else {
+      serialRows.set(serial, row.__rowNum__ + 1);
+    }
+
+    if (isBlank(row.Country)) {
+      problem(row, "Country", "missing_country");
+    } else if (
+      options.country &&
+      String(row.Country).trim() !== options.country
+    ) {
+      problem(
+        row,
+        "Country",
+        "wrong_country",
+        `Country is ${String(row.Country).trim()}, this upload is limited to ${options.country}`,
+      );
+    }
+
+    const facilityName = cellText(row["Facility Name"]);
+    if (!facilityName) {
+      problem(
+        row,
+        "Facility Name",
+        "missing_facility",
+        "Missing facility name; charger is imported without a facility",
+      );
+    } else if (
+      !isBlank(row.Chargers) &&
+      Number(row.Chargers) !== facilityRows.get(facilityName)
+    ) {
+      problem(
+        row,
+        "Chargers",
+        "charger_count_mismatch",
+        `Says ${row.Chargers} chargers but the sheet has ${facilityRows.get(facilityName)} rows for this facility`,
+      );
+    }
+
+    if (
+      !isBlank(row["Current Status"]) &&
+      !normalizeStatus(row["Current Status"], profile.synonyms?.status)
+    ) {
+      problem(
+        row,
+        "Current Status",
+        "unknown_status",
+        "Unknown status (expected Enabled, Disabled or Out of order)",
+      );
+    }
+    if (
+      !isBlank(row["Charger Type"]) &&
+      !normalizeChargerType(row["Charger Type"], profile.synonyms?.chargerType)
+    ) {
+      problem(
+        row,
+        "Charger Type",
+        "unknown_charger_type",
+        "Unknown charger type (expected Private or Shared)",
+      );
+    }
+    if (
+      !isBlank(row.Ownership) &&
+      !normalizeOwnership(row.Ownership, profile.synonyms?.ownership)
+    ) {
+      problem(
+        row,
+        "Ownership",
+        "unknown_ownership",
+        "Unknown ownership (expected Driver, Housing Association or Volterra)",
+      );
+    }
+    if (
+      !isBlank(row["Charger Installed Date"]) &&
+      !parseDate(row["Charger Installed Date"], profile.dateFormats)
+    ) {
+      problem(row, "Charger Installed Date", "invalid_date");
+    }
+  }
+
+  return problems;
+}
+
+export function summariseProblems(problems: ValidationProblem[]) {
+  const errors = problems.filter((p) => p.severity === "error").length;
+  return { errors, warnings: problems.length - errors };
+}
+
+/**
+ * Copy of the sheet with a comment on each problem cell and a Validation
+ * column per row, plus a Problems sheet listing everything
+ */
+export function buildAnnotatedWorkbook(
+  sheet: XLSX.WorkSheet,
+  sheetName: string,
+  headers: string[],
+  problems: ValidationProblem[],
+): XLSX.WorkBook {
+  const annotated: XLSX.WorkSheet = { ...sheet };
+  const range = XLSX.utils.decode_range(sheet["!ref"] ?? "A1");
+  const validationCol = Math.max(range.e.c + 1, headers.length);
+
+  const byRow = new Map<number, ValidationProblem[]>();
+  for (const p of problems) {
+    byRow.set(p.row, [...(byRow.get(p.row) ?? []), p]);
+
+    // Comments need an existing cell; blank cells are covered by the
+    // Validation column
+    const cell = p.cell ? annotated[p.cell] : undefined;
+    if (cell) {
+      cell.c = [...(cell.c ?? []), { a: "Validation", t: p.message }];
+    }
+  }
+
+  annotated[XLSX.utils.encode_cell({ r: 0, c: validationCol })] = {
+    t: "s",
+    v: VALIDATION_COLUMN,
+  };
+  for (const [row, rowProblems] of byRow) {
+    annotated[XLSX.utils.encode_cell({ r: row - 1, c: validationCol })] = {
+      t: "s",
+      v: rowProblems
+        .map((p) => `${p.severity.toUpperCase()} ${p.column}: ${p.message}`)
+        .join("; "),
+    };
+  }
+  annotated["!ref"] = XLSX.utils.encode_range({
+    s: range.s,
+    e: { r: range.e.r, c: validationCol },
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, annotated, sheetName);
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(
+      problems.map((p) => ({
+        Row: p.row,
+        Cell: p.cell ?? "",
+        Column: p.column,
+        Value: p.value === null ? "" : String(p.value),
+        Severity: p.severity,
+        Problem: p.message,
+      })),
+    ),
+    "Problems",
+  );
+  return workbook;
+}
@@ -0,0 +1,91 @@
+// Server-side reverse geocoding and address proposal queries shared by API routes (uses rpc, server only)
+
+import { rpc } from "@/lib/supabase/rpc";
+import type { Facility } from "@/lib/supabase/types";
+import type {
+  AddressChange,
+  AddressField,
+  AddressProposalPage,
+  ReverseGeocodeOutcome,
+} from "@/lib/geocoding/reverse";
+
+/**
+ * Fill blank address fields and queue proposals for the rest. Only the
+ * changes the database actually made are returned: a field filled in the
+ * meantime is left alone, and a rejected value isn't proposed again.
+ * Null if the facility doesn't exist.
+ */
+export async function applyReverseGeocode(
+  facilityId: string,
+  changes: { fill: AddressChange[]; proposals: AddressChange[] },
+  setBy: string,
+): Promise<Omit<ReverseGeocodeOutcome, "errors"> | null> {
+  const toParam = (change: AddressChange) => ({
+    field: change.field,
+    value: change.proposed,
+    source: change.source,
+  });
+
+  const result = await rpc<{
+    facility: Facility;
+    filled: AddressField[];
+    proposed: AddressField[];
+  } | null>(
+    "apply_reverse_geocode",
+    {
+      p_facility_id: facilityId,
+      p_fill: changes.fill.map(toParam),
+      p_proposals: changes.proposals.map(toParam),
+      p_set_by: setBy,
+    },
+    { fresh: true },
+  );
+  if (!result) return null;
+
+  return {
+    facility: result.facility,
+    filled: changes.fill.filter((c) => result.filled.includes(c.field)),
+    proposals: changes.proposals.filter((c) =>
+      result.proposed.includes(c.field),
+    ),
+  };
+}
+
+/**
+ * One page of pending address proposals, oldest first
+ */
+export async function queryAddressProposals(options: {
+  countries: string[] | null;
+  limit: number;
+  offset: number;
+}): Promise<AddressProposalPage> {
+  return rpc(
+    "get_address_proposals",
+    {
+      p_countries: options.countries,
+      p_limit: options.limit,
+      p_offset: options.offset,
+    },
+    { fresh: true },
+  );
+}
+
+/**
+ * Accept or reject a pending proposal. Returns the facility, or null if
+ * the proposal doesn't exist or was already decided.
+ */
+export async function decideAddressProposal(
+  proposalId: string,
+  accept: boolean,
+  decidedBy: string,
+): Promise<Facility | null> {
+  return rpc<Facility | null>(
+    "decide_address_proposal",
+    {
+      p_proposal_id: proposalId,
+      p_accept: accept,
+      p_decided_by: decidedBy,
+    },
+    { fresh: true },
+  );
+}
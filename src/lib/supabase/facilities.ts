@@ -0,0 +1,208 @@
+// Server-side facility queries shared by API routes (uses rpc, server only)
+
+import { rpc } from "@/lib/supabase/rpc";
+import type {
+  Charger,
+  Facility,
+  FacilityStats,
+  FilteredFacility,
+} from "@/lib/supabase/types";
+import {
+  hasChargerQuery,
+  toBBoxRpcParams,
+  toChargerRpcParams,
+  toFilteredRpcParams,
+  toMatchingRpcParams,
+  type FacilityQuery,
+} from "@/lib/utils/facility-query";
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Keeps the id array in each charger request body small
+const ID_CHUNK_SIZE = 500;
+
+type FacilityStatsRow = {
+  country: string;
+  facility_count: number;
+  geocoded_count: number;
+  charger_count: number;
+};
+
+type FacilitiesParams = {
+  p_countries?: string[] | null;
+  p_search?: string | null;
+  p_geocoded_only?: boolean;
+  p_limit?: number;
+  p_offset?: number;
+};
+
+/**
+ * One page of facilities, picking the RPC that covers the query's filters.
+ * Only `get_facilities_matching` filters on geocode status and selections.
+ */
+export async function queryFacilities(
+  query: FacilityQuery,
+  limit: number,
+  offset: number,
+): Promise<Facility[] | FilteredFacility[]> {
+  if (query.geocodeStatuses || query.selection) {
+    return rpc<FilteredFacility[]>("get_facilities_matching", {
+      ...toMatchingRpcParams(query),
+      p_limit: limit,
+      p_offset: offset,
+    });
+  }
+
+  if (query.bbox) {
+    return rpc<FilteredFacility[]>("get_facilities_in_bbox", {
+      ...toBBoxRpcParams(query, query.bbox),
+      p_limit: limit,
+      p_offset: offset,
+    });
+  }
+
+  if (hasChargerQuery(query)) {
+    return rpc<FilteredFacility[]>("get_facilities_filtered", {
+      ...toFilteredRpcParams(query),
+      p_limit: limit,
+      p_offset: offset,
+    });
+  }
+
+  const params: FacilitiesParams = {
+    p_countries: query.countries,
+    p_search: query.search,
+    p_geocoded_only: query.geocodedOnly,
+    p_limit: limit,
+    p_offset: offset,
+  };
+  return rpc<Facility[]>("get_facilities", params);
+}
+
+/**
+ * One page of facilities matching the query as the map sidebar filters it
+ * (see `get_facilities_matching`), most chargers first. Under charger
+ * filters `matching_charger_count` counts the matching chargers.
+ */
+export async function queryMatchingPage(
+  query: FacilityQuery,
+  limit: number,
+  offset: number,
+): Promise<FilteredFacility[]> {
+  return rpc<FilteredFacility[]>("get_facilities_matching", {
+    ...toMatchingRpcParams(query),
+    p_limit: limit,
+    p_offset: offset,
+  });
+}
+
+/**
+ * Every facility matching the query as the map sidebar filters it: search
+ * over name, city, address and postal code (rather than the other RPCs'
+ * name-only match), geocode status, and the map selection
+ */
+export async function queryMatchingFacilities(
+  query: FacilityQuery,
+): Promise<FilteredFacility[]> {
+  const facilities: FilteredFacility[] = [];
+  let offset = 0;
+
+  while (true) {
+    const page = await queryMatchingPage(query, PAGE_SIZE, offset);
+    facilities.push(...page);
+    if (page.length < PAGE_SIZE) break;
+    offset += PAGE_SIZE;
+  }
+
+  return facilities;
+}
+
+/**
+ * Sidebar statistics for the facilities `queryMatchingFacilities` returns,
+ * aggregated in the database
+ */
+export async function queryFacilityStats(
+  query: FacilityQuery,
+): Promise<FacilityStats> {
+  const rows = await rpc<FacilityStatsRow[]>(
+    "get_facility_stats",
+    toMatchingRpcParams(query),
+  );
+  const stats: FacilityStats = {
+    total: 0,
+    byCountry: {},
+    facilitiesByCountry: {},
+    facilityCount: 0,
+    geocodedCount: 0,
+    pendingCount: 0,
+  };
+
+  for (const row of rows) {
+    stats.total += row.charger_count;
+    stats.byCountry[row.country] = row.charger_count;
+    stats.facilitiesByCountry[row.country] = row.facility_count;
+    stats.facilityCount += row.facility_count;
+    stats.geocodedCount += row.geocoded_count;
+  }
+  stats.pendingCount = stats.facilityCount - stats.geocodedCount;
+
+  return stats;
+}
+
+/**
+ * Distinct vendors of chargers assigned to a facility, for the vendor filter
+ */
+export async function queryChargerVendors(): Promise<string[]> {
+  const rows = await rpc<{ vendor: string }[]>("get_charger_vendors", {});
+  return rows.map((row) => row.vendor);
+}
+
+/**
+ * Chargers at the given facilities, narrowed by the query's charger filters
+ */
+export async function queryChargersForFacilities(
+  facilityIds: string[],
+  query: FacilityQuery,
+): Promise<Charger[]> {
+  const chargers: Charger[] = [];
+
+  for (let i = 0; i < facilityIds.length; i += ID_CHUNK_SIZE) {
+    const ids = facilityIds.slice(i, i + ID_CHUNK_SIZE);
+    let offset = 0;
+
+    while (true) {
+      const page = await rpc<Charger[]>("get_chargers_for_facilities", {
+        p_facility_ids: ids,
+        ...toChargerRpcParams(query),
+        p_limit: PAGE_SIZE,
+        p_offset: offset,
+      });
+      chargers.push(...page);
+      if (page.length < PAGE_SIZE) break;
+      offset += PAGE_SIZE;
+    }
+  }
+
+  return chargers;
+}
+
+/**
+ * Place a facility by hand (geocode_status "manual"). Null if the facility
+ * doesn't exist.
+ */
+export async function setFacilityLocation(
+  facilityId: string,
+  location: { latitude: number; longitude: number },
+  editedBy: string,
+): Promise<Facility | null> {
+  return rpc<Facility | null>(
+    "set_facility_location",
+    {
+      p_facility_id: facilityId,
+      p_latitude: location.latitude,
+      p_longitude: location.longitude,
+      p_edited_by: editedBy,
+    },
+    { fresh: true },
+  );
+}
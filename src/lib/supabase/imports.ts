@@ -0,0 +1,55 @@
+// Server-side register import queries shared by API routes (uses rpc, server only)
+
+import { rpc } from "@/lib/supabase/rpc";
+import type { ChargerRecord } from "@/lib/import/register";
+import type { ImportBatch, SyncParams, SyncResult } from "@/lib/import/sync";
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Every charger in the database keyed on serial number, as the register
+ * diff compares them. `onPage` reports the running total.
+ */
+export async function queryChargerSnapshot(
+  onPage?: (loaded: number) => void,
+): Promise<Map<string, ChargerRecord>> {
+  const snapshot = new Map<string, ChargerRecord>();
+  let offset = 0;
+
+  while (true) {
+    const page = await rpc<ChargerRecord[]>(
+      "get_charger_snapshot",
+      { p_limit: PAGE_SIZE, p_offset: offset },
+      { fresh: true },
+    );
+    for (const record of page) snapshot.set(record.serial_number, record);
+    onPage?.(snapshot.size);
+    if (page.length < PAGE_SIZE) break;
+    offset += PAGE_SIZE;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Apply a register diff in one transaction, recorded as an import batch
+ */
+export async function applyChargerSync(
+  params: SyncParams,
+): Promise<SyncResult> {
+  return rpc<SyncResult>("apply_charger_sync", params, { fresh: true });
+}
+
+/**
+ * Most recent import batches first
+ */
+export async function queryImportBatches(
+  limit: number,
+): Promise<ImportBatch[]> {
+  return rpc<ImportBatch[]>(
+    "get_import_batches",
+    { p_limit: limit, p_offset: 0 },
+    { fresh: true },
+  );
+}
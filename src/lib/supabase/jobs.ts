@@ -0,0 +1,35 @@
+// Server-side geocoding job queries shared by API routes (uses rpc, server only)
+
+import { rpc } from "@/lib/supabase/rpc";
+import type { GeocodeJob, GeocodeJobRequest } from "@/lib/geocoding/jobs";
+
+/**
+ * Queue a geocoding job. Null when no facility needs geocoding (or every
+ * one is already waiting in another job).
+ */
+export async function createGeocodeJob(
+  request: GeocodeJobRequest,
+  createdBy: string,
+): Promise<GeocodeJob | null> {
+  return rpc<GeocodeJob | null>(
+    "create_geocode_job",
+    {
+      p_country: request.country ?? null,
+      p_facility_ids: request.facilityIds ?? null,
+      p_retry_failed: request.retryFailed ?? false,
+      p_created_by: createdBy,
+    },
+    { fresh: true },
+  );
+}
+
+/**
+ * Unfinished jobs and the last few finished ones, newest first
+ */
+export async function queryGeocodeJobs(limit: number): Promise<GeocodeJob[]> {
+  return rpc<GeocodeJob[]>(
+    "get_geocode_jobs",
+    { p_limit: limit },
+    { fresh: true },
+  );
+}
@@ -0,0 +1,63 @@
+// Server-side geocode review queries shared by API routes (uses rpc, server only)
+
+import { rpc } from "@/lib/supabase/rpc";
+import type { Facility } from "@/lib/supabase/types";
+import type {
+  ResolvedReviewDecision,
+  ReviewFacility,
+} from "@/lib/geocoding/review";
+
+/**
+ * One page of the review queue, biggest facilities first
+ */
+export async function queryReviewQueue(options: {
+  threshold: number;
+  countries: string[] | null;
+  limit: number;
+  offset: number;
+}): Promise<{ total: number; facilities: ReviewFacility[] }> {
+  return rpc(
+    "get_geocode_review_queue",
+    {
+      p_max_confidence: options.threshold,
+      p_countries: options.countries,
+      p_limit: options.limit,
+      p_offset: options.offset,
+    },
+    { fresh: true },
+  );
+}
+
+/**
+ * Record a reviewer's decision and apply it to the facility. Null if the
+ * facility doesn't exist.
+ */
+export async function recordReviewDecision(
+  facilityId: string,
+  decision: ResolvedReviewDecision,
+  reviewedBy: string,
+): Promise<Facility | null> {
+  const position =
+    decision.decision === "candidate"
+      ? {
+          p_latitude: decision.candidate.latitude,
+          p_longitude: decision.candidate.longitude,
+          p_confidence: decision.candidate.confidence,
+          p_provider: decision.candidate.provider,
+          p_query_variant: decision.candidate.variant,
+        }
+      : decision.decision === "manual"
+        ? { p_latitude: decision.latitude, p_longitude: decision.longitude }
+        : {};
+
+  return rpc<Facility | null>(
+    "review_facility_geocode",
+    {
+      p_facility_id: facilityId,
+      p_decision: decision.decision,
+      p_reviewed_by: reviewedBy,
+      ...position,
+    },
+    { fresh: true },
+  );
+}
@@ -0,0 +1,44 @@
+// Server-side RPC helper for API routes (uses the service key, never import from client components)
+
+function getSupabaseConfig() {
+  // Use SUPABASE_CLOUD_* vars to match volterra convention (vs self-hosted)
+  const url =
+    process.env.SUPABASE_CLOUD_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_CLOUD_SERVICE_KEY;
+
+  if (!url || !key) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  return { url, key };
+}
+
+export async function rpc<T>(
+  functionName: string,
+  params: Record<string, unknown>,
+  // Bypass the cache for writes and reads that must see them
+  options: { fresh?: boolean } = {},
+): Promise<T> {
+  const { url, key } = getSupabaseConfig();
+
+  const response = await fetch(`${url}/rest/v1/rpc/${functionName}`, {
+    method: "POST",
+    headers: {
+      apikey: key,
+      Authorization: `Bearer ${key}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(params),
+    // Revalidate every 60 seconds for caching
+    ...(options.fresh ? { cache: "no-store" } : { next: { revalidate: 60 } }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `RPC ${functionName} failed: ${response.status} ${errorText}`,
+    );
+  }
+
+  return response.json();
+}
@@ -1,3 +1,5 @@
+import type { FeatureCollection, MultiPolygon, Polygon } from "geojson";
+
 export type Database = {
   asset_map: {
     Tables: {
@@ -12,7 +14,8 @@ export type Database = {
           country: string;
           latitude: number | null;
           longitude: number | null;
-          geocode_status: "pending" | "success" | "failed" | "manual";
+          geocode_status:
+            "pending" | "success" | "failed" | "manual" | "flagged";
           geocode_confidence: number | null;
           charger_count: number;
           created_at: string;
@@ -28,7 +31,8 @@ export type Database = {
           country: string;
           latitude?: number | null;
           longitude?: number | null;
-          geocode_status?: "pending" | "success" | "failed" | "manual";
+          geocode_status?:
+            "pending" | "success" | "failed" | "manual" | "flagged";
           geocode_confidence?: number | null;
           charger_count?: number;
           created_at?: string;
@@ -44,7 +48,8 @@ export type Database = {
           country?: string;
           latitude?: number | null;
           longitude?: number | null;
-          geocode_status?: "pending" | "success" | "failed" | "manual";
+          geocode_status?:
+            "pending" | "success" | "failed" | "manual" | "flagged";
           geocode_confidence?: number | null;
           charger_count?: number;
           created_at?: string;
@@ -144,6 +149,54 @@ export type FacilityInsert =
 export type Charger = Database["asset_map"]["Tables"]["chargers"]["Row"];
 export type ChargerInsert =
   Database["asset_map"]["Tables"]["chargers"]["Insert"];
+export type ChargerStatus = NonNullable<Charger["status"]>;
+export type ChargerType = NonNullable<Charger["charger_type"]>;
+export type ChargerOwnership = NonNullable<Charger["ownership"]>;
+export type GeocodeStatus = Facility["geocode_status"];
+
+// Facility returned by charger-filtered queries
+export type FilteredFacility = Facility & { matching_charger_count: number };
+
+// Sidebar statistics over the filtered (and selected) facilities
+export interface FacilityStats {
+  // Chargers, counting only filter-matching ones under charger filters
+  total: number;
+  byCountry: Record<string, number>;
+  facilitiesByCountry: Record<string, number>;
+  facilityCount: number;
+  geocodedCount: number;
+  pendingCount: number;
+}
+
+// Sidebar contents computed on the server (/api/facilities/summary), used
+// when the map renders vector tiles and the browser has no facility list
+export interface FacilitySummary {
+  stats: FacilityStats;
+  // The facilities with the most chargers, at most a fixed number
+  facilities: Facility[];
+  // More facilities matched than are listed
+  truncated: boolean;
+  vendors: string[];
+}
+
+// Download formats for /api/facilities/export
+export type ExportFormat = "csv" | "xlsx" | "geojson";
+
+// Facility with its full charger inventory
+export interface FacilityDetail {
+  facility: Facility;
+  chargers: Charger[];
+}
+
+// Charger counts per facility grouped by filterable attributes
+export interface ChargerGroup {
+  facility_id: string;
+  status: Charger["status"];
+  vendor: string | null;
+  charger_type: Charger["charger_type"];
+  ownership: Charger["ownership"];
+  charger_count: number;
+}
 
 // GeoJSON types for map
 export interface FacilityGeoJSON {
@@ -164,11 +217,61 @@ export interface FacilityFeature {
     charger_count: number;
     enabled_count: number;
     disabled_count: number;
+    out_of_order_count: number;
     address?: string;
     city?: string;
   };
 }
 
+// Charger counts by status for a facility
+export interface StatusCounts {
+  enabled_count: number;
+  disabled_count: number;
+  out_of_order_count: number;
+}
+
+// How markers and clusters are coloured
+export type MapColorMode = "country" | "health";
+
+// What the map draws: clusters, a charger-density heatmap, or coverage
+// gaps (areas below a charger threshold) under the clusters
+export type MapDisplayMode = "clusters" | "heatmap" | "gaps";
+
+// Gap analysis areas: a regular grid or an uploaded polygon set
+// (municipalities, postal codes) as GeoJSON
+export interface GapAnalysisSettings {
+  areas: "grid" | "polygons";
+  cellSizeKm: number;
+  // Areas with fewer chargers than this are highlighted
+  threshold: number;
+  polygons: FeatureCollection<Polygon | MultiPolygon> | null;
+  polygonsName: string | null;
+}
+
+// Where the cluster layer gets facilities from: client-side GeoJSON or
+// server-clustered vector tiles (/api/tiles)
+export type MapSourceMode = "geojson" | "tiles";
+
+// How facilities are loaded: everything up front, or only what the map
+// viewport covers
+export type FacilityLoadMode = "all" | "viewport";
+
+// Visible map area as [west, south, east, north], centre and zoom
+export interface MapViewport {
+  bounds: [number, number, number, number];
+  center: [number, number];
+  zoom: number;
+}
+
+// Area drawn on the map to narrow the sidebar and exports; polygon rings
+// are open (first vertex not repeated), coordinates are [lng, lat]
+export type MapSelection =
+  | { type: "polygon"; polygon: [number, number][] }
+  | { type: "radius"; center: [number, number]; radiusKm: number };
+
+// Active drawing tool; "lasso" and "polygon" both produce polygon selections
+export type SelectionTool = "lasso" | "polygon" | "radius";
+
 // Filter types
 export interface MapFilters {
   countries: string[];
@@ -176,5 +279,7 @@ export interface MapFilters {
   vendors: string[];
   chargerTypes: string[];
   ownerships: string[];
+  // Facility geocode statuses, e.g. everything but "flagged"
+  geocodeStatuses: string[];
   searchQuery: string;
 }
@@ -0,0 +1,238 @@
+/**
+ * Facility export builders for /api/facilities/export (server only: pulls
+ * in xlsx).
+ */
+
+import * as XLSX from "xlsx";
+import type { FeatureCollection, Point } from "geojson";
+import type {
+  Charger,
+  ExportFormat,
+  Facility,
+  FilteredFacility,
+} from "@/lib/supabase/types";
+
+export type ExportFile = {
+  body: string | Buffer<ArrayBuffer>;
+  contentType: string;
+  filename: string;
+};
+
+type ExportFacility = Facility | FilteredFacility;
+
+type FacilityRow = {
+  facility_id: string;
+  facility_name: string;
+  address: string | null;
+  postal_code: string | null;
+  city: string | null;
+  country: string;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_status: string;
+  charger_count: number;
+};
+
+type ChargerColumns = {
+  serial_number: string | null;
+  vendor: string | null;
+  model: string | null;
+  charger_type: string | null;
+  status: string | null;
+  ownership: string | null;
+  subscription_type: string | null;
+  installed_date: string | null;
+};
+
+const EMPTY_CHARGER: ChargerColumns = {
+  serial_number: null,
+  vendor: null,
+  model: null,
+  charger_type: null,
+  status: null,
+  ownership: null,
+  subscription_type: null,
+  installed_date: null,
+};
+
+// With charger filters the count covers only the matching chargers
+function chargerCount(facility: ExportFacility): number {
+  return "matching_charger_count" in facility
+    ? Number(facility.matching_charger_count)
+    : facility.charger_count;
+}
+
+function facilityRow(facility: ExportFacility): FacilityRow {
+  return {
+    facility_id: facility.id,
+    facility_name: facility.name,
+    address: facility.address,
+    postal_code: facility.postal_code,
+    city: facility.city,
+    country: facility.country,
+    latitude: facility.latitude,
+    longitude: facility.longitude,
+    geocode_status: facility.geocode_status,
+    charger_count: chargerCount(facility),
+  };
+}
+
+function chargerColumns(charger: Charger): ChargerColumns {
+  return {
+    serial_number: charger.serial_number,
+    vendor: charger.vendor,
+    model: charger.model,
+    charger_type: charger.charger_type,
+    status: charger.status,
+    ownership: charger.ownership,
+    subscription_type: charger.subscription_type,
+    installed_date: charger.installed_date,
+  };
+}
+
+function groupChargers(chargers: Charger[]): Map<string, Charger[]> {
+  const byFacility = new Map<string, Charger[]>();
+  for (const charger of chargers) {
+    if (!charger.facility_id) continue;
+    const list = byFacility.get(charger.facility_id);
+    if (list) {
+      list.push(charger);
+    } else {
+      byFacility.set(charger.facility_id, [charger]);
+    }
+  }
+  return byFacility;
+}
+
+// One row per charger; facilities without chargers keep a single row
+function facilityChargerRows(
+  facilities: ExportFacility[],
+  chargers: Charger[],
+): Array<FacilityRow & ChargerColumns> {
+  const byFacility = groupChargers(chargers);
+  return facilities.flatMap((facility) => {
+    const row = facilityRow(facility);
+    const list = byFacility.get(facility.id);
+    if (!list?.length) return [{ ...row, ...EMPTY_CHARGER }];
+    return list.map((charger) => ({ ...row, ...chargerColumns(charger) }));
+  });
+}
+
+// Text Excel would run as a formula when it opens the CSV
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote formula-like text (names, addresses, vendors) so it stays text.
+// XLSX cells are typed as strings and need no escaping.
+function escapeFormulas<T extends object>(row: T): T {
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [
+      key,
+      typeof value === "string" && FORMULA_PREFIX.test(value)
+        ? `'${value}`
+        : value,
+    ]),
+  ) as T;
+}
+
+function toCsv(
+  facilities: ExportFacility[],
+  chargers: Charger[] | null,
+): string {
+  const rows = chargers
+    ? facilityChargerRows(facilities, chargers)
+    : facilities.map(facilityRow);
+  const sheet = XLSX.utils.json_to_sheet(rows.map(escapeFormulas));
+  // BOM so Excel reads æ/ø/å correctly
+  return "\uFEFF" + XLSX.utils.sheet_to_csv(sheet);
+}
+
+function toXlsx(
+  facilities: ExportFacility[],
+  chargers: Charger[] | null,
+): Buffer<ArrayBuffer> {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(facilities.map(facilityRow)),
+    "Facilities",
+  );
+
+  if (chargers) {
+    const names = new Map(facilities.map((f) => [f.id, f.name]));
+    const rows = chargers.map((charger) => ({
+      facility_id: charger.facility_id,
+      facility_name: names.get(charger.facility_id ?? "") ?? null,
+      ...chargerColumns(charger),
+    }));
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(rows),
+      "Chargers",
+    );
+  }
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+// Only geocoded facilities can be features
+function toGeoJSON(
+  facilities: ExportFacility[],
+  chargers: Charger[] | null,
+): string {
+  const byFacility = chargers ? groupChargers(chargers) : null;
+
+  const collection: FeatureCollection<Point> = {
+    type: "FeatureCollection",
+    features: facilities
+      .filter((f) => f.latitude !== null && f.longitude !== null)
+      .map((facility) => ({
+        type: "Feature",
+        geometry: {
+          type: "Point",
+          coordinates: [facility.longitude!, facility.latitude!],
+        },
+        properties: {
+          ...facilityRow(facility),
+          ...(byFacility && {
+            chargers: (byFacility.get(facility.id) ?? []).map(chargerColumns),
+          }),
+        },
+      })),
+  };
+
+  return JSON.stringify(collection);
+}
+
+/**
+ * Render facilities (and optionally their chargers) in the requested format
+ */
+export function buildExport(
+  format: ExportFormat,
+  facilities: ExportFacility[],
+  chargers: Charger[] | null,
+): ExportFile {
+  const date = new Date().toISOString().slice(0, 10);
+  const basename = `facilities-${date}`;
+
+  switch (format) {
+    case "csv":
+      return {
+        body: toCsv(facilities, chargers),
+        contentType: "text/csv; charset=utf-8",
+        filename: `${basename}.csv`,
+      };
+    case "xlsx":
+      return {
+        body: toXlsx(facilities, chargers),
+        contentType:
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        filename: `${basename}.xlsx`,
+      };
+    case "geojson":
+      return {
+        body: toGeoJSON(facilities, chargers),
+        contentType: "application/geo+json",
+        filename: `${basename}.geojson`,
+      };
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Shared query-string parsing for facility API routes.
+ *
+ * List params repeat once per item (e.g. `vendors=ABB&vendors=Zaptec`), so
+ * vendor and model names may contain commas. Dates are ISO `YYYY-MM-DD`,
+ * `bbox` is `minLng,minLat,maxLng,maxLat`.
+ * `polygon` / `radius` selections use the format in ./selection.
+ */
+
+import type { MapSelection } from "@/lib/supabase/types";
+import { parseSelection, polygonWkt, selectionBounds } from "./selection";
+
+export type BBox = [number, number, number, number];
+
+export type FacilityQuery = {
+  countries: string[] | null;
+  search: string | null;
+  geocodedOnly: boolean;
+  statuses: string[] | null;
+  vendors: string[] | null;
+  models: string[] | null;
+  chargerTypes: string[] | null;
+  ownerships: string[] | null;
+  subscriptionTypes: string[] | null;
+  geocodeStatuses: string[] | null;
+  installedFrom: string | null;
+  installedTo: string | null;
+  bbox: BBox | null;
+  selection: MapSelection | null;
+};
+
+type ParseResult =
+  { query: FacilityQuery; error: null } | { query: null; error: string };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseList(
+  searchParams: URLSearchParams,
+  key: string,
+): string[] | null {
+  const values = searchParams
+    .getAll(key)
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return values.length ? values : null;
+}
+
+// Date parsing rolls impossible days over (2026-02-31 → 2026-03-03), so
+// the value must survive a round trip
+function isValidDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) return false;
+  const date = new Date(value);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function parseBBox(value: string): BBox | null {
+  const parts = value.split(",").map((v) => Number(v.trim()));
+  if (parts.length !== 4 || parts.some((v) => !Number.isFinite(v))) {
+    return null;
+  }
+
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  const inRange =
+    minLng >= -180 &&
+    maxLng <= 180 &&
+    minLat >= -90 &&
+    maxLat <= 90 &&
+    minLng < maxLng &&
+    minLat < maxLat;
+  return inRange ? [minLng, minLat, maxLng, maxLat] : null;
+}
+
+/**
+ * Parse facility filter parameters from a request's search params
+ */
+export function parseFacilityQuery(searchParams: URLSearchParams): ParseResult {
+  const installedFrom = searchParams.get("installed_from") || null;
+  const installedTo = searchParams.get("installed_to") || null;
+
+  if (installedFrom && !isValidDate(installedFrom)) {
+    return { query: null, error: "installed_from must be a YYYY-MM-DD date" };
+  }
+  if (installedTo && !isValidDate(installedTo)) {
+    return { query: null, error: "installed_to must be a YYYY-MM-DD date" };
+  }
+
+  const bboxParam = searchParams.get("bbox");
+  const bbox = bboxParam ? parseBBox(bboxParam) : null;
+  if (bboxParam && !bbox) {
+    return {
+      query: null,
+      error: "bbox must be minLng,minLat,maxLng,maxLat in degrees",
+    };
+  }
+
+  const selection = parseSelection(searchParams);
+  if (selection === null) {
+    return {
+      query: null,
+      error:
+        "polygon must be lng,lat;lng,lat;lng,lat and radius must be lng,lat,km",
+    };
+  }
+
+  return {
+    query: {
+      countries: parseList(searchParams, "countries"),
+      search: searchParams.get("search") || null,
+      geocodedOnly: searchParams.get("geocoded_only") === "true",
+      statuses: parseList(searchParams, "statuses"),
+      vendors: parseList(searchParams, "vendors"),
+      models: parseList(searchParams, "models"),
+      chargerTypes: parseList(searchParams, "charger_types"),
+      ownerships: parseList(searchParams, "ownerships"),
+      subscriptionTypes: parseList(searchParams, "subscription_types"),
+      geocodeStatuses: parseList(searchParams, "geocode_statuses"),
+      installedFrom,
+      installedTo,
+      bbox,
+      selection: selection ?? null,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Whether the query filters on charger attributes (needs the chargers join)
+ */
+export function hasChargerQuery(query: FacilityQuery): boolean {
+  return Boolean(
+    query.statuses ||
+    query.vendors ||
+    query.models ||
+    query.chargerTypes ||
+    query.ownerships ||
+    query.subscriptionTypes ||
+    query.installedFrom ||
+    query.installedTo,
+  );
+}
+
+/**
+ * Map a parsed query's charger filters to RPC parameters
+ */
+export function toChargerRpcParams(query: FacilityQuery) {
+  return {
+    p_statuses: query.statuses,
+    p_vendors: query.vendors,
+    p_models: query.models,
+    p_charger_types: query.chargerTypes,
+    p_ownerships: query.ownerships,
+    p_subscription_types: query.subscriptionTypes,
+    p_installed_from: query.installedFrom,
+    p_installed_to: query.installedTo,
+  };
+}
+
+/**
+ * Map a parsed query to `get_facilities_filtered` RPC parameters
+ */
+export function toFilteredRpcParams(query: FacilityQuery) {
+  return {
+    p_countries: query.countries,
+    p_search: query.search,
+    p_geocoded_only: query.geocodedOnly,
+    ...toChargerRpcParams(query),
+  };
+}
+
+/**
+ * Map a parsed query with a bbox to `get_facilities_in_bbox` RPC parameters
+ */
+export function toBBoxRpcParams(query: FacilityQuery, bbox: BBox) {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  return {
+    p_min_lng: minLng,
+    p_min_lat: minLat,
+    p_max_lng: maxLng,
+    p_max_lat: maxLat,
+    p_countries: query.countries,
+    p_search: query.search,
+    ...toChargerRpcParams(query),
+  };
+}
+
+/**
+ * Map a parsed query to `get_facilities_matching` RPC parameters. A
+ * selection without a bbox is narrowed to its bounding box first, so the
+ * geom index does the coarse filtering.
+ */
+export function toMatchingRpcParams(query: FacilityQuery) {
+  const { selection } = query;
+  const bbox = query.bbox ?? (selection && selectionBounds(selection));
+  const polygon = selection?.type === "polygon" ? selection : null;
+  const radius = selection?.type === "radius" ? selection : null;
+
+  return {
+    ...toFilteredRpcParams(query),
+    p_geocode_statuses: query.geocodeStatuses,
+    p_min_lng: bbox?.[0] ?? null,
+    p_min_lat: bbox?.[1] ?? null,
+    p_max_lng: bbox?.[2] ?? null,
+    p_max_lat: bbox?.[3] ?? null,
+    p_polygon: polygon && polygonWkt(polygon.polygon),
+    p_center_lng: radius?.center[0] ?? null,
+    p_center_lat: radius?.center[1] ?? null,
+    p_radius_km: radius?.radiusKm ?? null,
+  };
+}
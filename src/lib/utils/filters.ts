@@ -0,0 +1,188 @@
+import type {
+  ChargerGroup,
+  Facility,
+  MapFilters,
+  StatusCounts,
+} from "@/lib/supabase/types";
+
+/**
+ * Whether any charger-level filter (status, vendor, type, ownership) is active
+ */
+export function hasChargerFilters(filters: MapFilters): boolean {
+  return (
+    filters.statuses.length > 0 ||
+    filters.vendors.length > 0 ||
+    filters.chargerTypes.length > 0 ||
+    filters.ownerships.length > 0
+  );
+}
+
+/**
+ * Free-text search over name, city, address and postal code
+ */
+export function matchesSearch(
+  facility: Facility,
+  searchQuery: string,
+): boolean {
+  if (!searchQuery) return true;
+  const query = searchQuery.toLowerCase();
+  return [
+    facility.name,
+    facility.city,
+    facility.address,
+    facility.postal_code,
+  ].some((value) => value?.toLowerCase().includes(query));
+}
+
+// Empty selection matches everything; otherwise the value must be selected
+function matches(selected: string[], value: string | null): boolean {
+  if (selected.length === 0) return true;
+  return value !== null && selected.includes(value);
+}
+
+/**
+ * Facility-level geocode status filter
+ */
+export function matchesGeocodeStatus(
+  facility: Facility,
+  geocodeStatuses: string[],
+): boolean {
+  return matches(geocodeStatuses, facility.geocode_status);
+}
+
+/**
+ * Whether a facility counts in the heatmap and gap analysis. Pins flagged
+ * by the geocode sanity checks stay on the map but are left out, unless
+ * the geocode status filter selects them.
+ */
+export function countsTowardCoverage(
+  facility: Facility,
+  geocodeStatuses: string[],
+): boolean {
+  if (geocodeStatuses.length > 0) {
+    return matchesGeocodeStatus(facility, geocodeStatuses);
+  }
+  return facility.geocode_status !== "flagged";
+}
+
+/**
+ * Check a single charger group against the charger-level filters
+ */
+export function chargerGroupMatches(
+  group: ChargerGroup,
+  filters: MapFilters,
+): boolean {
+  return (
+    matches(filters.statuses, group.status) &&
+    matches(filters.vendors, group.vendor) &&
+    matches(filters.chargerTypes, group.charger_type) &&
+    matches(filters.ownerships, group.ownership)
+  );
+}
+
+/**
+ * Count a facility's chargers that pass the charger-level filters
+ */
+export function countMatchingChargers(
+  groups: ChargerGroup[] | undefined,
+  filters: MapFilters,
+): number {
+  if (!groups) return 0;
+  return groups.reduce(
+    (sum, g) => (chargerGroupMatches(g, filters) ? sum + g.charger_count : sum),
+    0,
+  );
+}
+
+/**
+ * Index charger groups by facility id
+ */
+export function groupByFacility(
+  groups: ChargerGroup[],
+): Map<string, ChargerGroup[]> {
+  const byFacility = new Map<string, ChargerGroup[]>();
+  for (const group of groups) {
+    const existing = byFacility.get(group.facility_id);
+    if (existing) {
+      existing.push(group);
+    } else {
+      byFacility.set(group.facility_id, [group]);
+    }
+  }
+  return byFacility;
+}
+
+/**
+ * Count a facility's chargers by status, honouring the charger-level filters
+ */
+export function countStatuses(
+  groups: ChargerGroup[] | undefined,
+  filters: MapFilters,
+): StatusCounts {
+  const counts: StatusCounts = {
+    enabled_count: 0,
+    disabled_count: 0,
+    out_of_order_count: 0,
+  };
+  if (!groups) return counts;
+
+  for (const group of groups) {
+    if (!chargerGroupMatches(group, filters)) continue;
+    switch (group.status) {
+      case "Enabled":
+        counts.enabled_count += group.charger_count;
+        break;
+      case "Disabled":
+        counts.disabled_count += group.charger_count;
+        break;
+      case "Out of order":
+        counts.out_of_order_count += group.charger_count;
+        break;
+    }
+  }
+  return counts;
+}
+
+// Lists are repeated params (`vendors=a&vendors=b`), so an item may
+// contain a comma
+function appendList(params: URLSearchParams, key: string, values: string[]) {
+  for (const value of values) params.append(key, value);
+}
+
+/**
+ * Serialise map filters to the query parameters accepted by the facility
+ * API routes (/api/facilities, /api/tiles)
+ */
+export function filtersToSearchParams(filters: MapFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  appendList(params, "countries", filters.countries);
+  if (filters.searchQuery) params.set("search", filters.searchQuery);
+  appendList(params, "statuses", filters.statuses);
+  appendList(params, "vendors", filters.vendors);
+  appendList(params, "charger_types", filters.chargerTypes);
+  appendList(params, "ownerships", filters.ownerships);
+  appendList(params, "geocode_statuses", filters.geocodeStatuses);
+  return params;
+}
+
+function listParam(params: URLSearchParams, key: string): string[] {
+  return params
+    .getAll(key)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Inverse of filtersToSearchParams; missing params yield empty filters
+ */
+export function filtersFromSearchParams(params: URLSearchParams): MapFilters {
+  return {
+    countries: listParam(params, "countries"),
+    statuses: listParam(params, "statuses"),
+    vendors: listParam(params, "vendors"),
+    chargerTypes: listParam(params, "charger_types"),
+    ownerships: listParam(params, "ownerships"),
+    geocodeStatuses: listParam(params, "geocode_statuses"),
+    searchQuery: params.get("search") ?? "",
+  };
+}
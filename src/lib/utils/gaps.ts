@@ -0,0 +1,326 @@
+/**
+ * Coverage gap analysis: count chargers per area (grid cell or uploaded
+ * polygon) and flag areas below a threshold. Grid cells far from every
+ * facility (sea, mountains, forest) are not gaps: facilities are housing
+ * associations and other sites, so they mark where people live.
+ */
+
+import type {
+  Feature,
+  FeatureCollection,
+  MultiPolygon,
+  Polygon,
+  Position,
+} from "geojson";
+import type { Facility, GapAnalysisSettings } from "@/lib/supabase/types";
+import { pointInPolygon } from "./selection";
+
+export type GapLevel = "none" | "low" | "covered";
+
+export interface GapProperties {
+  name: string | null;
+  charger_count: number;
+  level: GapLevel;
+}
+
+export type GapAreas = FeatureCollection<Polygon | MultiPolygon, GapProperties>;
+
+export interface GapResult {
+  areas: GapAreas;
+  noneCount: number;
+  lowCount: number;
+  // Grid too fine for the viewport; nothing was computed
+  tooManyCells: boolean;
+  // Polygons were limited to those fully in view, and how many were left out
+  inViewOnly: boolean;
+  outOfViewCount: number;
+}
+
+export const GAP_COLORS: Record<GapLevel, string> = {
+  none: "#EF4444", // red-500
+  low: "#F59E0B", // amber-500
+  covered: "#22C55E", // green-500
+};
+
+const KM_PER_DEGREE = 111.32;
+// Upper bound on grid cells scanned per viewport
+const MAX_GRID_CELLS = 20000;
+// Grid cells farther than about this from every facility are left out
+export const SETTLED_RADIUS_KM = 10;
+
+function gapLevel(count: number, threshold: number): GapLevel {
+  if (count === 0) return "none";
+  return count < threshold ? "low" : "covered";
+}
+
+function summarise(
+  features: Feature<Polygon | MultiPolygon, GapProperties>[],
+): GapResult {
+  return {
+    areas: { type: "FeatureCollection", features },
+    noneCount: features.filter((f) => f.properties.level === "none").length,
+    lowCount: features.filter((f) => f.properties.level === "low").length,
+    tooManyCells: false,
+    inViewOnly: false,
+    outOfViewCount: 0,
+  };
+}
+
+// Rows are fixed latitude bands; each row's cell width is scaled so cells
+// stay roughly square, and the grid is anchored at 0,0 so it doesn't shift
+// when the map pans
+function gridSteps(cellSizeKm: number, row: number) {
+  const latStep = cellSizeKm / KM_PER_DEGREE;
+  const midLat = (row + 0.5) * latStep;
+  const lngStep =
+    cellSizeKm /
+    (KM_PER_DEGREE * Math.max(Math.cos((midLat * Math.PI) / 180), 0.01));
+  return { latStep, lngStep };
+}
+
+// Keys of the grid cells within SETTLED_RADIUS_KM (measured in whole
+// cells, so roughly) of a facility near the bounds
+function settledCells(
+  facilities: Facility[],
+  bounds: [number, number, number, number],
+  cellSizeKm: number,
+): Set<string> {
+  const [west, south, east, north] = bounds;
+  const latStep = cellSizeKm / KM_PER_DEGREE;
+  const reach = Math.ceil(SETTLED_RADIUS_KM / cellSizeKm);
+  const latMargin = SETTLED_RADIUS_KM / KM_PER_DEGREE;
+
+  const cells = new Set<string>();
+  // Cells already spread from; most facilities share one with others
+  const seen = new Set<string>();
+  for (const f of facilities) {
+    if (f.latitude === null || f.longitude === null) continue;
+    const lngMargin =
+      latMargin / Math.max(Math.cos((f.latitude * Math.PI) / 180), 0.01);
+    if (
+      f.latitude < south - latMargin ||
+      f.latitude > north + latMargin ||
+      f.longitude < west - lngMargin ||
+      f.longitude > east + lngMargin
+    ) {
+      continue;
+    }
+
+    const row = Math.floor(f.latitude / latStep);
+    const key = `${row}:${Math.floor(f.longitude / gridSteps(cellSizeKm, row).lngStep)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    for (let r = row - reach; r <= row + reach; r++) {
+      const col = Math.floor(f.longitude / gridSteps(cellSizeKm, r).lngStep);
+      for (let c = col - reach; c <= col + reach; c++) cells.add(`${r}:${c}`);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Grid cells in the bounds that fall below the threshold. Covered cells are
+ * left out so the map only shades the gaps, and so are cells more than
+ * SETTLED_RADIUS_KM from any of `settled` (every facility, regardless of
+ * the filters), which would otherwise fill the sea and the mountains.
+ */
+export function gridGaps(
+  facilities: Facility[],
+  bounds: [number, number, number, number],
+  settings: Pick<GapAnalysisSettings, "cellSizeKm" | "threshold">,
+  settled: Facility[],
+): GapResult {
+  const { cellSizeKm, threshold } = settings;
+  const [west, south, east, north] = bounds;
+  const latStep = cellSizeKm / KM_PER_DEGREE;
+  const firstRow = Math.floor(south / latStep);
+  const lastRow = Math.floor(north / latStep);
+
+  // Rough cell count before doing any work
+  const { lngStep: midLngStep } = gridSteps(
+    cellSizeKm,
+    Math.floor((firstRow + lastRow) / 2),
+  );
+  const estimate =
+    (lastRow - firstRow + 1) * Math.ceil((east - west) / midLngStep + 1);
+  if (estimate > MAX_GRID_CELLS) {
+    return { ...summarise([]), tooManyCells: true };
+  }
+
+  const settledKeys = settledCells(settled, bounds, cellSizeKm);
+
+  const counts = new Map<string, number>();
+  for (const f of facilities) {
+    if (f.latitude === null || f.longitude === null) continue;
+    const row = Math.floor(f.latitude / latStep);
+    const col = Math.floor(f.longitude / gridSteps(cellSizeKm, row).lngStep);
+    const key = `${row}:${col}`;
+    counts.set(key, (counts.get(key) ?? 0) + f.charger_count);
+  }
+
+  const features: Feature<Polygon, GapProperties>[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    const { lngStep } = gridSteps(cellSizeKm, row);
+    for (
+      let col = Math.floor(west / lngStep);
+      col <= Math.floor(east / lngStep);
+      col++
+    ) {
+      const key = `${row}:${col}`;
+      if (!settledKeys.has(key)) continue;
+      const count = counts.get(key) ?? 0;
+      const level = gapLevel(count, threshold);
+      if (level === "covered") continue;
+
+      const [x0, y0] = [col * lngStep, row * latStep];
+      const [x1, y1] = [x0 + lngStep, y0 + latStep];
+      features.push({
+        type: "Feature",
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [x0, y0],
+              [x1, y0],
+              [x1, y1],
+              [x0, y1],
+              [x0, y0],
+            ],
+          ],
+        },
+        properties: { name: null, charger_count: count, level },
+      });
+    }
+  }
+
+  return summarise(features);
+}
+
+function toRing(ring: Position[]): [number, number][] {
+  return ring.map((p) => [p[0], p[1]]);
+}
+
+// Outer ring in, holes out
+function inPolygonRings(point: [number, number], rings: Position[][]) {
+  const [outer, ...holes] = rings;
+  return (
+    pointInPolygon(point, toRing(outer)) &&
+    !holes.some((hole) => pointInPolygon(point, toRing(hole)))
+  );
+}
+
+function inGeometry(point: [number, number], geometry: Polygon | MultiPolygon) {
+  return geometry.type === "Polygon"
+    ? inPolygonRings(point, geometry.coordinates)
+    : geometry.coordinates.some((rings) => inPolygonRings(point, rings));
+}
+
+// Loops rather than Math.min(...) so detailed rings can't overflow the stack
+function geometryBounds(geometry: Polygon | MultiPolygon) {
+  const outerRings =
+    geometry.type === "Polygon"
+      ? [geometry.coordinates[0]]
+      : geometry.coordinates.map((rings) => rings[0]);
+  const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const ring of outerRings) {
+    for (const [lng, lat] of ring) {
+      bounds[0] = Math.min(bounds[0], lng);
+      bounds[1] = Math.min(bounds[1], lat);
+      bounds[2] = Math.max(bounds[2], lng);
+      bounds[3] = Math.max(bounds[3], lat);
+    }
+  }
+  return bounds;
+}
+
+// Common name properties in municipality / postal-code datasets
+const NAME_KEYS = ["name", "navn", "kommunenavn", "postnummer", "postal_code"];
+
+function featureName(properties: Record<string, unknown> | null) {
+  for (const key of NAME_KEYS) {
+    const value = properties?.[key];
+    if (value !== undefined && value !== null) return String(value);
+  }
+  return null;
+}
+
+/**
+ * Charger counts for every uploaded polygon (all levels are kept so covered
+ * areas can be told apart from areas outside the set). With `inView`, only
+ * polygons entirely inside those bounds are counted: when facilities are
+ * loaded for the view alone, a polygon reaching outside it would be short
+ * of chargers and show up as a false gap.
+ */
+export function polygonGaps(
+  facilities: Facility[],
+  polygons: FeatureCollection<Polygon | MultiPolygon>,
+  threshold: number,
+  inView?: [number, number, number, number],
+): GapResult {
+  const points = facilities.flatMap((f) =>
+    f.latitude === null || f.longitude === null
+      ? []
+      : [{ point: [f.longitude, f.latitude] as [number, number], f }],
+  );
+
+  const counted = inView
+    ? polygons.features.filter((feature) => {
+        const [west, south, east, north] = geometryBounds(feature.geometry);
+        return (
+          west >= inView[0] &&
+          south >= inView[1] &&
+          east <= inView[2] &&
+          north <= inView[3]
+        );
+      })
+    : polygons.features;
+
+  const features = counted.map((feature) => {
+    // Cheap bounding-box test before the ring tests
+    const [west, south, east, north] = geometryBounds(feature.geometry);
+    const count = points.reduce((sum, { point: [lng, lat], f }) => {
+      if (lng < west || lng > east || lat < south || lat > north) return sum;
+      return inGeometry([lng, lat], feature.geometry)
+        ? sum + f.charger_count
+        : sum;
+    }, 0);
+
+    return {
+      type: "Feature" as const,
+      geometry: feature.geometry,
+      properties: {
+        name: featureName(feature.properties),
+        charger_count: count,
+        level: gapLevel(count, threshold),
+      },
+    };
+  });
+
+  return {
+    ...summarise(features),
+    inViewOnly: inView !== undefined,
+    outOfViewCount: polygons.features.length - counted.length,
+  };
+}
+
+/**
+ * Keep only Polygon / MultiPolygon features from an uploaded GeoJSON file
+ */
+export function parsePolygonSet(
+  text: string,
+): FeatureCollection<Polygon | MultiPolygon> | null {
+  try {
+    const data = JSON.parse(text) as FeatureCollection;
+    if (data.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+      return null;
+    }
+    const features = data.features.filter(
+      (f): f is Feature<Polygon | MultiPolygon> =>
+        f.geometry?.type === "Polygon" || f.geometry?.type === "MultiPolygon",
+    );
+    return features.length ? { type: "FeatureCollection", features } : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,4 +1,4 @@
-import type { Facility } from "@/lib/supabase/types";
+import type { Facility, StatusCounts } from "@/lib/supabase/types";
 import type { FeatureCollection, Point, Feature } from "geojson";
 
 export interface FacilityProperties {
@@ -9,16 +9,28 @@ export interface FacilityProperties {
   address: string | null;
   postal_code: string | null;
   charger_count: number;
+  enabled_count: number;
+  disabled_count: number;
+  out_of_order_count: number;
 }
 
 export type FacilityFeature = Feature<Point, FacilityProperties>;
 export type FacilitiesGeoJSON = FeatureCollection<Point, FacilityProperties>;
 
+const NO_STATUS_COUNTS: StatusCounts = {
+  enabled_count: 0,
+  disabled_count: 0,
+  out_of_order_count: 0,
+};
+
 /**
  * Convert facilities array to GeoJSON FeatureCollection
  * Only includes facilities with valid coordinates
  */
-export function facilitiesToGeoJSON(facilities: Facility[]): FacilitiesGeoJSON {
+export function facilitiesToGeoJSON(
+  facilities: Facility[],
+  statusCounts?: Map<string, StatusCounts>,
+): FacilitiesGeoJSON {
   const features: FacilityFeature[] = facilities
     .filter((f) => f.latitude !== null && f.longitude !== null)
     .map((f) => ({
@@ -31,6 +43,7 @@ export function facilitiesToGeoJSON(facilities: Facility[]): FacilitiesGeoJSON {
         address: f.address,
         postal_code: f.postal_code,
         charger_count: f.charger_count,
+        ...(statusCounts?.get(f.id) ?? NO_STATUS_COUNTS),
       },
       geometry: {
         type: "Point" as const,
@@ -59,3 +72,13 @@ export function getCountryColor(country: string): string {
       return "#6366F1"; // indigo-500
   }
 }
+
+// Health thresholds: share of chargers that are Disabled or Out of order
+export const HEALTH_THRESHOLDS = { warning: 0.1, critical: 0.3 };
+
+export const HEALTH_COLORS = {
+  healthy: "#22C55E", // green-500
+  warning: "#F59E0B", // amber-500
+  critical: "#EF4444", // red-500
+  unknown: "#9CA3AF", // gray-400
+};
@@ -0,0 +1,177 @@
+/**
+ * Geometry for map selections (polygon / lasso and radius).
+ *
+ * Query-string form, shared by the page URL and /api/facilities/export:
+ *   polygon=lng,lat;lng,lat;lng,lat   (at least three vertices)
+ *   radius=lng,lat,km
+ */
+
+import type { Facility, MapSelection } from "@/lib/supabase/types";
+
+const EARTH_RADIUS_KM = 6371;
+// Vertices used to draw a radius selection as a polygon
+const CIRCLE_STEPS = 64;
+// Keeps long lasso paths short enough for a URL
+const PARAM_DECIMALS = 5;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Great-circle distance between two [lng, lat] points
+ */
+export function distanceKm(a: [number, number], b: [number, number]): number {
+  const dLat = toRad(b[1] - a[1]);
+  const dLng = toRad(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Ray-casting test; fine for territory-sized polygons away from the poles
+ */
+export function pointInPolygon(
+  point: [number, number],
+  polygon: [number, number][],
+): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Polygon approximating a circle on the sphere, for drawing
+ */
+export function circlePolygon(
+  center: [number, number],
+  radiusKm: number,
+): [number, number][] {
+  const [lng, lat] = center.map(toRad);
+  const angular = radiusKm / EARTH_RADIUS_KM;
+
+  return Array.from({ length: CIRCLE_STEPS }, (_, i) => {
+    const bearing = (2 * Math.PI * i) / CIRCLE_STEPS;
+    const pLat = Math.asin(
+      Math.sin(lat) * Math.cos(angular) +
+        Math.cos(lat) * Math.sin(angular) * Math.cos(bearing),
+    );
+    const pLng =
+      lng +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(lat),
+        Math.cos(angular) - Math.sin(lat) * Math.sin(pLat),
+      );
+    return [toDeg(pLng), toDeg(pLat)];
+  });
+}
+
+/**
+ * Outline of a selection as an open ring
+ */
+export function selectionRing(selection: MapSelection): [number, number][] {
+  return selection.type === "polygon"
+    ? selection.polygon
+    : circlePolygon(selection.center, selection.radiusKm);
+}
+
+/**
+ * [west, south, east, north] around the selection
+ */
+export function selectionBounds(
+  selection: MapSelection,
+): [number, number, number, number] {
+  const ring = selectionRing(selection);
+  const lngs = ring.map((p) => p[0]);
+  const lats = ring.map((p) => p[1]);
+  return [
+    Math.min(...lngs),
+    Math.min(...lats),
+    Math.max(...lngs),
+    Math.max(...lats),
+  ];
+}
+
+/**
+ * A polygon selection as WKT with a closed ring, for PostGIS
+ */
+export function polygonWkt(polygon: [number, number][]): string {
+  const ring = [...polygon, polygon[0]];
+  return `POLYGON((${ring.map(([lng, lat]) => `${lng} ${lat}`).join(",")}))`;
+}
+
+export function facilityInSelection(
+  facility: Facility,
+  selection: MapSelection,
+): boolean {
+  if (facility.latitude === null || facility.longitude === null) return false;
+  const point: [number, number] = [facility.longitude, facility.latitude];
+
+  return selection.type === "polygon"
+    ? pointInPolygon(point, selection.polygon)
+    : distanceKm(point, selection.center) <= selection.radiusKm;
+}
+
+export function describeSelection(selection: MapSelection): string {
+  return selection.type === "polygon"
+    ? "Drawn area"
+    : `Within ${selection.radiusKm} km`;
+}
+
+function parsePair(value: string): [number, number] | null {
+  const [lng, lat] = value.split(",").map(Number);
+  if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+  if (Math.abs(lng) > 180 || Math.abs(lat) > 90) return null;
+  return [lng, lat];
+}
+
+/**
+ * Read a selection from `polygon` or `radius`. Returns undefined when
+ * neither is present and null when the value is malformed.
+ */
+export function parseSelection(
+  params: URLSearchParams,
+): MapSelection | null | undefined {
+  const polygon = params.get("polygon");
+  if (polygon) {
+    const points = polygon.split(";").map(parsePair);
+    if (points.length < 3 || points.some((p) => p === null)) return null;
+    return { type: "polygon", polygon: points as [number, number][] };
+  }
+
+  const radius = params.get("radius");
+  if (radius) {
+    const parts = radius.split(",");
+    const center = parsePair(parts.slice(0, 2).join(","));
+    const radiusKm = Number(parts[2]);
+    if (parts.length !== 3 || !center || !(radiusKm > 0)) return null;
+    return { type: "radius", center, radiusKm };
+  }
+
+  return undefined;
+}
+
+/**
+ * Add a selection's `polygon` or `radius` param
+ */
+export function setSelectionParam(
+  params: URLSearchParams,
+  selection: MapSelection,
+): void {
+  const pair = ([lng, lat]: [number, number]) =>
+    `${lng.toFixed(PARAM_DECIMALS)},${lat.toFixed(PARAM_DECIMALS)}`;
+
+  if (selection.type === "polygon") {
+    params.set("polygon", selection.polygon.map(pair).join(";"));
+  } else {
+    params.set("radius", `${pair(selection.center)},${selection.radiusKm}`);
+  }
+}
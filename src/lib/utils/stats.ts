@@ -0,0 +1,35 @@
+/**
+ * Sidebar statistics, computed in the browser from the loaded facilities.
+ * /api/facilities/summary aggregates the same totals in the database.
+ */
+
+import type { Facility, FacilityStats } from "@/lib/supabase/types";
+
+/**
+ * Charger and facility totals, per country and by whether the facility
+ * has a location. `charger_count` should already hold only the matching
+ * chargers when charger filters are active.
+ */
+export function facilityStats(facilities: Facility[]): FacilityStats {
+  const byCountry: Record<string, number> = {};
+  // Facilities by country (count of facilities, not chargers)
+  const facilitiesByCountry: Record<string, number> = {};
+  let total = 0;
+  let geocodedCount = 0;
+
+  for (const f of facilities) {
+    total += f.charger_count;
+    byCountry[f.country] = (byCountry[f.country] || 0) + f.charger_count;
+    facilitiesByCountry[f.country] = (facilitiesByCountry[f.country] || 0) + 1;
+    if (f.latitude !== null && f.longitude !== null) geocodedCount++;
+  }
+
+  return {
+    total,
+    byCountry,
+    facilitiesByCountry,
+    facilityCount: facilities.length,
+    geocodedCount,
+    pendingCount: facilities.length - geocodedCount,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Slippy-map tile helpers (Web Mercator, XYZ scheme).
+ * Used to split the viewport into cacheable bbox requests.
+ */
+
+export type TileCoord = { z: number; x: number; y: number };
+
+// [west, south, east, north] in degrees
+export type LngLatBounds = [number, number, number, number];
+
+// Web Mercator is undefined at the poles
+const MAX_LATITUDE = 85.0511287798;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function lngToTileX(lng: number, z: number): number {
+  const n = 2 ** z;
+  return clamp(Math.floor(((lng + 180) / 360) * n), 0, n - 1);
+}
+
+function latToTileY(lat: number, z: number): number {
+  const n = 2 ** z;
+  const rad = (clamp(lat, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180;
+  const y = ((1 - Math.asinh(Math.tan(rad)) / Math.PI) / 2) * n;
+  return clamp(Math.floor(y), 0, n - 1);
+}
+
+function tileYToLat(y: number, z: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** z;
+  return (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+}
+
+export function tileKey({ z, x, y }: TileCoord): string {
+  return `${z}/${x}/${y}`;
+}
+
+/**
+ * Bounds covered by a tile
+ */
+export function tileToBounds({ z, x, y }: TileCoord): LngLatBounds {
+  const n = 2 ** z;
+  return [
+    (x / n) * 360 - 180,
+    tileYToLat(y + 1, z),
+    ((x + 1) / n) * 360 - 180,
+    tileYToLat(y, z),
+  ];
+}
+
+/**
+ * All tiles at zoom `z` that intersect the bounds
+ */
+export function tilesInBounds(bounds: LngLatBounds, z: number): TileCoord[] {
+  const [west, south, east, north] = bounds;
+  const minX = lngToTileX(west, z);
+  const maxX = lngToTileX(east, z);
+  // Tile rows count down from the north
+  const minY = latToTileY(north, z);
+  const maxY = latToTileY(south, z);
+
+  const tiles: TileCoord[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * The tile one zoom level up that contains this one
+ */
+export function parentTile({ z, x, y }: TileCoord): TileCoord | null {
+  if (z === 0) return null;
+  return { z: z - 1, x: Math.floor(x / 2), y: Math.floor(y / 2) };
+}
+
+/**
+ * Half-open containment so points on a shared edge belong to one tile
+ */
+export function boundsContain(
+  bounds: LngLatBounds,
+  lng: number,
+  lat: number,
+): boolean {
+  const [west, south, east, north] = bounds;
+  return lng >= west && lng < east && lat >= south && lat < north;
+}
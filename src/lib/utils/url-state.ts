@@ -0,0 +1,80 @@
+import type {
+  MapFilters,
+  MapSelection,
+  MapViewport,
+} from "@/lib/supabase/types";
+import { filtersFromSearchParams, filtersToSearchParams } from "./filters";
+import { parseSelection, setSelectionParam } from "./selection";
+
+/**
+ * Map page state mirrored in the query string so a link reopens the same
+ * view, e.g. `/?countries=Norway&statuses=Out of order&facility=<id>&lat=59.91&lng=10.75&zoom=12`
+ */
+export type UrlState = {
+  filters: MapFilters;
+  facilityId: string | null;
+  view: { center: [number, number]; zoom: number } | null;
+  sidebarOpen: boolean;
+  selection: MapSelection | null;
+};
+
+// ~1 m at these latitudes; keeps links short
+const COORD_DECIMALS = 5;
+const ZOOM_DECIMALS = 2;
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseView(params: URLSearchParams): UrlState["view"] {
+  const lat = parseNumber(params.get("lat"));
+  const lng = parseNumber(params.get("lng"));
+  const zoom = parseNumber(params.get("zoom"));
+
+  if (lat === null || lng === null || zoom === null) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 0 || zoom > 22) {
+    return null;
+  }
+  return { center: [lng, lat], zoom };
+}
+
+/**
+ * Read map page state from the query string
+ */
+export function parseUrlState(params: URLSearchParams): UrlState {
+  return {
+    filters: filtersFromSearchParams(params),
+    facilityId: params.get("facility") || null,
+    view: parseView(params),
+    sidebarOpen: params.get("sidebar") !== "closed",
+    // Malformed selections are dropped rather than failing the page
+    selection: parseSelection(params) ?? null,
+  };
+}
+
+/**
+ * Serialise map page state; defaults are omitted to keep links short
+ */
+export function urlStateToSearchParams(state: {
+  filters: MapFilters;
+  facilityId: string | null;
+  viewport: MapViewport | null;
+  sidebarOpen: boolean;
+  selection: MapSelection | null;
+}): URLSearchParams {
+  const params = filtersToSearchParams(state.filters);
+
+  if (state.facilityId) params.set("facility", state.facilityId);
+  if (state.viewport) {
+    const [lng, lat] = state.viewport.center;
+    params.set("lat", lat.toFixed(COORD_DECIMALS));
+    params.set("lng", lng.toFixed(COORD_DECIMALS));
+    params.set("zoom", state.viewport.zoom.toFixed(ZOOM_DECIMALS));
+  }
+  if (!state.sidebarOpen) params.set("sidebar", "closed");
+  if (state.selection) setSelectionParam(params, state.selection);
+
+  return params;
+}
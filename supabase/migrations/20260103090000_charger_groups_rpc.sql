@@ -0,0 +1,39 @@
+-- Migration: charger_groups_rpc
+-- Per-facility charger counts grouped by the attributes the map filters on.
+-- One row per (facility, status, vendor, charger_type, ownership) combination,
+-- which keeps the payload far smaller than shipping every charger row.
+CREATE OR REPLACE FUNCTION public.get_facility_charger_groups (
+  p_countries TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  facility_id UUID,
+  status TEXT,
+  vendor TEXT,
+  charger_type TEXT,
+  ownership TEXT,
+  charger_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.facility_id,
+    c.status,
+    c.vendor,
+    c.charger_type,
+    c.ownership,
+    COUNT(*)::BIGINT AS charger_count
+  FROM asset_map.chargers c
+  WHERE c.facility_id IS NOT NULL
+    AND (p_countries IS NULL OR c.country = ANY(p_countries))
+  GROUP BY c.facility_id, c.status, c.vendor, c.charger_type, c.ownership
+  ORDER BY c.facility_id, c.status, c.vendor, c.charger_type, c.ownership
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT
+EXECUTE ON FUNCTION public.get_facility_charger_groups (TEXT[], INTEGER, INTEGER) TO anon,
+authenticated,
+service_role;
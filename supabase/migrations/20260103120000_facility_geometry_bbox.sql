@@ -0,0 +1,142 @@
+-- Migration: facility_geometry_bbox
+-- PostGIS point geometry on facilities and a bounding-box facility query
+-- for viewport-driven loading.
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- Generated from latitude/longitude so geocoding and imports keep it in sync
+ALTER TABLE asset_map.facilities
+ADD COLUMN IF NOT EXISTS geom extensions.geometry (Point, 4326) GENERATED ALWAYS AS (
+  CASE
+    WHEN latitude IS NOT NULL
+    AND longitude IS NOT NULL THEN extensions.ST_SetSRID (
+      extensions.ST_MakePoint (longitude::DOUBLE PRECISION, latitude::DOUBLE PRECISION),
+      4326
+    )
+  END
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_facilities_geom ON asset_map.facilities USING GIST (geom);
+
+-- Facilities inside a lon/lat bounding box. Accepts the same filters as
+-- get_facilities_filtered; without charger filters matching_charger_count
+-- is the facility's total charger count.
+CREATE OR REPLACE FUNCTION public.get_facilities_in_bbox (
+  p_min_lng DOUBLE PRECISION,
+  p_min_lat DOUBLE PRECISION,
+  p_max_lng DOUBLE PRECISION,
+  p_max_lat DOUBLE PRECISION,
+  p_countries TEXT[] DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_vendors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_charger_types TEXT[] DEFAULT NULL,
+  p_ownerships TEXT[] DEFAULT NULL,
+  p_subscription_types TEXT[] DEFAULT NULL,
+  p_installed_from DATE DEFAULT NULL,
+  p_installed_to DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  hubspot_id TEXT,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  country TEXT,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  geocode_status TEXT,
+  geocode_confidence DECIMAL(3, 2),
+  charger_count INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  matching_charger_count BIGINT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET
+  search_path = 'asset_map',
+  'public',
+  'extensions' AS $$
+DECLARE
+  v_bbox GEOMETRY := ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326);
+  v_charger_filtered BOOLEAN := p_statuses IS NOT NULL
+    OR p_vendors IS NOT NULL
+    OR p_models IS NOT NULL
+    OR p_charger_types IS NOT NULL
+    OR p_ownerships IS NOT NULL
+    OR p_subscription_types IS NOT NULL
+    OR p_installed_from IS NOT NULL
+    OR p_installed_to IS NOT NULL;
+BEGIN
+  RETURN QUERY
+  WITH bbox_facilities AS (
+    SELECT f.*
+    FROM asset_map.facilities f
+    WHERE f.geom && v_bbox
+      AND (p_countries IS NULL OR f.country = ANY(p_countries))
+      AND (p_search IS NULL OR f.name ILIKE '%' || p_search || '%')
+  ),
+  matching AS (
+    SELECT
+      c.facility_id AS match_facility_id,
+      COUNT(*)::BIGINT AS match_count
+    FROM asset_map.chargers c
+    JOIN bbox_facilities bf ON bf.id = c.facility_id
+    WHERE v_charger_filtered
+      AND (p_statuses IS NULL OR c.status = ANY(p_statuses))
+      AND (p_vendors IS NULL OR c.vendor = ANY(p_vendors))
+      AND (p_models IS NULL OR c.model = ANY(p_models))
+      AND (p_charger_types IS NULL OR c.charger_type = ANY(p_charger_types))
+      AND (p_ownerships IS NULL OR c.ownership = ANY(p_ownerships))
+      AND (p_subscription_types IS NULL OR c.subscription_type = ANY(p_subscription_types))
+      AND (p_installed_from IS NULL OR c.installed_date >= p_installed_from)
+      AND (p_installed_to IS NULL OR c.installed_date <= p_installed_to)
+    GROUP BY c.facility_id
+  )
+  SELECT
+    bf.id,
+    bf.hubspot_id,
+    bf.name,
+    bf.address,
+    bf.city,
+    bf.postal_code,
+    bf.country,
+    bf.latitude,
+    bf.longitude,
+    bf.geocode_status,
+    bf.geocode_confidence,
+    bf.charger_count,
+    bf.created_at,
+    bf.updated_at,
+    COALESCE(m.match_count, bf.charger_count::BIGINT)
+  FROM bbox_facilities bf
+  LEFT JOIN matching m ON m.match_facility_id = bf.id
+  WHERE NOT v_charger_filtered OR m.match_count > 0
+  ORDER BY bf.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+GRANT
+EXECUTE ON FUNCTION public.get_facilities_in_bbox (
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  TEXT[],
+  TEXT,
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  DATE,
+  DATE,
+  INTEGER,
+  INTEGER
+) TO anon,
+authenticated,
+service_role;
@@ -0,0 +1,78 @@
+-- Migration: chargers_for_facilities_rpc
+-- Charger rows for a set of facilities, optionally narrowed by the same
+-- charger filters as get_facilities_filtered. Used by facility exports.
+CREATE OR REPLACE FUNCTION public.get_chargers_for_facilities (
+  p_facility_ids UUID[],
+  p_statuses TEXT[] DEFAULT NULL,
+  p_vendors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_charger_types TEXT[] DEFAULT NULL,
+  p_ownerships TEXT[] DEFAULT NULL,
+  p_subscription_types TEXT[] DEFAULT NULL,
+  p_installed_from DATE DEFAULT NULL,
+  p_installed_to DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  serial_number TEXT,
+  facility_id UUID,
+  country TEXT,
+  charger_type TEXT,
+  vendor TEXT,
+  model TEXT,
+  status TEXT,
+  subscription_type TEXT,
+  ownership TEXT,
+  installed_date DATE,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.serial_number,
+    c.facility_id,
+    c.country,
+    c.charger_type,
+    c.vendor,
+    c.model,
+    c.status,
+    c.subscription_type,
+    c.ownership,
+    c.installed_date,
+    c.created_at,
+    c.updated_at
+  FROM asset_map.chargers c
+  WHERE c.facility_id = ANY(p_facility_ids)
+    AND (p_statuses IS NULL OR c.status = ANY(p_statuses))
+    AND (p_vendors IS NULL OR c.vendor = ANY(p_vendors))
+    AND (p_models IS NULL OR c.model = ANY(p_models))
+    AND (p_charger_types IS NULL OR c.charger_type = ANY(p_charger_types))
+    AND (p_ownerships IS NULL OR c.ownership = ANY(p_ownerships))
+    AND (p_subscription_types IS NULL OR c.subscription_type = ANY(p_subscription_types))
+    AND (p_installed_from IS NULL OR c.installed_date >= p_installed_from)
+    AND (p_installed_to IS NULL OR c.installed_date <= p_installed_to)
+  ORDER BY c.facility_id, c.serial_number
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT
+EXECUTE ON FUNCTION public.get_chargers_for_facilities (
+  UUID[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  DATE,
+  DATE,
+  INTEGER,
+  INTEGER
+) TO anon,
+authenticated,
+service_role;
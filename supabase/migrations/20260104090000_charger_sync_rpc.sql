@@ -0,0 +1,149 @@
+-- Migration: charger_sync_rpc
+-- Idempotent register re-import keyed on serial_number. The import script
+-- reads the current chargers with get_charger_snapshot, computes the diff
+-- against the register and applies it with apply_charger_sync, which runs
+-- as a single transaction.
+CREATE OR REPLACE FUNCTION public.get_charger_snapshot (
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  serial_number TEXT,
+  facility_name TEXT,
+  country TEXT,
+  charger_type TEXT,
+  vendor TEXT,
+  model TEXT,
+  status TEXT,
+  subscription_type TEXT,
+  ownership TEXT,
+  installed_date DATE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.serial_number,
+    f.name,
+    c.country,
+    c.charger_type,
+    c.vendor,
+    c.model,
+    c.status,
+    c.subscription_type,
+    c.ownership,
+    c.installed_date
+  FROM asset_map.chargers c
+  LEFT JOIN asset_map.facilities f ON f.id = c.facility_id
+  ORDER BY c.serial_number
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Supabase grants new functions to anon and authenticated by default;
+-- these are for the service key only
+REVOKE
+EXECUTE ON FUNCTION public.get_charger_snapshot (INTEGER, INTEGER)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.get_charger_snapshot (INTEGER, INTEGER) TO service_role;
+
+-- p_facilities: [{name, country}] for every facility the upserted chargers
+--   reference. Existing facilities are left untouched so their address and
+--   coordinates survive the re-import.
+-- p_chargers: new, changed and moved chargers, with facility_name instead
+--   of facility_id.
+-- p_removed: serial numbers no longer in the register.
+CREATE OR REPLACE FUNCTION public.apply_charger_sync (
+  p_facilities JSONB,
+  p_chargers JSONB,
+  p_removed TEXT[] DEFAULT '{}'
+) RETURNS JSONB AS $$
+DECLARE
+  v_facilities_created INTEGER;
+  v_chargers_upserted INTEGER;
+  v_chargers_removed INTEGER;
+  v_facilities_recounted INTEGER;
+BEGIN
+  INSERT INTO asset_map.facilities (name, country, geocode_status)
+  SELECT
+    (f->>'name')::TEXT,
+    (f->>'country')::TEXT,
+    'pending'
+  FROM jsonb_array_elements(p_facilities) AS f
+  ON CONFLICT (name) DO NOTHING;
+  GET DIAGNOSTICS v_facilities_created = ROW_COUNT;
+
+  INSERT INTO asset_map.chargers (
+    serial_number,
+    facility_id,
+    country,
+    charger_type,
+    vendor,
+    model,
+    status,
+    subscription_type,
+    ownership,
+    installed_date
+  )
+  SELECT
+    (c->>'serial_number')::TEXT,
+    fac.id,
+    (c->>'country')::TEXT,
+    (c->>'charger_type')::TEXT,
+    (c->>'vendor')::TEXT,
+    (c->>'model')::TEXT,
+    (c->>'status')::TEXT,
+    (c->>'subscription_type')::TEXT,
+    (c->>'ownership')::TEXT,
+    (c->>'installed_date')::DATE
+  FROM jsonb_array_elements(p_chargers) AS c
+  LEFT JOIN asset_map.facilities fac ON fac.name = c->>'facility_name'
+  ON CONFLICT (serial_number) DO UPDATE SET
+    facility_id = EXCLUDED.facility_id,
+    country = EXCLUDED.country,
+    charger_type = EXCLUDED.charger_type,
+    vendor = EXCLUDED.vendor,
+    model = EXCLUDED.model,
+    status = EXCLUDED.status,
+    subscription_type = EXCLUDED.subscription_type,
+    ownership = EXCLUDED.ownership,
+    installed_date = EXCLUDED.installed_date;
+  GET DIAGNOSTICS v_chargers_upserted = ROW_COUNT;
+
+  DELETE FROM asset_map.chargers
+  WHERE serial_number = ANY(p_removed);
+  GET DIAGNOSTICS v_chargers_removed = ROW_COUNT;
+
+  -- Keep the denormalised facility counts in step with the chargers
+  UPDATE asset_map.facilities f
+  SET charger_count = counts.charger_count
+  FROM (
+    SELECT f2.id, COUNT(c.id)::INTEGER AS charger_count
+    FROM asset_map.facilities f2
+    LEFT JOIN asset_map.chargers c ON c.facility_id = f2.id
+    GROUP BY f2.id
+  ) counts
+  WHERE counts.id = f.id
+    AND f.charger_count IS DISTINCT FROM counts.charger_count;
+  GET DIAGNOSTICS v_facilities_recounted = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'facilities_created', v_facilities_created,
+    'chargers_upserted', v_chargers_upserted,
+    'chargers_removed', v_chargers_removed,
+    'facilities_recounted', v_facilities_recounted
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.apply_charger_sync (JSONB, JSONB, TEXT[])
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.apply_charger_sync (JSONB, JSONB, TEXT[]) TO service_role;
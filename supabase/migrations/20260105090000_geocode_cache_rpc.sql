@@ -0,0 +1,154 @@
+-- Migration: geocode_cache_rpc
+-- RPC functions for the geocode cache. scripts/geocode.ts looks up each
+-- facility's normalised address hash before calling a provider and stores
+-- what the provider returned, including misses (NULL coordinates) so
+-- addresses no provider can find aren't re-queried on every run.
+
+ALTER TABLE asset_map.geocode_cache
+ADD COLUMN IF NOT EXISTS hit_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_hit_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_created_at ON asset_map.geocode_cache (created_at);
+
+-- Cached result for an address, or no row when it is missing or older than
+-- p_max_age_days. A hit is counted against the entry.
+CREATE OR REPLACE FUNCTION public.asset_map_get_geocode_cache(
+  p_address_hash TEXT,
+  p_max_age_days INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  provider TEXT,
+  confidence DECIMAL(3, 2),
+  created_at TIMESTAMPTZ
+) LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  RETURN QUERY
+  WITH hit AS (
+    UPDATE asset_map.geocode_cache gc
+    SET
+      hit_count = gc.hit_count + 1,
+      last_hit_at = NOW()
+    WHERE gc.address_hash = p_address_hash
+      AND (
+        p_max_age_days IS NULL
+        OR gc.created_at > NOW() - make_interval(days => p_max_age_days)
+      )
+    RETURNING gc.latitude, gc.longitude, gc.provider, gc.confidence, gc.created_at
+  )
+  SELECT h.latitude, h.longitude, h.provider, h.confidence, h.created_at
+  FROM hit h;
+END;
+$$;
+
+-- Store (or refresh) a provider response. NULL coordinates record a miss.
+CREATE OR REPLACE FUNCTION public.asset_map_put_geocode_cache(
+  p_address_hash TEXT,
+  p_original_address TEXT,
+  p_latitude DECIMAL(10, 8) DEFAULT NULL,
+  p_longitude DECIMAL(11, 8) DEFAULT NULL,
+  p_provider TEXT DEFAULT NULL,
+  p_confidence DECIMAL(3, 2) DEFAULT NULL,
+  p_raw_response JSONB DEFAULT NULL
+) RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  INSERT INTO asset_map.geocode_cache (
+    address_hash,
+    original_address,
+    latitude,
+    longitude,
+    provider,
+    confidence,
+    raw_response
+  )
+  VALUES (
+    p_address_hash,
+    p_original_address,
+    p_latitude,
+    p_longitude,
+    p_provider,
+    p_confidence,
+    p_raw_response
+  )
+  ON CONFLICT (address_hash) DO UPDATE SET
+    original_address = EXCLUDED.original_address,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    provider = EXCLUDED.provider,
+    confidence = EXCLUDED.confidence,
+    raw_response = EXCLUDED.raw_response,
+    created_at = NOW();
+END;
+$$;
+
+-- Entry counts for the --cache-stats command. p_max_age_days counts the
+-- entries a run with that TTL would ignore.
+CREATE OR REPLACE FUNCTION public.asset_map_get_geocode_cache_stats(
+  p_max_age_days INTEGER DEFAULT NULL
+) RETURNS JSONB LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  SELECT jsonb_build_object(
+    'entries', COUNT(*),
+    'found', COUNT(*) FILTER (WHERE gc.latitude IS NOT NULL),
+    'not_found', COUNT(*) FILTER (WHERE gc.latitude IS NULL),
+    'expired', COUNT(*) FILTER (
+      WHERE p_max_age_days IS NOT NULL
+        AND gc.created_at <= NOW() - make_interval(days => p_max_age_days)
+    ),
+    'total_hits', COALESCE(SUM(gc.hit_count), 0),
+    'oldest', MIN(gc.created_at),
+    'newest', MAX(gc.created_at),
+    'by_provider', (
+      SELECT jsonb_object_agg(COALESCE(p.provider, 'none'), p.entries)
+      FROM (
+        SELECT gc2.provider, COUNT(*) AS entries
+        FROM asset_map.geocode_cache gc2
+        GROUP BY gc2.provider
+      ) p
+    )
+  )
+  INTO result
+  FROM asset_map.geocode_cache gc;
+
+  RETURN result;
+END;
+$$;
+
+-- Delete entries, optionally only those older than p_older_than_days, from
+-- one provider, or recorded misses. Returns the number deleted.
+CREATE OR REPLACE FUNCTION public.asset_map_purge_geocode_cache(
+  p_older_than_days INTEGER DEFAULT NULL,
+  p_provider TEXT DEFAULT NULL,
+  p_misses_only BOOLEAN DEFAULT FALSE
+) RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM asset_map.geocode_cache gc
+  WHERE (
+      p_older_than_days IS NULL
+      OR gc.created_at <= NOW() - make_interval(days => p_older_than_days)
+    )
+    AND (p_provider IS NULL OR gc.provider = p_provider)
+    AND (NOT p_misses_only OR gc.latitude IS NULL);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.asset_map_get_geocode_cache FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_put_geocode_cache FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_get_geocode_cache_stats FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_purge_geocode_cache FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.asset_map_get_geocode_cache TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_put_geocode_cache TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_get_geocode_cache_stats TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_purge_geocode_cache TO service_role;
@@ -0,0 +1,130 @@
+-- Migration: geocode_provider_chain
+-- Record which provider and which query variant produced each facility's
+-- coordinates (and each cache entry), now that scripts/geocode.ts tries a
+-- chain of providers per country.
+
+ALTER TABLE asset_map.facilities
+ADD COLUMN IF NOT EXISTS geocode_provider TEXT,
+ADD COLUMN IF NOT EXISTS geocode_query_variant TEXT;
+
+ALTER TABLE asset_map.geocode_cache
+ADD COLUMN IF NOT EXISTS query_variant TEXT;
+
+DROP FUNCTION IF EXISTS public.asset_map_update_facility_geocode (UUID, DECIMAL, DECIMAL, TEXT, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.asset_map_update_facility_geocode(
+  p_facility_id UUID,
+  p_latitude DECIMAL(10, 8) DEFAULT NULL,
+  p_longitude DECIMAL(11, 8) DEFAULT NULL,
+  p_geocode_status TEXT DEFAULT 'success',
+  p_geocode_confidence DECIMAL(3, 2) DEFAULT NULL,
+  p_geocode_provider TEXT DEFAULT NULL,
+  p_geocode_query_variant TEXT DEFAULT NULL
+) RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  UPDATE asset_map.facilities
+  SET
+    latitude = COALESCE(p_latitude, latitude),
+    longitude = COALESCE(p_longitude, longitude),
+    geocode_status = p_geocode_status,
+    geocode_confidence = p_geocode_confidence,
+    geocode_provider = p_geocode_provider,
+    geocode_query_variant = p_geocode_query_variant,
+    updated_at = NOW()
+  WHERE id = p_facility_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.asset_map_get_geocode_cache (TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.asset_map_get_geocode_cache(
+  p_address_hash TEXT,
+  p_max_age_days INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  provider TEXT,
+  query_variant TEXT,
+  confidence DECIMAL(3, 2),
+  created_at TIMESTAMPTZ
+) LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  RETURN QUERY
+  WITH hit AS (
+    UPDATE asset_map.geocode_cache gc
+    SET
+      hit_count = gc.hit_count + 1,
+      last_hit_at = NOW()
+    WHERE gc.address_hash = p_address_hash
+      AND (
+        p_max_age_days IS NULL
+        OR gc.created_at > NOW() - make_interval(days => p_max_age_days)
+      )
+    RETURNING
+      gc.latitude,
+      gc.longitude,
+      gc.provider,
+      gc.query_variant,
+      gc.confidence,
+      gc.created_at
+  )
+  SELECT h.latitude, h.longitude, h.provider, h.query_variant, h.confidence, h.created_at
+  FROM hit h;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.asset_map_put_geocode_cache (TEXT, TEXT, DECIMAL, DECIMAL, TEXT, DECIMAL, JSONB);
+
+CREATE OR REPLACE FUNCTION public.asset_map_put_geocode_cache(
+  p_address_hash TEXT,
+  p_original_address TEXT,
+  p_latitude DECIMAL(10, 8) DEFAULT NULL,
+  p_longitude DECIMAL(11, 8) DEFAULT NULL,
+  p_provider TEXT DEFAULT NULL,
+  p_confidence DECIMAL(3, 2) DEFAULT NULL,
+  p_raw_response JSONB DEFAULT NULL,
+  p_query_variant TEXT DEFAULT NULL
+) RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  INSERT INTO asset_map.geocode_cache (
+    address_hash,
+    original_address,
+    latitude,
+    longitude,
+    provider,
+    query_variant,
+    confidence,
+    raw_response
+  )
+  VALUES (
+    p_address_hash,
+    p_original_address,
+    p_latitude,
+    p_longitude,
+    p_provider,
+    p_query_variant,
+    p_confidence,
+    p_raw_response
+  )
+  ON CONFLICT (address_hash) DO UPDATE SET
+    original_address = EXCLUDED.original_address,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    provider = EXCLUDED.provider,
+    query_variant = EXCLUDED.query_variant,
+    confidence = EXCLUDED.confidence,
+    raw_response = EXCLUDED.raw_response,
+    created_at = NOW();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.asset_map_update_facility_geocode FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_get_geocode_cache FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_put_geocode_cache FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.asset_map_update_facility_geocode TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_get_geocode_cache TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_put_geocode_cache TO service_role;
@@ -0,0 +1,47 @@
+-- Migration: manual_facility_location
+-- Facilities placed by hand on the map. set_facility_location writes the
+-- coordinates with geocode_status 'manual' and records who placed the pin
+-- and when, so automated geocoding and later reviews can tell them apart.
+ALTER TABLE asset_map.facilities
+ADD COLUMN IF NOT EXISTS geocode_edited_by TEXT,
+ADD COLUMN IF NOT EXISTS geocode_edited_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN asset_map.facilities.geocode_edited_by IS 'Who last placed the facility by hand (email or user id)';
+
+-- Returns the updated facility row, or NULL if the id doesn't exist
+CREATE OR REPLACE FUNCTION public.set_facility_location (
+  p_facility_id UUID,
+  p_latitude DECIMAL(10, 8),
+  p_longitude DECIMAL(11, 8),
+  p_edited_by TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  UPDATE asset_map.facilities f
+  SET
+    latitude = p_latitude,
+    longitude = p_longitude,
+    geocode_status = 'manual',
+    -- A person looked at the map; nothing to be unsure about
+    geocode_confidence = 1,
+    geocode_provider = NULL,
+    geocode_query_variant = NULL,
+    geocode_edited_by = p_edited_by,
+    geocode_edited_at = NOW(),
+    updated_at = NOW()
+  WHERE f.id = p_facility_id
+  RETURNING row_to_json(f.*)::JSONB INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.set_facility_location (UUID, DECIMAL, DECIMAL, TEXT)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.set_facility_location (UUID, DECIMAL, DECIMAL, TEXT) TO service_role;
@@ -0,0 +1,235 @@
+-- Migration: geocode_reviews
+-- Review queue for doubtful geocodes: facilities geocoded below a
+-- confidence threshold (street, postal code or city centroid matches) or
+-- that failed outright. Reviewers accept the point, pick another provider
+-- candidate or place the facility by hand; every decision is kept in
+-- geocode_reviews with the position it replaced.
+ALTER TABLE asset_map.facilities
+ADD COLUMN IF NOT EXISTS geocode_reviewed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS geocode_reviewed_by TEXT;
+
+CREATE TABLE asset_map.geocode_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_id UUID NOT NULL REFERENCES asset_map.facilities (id) ON DELETE CASCADE,
+  decision TEXT NOT NULL CHECK (decision IN ('accepted', 'candidate', 'manual')),
+  -- Position before the decision
+  previous_latitude DECIMAL(10, 8),
+  previous_longitude DECIMAL(11, 8),
+  previous_status TEXT,
+  previous_confidence DECIMAL(3, 2),
+  previous_provider TEXT,
+  -- Position after it
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  confidence DECIMAL(3, 2),
+  provider TEXT,
+  query_variant TEXT,
+  reviewed_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_geocode_reviews_facility ON asset_map.geocode_reviews (facility_id, created_at DESC);
+
+COMMENT ON TABLE asset_map.geocode_reviews IS 'Reviewer decisions on low-confidence and failed geocodes';
+
+-- Unreviewed facilities below p_max_confidence or failed, biggest sites
+-- first. Returns {total, facilities}.
+CREATE OR REPLACE FUNCTION public.get_geocode_review_queue (
+  p_max_confidence DECIMAL DEFAULT 0.75,
+  p_countries TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+) RETURNS JSONB AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  WITH queue AS (
+    SELECT
+      f.id,
+      f.name,
+      f.address,
+      f.city,
+      f.postal_code,
+      f.country,
+      f.latitude,
+      f.longitude,
+      f.geocode_status,
+      f.geocode_confidence,
+      f.geocode_provider,
+      f.geocode_query_variant,
+      f.charger_count
+    FROM asset_map.facilities f
+    WHERE f.geocode_reviewed_at IS NULL
+      AND (p_countries IS NULL OR f.country = ANY (p_countries))
+      AND (
+        f.geocode_status = 'failed'
+        OR (
+          f.geocode_status = 'success'
+          AND f.latitude IS NOT NULL
+          AND COALESCE(f.geocode_confidence, 0) < p_max_confidence
+        )
+      )
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM queue),
+    'facilities', COALESCE(
+      (
+        SELECT jsonb_agg(row_to_json(q.*))
+        FROM (
+          SELECT *
+          FROM queue
+          ORDER BY charger_count DESC, name
+          LIMIT p_limit
+          OFFSET p_offset
+        ) q
+      ),
+      '[]'::JSONB
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Record a review decision and apply it:
+--   accepted  - keep the current point
+--   candidate - move to the chosen provider result (status 'success')
+--   manual    - move to a hand-placed point (status 'manual')
+-- Returns the updated facility row, or NULL if the id doesn't exist.
+CREATE OR REPLACE FUNCTION public.review_facility_geocode (
+  p_facility_id UUID,
+  p_decision TEXT,
+  p_reviewed_by TEXT,
+  p_latitude DECIMAL(10, 8) DEFAULT NULL,
+  p_longitude DECIMAL(11, 8) DEFAULT NULL,
+  p_confidence DECIMAL(3, 2) DEFAULT NULL,
+  p_provider TEXT DEFAULT NULL,
+  p_query_variant TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_facility asset_map.facilities%ROWTYPE;
+  result JSONB;
+BEGIN
+  SELECT * INTO v_facility
+  FROM asset_map.facilities
+  WHERE id = p_facility_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_decision = 'accepted' THEN
+    IF v_facility.latitude IS NULL THEN
+      RAISE EXCEPTION 'Facility % has no point to accept', p_facility_id;
+    END IF;
+  ELSIF p_decision IN ('candidate', 'manual') THEN
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+      RAISE EXCEPTION 'A % decision needs a position', p_decision;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown review decision: %', p_decision;
+  END IF;
+
+  INSERT INTO asset_map.geocode_reviews (
+    facility_id,
+    decision,
+    previous_latitude,
+    previous_longitude,
+    previous_status,
+    previous_confidence,
+    previous_provider,
+    latitude,
+    longitude,
+    confidence,
+    provider,
+    query_variant,
+    reviewed_by
+  )
+  VALUES (
+    p_facility_id,
+    p_decision,
+    v_facility.latitude,
+    v_facility.longitude,
+    v_facility.geocode_status,
+    v_facility.geocode_confidence,
+    v_facility.geocode_provider,
+    CASE WHEN p_decision = 'accepted' THEN v_facility.latitude ELSE p_latitude END,
+    CASE WHEN p_decision = 'accepted' THEN v_facility.longitude ELSE p_longitude END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_confidence
+      WHEN p_decision = 'manual' THEN 1
+      ELSE p_confidence
+    END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_provider
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_provider
+    END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_query_variant
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_query_variant
+    END,
+    p_reviewed_by
+  );
+
+  UPDATE asset_map.facilities f
+  SET
+    latitude = CASE WHEN p_decision = 'accepted' THEN f.latitude ELSE p_latitude END,
+    longitude = CASE WHEN p_decision = 'accepted' THEN f.longitude ELSE p_longitude END,
+    geocode_status = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_status
+      WHEN p_decision = 'manual' THEN 'manual'
+      ELSE 'success'
+    END,
+    geocode_confidence = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_confidence
+      WHEN p_decision = 'manual' THEN 1
+      ELSE p_confidence
+    END,
+    geocode_provider = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_provider
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_provider
+    END,
+    geocode_query_variant = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_query_variant
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_query_variant
+    END,
+    geocode_edited_by = CASE
+      WHEN p_decision = 'manual' THEN p_reviewed_by
+      ELSE f.geocode_edited_by
+    END,
+    geocode_edited_at = CASE
+      WHEN p_decision = 'manual' THEN NOW()
+      ELSE f.geocode_edited_at
+    END,
+    geocode_reviewed_at = NOW(),
+    geocode_reviewed_by = p_reviewed_by,
+    updated_at = NOW()
+  WHERE f.id = p_facility_id
+  RETURNING row_to_json(f.*)::JSONB INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.get_geocode_review_queue (DECIMAL, TEXT[], INTEGER, INTEGER)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.get_geocode_review_queue (DECIMAL, TEXT[], INTEGER, INTEGER) TO service_role;
+
+REVOKE
+EXECUTE ON FUNCTION public.review_facility_geocode (UUID, TEXT, TEXT, DECIMAL, DECIMAL, DECIMAL, TEXT, TEXT)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.review_facility_geocode (UUID, TEXT, TEXT, DECIMAL, DECIMAL, DECIMAL, TEXT, TEXT) TO service_role;
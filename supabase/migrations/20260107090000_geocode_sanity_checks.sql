@@ -0,0 +1,628 @@
+-- Migration: geocode_sanity_checks
+-- Sanity checks on geocoded points: outside the facility's country (or
+-- inside it only with latitude and longitude swapped), far from the other
+-- facilities in its postal code, or stacked on one coordinate with many
+-- other addresses (typically a city or postal centroid). Failing facilities
+-- get geocode_status 'flagged' and the failed checks in geocode_flags; the
+-- map filters on the status and the review queue picks them up.
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+ALTER TABLE asset_map.facilities
+DROP CONSTRAINT IF EXISTS facilities_geocode_status_check;
+
+ALTER TABLE asset_map.facilities
+ADD CONSTRAINT facilities_geocode_status_check CHECK (
+  geocode_status IN ('pending', 'success', 'failed', 'manual', 'flagged')
+);
+
+ALTER TABLE asset_map.facilities
+ADD COLUMN IF NOT EXISTS geocode_flags TEXT[],
+ADD COLUMN IF NOT EXISTS geocode_checked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN asset_map.facilities.geocode_flags IS 'Sanity checks the geocode failed: outside_country, swapped_coordinates, far_from_postal_area, duplicate_point';
+
+-- Country outlines loaded from scripts/boundaries by validate-geocodes.ts
+CREATE TABLE IF NOT EXISTS asset_map.country_boundaries (
+  country TEXT PRIMARY KEY,
+  geom extensions.geometry (MultiPolygon, 4326) NOT NULL,
+  source TEXT,
+  loaded_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_country_boundaries_geom ON asset_map.country_boundaries USING GIST (geom);
+
+-- The country's outline, or a generous bounding box when none is loaded
+-- (coarse: Norway's box covers most of Sweden). NULL for other countries.
+CREATE OR REPLACE FUNCTION asset_map.country_shape (p_country TEXT) RETURNS extensions.geometry LANGUAGE sql STABLE
+SET
+  search_path TO 'asset_map',
+  'public',
+  'extensions' AS $$
+  SELECT COALESCE(
+    (SELECT cb.geom FROM asset_map.country_boundaries cb WHERE cb.country = p_country),
+    CASE p_country
+      WHEN 'Norway' THEN ST_MakeEnvelope(4.0, 57.7, 31.3, 71.3, 4326)
+      WHEN 'Sweden' THEN ST_MakeEnvelope(10.5, 55.0, 24.3, 69.2, 4326)
+      WHEN 'Denmark' THEN ST_MakeEnvelope(7.9, 54.4, 15.3, 57.9, 4326)
+    END
+  );
+$$;
+
+-- Replace a country's outline with a GeoJSON Polygon or MultiPolygon
+CREATE OR REPLACE FUNCTION public.asset_map_put_country_boundary (
+  p_country TEXT,
+  p_geometry JSONB,
+  p_source TEXT DEFAULT NULL
+) RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET
+  search_path TO 'asset_map',
+  'public',
+  'extensions' AS $$
+BEGIN
+  INSERT INTO asset_map.country_boundaries (country, geom, source)
+  VALUES (
+    p_country,
+    ST_Multi(ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON(p_geometry::TEXT), 4326))),
+    p_source
+  )
+  ON CONFLICT (country) DO UPDATE SET
+    geom = EXCLUDED.geom,
+    source = EXCLUDED.source,
+    loaded_at = NOW();
+END;
+$$;
+
+-- Mean position of the confidently placed facilities per postal code
+-- (address-level geocodes and hand-placed pins). Spaces are ignored, so
+-- "123 45" and "12345" are one area.
+CREATE OR REPLACE FUNCTION public.asset_map_get_postal_centroids (
+  p_countries TEXT[] DEFAULT NULL,
+  p_min_confidence DECIMAL DEFAULT 0.9
+) RETURNS TABLE (
+  country TEXT,
+  postal_code TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  facility_count INTEGER
+) LANGUAGE sql STABLE SECURITY DEFINER
+SET
+  search_path TO 'asset_map',
+  'public' AS $$
+  SELECT
+    f.country,
+    replace(f.postal_code, ' ', '') AS postal_code,
+    AVG(f.latitude)::DOUBLE PRECISION,
+    AVG(f.longitude)::DOUBLE PRECISION,
+    COUNT(*)::INTEGER
+  FROM asset_map.facilities f
+  WHERE f.latitude IS NOT NULL
+    AND f.postal_code IS NOT NULL
+    AND (p_countries IS NULL OR f.country = ANY (p_countries))
+    AND (
+      f.geocode_status = 'manual'
+      OR (f.geocode_status = 'success' AND f.geocode_confidence >= p_min_confidence)
+    )
+  GROUP BY f.country, replace(f.postal_code, ' ', '');
+$$;
+
+-- Run the sanity checks over unreviewed automatic geocodes (status success
+-- or flagged; hand-placed and reviewed points are trusted) and return the
+-- facilities that fail any. With p_apply, failing facilities are set to
+-- 'flagged' and facilities that now pass go back to 'success'.
+--   outside_country      - not within ~1 km of the country's shape
+--   swapped_coordinates  - outside, but inside with lat/lon swapped
+--   far_from_postal_area - over p_postal_max_km from the centroid of at
+--                          least p_postal_min_peers other confident
+--                          facilities with the same postal code
+--   duplicate_point      - same coordinate (to ~1 m) as facilities with at
+--                          least p_duplicate_min_addresses distinct addresses
+CREATE OR REPLACE FUNCTION public.asset_map_check_geocodes (
+  p_countries TEXT[] DEFAULT NULL,
+  p_apply BOOLEAN DEFAULT FALSE,
+  p_postal_max_km DECIMAL DEFAULT 25,
+  p_postal_min_peers INTEGER DEFAULT 3,
+  p_duplicate_min_addresses INTEGER DEFAULT 5
+) RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  address TEXT,
+  postal_code TEXT,
+  city TEXT,
+  country TEXT,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  geocode_provider TEXT,
+  previous_status TEXT,
+  flags TEXT[]
+) LANGUAGE sql SECURITY DEFINER
+SET
+  search_path TO 'asset_map',
+  'public',
+  'extensions' AS $$
+  WITH checked AS (
+    SELECT
+      f.*,
+      asset_map.country_shape(f.country) AS shape,
+      replace(f.postal_code, ' ', '') AS postal_key,
+      -- A confident point is one of its own postal code's peers
+      COALESCE(
+        f.geocode_status = 'success'
+          AND f.geocode_confidence >= 0.9
+          AND f.postal_code IS NOT NULL,
+        FALSE
+      ) AS is_peer
+    FROM asset_map.facilities f
+    WHERE f.geom IS NOT NULL
+      AND f.geocode_status IN ('success', 'flagged')
+      AND f.geocode_reviewed_at IS NULL
+      AND (p_countries IS NULL OR f.country = ANY (p_countries))
+  ),
+  postal AS (
+    SELECT * FROM public.asset_map_get_postal_centroids(p_countries, 0.9)
+  ),
+  stacks AS (
+    SELECT
+      round(f.latitude, 5) AS lat,
+      round(f.longitude, 5) AS lng
+    FROM asset_map.facilities f
+    WHERE f.latitude IS NOT NULL
+    GROUP BY round(f.latitude, 5), round(f.longitude, 5)
+    HAVING COUNT(DISTINCT lower(concat_ws('|', f.address, f.postal_code, f.city))) >= p_duplicate_min_addresses
+  ),
+  results AS (
+    SELECT
+      c.id,
+      c.name,
+      c.address,
+      c.postal_code,
+      c.city,
+      c.country,
+      c.latitude,
+      c.longitude,
+      c.geocode_provider,
+      c.geocode_status AS previous_status,
+      array_remove(
+        ARRAY[
+          CASE
+            WHEN b.outside AND NOT b.swapped_inside THEN 'outside_country'
+          END,
+          CASE
+            WHEN b.outside AND b.swapped_inside THEN 'swapped_coordinates'
+          END,
+          CASE
+            WHEN p.facility_count - c.is_peer::INTEGER >= p_postal_min_peers
+            AND ST_DistanceSphere(
+              c.geom,
+              ST_SetSRID(
+                ST_MakePoint(
+                  (p.longitude * p.facility_count - CASE WHEN c.is_peer THEN c.longitude ELSE 0 END)
+                    / NULLIF(p.facility_count - c.is_peer::INTEGER, 0),
+                  (p.latitude * p.facility_count - CASE WHEN c.is_peer THEN c.latitude ELSE 0 END)
+                    / NULLIF(p.facility_count - c.is_peer::INTEGER, 0)
+                ),
+                4326
+              )
+            ) > p_postal_max_km * 1000 THEN 'far_from_postal_area'
+          END,
+          CASE
+            WHEN s.lat IS NOT NULL THEN 'duplicate_point'
+          END
+        ],
+        NULL
+      ) AS flags
+    FROM checked c
+    -- ~1 km slack so coastal points geocoded just offshore still pass
+    CROSS JOIN LATERAL (
+      SELECT
+        c.shape IS NOT NULL AND NOT ST_DWithin(c.shape, c.geom, 0.01) AS outside,
+        c.shape IS NOT NULL
+          AND ST_Intersects(c.shape, ST_SetSRID(ST_MakePoint(c.latitude, c.longitude), 4326)) AS swapped_inside
+    ) b
+    LEFT JOIN postal p ON p.country = c.country AND p.postal_code = c.postal_key
+    LEFT JOIN stacks s ON s.lat = round(c.latitude, 5) AND s.lng = round(c.longitude, 5)
+  ),
+  applied AS (
+    UPDATE asset_map.facilities f
+    SET
+      geocode_status = CASE WHEN cardinality(r.flags) > 0 THEN 'flagged' ELSE 'success' END,
+      geocode_flags = NULLIF(r.flags, '{}'),
+      geocode_checked_at = NOW()
+    FROM results r
+    WHERE p_apply
+      AND f.id = r.id
+  )
+  SELECT r.*
+  FROM results r
+  WHERE cardinality(r.flags) > 0
+  ORDER BY r.country, r.name;
+$$;
+
+-- The review queue also takes flagged facilities, with the failed checks
+CREATE OR REPLACE FUNCTION public.get_geocode_review_queue (
+  p_max_confidence DECIMAL DEFAULT 0.75,
+  p_countries TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+) RETURNS JSONB AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  WITH queue AS (
+    SELECT
+      f.id,
+      f.name,
+      f.address,
+      f.city,
+      f.postal_code,
+      f.country,
+      f.latitude,
+      f.longitude,
+      f.geocode_status,
+      f.geocode_confidence,
+      f.geocode_provider,
+      f.geocode_query_variant,
+      f.geocode_flags,
+      f.charger_count
+    FROM asset_map.facilities f
+    WHERE f.geocode_reviewed_at IS NULL
+      AND (p_countries IS NULL OR f.country = ANY (p_countries))
+      AND (
+        f.geocode_status IN ('failed', 'flagged')
+        OR (
+          f.geocode_status = 'success'
+          AND f.latitude IS NOT NULL
+          AND COALESCE(f.geocode_confidence, 0) < p_max_confidence
+        )
+      )
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM queue),
+    'facilities', COALESCE(
+      (
+        SELECT jsonb_agg(row_to_json(q.*))
+        FROM (
+          SELECT *
+          FROM queue
+          ORDER BY charger_count DESC, name
+          LIMIT p_limit
+          OFFSET p_offset
+        ) q
+      ),
+      '[]'::JSONB
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Accepting a flagged point overrules the checks: it goes back to 'success'
+-- and, once reviewed, is no longer checked. Every decision clears the flags.
+CREATE OR REPLACE FUNCTION public.review_facility_geocode (
+  p_facility_id UUID,
+  p_decision TEXT,
+  p_reviewed_by TEXT,
+  p_latitude DECIMAL(10, 8) DEFAULT NULL,
+  p_longitude DECIMAL(11, 8) DEFAULT NULL,
+  p_confidence DECIMAL(3, 2) DEFAULT NULL,
+  p_provider TEXT DEFAULT NULL,
+  p_query_variant TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_facility asset_map.facilities%ROWTYPE;
+  result JSONB;
+BEGIN
+  SELECT * INTO v_facility
+  FROM asset_map.facilities
+  WHERE id = p_facility_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_decision = 'accepted' THEN
+    IF v_facility.latitude IS NULL THEN
+      RAISE EXCEPTION 'Facility % has no point to accept', p_facility_id;
+    END IF;
+  ELSIF p_decision IN ('candidate', 'manual') THEN
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+      RAISE EXCEPTION 'A % decision needs a position', p_decision;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown review decision: %', p_decision;
+  END IF;
+
+  INSERT INTO asset_map.geocode_reviews (
+    facility_id,
+    decision,
+    previous_latitude,
+    previous_longitude,
+    previous_status,
+    previous_confidence,
+    previous_provider,
+    latitude,
+    longitude,
+    confidence,
+    provider,
+    query_variant,
+    reviewed_by
+  )
+  VALUES (
+    p_facility_id,
+    p_decision,
+    v_facility.latitude,
+    v_facility.longitude,
+    v_facility.geocode_status,
+    v_facility.geocode_confidence,
+    v_facility.geocode_provider,
+    CASE WHEN p_decision = 'accepted' THEN v_facility.latitude ELSE p_latitude END,
+    CASE WHEN p_decision = 'accepted' THEN v_facility.longitude ELSE p_longitude END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_confidence
+      WHEN p_decision = 'manual' THEN 1
+      ELSE p_confidence
+    END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_provider
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_provider
+    END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_query_variant
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_query_variant
+    END,
+    p_reviewed_by
+  );
+
+  UPDATE asset_map.facilities f
+  SET
+    latitude = CASE WHEN p_decision = 'accepted' THEN f.latitude ELSE p_latitude END,
+    longitude = CASE WHEN p_decision = 'accepted' THEN f.longitude ELSE p_longitude END,
+    geocode_status = CASE
+      WHEN p_decision = 'accepted' AND f.geocode_status = 'flagged' THEN 'success'
+      WHEN p_decision = 'accepted' THEN f.geocode_status
+      WHEN p_decision = 'manual' THEN 'manual'
+      ELSE 'success'
+    END,
+    geocode_confidence = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_confidence
+      WHEN p_decision = 'manual' THEN 1
+      ELSE p_confidence
+    END,
+    geocode_provider = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_provider
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_provider
+    END,
+    geocode_query_variant = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_query_variant
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_query_variant
+    END,
+    geocode_edited_by = CASE
+      WHEN p_decision = 'manual' THEN p_reviewed_by
+      ELSE f.geocode_edited_by
+    END,
+    geocode_edited_at = CASE
+      WHEN p_decision = 'manual' THEN NOW()
+      ELSE f.geocode_edited_at
+    END,
+    geocode_flags = NULL,
+    geocode_reviewed_at = NOW(),
+    geocode_reviewed_by = p_reviewed_by,
+    updated_at = NOW()
+  WHERE f.id = p_facility_id
+  RETURNING row_to_json(f.*)::JSONB INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tiles can now be filtered on geocode status, e.g. to leave out flagged
+-- points; the old signature is dropped so PostgREST sees one function
+DROP FUNCTION IF EXISTS public.get_facility_tile (INTEGER, INTEGER, INTEGER, TEXT[], TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_facility_tile (
+  p_z INTEGER,
+  p_x INTEGER,
+  p_y INTEGER,
+  p_countries TEXT[] DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_vendors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_charger_types TEXT[] DEFAULT NULL,
+  p_ownerships TEXT[] DEFAULT NULL,
+  p_subscription_types TEXT[] DEFAULT NULL,
+  p_installed_from DATE DEFAULT NULL,
+  p_installed_to DATE DEFAULT NULL,
+  p_geocode_statuses TEXT[] DEFAULT NULL,
+  p_cluster_max_zoom INTEGER DEFAULT 12
+) RETURNS TEXT LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET
+  search_path = 'asset_map',
+  'public',
+  'extensions' AS $$
+DECLARE
+  v_envelope GEOMETRY := ST_TileEnvelope(p_z, p_x, p_y);
+  v_bounds GEOMETRY := ST_Transform(v_envelope, 4326);
+  -- 8x8 cluster cells per tile; cells align with tile edges so a cluster
+  -- never straddles two tiles
+  v_cell DOUBLE PRECISION := (ST_XMax(v_envelope) - ST_XMin(v_envelope)) / 8;
+  v_cluster BOOLEAN := p_z <= p_cluster_max_zoom;
+  v_charger_filtered BOOLEAN := p_statuses IS NOT NULL
+    OR p_vendors IS NOT NULL
+    OR p_models IS NOT NULL
+    OR p_charger_types IS NOT NULL
+    OR p_ownerships IS NOT NULL
+    OR p_subscription_types IS NOT NULL
+    OR p_installed_from IS NOT NULL
+    OR p_installed_to IS NOT NULL;
+  result BYTEA;
+BEGIN
+  WITH tile_facilities AS (
+    SELECT
+      f.id,
+      f.name,
+      f.country,
+      f.city,
+      f.address,
+      f.postal_code,
+      f.charger_count,
+      ST_Transform(ST_SetSRID(ST_MakePoint(f.longitude, f.latitude), 4326), 3857) AS geom
+    FROM asset_map.facilities f
+    WHERE f.latitude IS NOT NULL
+      AND f.longitude IS NOT NULL
+      AND f.longitude >= ST_XMin(v_bounds) AND f.longitude < ST_XMax(v_bounds)
+      AND f.latitude >= ST_YMin(v_bounds) AND f.latitude < ST_YMax(v_bounds)
+      AND (p_countries IS NULL OR f.country = ANY(p_countries))
+      AND (p_search IS NULL OR f.name ILIKE '%' || p_search || '%')
+      AND (p_geocode_statuses IS NULL OR f.geocode_status = ANY(p_geocode_statuses))
+  ),
+  charger_stats AS (
+    SELECT
+      c.facility_id,
+      COUNT(*) AS matching_count,
+      COUNT(*) FILTER (WHERE c.status = 'Enabled') AS enabled_count,
+      COUNT(*) FILTER (WHERE c.status = 'Disabled') AS disabled_count,
+      COUNT(*) FILTER (WHERE c.status = 'Out of order') AS out_of_order_count
+    FROM asset_map.chargers c
+    JOIN tile_facilities tf ON tf.id = c.facility_id
+    WHERE (p_statuses IS NULL OR c.status = ANY(p_statuses))
+      AND (p_vendors IS NULL OR c.vendor = ANY(p_vendors))
+      AND (p_models IS NULL OR c.model = ANY(p_models))
+      AND (p_charger_types IS NULL OR c.charger_type = ANY(p_charger_types))
+      AND (p_ownerships IS NULL OR c.ownership = ANY(p_ownerships))
+      AND (p_subscription_types IS NULL OR c.subscription_type = ANY(p_subscription_types))
+      AND (p_installed_from IS NULL OR c.installed_date >= p_installed_from)
+      AND (p_installed_to IS NULL OR c.installed_date <= p_installed_to)
+    GROUP BY c.facility_id
+  ),
+  points AS (
+    SELECT
+      tf.*,
+      -- With charger filters the count reflects only matching chargers
+      CASE
+        WHEN v_charger_filtered THEN cs.matching_count::INTEGER
+        ELSE tf.charger_count
+      END AS shown_count,
+      COALESCE(cs.enabled_count, 0) AS enabled_count,
+      COALESCE(cs.disabled_count, 0) AS disabled_count,
+      COALESCE(cs.out_of_order_count, 0) AS out_of_order_count,
+      CASE
+        WHEN v_cluster THEN floor(ST_X(tf.geom) / v_cell)::TEXT || ':' || floor(ST_Y(tf.geom) / v_cell)::TEXT
+        ELSE tf.id::TEXT
+      END AS cell_key
+    FROM tile_facilities tf
+    LEFT JOIN charger_stats cs ON cs.facility_id = tf.id
+    WHERE NOT v_charger_filtered OR cs.matching_count > 0
+  ),
+  cells AS (
+    SELECT
+      p.cell_key,
+      COUNT(*) AS point_count,
+      ST_Centroid(ST_Collect(p.geom)) AS geom,
+      SUM(p.shown_count)::BIGINT AS total_chargers,
+      COUNT(*) FILTER (WHERE p.country = 'Norway') AS norway_count,
+      COUNT(*) FILTER (WHERE p.country = 'Sweden') AS sweden_count,
+      COUNT(*) FILTER (WHERE p.country = 'Denmark') AS denmark_count,
+      SUM(p.enabled_count)::BIGINT AS enabled_total,
+      SUM(p.disabled_count)::BIGINT AS disabled_total,
+      SUM(p.out_of_order_count)::BIGINT AS out_of_order_total
+    FROM points p
+    GROUP BY p.cell_key
+  ),
+  -- Property names match the client-side GeoJSON source so the same layer
+  -- styles work for both; ST_AsMVT omits NULL properties
+  features AS (
+    SELECT
+      ST_AsMVTGeom(c.geom, v_envelope, 4096, 64, TRUE) AS geom,
+      NULL::TEXT AS id,
+      NULL::TEXT AS name,
+      NULL::TEXT AS country,
+      NULL::TEXT AS city,
+      NULL::TEXT AS address,
+      NULL::TEXT AS postal_code,
+      NULL::INTEGER AS charger_count,
+      NULL::BIGINT AS enabled_count,
+      NULL::BIGINT AS disabled_count,
+      NULL::BIGINT AS out_of_order_count,
+      c.point_count,
+      CASE
+        WHEN c.point_count >= 10000 THEN round(c.point_count / 1000.0)::TEXT || 'k'
+        WHEN c.point_count >= 1000 THEN round(c.point_count / 1000.0, 1)::TEXT || 'k'
+        ELSE c.point_count::TEXT
+      END AS point_count_abbreviated,
+      c.total_chargers,
+      c.norway_count,
+      c.sweden_count,
+      c.denmark_count,
+      c.enabled_total,
+      c.disabled_total,
+      c.out_of_order_total
+    FROM cells c
+    WHERE c.point_count > 1
+    UNION ALL
+    SELECT
+      ST_AsMVTGeom(p.geom, v_envelope, 4096, 64, TRUE) AS geom,
+      p.id::TEXT,
+      p.name,
+      p.country,
+      p.city,
+      p.address,
+      p.postal_code,
+      p.shown_count,
+      p.enabled_count,
+      p.disabled_count,
+      p.out_of_order_count,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL
+    FROM points p
+    JOIN cells c ON c.cell_key = p.cell_key
+    WHERE c.point_count = 1
+  )
+  SELECT ST_AsMVT(features.*, 'facilities', 4096, 'geom')
+  INTO result
+  FROM features
+  WHERE features.geom IS NOT NULL;
+
+  RETURN encode(COALESCE(result, ''::BYTEA), 'base64');
+END;
+$$;
+
+GRANT
+EXECUTE ON FUNCTION public.get_facility_tile (
+  INTEGER,
+  INTEGER,
+  INTEGER,
+  TEXT[],
+  TEXT,
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  DATE,
+  DATE,
+  TEXT[],
+  INTEGER
+) TO anon,
+authenticated,
+service_role;
+
+REVOKE EXECUTE ON FUNCTION public.asset_map_put_country_boundary FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_get_postal_centroids FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_check_geocodes FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.asset_map_put_country_boundary TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_get_postal_centroids TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_check_geocodes TO service_role;
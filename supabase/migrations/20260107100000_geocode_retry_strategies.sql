@@ -0,0 +1,240 @@
+-- Migration: geocode_retry_strategies
+-- Retrying failed geocodes (scripts/geocode.ts --retry-failed) with
+-- rewritten queries. Normal runs now skip facilities that already failed,
+-- retry runs take only those, and the rewrite that placed a facility is
+-- stored in geocode_strategy (NULL for the address as registered).
+
+ALTER TABLE asset_map.facilities
+ADD COLUMN IF NOT EXISTS geocode_strategy TEXT;
+
+COMMENT ON COLUMN asset_map.facilities.geocode_strategy IS 'Retry rewrite that found the point: postal_format, strip_unit, facility_name or postal_centroid';
+
+DROP FUNCTION IF EXISTS public.asset_map_get_facilities_for_geocoding (TEXT, INTEGER);
+
+-- Failed facilities are retried even without an address: the name or the
+-- postal code may still place them
+CREATE OR REPLACE FUNCTION public.asset_map_get_facilities_for_geocoding(
+  p_country TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100,
+  p_failed_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  country TEXT
+) LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.address,
+    f.city,
+    f.postal_code,
+    f.country
+  FROM asset_map.facilities f
+  WHERE f.latitude IS NULL
+    AND (p_country IS NULL OR f.country = p_country)
+    AND CASE
+      WHEN p_failed_only THEN f.geocode_status = 'failed'
+      ELSE f.address IS NOT NULL AND f.geocode_status <> 'failed'
+    END
+  ORDER BY f.country, f.name
+  LIMIT p_limit;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.asset_map_update_facility_geocode (UUID, DECIMAL, DECIMAL, TEXT, DECIMAL, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.asset_map_update_facility_geocode(
+  p_facility_id UUID,
+  p_latitude DECIMAL(10, 8) DEFAULT NULL,
+  p_longitude DECIMAL(11, 8) DEFAULT NULL,
+  p_geocode_status TEXT DEFAULT 'success',
+  p_geocode_confidence DECIMAL(3, 2) DEFAULT NULL,
+  p_geocode_provider TEXT DEFAULT NULL,
+  p_geocode_query_variant TEXT DEFAULT NULL,
+  p_geocode_strategy TEXT DEFAULT NULL
+) RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  UPDATE asset_map.facilities
+  SET
+    latitude = COALESCE(p_latitude, latitude),
+    longitude = COALESCE(p_longitude, longitude),
+    geocode_status = p_geocode_status,
+    geocode_confidence = p_geocode_confidence,
+    geocode_provider = p_geocode_provider,
+    geocode_query_variant = p_geocode_query_variant,
+    geocode_strategy = p_geocode_strategy,
+    updated_at = NOW()
+  WHERE id = p_facility_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.asset_map_update_facility_geocode FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.asset_map_get_facilities_for_geocoding TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_update_facility_geocode TO service_role;
+
+-- Placing a facility by hand or picking a review candidate replaces the
+-- point a retry rewrite found, so the strategy is cleared with it;
+-- accepting the current point keeps it.
+CREATE OR REPLACE FUNCTION public.set_facility_location (
+  p_facility_id UUID,
+  p_latitude DECIMAL(10, 8),
+  p_longitude DECIMAL(11, 8),
+  p_edited_by TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  UPDATE asset_map.facilities f
+  SET
+    latitude = p_latitude,
+    longitude = p_longitude,
+    geocode_status = 'manual',
+    -- A person looked at the map; nothing to be unsure about
+    geocode_confidence = 1,
+    geocode_provider = NULL,
+    geocode_query_variant = NULL,
+    geocode_strategy = NULL,
+    geocode_edited_by = p_edited_by,
+    geocode_edited_at = NOW(),
+    updated_at = NOW()
+  WHERE f.id = p_facility_id
+  RETURNING row_to_json(f.*)::JSONB INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.review_facility_geocode (
+  p_facility_id UUID,
+  p_decision TEXT,
+  p_reviewed_by TEXT,
+  p_latitude DECIMAL(10, 8) DEFAULT NULL,
+  p_longitude DECIMAL(11, 8) DEFAULT NULL,
+  p_confidence DECIMAL(3, 2) DEFAULT NULL,
+  p_provider TEXT DEFAULT NULL,
+  p_query_variant TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_facility asset_map.facilities%ROWTYPE;
+  result JSONB;
+BEGIN
+  SELECT * INTO v_facility
+  FROM asset_map.facilities
+  WHERE id = p_facility_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_decision = 'accepted' THEN
+    IF v_facility.latitude IS NULL THEN
+      RAISE EXCEPTION 'Facility % has no point to accept', p_facility_id;
+    END IF;
+  ELSIF p_decision IN ('candidate', 'manual') THEN
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+      RAISE EXCEPTION 'A % decision needs a position', p_decision;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown review decision: %', p_decision;
+  END IF;
+
+  INSERT INTO asset_map.geocode_reviews (
+    facility_id,
+    decision,
+    previous_latitude,
+    previous_longitude,
+    previous_status,
+    previous_confidence,
+    previous_provider,
+    latitude,
+    longitude,
+    confidence,
+    provider,
+    query_variant,
+    reviewed_by
+  )
+  VALUES (
+    p_facility_id,
+    p_decision,
+    v_facility.latitude,
+    v_facility.longitude,
+    v_facility.geocode_status,
+    v_facility.geocode_confidence,
+    v_facility.geocode_provider,
+    CASE WHEN p_decision = 'accepted' THEN v_facility.latitude ELSE p_latitude END,
+    CASE WHEN p_decision = 'accepted' THEN v_facility.longitude ELSE p_longitude END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_confidence
+      WHEN p_decision = 'manual' THEN 1
+      ELSE p_confidence
+    END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_provider
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_provider
+    END,
+    CASE
+      WHEN p_decision = 'accepted' THEN v_facility.geocode_query_variant
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_query_variant
+    END,
+    p_reviewed_by
+  );
+
+  UPDATE asset_map.facilities f
+  SET
+    latitude = CASE WHEN p_decision = 'accepted' THEN f.latitude ELSE p_latitude END,
+    longitude = CASE WHEN p_decision = 'accepted' THEN f.longitude ELSE p_longitude END,
+    geocode_status = CASE
+      WHEN p_decision = 'accepted' AND f.geocode_status = 'flagged' THEN 'success'
+      WHEN p_decision = 'accepted' THEN f.geocode_status
+      WHEN p_decision = 'manual' THEN 'manual'
+      ELSE 'success'
+    END,
+    geocode_confidence = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_confidence
+      WHEN p_decision = 'manual' THEN 1
+      ELSE p_confidence
+    END,
+    geocode_provider = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_provider
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_provider
+    END,
+    geocode_query_variant = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_query_variant
+      WHEN p_decision = 'manual' THEN NULL
+      ELSE p_query_variant
+    END,
+    -- Candidates are queried with the address as registered
+    geocode_strategy = CASE
+      WHEN p_decision = 'accepted' THEN f.geocode_strategy
+      ELSE NULL
+    END,
+    geocode_edited_by = CASE
+      WHEN p_decision = 'manual' THEN p_reviewed_by
+      ELSE f.geocode_edited_by
+    END,
+    geocode_edited_at = CASE
+      WHEN p_decision = 'manual' THEN NOW()
+      ELSE f.geocode_edited_at
+    END,
+    geocode_flags = NULL,
+    geocode_reviewed_at = NOW(),
+    geocode_reviewed_by = p_reviewed_by,
+    updated_at = NOW()
+  WHERE f.id = p_facility_id
+  RETURNING row_to_json(f.*)::JSONB INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
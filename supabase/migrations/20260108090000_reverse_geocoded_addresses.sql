@@ -0,0 +1,357 @@
+-- Migration: reverse_geocoded_addresses
+-- Filling in missing address, postal_code and city from a facility's
+-- point (scripts/reverse-geocode.ts, /api/facilities/[id]/reverse-geocode).
+-- Blank fields are filled straight away and the provider that supplied
+-- each one is kept in address_sources. A reverse-geocoded value that
+-- differs from one already stored is never written directly: it waits in
+-- address_proposals until a person accepts or rejects it.
+ALTER TABLE asset_map.facilities
+ADD COLUMN IF NOT EXISTS address_sources JSONB,
+ADD COLUMN IF NOT EXISTS address_reverse_geocoded_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN asset_map.facilities.address_sources IS 'Per address field: {source, set_at, set_by} for values filled by reverse geocoding';
+
+CREATE TABLE asset_map.address_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_id UUID NOT NULL REFERENCES asset_map.facilities (id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('address', 'postal_code', 'city')),
+  -- Stored value when the proposal was made
+  current_value TEXT,
+  proposed_value TEXT NOT NULL,
+  source TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  decided_by TEXT,
+  decided_at TIMESTAMPTZ
+);
+
+-- One open proposal per field; a newer lookup replaces it
+CREATE UNIQUE INDEX idx_address_proposals_pending ON asset_map.address_proposals (facility_id, field)
+WHERE
+  status = 'pending';
+
+COMMENT ON TABLE asset_map.address_proposals IS 'Reverse-geocoded address values waiting to overwrite a stored one';
+
+-- Fill the blank fields from p_fill ([{field, value, source}]) and record
+-- p_proposals ([{field, value, source}]) for fields that hold something
+-- else. Fields filled since the lookup are left alone, and a value a
+-- reviewer already rejected is not proposed again. Returns
+-- {facility, filled, proposed} with the field names written, or NULL if
+-- the facility doesn't exist.
+CREATE OR REPLACE FUNCTION public.apply_reverse_geocode (
+  p_facility_id UUID,
+  p_fill JSONB,
+  p_proposals JSONB,
+  p_set_by TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_facility asset_map.facilities%ROWTYPE;
+  v_fill JSONB;
+  v_filled TEXT[];
+  v_proposed TEXT[];
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_facility
+  FROM asset_map.facilities
+  WHERE id = p_facility_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_object_agg(fl->>'field', fl), '{}'::JSONB),
+    COALESCE(array_agg(fl->>'field'), '{}')
+  INTO v_fill, v_filled
+  FROM jsonb_array_elements(COALESCE(p_fill, '[]'::JSONB)) fl
+  WHERE NULLIF(TRIM(fl->>'value'), '') IS NOT NULL
+    AND NULLIF(
+      TRIM(
+        CASE fl->>'field'
+          WHEN 'address' THEN v_facility.address
+          WHEN 'postal_code' THEN v_facility.postal_code
+          WHEN 'city' THEN v_facility.city
+          -- Unknown fields are never blank, so they are skipped
+          ELSE 'unknown'
+        END
+      ),
+      ''
+    ) IS NULL;
+
+  UPDATE asset_map.facilities f
+  SET
+    address = COALESCE(v_fill->'address'->>'value', f.address),
+    postal_code = COALESCE(v_fill->'postal_code'->>'value', f.postal_code),
+    city = COALESCE(v_fill->'city'->>'value', f.city),
+    address_sources = COALESCE(f.address_sources, '{}'::JSONB) || COALESCE(
+      (
+        SELECT jsonb_object_agg(
+          key,
+          jsonb_build_object(
+            'source', value->>'source',
+            'set_at', NOW(),
+            'set_by', p_set_by
+          )
+        )
+        FROM jsonb_each(v_fill)
+      ),
+      '{}'::JSONB
+    ),
+    address_reverse_geocoded_at = NOW(),
+    updated_at = CASE
+      WHEN cardinality(v_filled) > 0 THEN NOW()
+      ELSE f.updated_at
+    END
+  WHERE f.id = p_facility_id
+  RETURNING row_to_json(f.*)::JSONB INTO v_result;
+
+  WITH proposed AS (
+    INSERT INTO asset_map.address_proposals AS ap (
+      facility_id,
+      field,
+      current_value,
+      proposed_value,
+      source,
+      created_by
+    )
+    SELECT
+      p_facility_id,
+      p->>'field',
+      CASE p->>'field'
+        WHEN 'address' THEN v_facility.address
+        WHEN 'postal_code' THEN v_facility.postal_code
+        WHEN 'city' THEN v_facility.city
+      END,
+      p->>'value',
+      p->>'source',
+      p_set_by
+    FROM jsonb_array_elements(COALESCE(p_proposals, '[]'::JSONB)) p
+    WHERE NULLIF(TRIM(p->>'value'), '') IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1
+        FROM asset_map.address_proposals r
+        WHERE r.facility_id = p_facility_id
+          AND r.field = p->>'field'
+          AND r.status = 'rejected'
+          AND r.proposed_value = p->>'value'
+      )
+    ON CONFLICT (facility_id, field)
+    WHERE
+      status = 'pending' DO UPDATE
+    SET
+      current_value = EXCLUDED.current_value,
+      proposed_value = EXCLUDED.proposed_value,
+      source = EXCLUDED.source,
+      created_by = EXCLUDED.created_by,
+      created_at = NOW()
+    RETURNING ap.field
+  )
+  SELECT COALESCE(array_agg(field), '{}') INTO v_proposed
+  FROM proposed;
+
+  RETURN jsonb_build_object(
+    'facility', v_result,
+    'filled', to_jsonb(v_filled),
+    'proposed', to_jsonb(v_proposed)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.apply_reverse_geocode (UUID, JSONB, JSONB, TEXT)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.apply_reverse_geocode (UUID, JSONB, JSONB, TEXT) TO service_role;
+
+-- Pending proposals with their facility, oldest first. Returns
+-- {total, proposals}.
+CREATE OR REPLACE FUNCTION public.get_address_proposals (
+  p_countries TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+) RETURNS JSONB AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  WITH pending AS (
+    SELECT
+      ap.id,
+      ap.facility_id,
+      f.name AS facility_name,
+      f.country,
+      f.latitude,
+      f.longitude,
+      ap.field,
+      ap.current_value,
+      ap.proposed_value,
+      ap.source,
+      ap.created_by,
+      ap.created_at
+    FROM asset_map.address_proposals ap
+    JOIN asset_map.facilities f ON f.id = ap.facility_id
+    WHERE ap.status = 'pending'
+      AND (p_countries IS NULL OR f.country = ANY (p_countries))
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM pending),
+    'proposals', COALESCE(
+      (
+        SELECT jsonb_agg(row_to_json(q.*))
+        FROM (
+          SELECT *
+          FROM pending
+          ORDER BY created_at, facility_name, field
+          LIMIT p_limit
+          OFFSET p_offset
+        ) q
+      ),
+      '[]'::JSONB
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.get_address_proposals (TEXT[], INTEGER, INTEGER)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.get_address_proposals (TEXT[], INTEGER, INTEGER) TO service_role;
+
+-- Accept (write the proposed value, recording its source) or reject a
+-- pending proposal. Returns the facility row, or NULL if the proposal
+-- doesn't exist or was already decided.
+CREATE OR REPLACE FUNCTION public.decide_address_proposal (
+  p_proposal_id UUID,
+  p_accept BOOLEAN,
+  p_decided_by TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_proposal asset_map.address_proposals%ROWTYPE;
+  result JSONB;
+BEGIN
+  UPDATE asset_map.address_proposals
+  SET
+    status = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+    decided_by = p_decided_by,
+    decided_at = NOW()
+  WHERE id = p_proposal_id
+    AND status = 'pending'
+  RETURNING * INTO v_proposal;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_accept THEN
+    UPDATE asset_map.facilities f
+    SET
+      address = CASE
+        WHEN v_proposal.field = 'address' THEN v_proposal.proposed_value
+        ELSE f.address
+      END,
+      postal_code = CASE
+        WHEN v_proposal.field = 'postal_code' THEN v_proposal.proposed_value
+        ELSE f.postal_code
+      END,
+      city = CASE
+        WHEN v_proposal.field = 'city' THEN v_proposal.proposed_value
+        ELSE f.city
+      END,
+      address_sources = COALESCE(f.address_sources, '{}'::JSONB) || jsonb_build_object(
+        v_proposal.field,
+        jsonb_build_object(
+          'source', v_proposal.source,
+          'set_at', NOW(),
+          'set_by', p_decided_by
+        )
+      ),
+      updated_at = NOW()
+    WHERE f.id = v_proposal.facility_id
+    RETURNING row_to_json(f.*)::JSONB INTO result;
+  ELSE
+    SELECT row_to_json(f.*)::JSONB INTO result
+    FROM asset_map.facilities f
+    WHERE f.id = v_proposal.facility_id;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.decide_address_proposal (UUID, BOOLEAN, TEXT)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.decide_address_proposal (UUID, BOOLEAN, TEXT) TO service_role;
+
+-- Placed facilities missing an address field: hand-placed, or geocoded
+-- from an address point at p_min_confidence or better. Lower-confidence
+-- points sit on a street or area centroid, not on the building. Without
+-- p_all, facilities already looked up are skipped.
+CREATE OR REPLACE FUNCTION public.asset_map_get_facilities_for_reverse_geocoding(
+  p_country TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100,
+  p_all BOOLEAN DEFAULT FALSE,
+  p_min_confidence DECIMAL DEFAULT 0.9
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  country TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  geocode_status TEXT
+) LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.address,
+    f.city,
+    f.postal_code,
+    f.country,
+    f.latitude,
+    f.longitude,
+    f.geocode_status
+  FROM asset_map.facilities f
+  WHERE f.latitude IS NOT NULL
+    AND f.longitude IS NOT NULL
+    AND (p_country IS NULL OR f.country = p_country)
+    AND (
+      f.geocode_status = 'manual'
+      OR (
+        f.geocode_status = 'success'
+        AND COALESCE(f.geocode_confidence, 0) >= p_min_confidence
+      )
+    )
+    AND (
+      NULLIF(TRIM(f.address), '') IS NULL
+      OR NULLIF(TRIM(f.postal_code), '') IS NULL
+      OR NULLIF(TRIM(f.city), '') IS NULL
+    )
+    AND (p_all OR f.address_reverse_geocoded_at IS NULL)
+  ORDER BY f.address_reverse_geocoded_at NULLS FIRST, f.charger_count DESC, f.name
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.asset_map_get_facilities_for_reverse_geocoding FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.asset_map_get_facilities_for_reverse_geocoding TO service_role;
@@ -0,0 +1,364 @@
+-- Migration: geocode_jobs
+-- Background geocoding. POST /api/jobs/geocode queues a job for a country
+-- (or every country) or a list of facilities; each facility becomes a job
+-- item. Workers (scripts/geocode.ts --worker) lease one item at a time, so
+-- an item held by a worker that crashed is picked up again once its lease
+-- runs out. Provider request slots are reserved here rather than in the
+-- worker, so the per-provider rate limits hold across workers and restarts.
+CREATE TABLE asset_map.geocode_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL with no facility_ids: every country
+  country TEXT,
+  facility_ids UUID[],
+  -- Use the retry strategies for facilities that already failed
+  retry_failed BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed')),
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE asset_map.geocode_job_items (
+  job_id UUID NOT NULL REFERENCES asset_map.geocode_jobs (id) ON DELETE CASCADE,
+  facility_id UUID NOT NULL REFERENCES asset_map.facilities (id) ON DELETE CASCADE,
+  -- placed: geocoded; not_found: no provider matched (facility 'failed');
+  -- error: providers kept failing, facility left as it was
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'running', 'placed', 'not_found', 'error')
+  ),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Backoff after a provider error
+  not_before TIMESTAMPTZ,
+  leased_by TEXT,
+  leased_until TIMESTAMPTZ,
+  error TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (job_id, facility_id)
+);
+
+CREATE INDEX idx_geocode_job_items_open ON asset_map.geocode_job_items (job_id)
+WHERE
+  status IN ('pending', 'running');
+
+CREATE INDEX idx_geocode_job_items_facility ON asset_map.geocode_job_items (facility_id)
+WHERE
+  status IN ('pending', 'running');
+
+COMMENT ON TABLE asset_map.geocode_jobs IS 'Queued and finished background geocoding runs';
+
+COMMENT ON TABLE asset_map.geocode_job_items IS 'One facility of a geocoding job, leased by a worker while it runs';
+
+-- Next free request time per provider
+CREATE TABLE asset_map.geocode_provider_slots (
+  provider TEXT PRIMARY KEY,
+  next_request_at TIMESTAMPTZ NOT NULL
+);
+
+-- Jobs with their item counts
+CREATE OR REPLACE VIEW asset_map.geocode_job_progress AS
+SELECT
+  j.id,
+  j.country,
+  CASE
+    WHEN j.facility_ids IS NOT NULL THEN 'facilities'
+    WHEN j.country IS NOT NULL THEN 'country'
+    ELSE 'all'
+  END AS scope,
+  j.retry_failed,
+  j.status,
+  j.created_by,
+  j.created_at,
+  j.started_at,
+  j.finished_at,
+  COUNT(i.facility_id) AS total,
+  COUNT(i.facility_id) FILTER (
+    WHERE
+      i.status IN ('pending', 'running')
+  ) AS remaining,
+  COUNT(i.facility_id) FILTER (
+    WHERE
+      i.status = 'placed'
+  ) AS placed,
+  COUNT(i.facility_id) FILTER (
+    WHERE
+      i.status = 'not_found'
+  ) AS not_found,
+  COUNT(i.facility_id) FILTER (
+    WHERE
+      i.status = 'error'
+  ) AS errors
+FROM
+  asset_map.geocode_jobs j
+  LEFT JOIN asset_map.geocode_job_items i ON i.job_id = j.id
+GROUP BY
+  j.id;
+
+-- Mark jobs without open items as completed
+CREATE OR REPLACE FUNCTION asset_map.complete_finished_geocode_jobs () RETURNS VOID AS $$
+BEGIN
+  UPDATE asset_map.geocode_jobs j
+  SET
+    status = 'completed',
+    finished_at = NOW()
+  WHERE j.status <> 'completed'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM asset_map.geocode_job_items i
+      WHERE i.job_id = j.id
+        AND i.status IN ('pending', 'running')
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Queue a job for p_facility_ids (placed or not), or else the facilities
+-- in p_country (every country when NULL) that need geocoding: unplaced
+-- ones with an address, or with p_retry_failed the ones that failed.
+-- Hand-placed facilities and facilities already waiting in another job
+-- are left out.
+-- Returns the job with its counts, or NULL when there is nothing to do.
+CREATE OR REPLACE FUNCTION public.create_geocode_job (
+  p_country TEXT DEFAULT NULL,
+  p_facility_ids UUID[] DEFAULT NULL,
+  p_retry_failed BOOLEAN DEFAULT FALSE,
+  p_created_by TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_job_id UUID;
+  v_count INTEGER;
+  result JSONB;
+BEGIN
+  INSERT INTO asset_map.geocode_jobs (country, facility_ids, retry_failed, created_by)
+  VALUES (p_country, p_facility_ids, p_retry_failed, p_created_by)
+  RETURNING id INTO v_job_id;
+
+  INSERT INTO asset_map.geocode_job_items (job_id, facility_id)
+  SELECT v_job_id, f.id
+  FROM asset_map.facilities f
+  WHERE f.geocode_status <> 'manual'
+    AND CASE
+      WHEN p_facility_ids IS NOT NULL THEN f.id = ANY (p_facility_ids)
+        AND (p_retry_failed OR f.address IS NOT NULL)
+      ELSE (p_country IS NULL OR f.country = p_country)
+        AND f.latitude IS NULL
+        AND CASE
+          WHEN p_retry_failed THEN f.geocode_status = 'failed'
+          ELSE f.address IS NOT NULL AND f.geocode_status <> 'failed'
+        END
+    END
+    AND NOT EXISTS (
+      SELECT 1
+      FROM asset_map.geocode_job_items i
+      WHERE i.facility_id = f.id
+        AND i.status IN ('pending', 'running')
+    );
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    DELETE FROM asset_map.geocode_jobs WHERE id = v_job_id;
+    RETURN NULL;
+  END IF;
+
+  SELECT row_to_json(p.*)::JSONB INTO result
+  FROM asset_map.geocode_job_progress p
+  WHERE p.id = v_job_id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.create_geocode_job (TEXT, UUID[], BOOLEAN, TEXT)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.create_geocode_job (TEXT, UUID[], BOOLEAN, TEXT) TO service_role;
+
+-- Unfinished jobs and the most recent finished ones, newest first
+CREATE OR REPLACE FUNCTION public.get_geocode_jobs (p_limit INTEGER DEFAULT 5) RETURNS JSONB AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_agg(row_to_json(p.*) ORDER BY p.created_at DESC), '[]'::JSONB)
+  INTO result
+  FROM asset_map.geocode_job_progress p
+  WHERE p.status <> 'completed'
+    OR p.id IN (
+      SELECT j.id
+      FROM asset_map.geocode_jobs j
+      WHERE j.status = 'completed'
+      ORDER BY j.finished_at DESC
+      LIMIT p_limit
+    );
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.get_geocode_jobs (INTEGER)
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.get_geocode_jobs (INTEGER) TO service_role;
+
+-- Lease the next item for p_worker: a pending item past its backoff, or
+-- one whose worker's lease ran out (it crashed or was stopped). Items
+-- that already used p_max_attempts leases are given up first. Returns no
+-- row when there is nothing to do.
+CREATE OR REPLACE FUNCTION public.asset_map_claim_geocode_item(
+  p_worker TEXT,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_max_attempts INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+  job_id UUID,
+  retry_failed BOOLEAN,
+  attempts INTEGER,
+  id UUID,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  country TEXT
+) LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+DECLARE
+  v_job_id UUID;
+  v_facility_id UUID;
+BEGIN
+  UPDATE asset_map.geocode_job_items i
+  SET
+    status = 'error',
+    error = COALESCE(i.error, 'Worker stopped during every attempt'),
+    leased_by = NULL,
+    leased_until = NULL,
+    updated_at = NOW()
+  WHERE i.status = 'running'
+    AND i.leased_until < NOW()
+    AND i.attempts >= p_max_attempts;
+
+  PERFORM asset_map.complete_finished_geocode_jobs();
+
+  SELECT i.job_id, i.facility_id
+  INTO v_job_id, v_facility_id
+  FROM asset_map.geocode_job_items i
+  JOIN asset_map.geocode_jobs j ON j.id = i.job_id
+  WHERE (
+      i.status = 'pending'
+      AND (i.not_before IS NULL OR i.not_before <= NOW())
+    )
+    OR (i.status = 'running' AND i.leased_until < NOW())
+  ORDER BY j.created_at, i.facility_id
+  LIMIT 1
+  FOR UPDATE OF i SKIP LOCKED;
+
+  IF v_job_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE asset_map.geocode_job_items i
+  SET
+    status = 'running',
+    attempts = i.attempts + 1,
+    leased_by = p_worker,
+    leased_until = NOW() + make_interval(secs => p_lease_seconds),
+    updated_at = NOW()
+  WHERE i.job_id = v_job_id
+    AND i.facility_id = v_facility_id;
+
+  UPDATE asset_map.geocode_jobs j
+  SET
+    status = 'running',
+    started_at = COALESCE(j.started_at, NOW())
+  WHERE j.id = v_job_id;
+
+  RETURN QUERY
+  SELECT
+    j.id,
+    j.retry_failed,
+    i.attempts,
+    f.id,
+    f.name,
+    f.address,
+    f.city,
+    f.postal_code,
+    f.country
+  FROM asset_map.geocode_job_items i
+  JOIN asset_map.geocode_jobs j ON j.id = i.job_id
+  JOIN asset_map.facilities f ON f.id = i.facility_id
+  WHERE i.job_id = v_job_id
+    AND i.facility_id = v_facility_id;
+END;
+$$;
+
+-- Record how an item ended: placed, not_found or error, or retry (back to
+-- pending after p_retry_after_seconds). Ignored when p_worker no longer
+-- holds the lease, since another worker has taken the item over.
+CREATE OR REPLACE FUNCTION public.asset_map_finish_geocode_item(
+  p_job_id UUID,
+  p_facility_id UUID,
+  p_worker TEXT,
+  p_status TEXT,
+  p_error TEXT DEFAULT NULL,
+  p_retry_after_seconds INTEGER DEFAULT 60
+) RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  IF p_status NOT IN ('placed', 'not_found', 'error', 'retry') THEN
+    RAISE EXCEPTION 'Unknown geocode job item status: %', p_status;
+  END IF;
+
+  UPDATE asset_map.geocode_job_items i
+  SET
+    status = CASE WHEN p_status = 'retry' THEN 'pending' ELSE p_status END,
+    not_before = CASE
+      WHEN p_status = 'retry' THEN NOW() + make_interval(secs => p_retry_after_seconds)
+    END,
+    error = p_error,
+    leased_by = NULL,
+    leased_until = NULL,
+    updated_at = NOW()
+  WHERE i.job_id = p_job_id
+    AND i.facility_id = p_facility_id
+    AND i.status = 'running'
+    AND i.leased_by = p_worker;
+
+  PERFORM asset_map.complete_finished_geocode_jobs();
+END;
+$$;
+
+-- Reserve the next request slot for a provider, p_interval_ms after the
+-- previous one. Returns how many milliseconds to wait before sending.
+CREATE OR REPLACE FUNCTION public.asset_map_reserve_provider_slot(
+  p_provider TEXT,
+  p_interval_ms INTEGER
+) RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+DECLARE
+  v_interval INTERVAL := make_interval(secs => p_interval_ms / 1000.0);
+  v_next TIMESTAMPTZ;
+BEGIN
+  INSERT INTO asset_map.geocode_provider_slots AS s (provider, next_request_at)
+  VALUES (p_provider, clock_timestamp() + v_interval)
+  ON CONFLICT (provider) DO UPDATE
+  SET next_request_at = GREATEST(s.next_request_at, clock_timestamp()) + v_interval
+  RETURNING s.next_request_at INTO v_next;
+
+  RETURN GREATEST(
+    0,
+    CEIL(EXTRACT(EPOCH FROM (v_next - v_interval - clock_timestamp())) * 1000)
+  )::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.asset_map_claim_geocode_item FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_finish_geocode_item FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.asset_map_reserve_provider_slot FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.asset_map_claim_geocode_item TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_finish_geocode_item TO service_role;
+GRANT EXECUTE ON FUNCTION public.asset_map_reserve_provider_slot TO service_role;
@@ -0,0 +1,54 @@
+-- Migration: hubspot_push
+-- Facility data for the push direction of scripts/sync-hubspot.ts: every
+-- facility matched to a HubSpot company, with its charger counts per
+-- status and its geocode, written to the company's custom properties.
+CREATE OR REPLACE FUNCTION public.asset_map_get_facilities_for_hubspot_push(
+  p_country TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 5000
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  country TEXT,
+  hubspot_id TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  geocode_status TEXT,
+  charger_count INTEGER,
+  chargers_enabled INTEGER,
+  chargers_disabled INTEGER,
+  chargers_out_of_order INTEGER
+) LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'asset_map', 'public' AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.country,
+    f.hubspot_id,
+    f.address,
+    f.city,
+    f.postal_code,
+    f.latitude,
+    f.longitude,
+    f.geocode_status,
+    COUNT(c.id)::INTEGER,
+    (COUNT(c.id) FILTER (WHERE c.status = 'Enabled'))::INTEGER,
+    (COUNT(c.id) FILTER (WHERE c.status = 'Disabled'))::INTEGER,
+    (COUNT(c.id) FILTER (WHERE c.status = 'Out of order'))::INTEGER
+  FROM asset_map.facilities f
+  LEFT JOIN asset_map.chargers c ON c.facility_id = f.id
+  WHERE f.hubspot_id IS NOT NULL
+    AND (p_country IS NULL OR f.country = p_country)
+  GROUP BY f.id
+  ORDER BY f.name
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.asset_map_get_facilities_for_hubspot_push FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.asset_map_get_facilities_for_hubspot_push TO service_role;
@@ -0,0 +1,23 @@
+-- Migration: charger_vendors_rpc
+-- Distinct charger vendors for the sidebar's vendor filter. In vector-tile
+-- mode the browser doesn't load the charger groups it otherwise collects
+-- the vendors from.
+CREATE OR REPLACE FUNCTION public.get_charger_vendors () RETURNS TABLE (vendor TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT c.vendor
+  FROM asset_map.chargers c
+  WHERE c.facility_id IS NOT NULL
+    AND c.vendor IS NOT NULL
+  ORDER BY c.vendor;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE
+EXECUTE ON FUNCTION public.get_charger_vendors ()
+FROM PUBLIC,
+anon,
+authenticated;
+
+GRANT
+EXECUTE ON FUNCTION public.get_charger_vendors () TO service_role;
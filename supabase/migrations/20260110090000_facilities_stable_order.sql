@@ -0,0 +1,136 @@
+-- Migration: facilities_stable_order
+-- Break ties on the facility id, so callers paging with offsets (exports,
+-- the sidebar summary) don't skip or repeat facilities with the same
+-- charger count and name.
+CREATE OR REPLACE FUNCTION public.get_facilities (
+  p_countries TEXT[] DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_geocoded_only BOOLEAN DEFAULT FALSE,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  hubspot_id TEXT,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  country TEXT,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  geocode_status TEXT,
+  geocode_confidence DECIMAL(3, 2),
+  charger_count INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.hubspot_id,
+    f.name,
+    f.address,
+    f.city,
+    f.postal_code,
+    f.country,
+    f.latitude,
+    f.longitude,
+    f.geocode_status,
+    f.geocode_confidence,
+    f.charger_count,
+    f.created_at,
+    f.updated_at
+  FROM asset_map.facilities f
+  WHERE
+    -- Country filter
+    (p_countries IS NULL OR f.country = ANY(p_countries))
+    -- Search filter
+    AND (p_search IS NULL OR f.name ILIKE '%' || p_search || '%')
+    -- Geocoded only filter
+    AND (NOT p_geocoded_only OR (f.latitude IS NOT NULL AND f.longitude IS NOT NULL))
+  ORDER BY f.charger_count DESC, f.name, f.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.get_facilities_filtered (
+  p_countries TEXT[] DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_geocoded_only BOOLEAN DEFAULT FALSE,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_vendors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_charger_types TEXT[] DEFAULT NULL,
+  p_ownerships TEXT[] DEFAULT NULL,
+  p_subscription_types TEXT[] DEFAULT NULL,
+  p_installed_from DATE DEFAULT NULL,
+  p_installed_to DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  hubspot_id TEXT,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  country TEXT,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  geocode_status TEXT,
+  geocode_confidence DECIMAL(3, 2),
+  charger_count INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  matching_charger_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH matching AS (
+    SELECT
+      c.facility_id AS match_facility_id,
+      COUNT(*)::BIGINT AS match_count
+    FROM asset_map.chargers c
+    WHERE c.facility_id IS NOT NULL
+      AND (p_statuses IS NULL OR c.status = ANY(p_statuses))
+      AND (p_vendors IS NULL OR c.vendor = ANY(p_vendors))
+      AND (p_models IS NULL OR c.model = ANY(p_models))
+      AND (p_charger_types IS NULL OR c.charger_type = ANY(p_charger_types))
+      AND (p_ownerships IS NULL OR c.ownership = ANY(p_ownerships))
+      AND (p_subscription_types IS NULL OR c.subscription_type = ANY(p_subscription_types))
+      AND (p_installed_from IS NULL OR c.installed_date >= p_installed_from)
+      AND (p_installed_to IS NULL OR c.installed_date <= p_installed_to)
+    GROUP BY c.facility_id
+  )
+  SELECT
+    f.id,
+    f.hubspot_id,
+    f.name,
+    f.address,
+    f.city,
+    f.postal_code,
+    f.country,
+    f.latitude,
+    f.longitude,
+    f.geocode_status,
+    f.geocode_confidence,
+    f.charger_count,
+    f.created_at,
+    f.updated_at,
+    m.match_count
+  FROM asset_map.facilities f
+  JOIN matching m ON m.match_facility_id = f.id
+  WHERE
+    -- Country filter
+    (p_countries IS NULL OR f.country = ANY(p_countries))
+    -- Search filter
+    AND (p_search IS NULL OR f.name ILIKE '%' || p_search || '%')
+    -- Geocoded only filter
+    AND (NOT p_geocoded_only OR (f.latitude IS NOT NULL AND f.longitude IS NOT NULL))
+  ORDER BY m.match_count DESC, f.name, f.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,185 @@
+-- Migration: facility_tile_geom_index
+-- Select each tile's facilities with the geom column's GIST index
+-- (idx_facilities_geom) instead of comparing latitude and longitude, which
+-- scanned every facility on each tile request at low zoom.
+CREATE OR REPLACE FUNCTION public.get_facility_tile (
+  p_z INTEGER,
+  p_x INTEGER,
+  p_y INTEGER,
+  p_countries TEXT[] DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_vendors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_charger_types TEXT[] DEFAULT NULL,
+  p_ownerships TEXT[] DEFAULT NULL,
+  p_subscription_types TEXT[] DEFAULT NULL,
+  p_installed_from DATE DEFAULT NULL,
+  p_installed_to DATE DEFAULT NULL,
+  p_geocode_statuses TEXT[] DEFAULT NULL,
+  p_cluster_max_zoom INTEGER DEFAULT 12
+) RETURNS TEXT LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET
+  search_path = 'asset_map',
+  'public',
+  'extensions' AS $$
+DECLARE
+  v_envelope GEOMETRY := ST_TileEnvelope(p_z, p_x, p_y);
+  v_bounds GEOMETRY := ST_Transform(v_envelope, 4326);
+  -- 8x8 cluster cells per tile; cells align with tile edges so a cluster
+  -- never straddles two tiles
+  v_cell DOUBLE PRECISION := (ST_XMax(v_envelope) - ST_XMin(v_envelope)) / 8;
+  v_cluster BOOLEAN := p_z <= p_cluster_max_zoom;
+  v_search_pattern TEXT := '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  v_charger_filtered BOOLEAN := p_statuses IS NOT NULL
+    OR p_vendors IS NOT NULL
+    OR p_models IS NOT NULL
+    OR p_charger_types IS NOT NULL
+    OR p_ownerships IS NOT NULL
+    OR p_subscription_types IS NOT NULL
+    OR p_installed_from IS NOT NULL
+    OR p_installed_to IS NOT NULL;
+  result BYTEA;
+BEGIN
+  WITH tile_facilities AS (
+    SELECT
+      f.id,
+      f.name,
+      f.country,
+      f.city,
+      f.address,
+      f.postal_code,
+      f.charger_count,
+      ST_Transform(f.geom, 3857) AS geom
+    FROM asset_map.facilities f
+    WHERE f.geom && v_bounds
+      -- Half-open bounds, so a facility on a tile edge lands in one tile
+      AND f.longitude >= ST_XMin(v_bounds) AND f.longitude < ST_XMax(v_bounds)
+      AND f.latitude >= ST_YMin(v_bounds) AND f.latitude < ST_YMax(v_bounds)
+      AND (p_countries IS NULL OR f.country = ANY(p_countries))
+      AND (
+        p_search IS NULL
+        OR f.name ILIKE v_search_pattern
+        OR f.city ILIKE v_search_pattern
+        OR f.address ILIKE v_search_pattern
+        OR f.postal_code ILIKE v_search_pattern
+      )
+      AND (p_geocode_statuses IS NULL OR f.geocode_status = ANY(p_geocode_statuses))
+  ),
+  charger_stats AS (
+    SELECT
+      c.facility_id,
+      COUNT(*) AS matching_count,
+      COUNT(*) FILTER (WHERE c.status = 'Enabled') AS enabled_count,
+      COUNT(*) FILTER (WHERE c.status = 'Disabled') AS disabled_count,
+      COUNT(*) FILTER (WHERE c.status = 'Out of order') AS out_of_order_count
+    FROM asset_map.chargers c
+    JOIN tile_facilities tf ON tf.id = c.facility_id
+    WHERE (p_statuses IS NULL OR c.status = ANY(p_statuses))
+      AND (p_vendors IS NULL OR c.vendor = ANY(p_vendors))
+      AND (p_models IS NULL OR c.model = ANY(p_models))
+      AND (p_charger_types IS NULL OR c.charger_type = ANY(p_charger_types))
+      AND (p_ownerships IS NULL OR c.ownership = ANY(p_ownerships))
+      AND (p_subscription_types IS NULL OR c.subscription_type = ANY(p_subscription_types))
+      AND (p_installed_from IS NULL OR c.installed_date >= p_installed_from)
+      AND (p_installed_to IS NULL OR c.installed_date <= p_installed_to)
+    GROUP BY c.facility_id
+  ),
+  points AS (
+    SELECT
+      tf.*,
+      -- With charger filters the count reflects only matching chargers
+      CASE
+        WHEN v_charger_filtered THEN cs.matching_count::INTEGER
+        ELSE tf.charger_count
+      END AS shown_count,
+      COALESCE(cs.enabled_count, 0) AS enabled_count,
+      COALESCE(cs.disabled_count, 0) AS disabled_count,
+      COALESCE(cs.out_of_order_count, 0) AS out_of_order_count,
+      CASE
+        WHEN v_cluster THEN floor(ST_X(tf.geom) / v_cell)::TEXT || ':' || floor(ST_Y(tf.geom) / v_cell)::TEXT
+        ELSE tf.id::TEXT
+      END AS cell_key
+    FROM tile_facilities tf
+    LEFT JOIN charger_stats cs ON cs.facility_id = tf.id
+    WHERE NOT v_charger_filtered OR cs.matching_count > 0
+  ),
+  cells AS (
+    SELECT
+      p.cell_key,
+      COUNT(*) AS point_count,
+      ST_Centroid(ST_Collect(p.geom)) AS geom,
+      SUM(p.shown_count)::BIGINT AS total_chargers,
+      COUNT(*) FILTER (WHERE p.country = 'Norway') AS norway_count,
+      COUNT(*) FILTER (WHERE p.country = 'Sweden') AS sweden_count,
+      COUNT(*) FILTER (WHERE p.country = 'Denmark') AS denmark_count,
+      SUM(p.enabled_count)::BIGINT AS enabled_total,
+      SUM(p.disabled_count)::BIGINT AS disabled_total,
+      SUM(p.out_of_order_count)::BIGINT AS out_of_order_total
+    FROM points p
+    GROUP BY p.cell_key
+  ),
+  -- Property names match the client-side GeoJSON source so the same layer
+  -- styles work for both; ST_AsMVT omits NULL properties
+  features AS (
+    SELECT
+      ST_AsMVTGeom(c.geom, v_envelope, 4096, 64, TRUE) AS geom,
+      NULL::TEXT AS id,
+      NULL::TEXT AS name,
+      NULL::TEXT AS country,
+      NULL::TEXT AS city,
+      NULL::TEXT AS address,
+      NULL::TEXT AS postal_code,
+      NULL::INTEGER AS charger_count,
+      NULL::BIGINT AS enabled_count,
+      NULL::BIGINT AS disabled_count,
+      NULL::BIGINT AS out_of_order_count,
+      c.point_count,
+      CASE
+        WHEN c.point_count >= 10000 THEN round(c.point_count / 1000.0)::TEXT || 'k'
+        WHEN c.point_count >= 1000 THEN round(c.point_count / 1000.0, 1)::TEXT || 'k'
+        ELSE c.point_count::TEXT
+      END AS point_count_abbreviated,
+      c.total_chargers,
+      c.norway_count,
+      c.sweden_count,
+      c.denmark_count,
+      c.enabled_total,
+      c.disabled_total,
+      c.out_of_order_total
+    FROM cells c
+    WHERE c.point_count > 1
+    UNION ALL
+    SELECT
+      ST_AsMVTGeom(p.geom, v_envelope, 4096, 64, TRUE) AS geom,
+      p.id::TEXT,
+      p.name,
+      p.country,
+      p.city,
+      p.address,
+      p.postal_code,
+      p.shown_count,
+      p.enabled_count,
+      p.disabled_count,
+      p.out_of_order_count,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      NULL
+    FROM points p
+    JOIN cells c ON c.cell_key = p.cell_key
+    WHERE c.point_count = 1
+  )
+  SELECT ST_AsMVT(features.*, 'facilities', 4096, 'geom')
+  INTO result
+  FROM features
+  WHERE features.geom IS NOT NULL;
+
+  RETURN encode(COALESCE(result, ''::BYTEA), 'base64');
+END;
+$$;
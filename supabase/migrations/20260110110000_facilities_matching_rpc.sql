@@ -0,0 +1,240 @@
+-- Migration: facilities_matching_rpc
+-- Facility query covering every filter the map applies: charger filters,
+-- search over name, city, address and postal code, geocode status, a
+-- bounding box and a drawn selection (polygon or radius). get_facilities,
+-- get_facilities_filtered and get_facilities_in_bbox have no geocode
+-- status or selection parameters.
+
+-- Facilities matching the filters, each with the charger count the map
+-- shows (only filter-matching chargers under charger filters). Geometry
+-- arguments are SRID 4326; a NULL argument skips that filter.
+CREATE OR REPLACE FUNCTION asset_map.matching_facilities (
+  p_countries TEXT[],
+  p_search TEXT,
+  p_geocoded_only BOOLEAN,
+  p_statuses TEXT[],
+  p_vendors TEXT[],
+  p_models TEXT[],
+  p_charger_types TEXT[],
+  p_ownerships TEXT[],
+  p_subscription_types TEXT[],
+  p_installed_from DATE,
+  p_installed_to DATE,
+  p_geocode_statuses TEXT[],
+  p_bbox extensions.GEOMETRY,
+  p_polygon extensions.GEOMETRY,
+  p_center extensions.GEOMETRY,
+  p_radius_km DOUBLE PRECISION
+) RETURNS TABLE (matched_id UUID, shown_count INTEGER) LANGUAGE plpgsql STABLE
+SET
+  search_path = 'asset_map',
+  'public',
+  'extensions' AS $$
+DECLARE
+  v_search_pattern TEXT := '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  v_charger_filtered BOOLEAN := p_statuses IS NOT NULL
+    OR p_vendors IS NOT NULL
+    OR p_models IS NOT NULL
+    OR p_charger_types IS NOT NULL
+    OR p_ownerships IS NOT NULL
+    OR p_subscription_types IS NOT NULL
+    OR p_installed_from IS NOT NULL
+    OR p_installed_to IS NOT NULL;
+BEGIN
+  RETURN QUERY
+  WITH filtered_facilities AS (
+    SELECT f.id, f.charger_count
+    FROM asset_map.facilities f
+    WHERE (p_countries IS NULL OR f.country = ANY(p_countries))
+      AND (
+        p_search IS NULL
+        OR f.name ILIKE v_search_pattern
+        OR f.city ILIKE v_search_pattern
+        OR f.address ILIKE v_search_pattern
+        OR f.postal_code ILIKE v_search_pattern
+      )
+      AND (NOT p_geocoded_only OR f.geom IS NOT NULL)
+      AND (p_geocode_statuses IS NULL OR f.geocode_status = ANY(p_geocode_statuses))
+      AND (p_bbox IS NULL OR f.geom && p_bbox)
+      AND (p_polygon IS NULL OR ST_Intersects(f.geom, p_polygon))
+      AND (p_center IS NULL OR ST_DistanceSphere(f.geom, p_center) <= p_radius_km * 1000)
+  ),
+  matching AS (
+    SELECT
+      c.facility_id AS match_facility_id,
+      COUNT(*)::INTEGER AS match_count
+    FROM asset_map.chargers c
+    JOIN filtered_facilities ff ON ff.id = c.facility_id
+    WHERE v_charger_filtered
+      AND (p_statuses IS NULL OR c.status = ANY(p_statuses))
+      AND (p_vendors IS NULL OR c.vendor = ANY(p_vendors))
+      AND (p_models IS NULL OR c.model = ANY(p_models))
+      AND (p_charger_types IS NULL OR c.charger_type = ANY(p_charger_types))
+      AND (p_ownerships IS NULL OR c.ownership = ANY(p_ownerships))
+      AND (p_subscription_types IS NULL OR c.subscription_type = ANY(p_subscription_types))
+      AND (p_installed_from IS NULL OR c.installed_date >= p_installed_from)
+      AND (p_installed_to IS NULL OR c.installed_date <= p_installed_to)
+    GROUP BY c.facility_id
+  )
+  SELECT
+    ff.id,
+    CASE
+      WHEN v_charger_filtered THEN m.match_count
+      ELSE ff.charger_count
+    END
+  FROM filtered_facilities ff
+  LEFT JOIN matching m ON m.match_facility_id = ff.id
+  WHERE NOT v_charger_filtered OR m.match_count > 0;
+END;
+$$;
+
+-- Only called from the SECURITY DEFINER functions below
+REVOKE
+EXECUTE ON FUNCTION asset_map.matching_facilities (
+  TEXT[],
+  TEXT,
+  BOOLEAN,
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  DATE,
+  DATE,
+  TEXT[],
+  extensions.GEOMETRY,
+  extensions.GEOMETRY,
+  extensions.GEOMETRY,
+  DOUBLE PRECISION
+)
+FROM
+  PUBLIC,
+  anon,
+  authenticated;
+
+-- p_polygon is WKT in lon/lat. A self-intersecting lasso is made valid
+-- first, which keeps the lobes a ray-casting test would count as inside.
+-- The radius is a great-circle distance from (p_center_lng, p_center_lat).
+-- matching_charger_count is the facility's total charger count without
+-- charger filters.
+CREATE OR REPLACE FUNCTION public.get_facilities_matching (
+  p_countries TEXT[] DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_geocoded_only BOOLEAN DEFAULT FALSE,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_vendors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_charger_types TEXT[] DEFAULT NULL,
+  p_ownerships TEXT[] DEFAULT NULL,
+  p_subscription_types TEXT[] DEFAULT NULL,
+  p_installed_from DATE DEFAULT NULL,
+  p_installed_to DATE DEFAULT NULL,
+  p_geocode_statuses TEXT[] DEFAULT NULL,
+  p_min_lng DOUBLE PRECISION DEFAULT NULL,
+  p_min_lat DOUBLE PRECISION DEFAULT NULL,
+  p_max_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_lat DOUBLE PRECISION DEFAULT NULL,
+  p_polygon TEXT DEFAULT NULL,
+  p_center_lng DOUBLE PRECISION DEFAULT NULL,
+  p_center_lat DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  hubspot_id TEXT,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  country TEXT,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  geocode_status TEXT,
+  geocode_confidence DECIMAL(3, 2),
+  charger_count INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  matching_charger_count BIGINT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET
+  search_path = 'asset_map',
+  'public',
+  'extensions' AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.hubspot_id,
+    f.name,
+    f.address,
+    f.city,
+    f.postal_code,
+    f.country,
+    f.latitude,
+    f.longitude,
+    f.geocode_status,
+    f.geocode_confidence,
+    f.charger_count,
+    f.created_at,
+    f.updated_at,
+    mf.shown_count::BIGINT
+  FROM asset_map.matching_facilities(
+    p_countries,
+    p_search,
+    p_geocoded_only,
+    p_statuses,
+    p_vendors,
+    p_models,
+    p_charger_types,
+    p_ownerships,
+    p_subscription_types,
+    p_installed_from,
+    p_installed_to,
+    p_geocode_statuses,
+    CASE
+      WHEN p_min_lng IS NOT NULL THEN ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)
+    END,
+    CASE
+      WHEN p_polygon IS NOT NULL THEN ST_MakeValid(ST_GeomFromText(p_polygon, 4326))
+    END,
+    CASE
+      WHEN p_center_lng IS NOT NULL THEN ST_SetSRID(ST_MakePoint(p_center_lng, p_center_lat), 4326)
+    END,
+    p_radius_km
+  ) mf
+  JOIN asset_map.facilities f ON f.id = mf.matched_id
+  ORDER BY mf.shown_count DESC, f.name, f.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+GRANT
+EXECUTE ON FUNCTION public.get_facilities_matching (
+  TEXT[],
+  TEXT,
+  BOOLEAN,
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  DATE,
+  DATE,
+  TEXT[],
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  TEXT,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  INTEGER,
+  INTEGER
+) TO anon,
+authenticated,
+service_role;
@@ -0,0 +1,96 @@
+-- Migration: facility_stats_rpc
+-- Sidebar statistics per country for the same filters as
+-- get_facilities_matching, so /api/facilities/summary no longer pages
+-- through every matching facility to count them.
+CREATE OR REPLACE FUNCTION public.get_facility_stats (
+  p_countries TEXT[] DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_geocoded_only BOOLEAN DEFAULT FALSE,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_vendors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_charger_types TEXT[] DEFAULT NULL,
+  p_ownerships TEXT[] DEFAULT NULL,
+  p_subscription_types TEXT[] DEFAULT NULL,
+  p_installed_from DATE DEFAULT NULL,
+  p_installed_to DATE DEFAULT NULL,
+  p_geocode_statuses TEXT[] DEFAULT NULL,
+  p_min_lng DOUBLE PRECISION DEFAULT NULL,
+  p_min_lat DOUBLE PRECISION DEFAULT NULL,
+  p_max_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_lat DOUBLE PRECISION DEFAULT NULL,
+  p_polygon TEXT DEFAULT NULL,
+  p_center_lng DOUBLE PRECISION DEFAULT NULL,
+  p_center_lat DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL
+) RETURNS TABLE (
+  country TEXT,
+  facility_count BIGINT,
+  geocoded_count BIGINT,
+  charger_count BIGINT
+) LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET
+  search_path = 'asset_map',
+  'public',
+  'extensions' AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.country,
+    COUNT(*)::BIGINT,
+    COUNT(*) FILTER (WHERE f.latitude IS NOT NULL AND f.longitude IS NOT NULL)::BIGINT,
+    COALESCE(SUM(mf.shown_count), 0)::BIGINT
+  FROM asset_map.matching_facilities(
+    p_countries,
+    p_search,
+    p_geocoded_only,
+    p_statuses,
+    p_vendors,
+    p_models,
+    p_charger_types,
+    p_ownerships,
+    p_subscription_types,
+    p_installed_from,
+    p_installed_to,
+    p_geocode_statuses,
+    CASE
+      WHEN p_min_lng IS NOT NULL THEN ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)
+    END,
+    CASE
+      WHEN p_polygon IS NOT NULL THEN ST_MakeValid(ST_GeomFromText(p_polygon, 4326))
+    END,
+    CASE
+      WHEN p_center_lng IS NOT NULL THEN ST_SetSRID(ST_MakePoint(p_center_lng, p_center_lat), 4326)
+    END,
+    p_radius_km
+  ) mf
+  JOIN asset_map.facilities f ON f.id = mf.matched_id
+  GROUP BY f.country;
+END;
+$$;
+
+GRANT
+EXECUTE ON FUNCTION public.get_facility_stats (
+  TEXT[],
+  TEXT,
+  BOOLEAN,
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  TEXT[],
+  DATE,
+  DATE,
+  TEXT[],
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  TEXT,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION,
+  DOUBLE PRECISION
+) TO anon,
+authenticated,
+service_role;
@@ -0,0 +1,292 @@
+-- Migration: import_batch_facility_images
+-- apply_charger_sync recounted existing facilities without stamping them
+-- with the batch or keeping a before-image, so rolling the batch back left
+-- the new counts in place. Recounted facilities now get an 'update'
+-- change row, and rollback_import_batch restores them from it.
+
+CREATE OR REPLACE FUNCTION public.apply_charger_sync (
+  p_facilities JSONB,
+  p_chargers JSONB,
+  p_removed TEXT[],
+  p_batch JSONB
+) RETURNS JSONB AS $$
+DECLARE
+  v_batch_id UUID;
+  v_facilities_created INTEGER;
+  v_chargers_upserted INTEGER;
+  v_chargers_removed INTEGER;
+  v_facilities_recounted INTEGER;
+BEGIN
+  INSERT INTO asset_map.import_batches (
+    file_name,
+    profile,
+    imported_by,
+    row_count,
+    chargers_added,
+    chargers_changed,
+    chargers_moved,
+    chargers_removed
+  )
+  VALUES (
+    p_batch->>'file_name',
+    p_batch->>'profile',
+    p_batch->>'imported_by',
+    COALESCE((p_batch->>'row_count')::INTEGER, 0),
+    COALESCE((p_batch->>'chargers_added')::INTEGER, 0),
+    COALESCE((p_batch->>'chargers_changed')::INTEGER, 0),
+    COALESCE((p_batch->>'chargers_moved')::INTEGER, 0),
+    COALESCE((p_batch->>'chargers_removed')::INTEGER, 0)
+  )
+  RETURNING id INTO v_batch_id;
+
+  WITH inserted AS (
+    INSERT INTO asset_map.facilities (name, country, geocode_status, import_batch_id)
+    SELECT
+      (f->>'name')::TEXT,
+      (f->>'country')::TEXT,
+      'pending',
+      v_batch_id
+    FROM jsonb_array_elements(p_facilities) AS f
+    ON CONFLICT (name) DO NOTHING
+    RETURNING id
+  )
+  INSERT INTO asset_map.import_batch_changes (batch_id, table_name, row_id, action)
+  SELECT v_batch_id, 'facilities', id, 'insert'
+  FROM inserted;
+  GET DIAGNOSTICS v_facilities_created = ROW_COUNT;
+
+  -- Before-images of the chargers about to be updated
+  INSERT INTO asset_map.import_batch_changes (batch_id, table_name, row_id, action, before_image)
+  SELECT v_batch_id, 'chargers', c.id, 'update', to_jsonb(c)
+  FROM asset_map.chargers c
+  WHERE c.serial_number IN (
+    SELECT x->>'serial_number' FROM jsonb_array_elements(p_chargers) AS x
+  );
+
+  INSERT INTO asset_map.chargers (
+    serial_number,
+    facility_id,
+    country,
+    charger_type,
+    vendor,
+    model,
+    status,
+    subscription_type,
+    ownership,
+    installed_date,
+    import_batch_id
+  )
+  SELECT
+    (c->>'serial_number')::TEXT,
+    fac.id,
+    (c->>'country')::TEXT,
+    (c->>'charger_type')::TEXT,
+    (c->>'vendor')::TEXT,
+    (c->>'model')::TEXT,
+    (c->>'status')::TEXT,
+    (c->>'subscription_type')::TEXT,
+    (c->>'ownership')::TEXT,
+    (c->>'installed_date')::DATE,
+    v_batch_id
+  FROM jsonb_array_elements(p_chargers) AS c
+  LEFT JOIN asset_map.facilities fac ON fac.name = c->>'facility_name'
+  ON CONFLICT (serial_number) DO UPDATE SET
+    facility_id = EXCLUDED.facility_id,
+    country = EXCLUDED.country,
+    charger_type = EXCLUDED.charger_type,
+    vendor = EXCLUDED.vendor,
+    model = EXCLUDED.model,
+    status = EXCLUDED.status,
+    subscription_type = EXCLUDED.subscription_type,
+    ownership = EXCLUDED.ownership,
+    installed_date = EXCLUDED.installed_date,
+    import_batch_id = EXCLUDED.import_batch_id;
+  GET DIAGNOSTICS v_chargers_upserted = ROW_COUNT;
+
+  -- Stamped with this batch but without a before-image: newly inserted
+  INSERT INTO asset_map.import_batch_changes (batch_id, table_name, row_id, action)
+  SELECT v_batch_id, 'chargers', c.id, 'insert'
+  FROM asset_map.chargers c
+  WHERE c.import_batch_id = v_batch_id
+    AND NOT EXISTS (
+      SELECT 1 FROM asset_map.import_batch_changes ch
+      WHERE ch.batch_id = v_batch_id AND ch.row_id = c.id
+    );
+
+  WITH deleted AS (
+    DELETE FROM asset_map.chargers c
+    WHERE c.serial_number = ANY(p_removed)
+    RETURNING c.*
+  )
+  INSERT INTO asset_map.import_batch_changes (batch_id, table_name, row_id, action, before_image)
+  SELECT v_batch_id, 'chargers', d.id, 'delete', to_jsonb(d)
+  FROM deleted d;
+  GET DIAGNOSTICS v_chargers_removed = ROW_COUNT;
+
+  -- Before-images of the existing facilities about to be recounted
+  INSERT INTO asset_map.import_batch_changes (batch_id, table_name, row_id, action, before_image)
+  SELECT v_batch_id, 'facilities', f.id, 'update', to_jsonb(f)
+  FROM asset_map.facilities f
+  JOIN (
+    SELECT f2.id, COUNT(c.id)::INTEGER AS charger_count
+    FROM asset_map.facilities f2
+    LEFT JOIN asset_map.chargers c ON c.facility_id = f2.id
+    GROUP BY f2.id
+  ) counts ON counts.id = f.id
+  WHERE f.charger_count IS DISTINCT FROM counts.charger_count
+    AND NOT EXISTS (
+      SELECT 1 FROM asset_map.import_batch_changes ch
+      WHERE ch.batch_id = v_batch_id AND ch.row_id = f.id
+    );
+
+  -- Keep the denormalised facility counts in step with the chargers
+  UPDATE asset_map.facilities f
+  SET
+    charger_count = counts.charger_count,
+    import_batch_id = v_batch_id
+  FROM (
+    SELECT f2.id, COUNT(c.id)::INTEGER AS charger_count
+    FROM asset_map.facilities f2
+    LEFT JOIN asset_map.chargers c ON c.facility_id = f2.id
+    GROUP BY f2.id
+  ) counts
+  WHERE counts.id = f.id
+    AND f.charger_count IS DISTINCT FROM counts.charger_count;
+  GET DIAGNOSTICS v_facilities_recounted = ROW_COUNT;
+
+  UPDATE asset_map.import_batches
+  SET facilities_created = v_facilities_created
+  WHERE id = v_batch_id;
+
+  RETURN jsonb_build_object(
+    'batch_id', v_batch_id,
+    'facilities_created', v_facilities_created,
+    'chargers_upserted', v_chargers_upserted,
+    'chargers_removed', v_chargers_removed,
+    'facilities_recounted', v_facilities_recounted
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.rollback_import_batch (
+  p_batch_id UUID,
+  p_rolled_back_by TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_batch asset_map.import_batches;
+  v_later INTEGER;
+  v_chargers_deleted INTEGER;
+  v_chargers_restored INTEGER;
+  v_chargers_reinserted INTEGER;
+  v_facilities_restored INTEGER;
+  v_facilities_deleted INTEGER;
+BEGIN
+  SELECT * INTO v_batch
+  FROM asset_map.import_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+  IF v_batch.status <> 'applied' THEN
+    RAISE EXCEPTION 'Import batch % is already rolled back', p_batch_id;
+  END IF;
+
+  SELECT COUNT(*) INTO v_later
+  FROM asset_map.import_batches
+  WHERE status = 'applied' AND created_at > v_batch.created_at;
+  IF v_later > 0 THEN
+    RAISE EXCEPTION 'Roll back the % later import batch(es) first', v_later;
+  END IF;
+
+  DELETE FROM asset_map.chargers c
+  USING asset_map.import_batch_changes ch
+  WHERE ch.batch_id = p_batch_id
+    AND ch.table_name = 'chargers'
+    AND ch.action = 'insert'
+    AND c.id = ch.row_id;
+  GET DIAGNOSTICS v_chargers_deleted = ROW_COUNT;
+
+  UPDATE asset_map.chargers c
+  SET
+    facility_id = r.facility_id,
+    country = r.country,
+    charger_type = r.charger_type,
+    vendor = r.vendor,
+    model = r.model,
+    status = r.status,
+    subscription_type = r.subscription_type,
+    ownership = r.ownership,
+    installed_date = r.installed_date,
+    import_batch_id = r.import_batch_id
+  FROM asset_map.import_batch_changes ch,
+    jsonb_populate_record(NULL::asset_map.chargers, ch.before_image) r
+  WHERE ch.batch_id = p_batch_id
+    AND ch.table_name = 'chargers'
+    AND ch.action = 'update'
+    AND c.id = ch.row_id;
+  GET DIAGNOSTICS v_chargers_restored = ROW_COUNT;
+
+  INSERT INTO asset_map.chargers
+  SELECT r.*
+  FROM asset_map.import_batch_changes ch,
+    jsonb_populate_record(NULL::asset_map.chargers, ch.before_image) r
+  WHERE ch.batch_id = p_batch_id
+    AND ch.table_name = 'chargers'
+    AND ch.action = 'delete'
+  ON CONFLICT (serial_number) DO NOTHING;
+  GET DIAGNOSTICS v_chargers_reinserted = ROW_COUNT;
+
+  -- Only the columns the sync writes; geocoding since the batch is kept
+  UPDATE asset_map.facilities f
+  SET
+    charger_count = r.charger_count,
+    import_batch_id = r.import_batch_id
+  FROM asset_map.import_batch_changes ch,
+    jsonb_populate_record(NULL::asset_map.facilities, ch.before_image) r
+  WHERE ch.batch_id = p_batch_id
+    AND ch.table_name = 'facilities'
+    AND ch.action = 'update'
+    AND f.id = ch.row_id;
+  GET DIAGNOSTICS v_facilities_restored = ROW_COUNT;
+
+  -- Facilities the batch created, unless something still points at them
+  DELETE FROM asset_map.facilities f
+  USING asset_map.import_batch_changes ch
+  WHERE ch.batch_id = p_batch_id
+    AND ch.table_name = 'facilities'
+    AND ch.action = 'insert'
+    AND f.id = ch.row_id
+    AND NOT EXISTS (
+      SELECT 1 FROM asset_map.chargers c WHERE c.facility_id = f.id
+    );
+  GET DIAGNOSTICS v_facilities_deleted = ROW_COUNT;
+
+  UPDATE asset_map.facilities f
+  SET charger_count = counts.charger_count
+  FROM (
+    SELECT f2.id, COUNT(c.id)::INTEGER AS charger_count
+    FROM asset_map.facilities f2
+    LEFT JOIN asset_map.chargers c ON c.facility_id = f2.id
+    GROUP BY f2.id
+  ) counts
+  WHERE counts.id = f.id
+    AND f.charger_count IS DISTINCT FROM counts.charger_count;
+
+  UPDATE asset_map.import_batches
+  SET
+    status = 'rolled_back',
+    rolled_back_at = NOW(),
+    rolled_back_by = p_rolled_back_by
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object(
+    'chargers_deleted', v_chargers_deleted,
+    'chargers_restored', v_chargers_restored,
+    'chargers_reinserted', v_chargers_reinserted,
+    'facilities_restored', v_facilities_restored,
+    'facilities_deleted', v_facilities_deleted
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;